@@ -8,7 +8,6 @@ import {
   ChevronRight, 
   LogOut,
   User as UserIcon,
-  Bell,
   Loader2,
   Camera,
   ClipboardList,
@@ -16,9 +15,13 @@ import {
   ShieldCheck,
   Lock,
   Globe,
-  Activity
+  Activity,
+  ShoppingCart,
+  Truck,
+  Receipt,
+  History
 } from 'lucide-react';
-import { ViewType, Profile } from './types';
+import { ViewType, Profile, Email } from './types';
 import { getSupabaseClient } from './lib/supabase';
 import Setup from './views/Setup';
 import Inventory from './views/Inventory';
@@ -26,6 +29,19 @@ import Dashboard from './views/Dashboard';
 import Auth from './views/Auth';
 import Tasks from './views/Tasks';
 import Emails from './views/Emails';
+import Replenishment from './views/Replenishment';
+import Purchasing from './views/Purchasing';
+import SalesOrders from './views/SalesOrders';
+import Audit from './views/Audit';
+import NotificationCenter from './components/NotificationCenter';
+import AccessControlPanel from './components/AccessControlPanel';
+import OrganizationPanel from './components/OrganizationPanel';
+import { canView, getRoleMeta, resolveRole } from './lib/permissions';
+import { getLinkedView, setLinkedView, setUrlParams } from './lib/urlState';
+import { acceptPendingInvitations, applyMembership, fetchMemberships, switchOrganization } from './lib/organizations';
+import { fetchUnreadThreadCount } from './lib/emailFolders';
+import { EmailDraft } from './lib/emailLinks';
+import { threadKeyOf } from './lib/emailThreads';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewType>('auth');
@@ -34,6 +50,8 @@ const App: React.FC = () => {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [isUploadingAvatar, setIsUploadingAvatar] = useState(false);
+  const [unreadMail, setUnreadMail] = useState(0);
+  const [composeDraft, setComposeDraft] = useState<EmailDraft | null>(null);
   
   const avatarInputRef = useRef<HTMLInputElement>(null);
 
@@ -49,13 +67,20 @@ const App: React.FC = () => {
       // Deep fetch including the new email column from profiles as per SQL update
       const { data, error } = await supabase
         .from('profiles')
-        .select('id, full_name, avatar_url, email, updated_at')
+        .select('id, full_name, avatar_url, email, active_org_id, updated_at')
         .eq('id', userId)
         .maybeSingle();
       
       if (error) throw error;
       if (data) {
-        setProfile(data);
+        // Redeem invitations first so a newly invited operator lands in the organization that invited them
+        await acceptPendingInvitations(supabase).catch(err => console.error("Invitation redeem failure:", err.message));
+        const memberships = await fetchMemberships(supabase, userId).catch(() => []);
+        const scoped = applyMembership(data, memberships);
+        if (scoped.active_org_id && scoped.active_org_id !== data.active_org_id) {
+          await switchOrganization(supabase, scoped.active_org_id).catch(err => console.error("Org sync failure:", err.message));
+        }
+        setProfile(scoped);
       } else {
         // Fallback for new accounts if trigger hasn't finished
         const { data: { user } } = await supabase.auth.getUser();
@@ -84,7 +109,8 @@ const App: React.FC = () => {
       const filePath = `${session.user.id}/avatar-${Date.now()}.${fileExt}`;
       await supabase.storage.from('avatars').upload(filePath, file, { upsert: true });
       const { data: { publicUrl } } = supabase.storage.from('avatars').getPublicUrl(filePath);
-      await supabase.from('profiles').update({ avatar_url: publicUrl }).eq('id', session.user.id);
+      const { error } = await supabase.from('profiles').update({ avatar_url: publicUrl }).eq('id', session.user.id);
+      if (error) throw error;
       setProfile(prev => prev ? { ...prev, avatar_url: publicUrl } : null);
     } catch (err: any) { alert(err.message); } finally { setIsUploadingAvatar(false); }
   };
@@ -99,7 +125,8 @@ const App: React.FC = () => {
         setSession(currentSession);
         if (currentSession) {
           await fetchProfile(currentSession.user.id);
-          setCurrentView('dashboard');
+          // A shared link opens on the view it names; the role guard below falls back to the dashboard
+          setCurrentView(getLinkedView() || 'dashboard');
         } else {
           setCurrentView('auth');
         }
@@ -121,6 +148,60 @@ const App: React.FC = () => {
 
   useEffect(() => { checkConnection(); }, []);
 
+  // A role change can revoke the view the operator is sitting on
+  useEffect(() => {
+    if (session && profile && !canView(profile, currentView)) setCurrentView('dashboard');
+  }, [profile, currentView]);
+
+  useEffect(() => {
+    if (session) setLinkedView(currentView);
+  }, [currentView]);
+
+  // Unread Comms Node threads for the sidebar badge; new and re-read copies arrive as recipient row changes
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    const userId = session?.user.id;
+    if (!supabase || !userId) return;
+
+    const loadUnread = () => fetchUnreadThreadCount(supabase, userId, profile?.email || session.user.email || null)
+      .then(setUnreadMail)
+      .catch(err => console.error("Unread mail count failure:", err.message));
+    loadUnread();
+
+    const channel = supabase
+      .channel(`mailbox-${userId}`)
+      .on('postgres_changes', { event: '*', table: 'email_recipients', schema: 'public', filter: `profile_id=eq.${userId}` }, () => {
+        loadUnread();
+      })
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, [session?.user.id, profile?.active_org_id]);
+
+  // Record panels hand off to the Comms Node: opening a message lands on its thread, composing opens a prefilled draft
+  const openMessage = (email: Email) => {
+    setUrlParams({ thread: threadKeyOf(email) });
+    setCurrentView('emails');
+  };
+
+  const composeMessage = (draft: EmailDraft) => {
+    setComposeDraft(draft);
+    setCurrentView('emails');
+  };
+
+  const handleSwitchOrg = async (orgId: string) => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !session) return;
+    try {
+      await switchOrganization(supabase, orgId);
+      await fetchProfile(session.user.id);
+    } catch (err: any) {
+      alert("Organization switch failed: " + err.message);
+    }
+  };
+
+  const activeOrgName = profile?.memberships?.find(m => m.org_id === profile.active_org_id)?.organization?.name;
+
   const handleLogout = async () => {
     const supabase = getSupabaseClient();
     if (supabase) await supabase.auth.signOut();
@@ -129,7 +210,7 @@ const App: React.FC = () => {
     setCurrentView('auth');
   };
 
-  const SidebarItem: React.FC<{ id: ViewType; icon: React.ReactNode; label: string; active: boolean; }> = ({ id, icon, label, active }) => (
+  const SidebarItem: React.FC<{ id: ViewType; icon: React.ReactNode; label: string; active: boolean; badge?: number; }> = ({ id, icon, label, active, badge }) => !canView(profile, id) ? null : (
     <button
       onClick={() => setCurrentView(id)}
       disabled={!session && id !== 'auth' && id !== 'setup'}
@@ -139,6 +220,9 @@ const App: React.FC = () => {
     >
       <div className={`${active ? 'text-white' : 'text-slate-400 group-hover:text-blue-500'}`}>{icon}</div>
       <span className="font-black text-[11px] uppercase tracking-widest">{label}</span>
+      {!!badge && (
+        <span className={`ml-auto text-[9px] font-black px-2 py-0.5 rounded-full ${active ? 'bg-white/20 text-white' : 'bg-blue-600 text-white'}`}>{badge > 99 ? '99+' : badge}</span>
+      )}
     </button>
   );
 
@@ -179,7 +263,11 @@ const App: React.FC = () => {
             <SidebarItem id="dashboard" icon={<LayoutDashboard size={20} />} label="Terminal" active={currentView === 'dashboard'} />
             <SidebarItem id="tasks" icon={<Activity size={20} />} label="Pipeline" active={currentView === 'tasks'} />
             <SidebarItem id="inventory" icon={<Package size={20} />} label="Asset Ledger" active={currentView === 'inventory'} />
-            <SidebarItem id="emails" icon={<Mail size={20} />} label="Comms Node" active={currentView === 'emails'} />
+            <SidebarItem id="sales" icon={<Receipt size={20} />} label="Order Book" active={currentView === 'sales'} />
+            <SidebarItem id="purchasing" icon={<Truck size={20} />} label="Procurement" active={currentView === 'purchasing'} />
+            <SidebarItem id="replenishment" icon={<ShoppingCart size={20} />} label="Replenishment" active={currentView === 'replenishment'} />
+            <SidebarItem id="emails" icon={<Mail size={20} />} label="Comms Node" active={currentView === 'emails'} badge={unreadMail} />
+            <SidebarItem id="audit" icon={<History size={20} />} label="Audit Trail" active={currentView === 'audit'} />
           </nav>
 
           <div className="mt-auto pt-6 border-t border-slate-100 space-y-4">
@@ -211,7 +299,7 @@ const App: React.FC = () => {
         {(isConnected && session) && (
           <header className="h-20 bg-white/80 backdrop-blur-md border-b border-slate-200 flex items-center justify-between px-10 sticky top-0 z-10">
             <div className="flex items-center space-x-3 text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">
-              <span className="cursor-pointer hover:text-blue-600 transition-colors" onClick={() => setCurrentView('dashboard')}>NETWORK</span>
+              <span className="cursor-pointer hover:text-blue-600 transition-colors" onClick={() => setCurrentView('dashboard')}>{activeOrgName || 'NETWORK'}</span>
               <ChevronRight size={14} className="text-slate-300" />
               <span className="text-slate-900 bg-slate-100 px-3 py-1 rounded-full">{currentView}</span>
             </div>
@@ -224,10 +312,7 @@ const App: React.FC = () => {
                 </p>
               </div>
               <div className="flex items-center space-x-4 border-l border-slate-100 pl-8">
-                <button className="p-3 text-slate-400 hover:bg-slate-50 hover:text-blue-600 rounded-2xl transition-all relative group">
-                   <div className="w-2.5 h-2.5 bg-blue-500 rounded-full absolute top-2 right-2 border-2 border-white shadow-sm"></div>
-                   <Bell size={22} className="group-hover:rotate-12 transition-transform" />
-                </button>
+                <NotificationCenter key={`${session.user.id}-${profile?.active_org_id || ''}`} userId={session.user.id} onNavigate={setCurrentView} />
                 <div className="w-12 h-12 rounded-[1.2rem] bg-slate-100 border-2 border-white overflow-hidden flex items-center justify-center shadow-md cursor-pointer hover:border-blue-500 hover:scale-105 transition-all" onClick={() => setCurrentView('settings')}>
                   {profile?.avatar_url ? (
                     <img src={getImageUrl(profile.avatar_url)!} className="w-full h-full object-cover" />
@@ -240,13 +325,17 @@ const App: React.FC = () => {
           </header>
         )}
 
-        <div className="flex-1 overflow-y-auto p-10 bg-[#f8fafc]">
+        <div key={profile?.active_org_id || 'no-org'} className="flex-1 overflow-y-auto p-10 bg-[#f8fafc]">
           {!isConnected && <Setup onConnected={checkConnection} />}
           {isConnected && currentView === 'auth' && !session && <Auth onAuthenticated={checkConnection} />}
           {isConnected && session && currentView === 'dashboard' && <Dashboard />}
-          {isConnected && session && currentView === 'inventory' && <Inventory isConnected={isConnected} />}
-          {isConnected && session && currentView === 'tasks' && <Tasks />}
-          {isConnected && session && currentView === 'emails' && <Emails />}
+          {isConnected && session && currentView === 'inventory' && canView(profile, 'inventory') && <Inventory isConnected={isConnected} profile={profile} onOpenMessage={openMessage} onComposeMessage={composeMessage} />}
+          {isConnected && session && currentView === 'sales' && canView(profile, 'sales') && <SalesOrders profile={profile} />}
+          {isConnected && session && currentView === 'purchasing' && canView(profile, 'purchasing') && <Purchasing profile={profile} />}
+          {isConnected && session && currentView === 'replenishment' && canView(profile, 'replenishment') && <Replenishment profile={profile} />}
+          {isConnected && session && currentView === 'tasks' && canView(profile, 'tasks') && <Tasks profile={profile} onOpenMessage={openMessage} onComposeMessage={composeMessage} />}
+          {isConnected && session && currentView === 'emails' && <Emails profile={profile} onUnreadCountChange={setUnreadMail} draft={composeDraft} onDraftOpened={() => setComposeDraft(null)} />}
+          {isConnected && session && currentView === 'audit' && canView(profile, 'audit') && <Audit profile={profile} />}
           
           {isConnected && session && currentView === 'settings' && (
              <div className="max-w-5xl mx-auto py-6 animate-in fade-in slide-in-from-bottom-6 duration-700">
@@ -306,7 +395,7 @@ const App: React.FC = () => {
                           <h2 className="text-2xl font-black text-slate-900 tracking-tighter mb-1">{profile?.full_name || 'System Operator'}</h2>
                           <div className="inline-flex items-center space-x-2 px-4 py-1.5 bg-blue-50 rounded-full border border-blue-100">
                              <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                             <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">Level 4 Operator</span>
+                             <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">{getRoleMeta(resolveRole(profile)).label}</span>
                           </div>
                         </div>
                       </div>
@@ -378,6 +467,10 @@ const App: React.FC = () => {
                        </div>
                     </div>
 
+                    {profile && <OrganizationPanel profile={profile} onSwitch={handleSwitchOrg} />}
+
+                    {profile && <AccessControlPanel profile={profile} onChanged={() => fetchProfile(profile.id)} />}
+
                     <div className="bg-rose-50 p-10 rounded-[3.5rem] border border-rose-100 flex items-center justify-between group cursor-pointer hover:bg-rose-100 transition-all duration-300 shadow-sm hover:shadow-xl hover:shadow-rose-500/5">
                        <div className="flex items-center space-x-6">
                           <div className="p-5 bg-white rounded-3xl text-rose-600 shadow-xl group-hover:scale-110 transition-transform">
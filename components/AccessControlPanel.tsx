@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldCheck, Loader2, User as UserIcon, Code2, Copy, CheckCircle2, UserPlus, UserMinus, Clock, X } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { OrgInvitation, Profile, UserRole } from '../types';
+import { ROLES, buildRlsPolicies, can, getRoleMeta, resolveRole } from '../lib/permissions';
+import { fetchInvitations, fetchOrgMembers, inviteMember, removeMember, revokeInvitation, updateMemberAccess } from '../lib/organizations';
+import { PIPELINE_DEPARTMENTS } from '../lib/pipeline';
+import { buildSchemaMigration } from '../lib/schema';
+
+interface AccessControlPanelProps {
+  profile: Profile;
+  onChanged: () => void;
+}
+
+const EMPTY_INVITE: { email: string; role: UserRole; department: Profile['department'] } = { email: '', role: 'viewer', department: null };
+
+const AccessControlPanel: React.FC<AccessControlPanelProps> = ({ profile, onChanged }) => {
+  const [operators, setOperators] = useState<Profile[]>([]);
+  const [invitations, setInvitations] = useState<OrgInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [showSql, setShowSql] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [invite, setInvite] = useState(EMPTY_INVITE);
+  const [isInviting, setIsInviting] = useState(false);
+  const orgId = profile.active_org_id;
+
+  const fetchOperators = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !orgId) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const [members, pending] = await Promise.all([
+        fetchOrgMembers(supabase, orgId),
+        can(profile, 'roles.manage') ? fetchInvitations(supabase, orgId) : Promise.resolve([])
+      ]);
+      setOperators(members);
+      setInvitations(pending);
+    } catch (err: any) {
+      console.error('Operator fetch error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchOperators(); }, [orgId]);
+
+  // Until an organization has an admin the script is the only way in, so any operator may generate it
+  const bootstrapping = !loading && (!orgId || !operators.some(o => o.role === 'admin'));
+  const canManage = can(profile, 'roles.manage');
+  if (!canManage && !bootstrapping) return null;
+
+  const run = async (id: string, action: () => Promise<void>, failure: string) => {
+    setSavingId(id);
+    try {
+      await action();
+      await fetchOperators();
+    } catch (err: any) {
+      alert(failure + ": " + err.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleChange = (operator: Profile, patch: { role: UserRole; department?: Profile['department'] }) => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !orgId) return;
+    if (operator.id === profile.id && patch.role !== 'admin' && !confirm("You are removing your own admin access. Continue?")) return;
+    run(operator.id, async () => {
+      await updateMemberAccess(supabase, orgId, operators, operator.id, patch);
+      if (operator.id === profile.id) onChanged();
+    }, "Access update failed");
+  };
+
+  const handleRemove = (operator: Profile) => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !orgId) return;
+    if (!confirm(`Remove ${operator.full_name || operator.email} from this organization?`)) return;
+    run(operator.id, async () => {
+      await removeMember(supabase, orgId, operators, operator.id);
+    }, "Remove failed");
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const supabase = getSupabaseClient();
+    if (!supabase || !orgId) return;
+    setIsInviting(true);
+    try {
+      await inviteMember(supabase, orgId, operators, invite);
+      setInvite(EMPTY_INVITE);
+      await fetchOperators();
+    } catch (err: any) {
+      alert("Invitation failed: " + err.message);
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = (invitation: OrgInvitation) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    run(invitation.id, async () => {
+      await revokeInvitation(supabase, invitation.id);
+    }, "Revoke failed");
+  };
+
+  // The migration creates what the policies refer to, so the two always run together and in this order
+  const script = `${buildSchemaMigration(bootstrapping ? profile.id : undefined)}\n${buildRlsPolicies()}`;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(script);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white p-12 rounded-[3.5rem] border border-slate-200 shadow-xl">
+      <div className="flex items-center justify-between mb-10 pb-6 border-b border-slate-50">
+        <div className="flex items-center space-x-4">
+          <div className="p-4 bg-slate-50 rounded-2xl text-slate-400">
+            <ShieldCheck size={24} />
+          </div>
+          <div>
+            <h3 className="font-black text-2xl text-slate-900 tracking-tight">Access Control</h3>
+            <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mt-1">Members, Roles & Database Policies</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowSql(!showSql)}
+          className={`flex items-center space-x-2 px-5 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${showSql ? 'bg-slate-900 text-white' : 'border border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+        >
+          <Code2 size={14} />
+          <span>RLS Script</span>
+        </button>
+      </div>
+
+      {bootstrapping && (
+        <div className="mb-8 p-5 bg-amber-50 border border-amber-100 rounded-3xl text-[11px] font-bold text-amber-700 leading-relaxed">
+          {orgId
+            ? 'This organization has no admin yet. Run the RLS script in the Supabase SQL editor; it promotes you to admin.'
+            : 'Organizations are not set up yet. Run the RLS script in the Supabase SQL editor; it moves existing data into a first organization with you as admin.'}
+        </div>
+      )}
+
+      {showSql ? (
+        <div className="relative">
+          <button onClick={handleCopy} className="absolute top-4 right-4 flex items-center space-x-2 px-4 py-2 bg-white/10 text-white rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-white/20">
+            {copied ? <CheckCircle2 size={12} /> : <Copy size={12} />}
+            <span>{copied ? 'Copied' : 'Copy'}</span>
+          </button>
+          <pre className="bg-slate-900 text-slate-300 text-[10px] font-mono leading-relaxed p-8 rounded-3xl max-h-[28rem] overflow-auto">{script}</pre>
+        </div>
+      ) : loading ? (
+        <div className="flex justify-center p-10"><Loader2 className="animate-spin text-blue-500" size={32} /></div>
+      ) : (
+        <div className="space-y-8">
+          {canManage && (
+            <form onSubmit={handleInvite} className="flex items-center space-x-3">
+              <input
+                type="email"
+                required
+                value={invite.email}
+                onChange={e => setInvite({ ...invite, email: e.target.value })}
+                className="flex-1 px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-bold outline-none focus:ring-4 focus:ring-blue-500/10 placeholder:text-slate-300"
+                placeholder="operator@factory.com"
+              />
+              {invite.role === 'supervisor' && (
+                <select
+                  value={invite.department || ''}
+                  onChange={e => setInvite({ ...invite, department: (e.target.value || null) as Profile['department'] })}
+                  className="px-4 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase outline-none cursor-pointer"
+                >
+                  <option value="">No department</option>
+                  {PIPELINE_DEPARTMENTS.map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+              )}
+              <select
+                value={invite.role}
+                onChange={e => setInvite({ ...invite, role: e.target.value as UserRole })}
+                className="px-4 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase outline-none cursor-pointer"
+              >
+                {ROLES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+              </select>
+              <button type="submit" disabled={isInviting} className="flex items-center space-x-2 px-5 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-50">
+                {isInviting ? <Loader2 className="animate-spin" size={14} /> : <UserPlus size={14} />}
+                <span>Invite</span>
+              </button>
+            </form>
+          )}
+
+          {invitations.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] ml-2">Pending Invitations</p>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between px-5 py-3 border border-dashed border-slate-200 rounded-2xl">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Clock size={14} className="text-slate-300 shrink-0" />
+                    <span className="text-xs font-bold text-slate-600 truncate">{invitation.email}</span>
+                    <span className={`px-2 py-0.5 rounded-md border text-[9px] font-black uppercase ${getRoleMeta(invitation.role).color}`}>{getRoleMeta(invitation.role).label}</span>
+                  </div>
+                  <button onClick={() => handleRevoke(invitation)} className="p-2 text-slate-300 hover:text-rose-500" title="Revoke">
+                    {savingId === invitation.id ? <Loader2 className="animate-spin" size={14} /> : <X size={14} />}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {operators.map(operator => {
+              const role = resolveRole(operator);
+              return (
+                <div key={operator.id} className="flex items-center justify-between p-4 bg-slate-50 border border-slate-100 rounded-3xl">
+                  <div className="flex items-center space-x-4 min-w-0">
+                    <div className="w-10 h-10 rounded-xl bg-white overflow-hidden border border-slate-200 flex items-center justify-center shrink-0">
+                      {operator.avatar_url ? <img src={operator.avatar_url} className="w-full h-full object-cover" /> : <UserIcon size={16} className="text-slate-300" />}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="text-xs font-black text-slate-900 truncate">{operator.full_name || 'Unnamed Operator'}</p>
+                      <p className="text-[10px] text-slate-400 font-bold truncate">{operator.email}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3 shrink-0">
+                    {savingId === operator.id && <Loader2 className="animate-spin text-blue-500" size={16} />}
+                    {role === 'supervisor' && (
+                      <select
+                        value={operator.department || ''}
+                        disabled={!canManage}
+                        onChange={e => handleChange(operator, { role, department: (e.target.value || null) as Profile['department'] })}
+                        className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[10px] font-black uppercase outline-none cursor-pointer disabled:opacity-50"
+                      >
+                        <option value="">No department</option>
+                        {PIPELINE_DEPARTMENTS.map(d => <option key={d} value={d}>{d}</option>)}
+                      </select>
+                    )}
+                    <select
+                      value={role}
+                      disabled={!canManage}
+                      onChange={e => handleChange(operator, { role: e.target.value as UserRole, department: operator.department })}
+                      className={`px-4 py-2 border rounded-xl text-[10px] font-black uppercase outline-none cursor-pointer disabled:opacity-50 ${getRoleMeta(role).color}`}
+                    >
+                      {ROLES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                    </select>
+                    {canManage && operator.id !== profile.id && (
+                      <button onClick={() => handleRemove(operator)} className="p-2 text-slate-300 hover:text-rose-500 transition-all" title="Remove from organization">
+                        <UserMinus size={16} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessControlPanel;
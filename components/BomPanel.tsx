@@ -0,0 +1,234 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Network, Plus, Trash2, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { BomLine, InventoryItem } from '../types';
+import { addBomLine, deleteBomLine, explodeBom, fetchAllBomLines, grossRequirement, hasShortage, maxBuildable } from '../lib/bom';
+import { fetchItemCatalogue } from '../lib/inventoryQuery';
+
+interface BomPanelProps {
+  item: InventoryItem;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+const BomPanel: React.FC<BomPanelProps> = ({ item, onClose, readOnly }) => {
+  const [allLines, setAllLines] = useState<BomLine[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [runQuantity, setRunQuantity] = useState(100);
+  const [form, setForm] = useState({ component_item_id: '', quantity_per: 1, wastage_pct: 0, note: '' });
+
+  const loadLines = async () => {
+    setLoading(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      // The ledger only holds one page, so the panel loads the full catalogue for pickers and explosion maths
+      const [lines, catalogue] = await Promise.all([fetchAllBomLines(supabase), fetchItemCatalogue(supabase)]);
+      setAllLines(lines);
+      setItems(catalogue);
+    } catch (err: any) {
+      console.error('BOM sync error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { loadLines(); }, [item.id]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await addBomLine(supabase, item.id, form);
+      setForm({ component_item_id: '', quantity_per: 1, wastage_pct: 0, note: '' });
+      loadLines();
+    } catch (err: any) {
+      alert("Component rejected: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (line: BomLine) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      await deleteBomLine(supabase, line.id);
+      loadLines();
+    } catch (err: any) {
+      alert("Removal failed: " + err.message);
+    }
+  };
+
+  const itemMap = new Map<string, InventoryItem>(items.map(i => [i.id, i]));
+  const lines = allLines.filter(l => l.parent_item_id === item.id);
+  const requirements = explodeBom(item.id, runQuantity, allLines, items);
+  const buildable = maxBuildable(item.id, allLines, items);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-500">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><Network size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Bill of Materials</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">{item.name} · #{item.sku}</p>
+          </div>
+          <div className="flex items-center space-x-6 relative z-10">
+            {buildable !== null && (
+              <div className="text-right">
+                <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Buildable</p>
+                <p className="text-2xl font-black">{buildable}</p>
+              </div>
+            )}
+            <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white"><X size={28} /></button>
+          </div>
+        </div>
+
+        {!readOnly && (
+          <form onSubmit={handleAdd} className="p-8 border-b border-slate-100 bg-slate-50/40 space-y-4">
+            <div className="grid grid-cols-4 gap-4">
+              <select
+                required
+                value={form.component_item_id}
+                onChange={e => setForm({ ...form, component_item_id: e.target.value })}
+                className="col-span-2 w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+              >
+                <option value="">Component material...</option>
+                {items.filter(i => i.id !== item.id).map(i => <option key={i.id} value={i.id}>{i.sku} - {i.name}</option>)}
+              </select>
+              <input
+                type="number"
+                step="any"
+                min={0}
+                required
+                value={form.quantity_per}
+                onChange={e => setForm({ ...form, quantity_per: parseFloat(e.target.value) || 0 })}
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none"
+                placeholder="Qty / unit"
+                title="Quantity per finished unit"
+              />
+              <input
+                type="number"
+                step="any"
+                min={0}
+                max={99}
+                value={form.wastage_pct}
+                onChange={e => setForm({ ...form, wastage_pct: parseFloat(e.target.value) || 0 })}
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none"
+                placeholder="Wastage %"
+                title="Wastage %"
+              />
+            </div>
+            <div className="flex space-x-4">
+              <input
+                value={form.note}
+                onChange={e => setForm({ ...form, note: e.target.value })}
+                className="flex-1 px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-medium outline-none placeholder:text-slate-300"
+                placeholder="Placement / usage note..."
+              />
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-8 py-3 bg-blue-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 shadow-xl shadow-blue-500/20 flex items-center space-x-2 disabled:opacity-50"
+              >
+                {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+                <span>Add</span>
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-8 scrollbar-hide">
+          {loading ? (
+            <div className="flex justify-center p-20"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+          ) : lines.length === 0 ? (
+            <div className="p-20 flex flex-col items-center text-center">
+              <Network size={60} className="text-slate-100 mb-4" />
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">No components defined</p>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                {lines.map(line => {
+                  const component = itemMap.get(line.component_item_id);
+                  return (
+                    <div key={line.id} className="flex items-center justify-between px-5 py-4 bg-white border border-slate-100 rounded-2xl group">
+                      <div>
+                        <p className="text-sm font-black text-slate-900">{component?.name || 'Unknown component'}</p>
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                          #{component?.sku} · {line.quantity_per} / unit · {line.wastage_pct || 0}% wastage
+                          {line.note && <> · {line.note}</>}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-4">
+                        <span className="text-xs font-black text-slate-500">{Math.round(grossRequirement(line, 1) * 1000) / 1000} gross</span>
+                        {!readOnly && (
+                          <button onClick={() => handleDelete(line)} className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-rose-500 transition-all">
+                            <Trash2 size={14} />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-4 pt-6 border-t border-slate-100">
+                <div className="flex items-center justify-between">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Material Explosion</p>
+                  <div className="flex items-center space-x-3">
+                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Run Qty</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={runQuantity}
+                      onChange={e => setRunQuantity(parseInt(e.target.value) || 0)}
+                      className="w-24 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-black text-right outline-none"
+                    />
+                  </div>
+                </div>
+                <div className={`flex items-center space-x-3 px-5 py-3 rounded-2xl border text-[10px] font-black uppercase tracking-widest ${
+                  hasShortage(requirements) ? 'bg-rose-50 text-rose-600 border-rose-100' : 'bg-emerald-50 text-emerald-600 border-emerald-100'
+                }`}>
+                  {hasShortage(requirements) ? <AlertTriangle size={14} /> : <CheckCircle2 size={14} />}
+                  <span>{hasShortage(requirements) ? `${requirements.filter(r => r.shortage > 0).length} materials short` : 'All materials available'}</span>
+                </div>
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="text-slate-400 text-[9px] font-black uppercase tracking-widest border-b border-slate-100">
+                      <th className="py-3">Material</th>
+                      <th className="py-3 text-right">Required</th>
+                      <th className="py-3 text-right">On Hand</th>
+                      <th className="py-3 text-right">Shortage</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {requirements.map(r => (
+                      <tr key={r.item_id}>
+                        <td className="py-3">
+                          <p className="text-xs font-black text-slate-900">{r.name}</p>
+                          <p className="text-[9px] font-mono font-black text-blue-500">#{r.sku}</p>
+                        </td>
+                        <td className="py-3 text-right text-xs font-black text-slate-700">{r.required}</td>
+                        <td className="py-3 text-right text-xs font-black text-slate-500">{r.onHand}</td>
+                        <td className={`py-3 text-right text-xs font-black ${r.shortage > 0 ? 'text-rose-600' : 'text-slate-300'}`}>{r.shortage || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BomPanel;
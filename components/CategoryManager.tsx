@@ -0,0 +1,284 @@
+import React, { useState } from 'react';
+import { X, Loader2, FolderTree, Plus, Trash2, Save, Tag } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { AttributeDefinition, AttributeType, ProductCategory } from '../types';
+import {
+  ATTRIBUTE_TYPES,
+  deleteCategory,
+  getCategoryAttributes,
+  getCategoryPath,
+  getCategoryScope,
+  saveCategory,
+  sortCategoryTree,
+  toAttributeKey
+} from '../lib/categories';
+
+interface CategoryManagerProps {
+  categories: ProductCategory[];
+  onClose: () => void;
+  onChanged: () => void;
+  readOnly?: boolean;
+}
+
+const EMPTY_ATTRIBUTE = { label: '', type: 'text' as AttributeType, unit: '', options: '', required: false };
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onClose, onChanged, readOnly }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [newCategory, setNewCategory] = useState({ name: '', parent_id: '' });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<{ name: string; parent_id: string; attributes: AttributeDefinition[] } | null>(null);
+  const [attributeForm, setAttributeForm] = useState(EMPTY_ATTRIBUTE);
+
+  const selected = categories.find(c => c.id === selectedId) || null;
+  const inherited = selected ? getCategoryAttributes(categories, selected.parent_id) : [];
+  // A category cannot move beneath itself or one of its own subcategories
+  const blockedParents = selected ? getCategoryScope(categories, selected.id) : new Set<string>();
+
+  const handleSelect = (category: ProductCategory) => {
+    setSelectedId(category.id);
+    setDraft({ name: category.name, parent_id: category.parent_id || '', attributes: category.attributes });
+    setAttributeForm(EMPTY_ATTRIBUTE);
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      const created = await saveCategory(supabase, { name: newCategory.name, parent_id: newCategory.parent_id || null, attributes: [] });
+      setNewCategory({ ...newCategory, name: '' });
+      onChanged();
+      handleSelect(created);
+    } catch (err: any) {
+      alert("Category registration failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddAttribute = () => {
+    if (!draft) return;
+    const key = toAttributeKey(attributeForm.label);
+    if (!key) return;
+    if ([...inherited, ...draft.attributes].some(a => a.key === key)) {
+      alert(`An attribute called "${attributeForm.label}" already applies to this category.`);
+      return;
+    }
+    const options = attributeForm.options.split(',').map(o => o.trim()).filter(Boolean);
+    if (attributeForm.type === 'select' && options.length === 0) {
+      alert("A pick list needs at least one option.");
+      return;
+    }
+    const attribute: AttributeDefinition = {
+      key,
+      label: attributeForm.label.trim(),
+      type: attributeForm.type,
+      ...(attributeForm.unit.trim() ? { unit: attributeForm.unit.trim() } : {}),
+      ...(attributeForm.type === 'select' ? { options } : {}),
+      ...(attributeForm.required ? { required: true } : {})
+    };
+    setDraft({ ...draft, attributes: [...draft.attributes, attribute] });
+    setAttributeForm(EMPTY_ATTRIBUTE);
+  };
+
+  const handleSave = async () => {
+    if (!selected || !draft) return;
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      const after = { name: draft.name.trim(), parent_id: draft.parent_id || null, attributes: draft.attributes };
+      await saveCategory(supabase, { id: selected.id, ...after });
+      onChanged();
+    } catch (err: any) {
+      alert("Category update failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (category: ProductCategory) => {
+    if (!confirm(`Retire category ${getCategoryPath(categories, category.id)}?`)) return;
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await deleteCategory(supabase, categories, category);
+      if (selectedId === category.id) {
+        setSelectedId(null);
+        setDraft(null);
+      }
+      onChanged();
+    } catch (err: any) {
+      alert("Category purge failed: " + err.message);
+    }
+  };
+
+  const describeAttribute = (a: AttributeDefinition) => [
+    ATTRIBUTE_TYPES.find(t => t.id === a.type)?.label,
+    a.unit,
+    a.options?.join(' · '),
+    a.required ? 'Required' : null
+  ].filter(Boolean).join(' — ');
+
+  const tree = sortCategoryTree(categories);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-4xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><FolderTree size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Product Categories</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Category Tree · Attribute Schemas</p>
+          </div>
+          <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-100">
+          <div>
+            {!readOnly && (
+              <form onSubmit={handleAdd} className="p-8 border-b border-slate-100 bg-slate-50/40 space-y-3">
+                <input required value={newCategory.name} onChange={e => setNewCategory({ ...newCategory, name: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Name (e.g. Fabric)" />
+                <div className="flex space-x-3">
+                  <select
+                    value={newCategory.parent_id}
+                    onChange={e => setNewCategory({ ...newCategory, parent_id: e.target.value })}
+                    className="flex-1 px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+                  >
+                    <option value="">Top level</option>
+                    {tree.map(({ category, depth }) => (
+                      <option key={category.id} value={category.id}>{'\u00a0\u00a0'.repeat(depth)}{category.name}</option>
+                    ))}
+                  </select>
+                  <button type="submit" disabled={isSaving} className="px-6 py-3 bg-blue-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 shadow-xl shadow-blue-500/20 flex items-center space-x-2 disabled:opacity-50">
+                    {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+                    <span>Add</span>
+                  </button>
+                </div>
+              </form>
+            )}
+
+            <div className="p-8 max-h-[50vh] overflow-y-auto space-y-2 scrollbar-hide">
+              {categories.length === 0 ? (
+                <p className="py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No categories registered</p>
+              ) : (
+                tree.map(({ category, depth }) => (
+                  <div
+                    key={category.id}
+                    style={{ marginLeft: depth * 24 }}
+                    onClick={() => handleSelect(category)}
+                    className={`flex items-center justify-between px-5 py-3 border rounded-2xl group cursor-pointer transition-all ${
+                      selectedId === category.id ? 'bg-blue-50 border-blue-200' : 'bg-white border-slate-100 hover:border-slate-200'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-3">
+                      <div className="p-2 bg-slate-50 rounded-xl text-slate-400"><FolderTree size={14} /></div>
+                      <span className="text-xs font-black text-slate-900">{category.name}</span>
+                      {category.attributes.length > 0 && (
+                        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{category.attributes.length} attr.</span>
+                      )}
+                    </div>
+                    {!readOnly && (
+                      <button onClick={(e) => { e.stopPropagation(); handleDelete(category); }} className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-rose-600 transition-all">
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="p-8 max-h-[65vh] overflow-y-auto space-y-6 scrollbar-hide">
+            {!selected || !draft ? (
+              <div className="py-20 flex flex-col items-center text-center">
+                <Tag size={48} className="text-slate-100 mb-4" />
+                <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Select a category to edit its attributes</p>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <input disabled={readOnly} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none disabled:opacity-60" />
+                  <select
+                    disabled={readOnly}
+                    value={draft.parent_id}
+                    onChange={e => setDraft({ ...draft, parent_id: e.target.value })}
+                    className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer disabled:opacity-60"
+                  >
+                    <option value="">Top level</option>
+                    {tree.filter(({ category }) => !blockedParents.has(category.id)).map(({ category, depth }) => (
+                      <option key={category.id} value={category.id}>{'\u00a0\u00a0'.repeat(depth)}{category.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">Attributes</p>
+                  {inherited.map(a => (
+                    <div key={`inherited-${a.key}`} className="flex items-center justify-between px-5 py-3 bg-slate-50 border border-slate-100 rounded-2xl opacity-70">
+                      <div>
+                        <p className="text-xs font-black text-slate-900">{a.label}</p>
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{describeAttribute(a)}</p>
+                      </div>
+                      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Inherited</span>
+                    </div>
+                  ))}
+                  {draft.attributes.map(a => (
+                    <div key={a.key} className="flex items-center justify-between px-5 py-3 bg-white border border-slate-100 rounded-2xl group">
+                      <div>
+                        <p className="text-xs font-black text-slate-900">{a.label}</p>
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{describeAttribute(a)}</p>
+                      </div>
+                      {!readOnly && (
+                        <button onClick={() => setDraft({ ...draft, attributes: draft.attributes.filter(x => x.key !== a.key) })} className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-rose-600 transition-all">
+                          <Trash2 size={14} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {inherited.length === 0 && draft.attributes.length === 0 && (
+                    <p className="py-4 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No attributes defined</p>
+                  )}
+                </div>
+
+                {!readOnly && (
+                  <div className="p-6 bg-slate-50/60 border border-slate-100 rounded-[2rem] grid grid-cols-2 gap-3">
+                    <input value={attributeForm.label} onChange={e => setAttributeForm({ ...attributeForm, label: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Label (e.g. Fabric GSM)" />
+                    <select value={attributeForm.type} onChange={e => setAttributeForm({ ...attributeForm, type: e.target.value as AttributeType })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer">
+                      {ATTRIBUTE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                    </select>
+                    {attributeForm.type === 'select' ? (
+                      <input value={attributeForm.options} onChange={e => setAttributeForm({ ...attributeForm, options: e.target.value })} className="col-span-2 w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Options, comma separated (e.g. S, M, L, XL)" />
+                    ) : (
+                      <input value={attributeForm.unit} onChange={e => setAttributeForm({ ...attributeForm, unit: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Unit (e.g. g/m²)" />
+                    )}
+                    <label className="flex items-center space-x-2 px-2 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+                      <input type="checkbox" checked={attributeForm.required} onChange={e => setAttributeForm({ ...attributeForm, required: e.target.checked })} />
+                      <span>Required</span>
+                    </label>
+                    <button type="button" onClick={handleAddAttribute} disabled={!toAttributeKey(attributeForm.label)} className="col-span-2 py-3 border border-slate-200 bg-white text-slate-600 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-slate-50 flex items-center justify-center space-x-2 disabled:opacity-40">
+                      <Plus size={14} /><span>Add Attribute</span>
+                    </button>
+                  </div>
+                )}
+
+                {!readOnly && (
+                  <button onClick={handleSave} disabled={isSaving || !draft.name.trim()} className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-600 flex items-center justify-center space-x-3 disabled:opacity-50 transition-all">
+                    {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+                    <span>Save Category</span>
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManager;
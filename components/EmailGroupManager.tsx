@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { X, Loader2, Users, Plus, Trash2, Pencil, Save } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { EmailGroup, Profile } from '../types';
+import { deleteEmailGroup, saveEmailGroup } from '../lib/emailRecipients';
+import RecipientInput from './RecipientInput';
+
+interface EmailGroupManagerProps {
+  groups: EmailGroup[];
+  members: Profile[];
+  onClose: () => void;
+  onChanged: () => void;
+  readOnly?: boolean;
+}
+
+const EmailGroupManager: React.FC<EmailGroupManagerProps> = ({ groups, members, onClose, onChanged, readOnly }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<{ id?: string; name: string; addresses: string[] }>({ name: '', addresses: [] });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await saveEmailGroup(supabase, form);
+      setForm({ name: '', addresses: [] });
+      onChanged();
+    } catch (err: any) {
+      alert("Distribution group save failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (group: EmailGroup) => {
+    if (!confirm(`Delete distribution group "${group.name}"?`)) return;
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await deleteEmailGroup(supabase, group.id);
+      if (form.id === group.id) setForm({ name: '', addresses: [] });
+      onChanged();
+    } catch (err: any) {
+      alert("Distribution group purge failed: " + err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><Users size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Distribution Groups</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Named recipient lists for the Comms Node</p>
+          </div>
+          <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+        </div>
+
+        {!readOnly && (
+          <form onSubmit={handleSave} className="p-8 border-b border-slate-100 bg-slate-50/40 space-y-4">
+            <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Name (e.g. Stitching supervisors)" />
+            <RecipientInput
+              label="Members"
+              value={form.addresses}
+              onChange={addresses => setForm({ ...form, addresses })}
+              members={members}
+              groups={groups.filter(g => g.id !== form.id)}
+              placeholder="Add operators or outside addresses..."
+            />
+            <div className="flex space-x-3">
+              {form.id && (
+                <button type="button" onClick={() => setForm({ name: '', addresses: [] })} className="px-8 py-4 text-slate-400 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-slate-100 transition-all">Cancel</button>
+              )}
+              <button type="submit" disabled={isSaving} className="flex-1 py-4 bg-blue-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 shadow-xl shadow-blue-500/20 flex items-center justify-center space-x-3 disabled:opacity-50">
+                {isSaving ? <Loader2 className="animate-spin" size={16} /> : form.id ? <Save size={16} /> : <Plus size={16} />}
+                <span>{form.id ? 'Update Group' : 'Register Group'}</span>
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="p-8 max-h-[40vh] overflow-y-auto space-y-2 scrollbar-hide">
+          {groups.length === 0 ? (
+            <p className="py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No distribution groups registered</p>
+          ) : (
+            groups.map(group => (
+              <div key={group.id} className={`flex items-center justify-between px-5 py-3 bg-white border rounded-2xl group ${form.id === group.id ? 'border-blue-300' : 'border-slate-100'}`}>
+                <div className="min-w-0">
+                  <p className="text-xs font-black text-slate-900">{group.name}</p>
+                  <p className="text-[10px] font-black text-slate-400 truncate max-w-md">{group.addresses.join(', ')}</p>
+                </div>
+                <div className="flex items-center flex-shrink-0">
+                  <span className="text-[9px] font-black text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full mr-2">{group.addresses.length}</span>
+                  {!readOnly && (
+                    <>
+                      <button onClick={() => setForm({ id: group.id, name: group.name, addresses: group.addresses })} className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-blue-600 transition-all">
+                        <Pencil size={14} />
+                      </button>
+                      <button onClick={() => handleDelete(group)} className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-rose-600 transition-all">
+                        <Trash2 size={14} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmailGroupManager;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, PackageCheck, CheckCircle2, User as UserIcon } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { GoodsReceipt, PurchaseOrder, StockLocation } from '../types';
+import { fetchGoodsReceipts, outstandingQuantity, receiveGoods } from '../lib/purchasing';
+import { getLocationPath, sortLocationTree } from '../lib/locations';
+
+interface GoodsReceiptModalProps {
+  purchaseOrder: PurchaseOrder;
+  locations: StockLocation[];
+  onClose: () => void;
+  onReceived: () => void;
+}
+
+const GoodsReceiptModal: React.FC<GoodsReceiptModalProps> = ({ purchaseOrder, locations, onClose, onReceived }) => {
+  const lines = purchaseOrder.lines || [];
+  const [quantities, setQuantities] = useState<Record<string, number>>(
+    Object.fromEntries(lines.map(l => [l.id, outstandingQuantity(l)]))
+  );
+  const [locationId, setLocationId] = useState('');
+  const [note, setNote] = useState('');
+  const [history, setHistory] = useState<GoodsReceipt[]>([]);
+  const [isPosting, setIsPosting] = useState(false);
+
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    fetchGoodsReceipts(supabase, purchaseOrder.id)
+      .then(setHistory)
+      .catch(err => console.error('Receipt history error:', err.message));
+  }, [purchaseOrder.id]);
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPosting(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await receiveGoods(
+        supabase,
+        purchaseOrder,
+        lines.map(line => ({ line, quantity: quantities[line.id] || 0, location_id: locationId || null })),
+        note
+      );
+      onReceived();
+    } catch (err: any) {
+      alert("Goods receipt failed: " + err.message);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-3xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><PackageCheck size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Goods Receipt</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">{purchaseOrder.po_number} · {purchaseOrder.supplier?.name || 'Unassigned Supplier'}</p>
+          </div>
+          <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+        </div>
+
+        <form onSubmit={handleReceive} className="p-10 space-y-6 max-h-[70vh] overflow-y-auto scrollbar-hide">
+          <div className="space-y-3">
+            {lines.map(line => {
+              const outstanding = outstandingQuantity(line);
+              return (
+                <div key={line.id} className="flex items-center justify-between p-5 bg-slate-50 border border-slate-100 rounded-3xl">
+                  <div>
+                    <p className="text-sm font-black text-slate-900">{line.item?.name || line.sku}</p>
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                      #{line.sku} · {line.received_quantity || 0} / {line.quantity} received
+                    </p>
+                  </div>
+                  <input
+                    type="number"
+                    min={0}
+                    max={outstanding}
+                    disabled={outstanding === 0}
+                    value={quantities[line.id] ?? 0}
+                    onChange={e => setQuantities({ ...quantities, [line.id]: parseInt(e.target.value) || 0 })}
+                    className="w-28 px-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black text-right outline-none focus:ring-4 focus:ring-blue-500/10 disabled:opacity-40"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <select
+              value={locationId}
+              onChange={e => setLocationId(e.target.value)}
+              className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+            >
+              <option value="">Receive into: Unassigned</option>
+              {sortLocationTree(locations).map(({ location, depth }) => (
+                <option key={location.id} value={location.id}>{'\u00a0\u00a0'.repeat(depth)}{location.code} · {location.name}</option>
+              ))}
+            </select>
+            <input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-medium outline-none placeholder:text-slate-300"
+              placeholder="Delivery note / GRN ref..."
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={isPosting}
+            className="w-full py-5 bg-blue-600 text-white rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-blue-700 shadow-xl shadow-blue-500/20 flex items-center justify-center space-x-3 disabled:opacity-50"
+          >
+            {isPosting ? <Loader2 className="animate-spin" size={20} /> : <CheckCircle2 size={20} />}
+            <span>Post Receipt</span>
+          </button>
+
+          {history.length > 0 && (
+            <div className="pt-6 border-t border-slate-100 space-y-2">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">Receipt History</p>
+              {history.map(r => (
+                <div key={r.id} className="flex items-center justify-between px-5 py-3 bg-white border border-slate-100 rounded-2xl">
+                  <div className="flex items-center space-x-3">
+                    <UserIcon size={12} className="text-slate-300" />
+                    <span className="text-[10px] font-black text-slate-700 uppercase">{r.receiver?.full_name || 'System'}</span>
+                    <span className="text-[10px] font-mono font-black text-blue-500">{lines.find(l => l.id === r.po_line_id)?.sku}</span>
+                    <span className="text-[9px] font-bold text-slate-400">{getLocationPath(locations, r.location_id)}</span>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <span className="text-sm font-black text-emerald-600">+{r.quantity}</span>
+                    <span className="text-[9px] font-bold text-slate-300">{new Date(r.created_at).toLocaleString()}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GoodsReceiptModal;
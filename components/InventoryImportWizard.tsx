@@ -0,0 +1,297 @@
+import React, { useState, useRef } from 'react';
+import { X, Upload, FileSpreadsheet, Loader2, CheckCircle2, AlertTriangle, ArrowLeft, ArrowRight, Download } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { readSpreadsheet, SheetRows, SPREADSHEET_ACCEPT } from '../lib/spreadsheet';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportPreviewRow,
+  ImportResult,
+  autoMapColumns,
+  buildImportPreview,
+  fetchItemsBySku,
+  importReportToCsv,
+  runInventoryImport
+} from '../lib/inventoryImport';
+import { downloadCsv, stripFormulaGuard } from '../lib/csv';
+import { fetchCategories } from '../lib/categories';
+import { fetchStockLevels } from '../lib/stockLedger';
+
+interface InventoryImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'report';
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: 'upload', label: 'Upload' },
+  { id: 'map', label: 'Map Columns' },
+  { id: 'preview', label: 'Validate' },
+  { id: 'report', label: 'Report' }
+];
+
+const STATUS_STYLES: Record<ImportPreviewRow['status'] | ImportResult['outcome'], string> = {
+  create: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  update: 'bg-blue-50 text-blue-600 border-blue-100',
+  error: 'bg-rose-50 text-rose-600 border-rose-100',
+  created: 'bg-emerald-50 text-emerald-600 border-emerald-100',
+  updated: 'bg-blue-50 text-blue-600 border-blue-100',
+  skipped: 'bg-amber-50 text-amber-600 border-amber-100',
+  failed: 'bg-rose-50 text-rose-600 border-rose-100'
+};
+
+const InventoryImportWizard: React.FC<InventoryImportWizardProps> = ({ onClose, onImported }) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<SheetRows>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const header = rows[0]?.cells || [];
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.id] === undefined);
+  const counts = {
+    create: preview.filter(r => r.status === 'create').length,
+    update: preview.filter(r => r.status === 'update').length,
+    error: preview.filter(r => r.status === 'error').length
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const sheet = await readSpreadsheet(file);
+      if (sheet.length < 2) throw new Error("The file needs a header row and at least one item.");
+      setFileName(file.name);
+      setRows(sheet);
+      setMapping(autoMapColumns(sheet[0].cells));
+      setStep('map');
+    } catch (err: any) {
+      alert("Import failed: " + err.message);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleValidate = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    setIsReading(true);
+    try {
+      const skus = mapping.sku === undefined ? [] : rows.slice(1).map(r => stripFormulaGuard((r.cells[mapping.sku!] || '').trim())).filter(Boolean);
+      const [existing, categories] = await Promise.all([fetchItemsBySku(supabase, skus), fetchCategories(supabase)]);
+      setPreview(buildImportPreview(rows, mapping, existing, categories));
+      setStep('preview');
+    } catch (err: any) {
+      alert("Validation failed: " + err.message);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    setProgress({ done: 0, total: 1 });
+    try {
+      // Only the items the file updates need their ledger figure
+      const stockLevels = await fetchStockLevels(supabase, preview.flatMap(r => r.existing ? [r.existing.id] : []));
+      const ledgerOnHand = (itemId: string) => Object.values<number>(stockLevels[itemId] || {}).reduce((acc, qty) => acc + qty, 0);
+      const report = await runInventoryImport(supabase, preview, ledgerOnHand, (done, total) => setProgress({ done, total }));
+      setResults(report);
+      setStep('report');
+      onImported();
+    } catch (err: any) {
+      alert("Import failed: " + err.message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    downloadCsv(`import-report-${fileName.replace(/\.[^.]+$/, '')}.csv`, importReportToCsv(results));
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+  const outcomeCount = (outcome: ImportResult['outcome']) => results.filter(r => r.outcome === outcome).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-4xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><FileSpreadsheet size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Bulk Asset Import</h3>
+            <div className="flex items-center space-x-3 mt-3">
+              {STEPS.map((s, idx) => (
+                <span key={s.id} className={`text-[9px] font-black uppercase tracking-[0.2em] ${idx === stepIndex ? 'text-blue-400' : idx < stepIndex ? 'text-slate-400' : 'text-slate-600'}`}>
+                  {idx + 1}. {s.label}
+                </span>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} disabled={!!progress} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10 disabled:opacity-30"><X size={28} /></button>
+        </div>
+
+        <div className="p-10 max-h-[65vh] overflow-y-auto scrollbar-hide">
+          {step === 'upload' && (
+            <div
+              onClick={() => !isReading && fileInputRef.current?.click()}
+              className="p-16 rounded-[2.5rem] bg-slate-50 border-2 border-dashed border-slate-200 flex flex-col items-center justify-center cursor-pointer hover:border-blue-500 hover:bg-blue-50 transition-all text-center"
+            >
+              {isReading ? <Loader2 size={48} className="animate-spin text-blue-500 mb-4" /> : <Upload size={48} className="text-slate-300 mb-4" />}
+              <p className="text-sm font-black text-slate-900">Choose a CSV or XLSX file</p>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">First row must be the column header · First sheet only</p>
+              <input type="file" ref={fileInputRef} onChange={handleFile} className="hidden" accept={SPREADSHEET_ACCEPT} />
+            </div>
+          )}
+
+          {step === 'map' && (
+            <div className="space-y-6">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                {fileName} · {rows.length - 1} rows · Unmapped fields keep their current value on existing items
+              </p>
+              <div className="grid grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.id} className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">
+                      {field.label}{field.required && <span className="text-rose-500"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field.id] ?? ''}
+                      onChange={e => setMapping({ ...mapping, [field.id]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      className="w-full px-6 py-4 bg-slate-50 border border-slate-200 rounded-[1.5rem] text-sm font-black outline-none focus:ring-4 focus:ring-blue-500/10 cursor-pointer"
+                    >
+                      <option value="">Not imported</option>
+                      {header.map((column, idx) => <option key={idx} value={idx}>{column || `Column ${idx + 1}`}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-3 gap-4">
+                {([['create', 'New Assets'], ['update', 'Updates'], ['error', 'Rejected']] as const).map(([status, label]) => (
+                  <div key={status} className={`p-5 rounded-3xl border ${STATUS_STYLES[status]}`}>
+                    <p className="text-3xl font-black tracking-tighter">{counts[status]}</p>
+                    <p className="text-[10px] font-black uppercase tracking-widest mt-1">{label}</p>
+                  </div>
+                ))}
+              </div>
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-[0.3em] border-b border-slate-200">
+                    <th className="px-4 py-4">Line</th>
+                    <th className="px-4 py-4">SKU</th>
+                    <th className="px-4 py-4">Name</th>
+                    <th className="px-4 py-4">Qty</th>
+                    <th className="px-4 py-4">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {preview.map(row => (
+                    <tr key={row.line} className="align-top">
+                      <td className="px-4 py-3 text-[10px] font-black text-slate-400">{row.line}</td>
+                      <td className="px-4 py-3 text-xs font-black text-slate-900">{row.values.sku || '—'}</td>
+                      <td className="px-4 py-3 text-xs font-bold text-slate-600">{row.values.name || row.existing?.name || '—'}</td>
+                      <td className="px-4 py-3 text-xs font-bold text-slate-600">
+                        {row.values.quantity ?? '—'}
+                        {row.existing && row.values.quantity !== undefined && row.values.quantity !== row.existing.quantity && (
+                          <span className="text-[9px] text-slate-400 ml-1">(was {row.existing.quantity})</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-block px-2 py-0.5 rounded-md border text-[9px] font-black uppercase ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                        {row.errors.map(err => <p key={err} className="text-[10px] font-bold text-rose-500 mt-1">{err}</p>)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === 'report' && (
+            <div className="space-y-6">
+              <div className="flex items-center space-x-4 p-6 bg-emerald-50 border border-emerald-100 rounded-3xl">
+                <CheckCircle2 size={32} className="text-emerald-500 shrink-0" />
+                <p className="text-sm font-black text-slate-900">
+                  {outcomeCount('created')} created · {outcomeCount('updated')} updated · {outcomeCount('skipped')} skipped · {outcomeCount('failed')} failed
+                </p>
+              </div>
+              <div className="space-y-2">
+                {results.filter(r => r.outcome === 'failed' || r.outcome === 'skipped' || r.message).map(r => (
+                  <div key={r.line} className="flex items-start space-x-3 px-5 py-3 border border-slate-100 rounded-2xl">
+                    <AlertTriangle size={14} className="text-amber-500 mt-0.5 shrink-0" />
+                    <p className="text-[11px] font-bold text-slate-600">
+                      <span className="font-black text-slate-900">Line {r.line} · {r.sku || 'No SKU'}</span>
+                      <span className={`inline-block mx-2 px-2 py-0.5 rounded-md border text-[9px] font-black uppercase ${STATUS_STYLES[r.outcome]}`}>{r.outcome}</span>
+                      {r.message}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-10 pb-10 flex items-center justify-between">
+          {step === 'map' || step === 'preview' ? (
+            <button
+              onClick={() => setStep(step === 'map' ? 'upload' : 'map')}
+              disabled={!!progress}
+              className="flex items-center space-x-2 px-6 py-4 border border-slate-200 text-slate-500 rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-50 disabled:opacity-50"
+            >
+              <ArrowLeft size={16} /><span>Back</span>
+            </button>
+          ) : <span />}
+
+          {step === 'map' && (
+            <button
+              onClick={handleValidate}
+              disabled={missingRequired.length > 0 || isReading}
+              title={missingRequired.length ? `Map ${missingRequired.map(f => f.label).join(', ')}` : undefined}
+              className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all disabled:opacity-50"
+            >
+              <span>Validate</span>{isReading ? <Loader2 size={16} className="animate-spin" /> : <ArrowRight size={16} />}
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              onClick={handleImport}
+              disabled={!!progress || counts.create + counts.update === 0}
+              className="flex items-center space-x-3 px-8 py-4 bg-blue-600 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 transition-all disabled:opacity-50"
+            >
+              {progress ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+              <span>{progress ? `Batch ${progress.done}/${progress.total}` : `Import ${counts.create + counts.update} Rows`}</span>
+            </button>
+          )}
+          {step === 'report' && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleDownloadReport}
+                className="flex items-center space-x-2 px-6 py-4 border border-slate-200 text-slate-500 rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-50"
+              >
+                <Download size={16} /><span>Row Report</span>
+              </button>
+              <button onClick={onClose} className="px-8 py-4 bg-slate-900 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-800">
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryImportWizard;
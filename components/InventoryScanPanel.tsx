@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { X, ScanLine, Search, ArrowDownLeft, ArrowUpRight, CheckCircle2, AlertTriangle, MapPin } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { InventoryItem, StockLocation } from '../types';
+import { postStockMovement, REASON_CODES } from '../lib/stockLedger';
+import { getLocationPath, sortLocationTree } from '../lib/locations';
+import { findItemBySku, parseScan } from '../lib/scan';
+import ScanInput from './ScanInput';
+
+interface InventoryScanPanelProps {
+  locations: StockLocation[];
+  onClose: () => void;
+  onPosted: () => void;
+  canPost?: boolean;
+}
+
+type ScanMode = 'lookup' | 'receipt' | 'issue';
+
+const SCAN_MODES: { id: ScanMode; label: string; icon: React.ReactNode }[] = [
+  { id: 'lookup', label: 'Look Up', icon: <Search size={14} /> },
+  { id: 'receipt', label: 'Receive', icon: <ArrowDownLeft size={14} /> },
+  { id: 'issue', label: 'Issue', icon: <ArrowUpRight size={14} /> }
+];
+
+interface ScanLogEntry {
+  id: number;
+  ok: boolean;
+  message: string;
+}
+
+// Older entries fall off; the movement ledger is the record, this is only operator feedback
+const LOG_LIMIT = 30;
+
+const InventoryScanPanel: React.FC<InventoryScanPanelProps> = ({ locations, onClose, onPosted, canPost }) => {
+  const [mode, setMode] = useState<ScanMode>('lookup');
+  const [quantity, setQuantity] = useState(1);
+  const [reasons, setReasons] = useState({ receipt: REASON_CODES.receipt[0].id, issue: REASON_CODES.issue[0].id });
+  const [locationId, setLocationId] = useState('');
+  const [lastItem, setLastItem] = useState<InventoryItem | null>(null);
+  const [log, setLog] = useState<ScanLogEntry[]>([]);
+  const [pending, setPending] = useState(0);
+  const logId = useRef(0);
+  // A scanner can fire the next code before the last post returns; scans are worked off one at a time, in order
+  const queue = useRef<Promise<void>>(Promise.resolve());
+  // Read from the queued handler, which would otherwise see the settings from when the scan arrived
+  const settings = useRef({ mode, quantity, reasons, locationId });
+  settings.current = { mode, quantity, reasons, locationId };
+
+  const report = (ok: boolean, message: string) => {
+    logId.current += 1;
+    const entry = { id: logId.current, ok, message };
+    setLog(prev => [entry, ...prev].slice(0, LOG_LIMIT));
+  };
+
+  const processScan = async (raw: string) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    const current = settings.current;
+
+    try {
+      const target = parseScan(raw);
+      if (!target) return;
+
+      if (target.kind === 'location') {
+        const location = locations.find(l => l.code.toUpperCase() === target.code);
+        if (!location) throw new Error(`No location with code ${target.code}.`);
+        setLocationId(location.id);
+        report(true, `Location set to ${location.code} · ${getLocationPath(locations, location.id)}`);
+        return;
+      }
+      if (target.kind !== 'item') throw new Error(`${raw} is a production label, not a stock label.`);
+
+      const item = await findItemBySku(supabase, target.sku);
+      if (current.mode === 'lookup') {
+        setLastItem(item);
+        report(true, `${item.sku} · ${item.name} · ${item.quantity} on hand`);
+        return;
+      }
+
+      const onHand = await postStockMovement(supabase, {
+        item_id: item.id,
+        movement_type: current.mode,
+        quantity: current.quantity,
+        reason_code: current.reasons[current.mode],
+        note: 'Scanned at the scan station',
+        location_id: current.locationId || null
+      });
+      setLastItem({ ...item, quantity: onHand });
+      setQuantity(1);
+      report(true, `${current.mode === 'receipt' ? '+' : '-'}${current.quantity} ${item.sku} at ${getLocationPath(locations, current.locationId)} · ${onHand} on hand`);
+      onPosted();
+    } catch (err: any) {
+      report(false, `${raw}: ${err.message}`);
+    }
+  };
+
+  const handleScan = (raw: string) => {
+    setPending(n => n + 1);
+    queue.current = queue.current.then(() => processScan(raw)).finally(() => setPending(n => n - 1));
+  };
+
+  const modes = canPost ? SCAN_MODES : SCAN_MODES.filter(m => m.id === 'lookup');
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-500">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><ScanLine size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Scan Station</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Scan a location label, then item labels</p>
+          </div>
+          <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+        </div>
+
+        <div className="p-8 border-b border-slate-100 bg-slate-50/40 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {modes.map(m => (
+              <button
+                key={m.id}
+                type="button"
+                onClick={() => setMode(m.id)}
+                className={`py-3 rounded-2xl text-[9px] font-black uppercase tracking-widest border transition-all flex items-center justify-center space-x-2 ${
+                  mode === m.id ? 'bg-slate-900 text-white border-slate-900 shadow-lg' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                {m.icon}<span>{m.label}</span>
+              </button>
+            ))}
+          </div>
+
+          {mode !== 'lookup' && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="relative">
+                <MapPin className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={14} />
+                <select
+                  value={locationId}
+                  onChange={e => setLocationId(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+                >
+                  <option value="">Unassigned</option>
+                  {sortLocationTree(locations).map(({ location, depth }) => (
+                    <option key={location.id} value={location.id}>{'\u00a0\u00a0'.repeat(depth)}{location.code} · {location.name}</option>
+                  ))}
+                </select>
+              </div>
+              <input
+                type="number"
+                min={1}
+                value={quantity}
+                onChange={e => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+                title="Quantity for the next scan; resets to 1 after each post"
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none"
+              />
+              <select
+                value={reasons[mode]}
+                onChange={e => setReasons({ ...reasons, [mode]: e.target.value })}
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+              >
+                {REASON_CODES[mode].map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+              </select>
+            </div>
+          )}
+
+          <ScanInput onScan={handleScan} refocusKey={`${mode}|${locationId}|${reasons.receipt}|${reasons.issue}`} />
+          {pending > 0 && <p className="text-[9px] font-black text-blue-500 uppercase tracking-widest">Working through {pending} scan{pending === 1 ? '' : 's'}...</p>}
+        </div>
+
+        {lastItem && (
+          <div className="mx-8 mt-8 p-6 bg-slate-50 border border-slate-100 rounded-[2rem] flex items-center justify-between">
+            <div>
+              <p className="text-sm font-black text-slate-900 tracking-tight">{lastItem.name}</p>
+              <p className="text-[10px] font-mono font-black text-blue-500 mt-1">#{lastItem.sku} · {lastItem.category}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">On Hand</p>
+              <p className="text-2xl font-black text-slate-900">{lastItem.quantity}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 p-8 overflow-y-auto space-y-2 scrollbar-hide">
+          {log.length === 0 ? (
+            <p className="py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No scans yet</p>
+          ) : (
+            log.map(entry => (
+              <div key={entry.id} className={`flex items-center space-x-3 px-5 py-3 rounded-2xl border text-[11px] font-bold ${
+                entry.ok ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-rose-50 border-rose-100 text-rose-700'
+              }`}>
+                {entry.ok ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />}
+                <span>{entry.message}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryScanPanel;
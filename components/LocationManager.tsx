@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { X, Loader2, MapPin, Warehouse, Layers, Box, Plus, Trash2, Printer } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { LocationKind, StockLocation } from '../types';
+import { LOCATION_KINDS, getLocationPath, sortLocationTree } from '../lib/locations';
+import { downloadLabelSheet } from '../lib/labels';
+import { locationLabel } from '../lib/scan';
+
+interface LocationManagerProps {
+  locations: StockLocation[];
+  onClose: () => void;
+  onChanged: () => void;
+  readOnly?: boolean;
+}
+
+const KIND_ICONS: Record<LocationKind, React.ReactNode> = {
+  warehouse: <Warehouse size={14} />,
+  zone: <Layers size={14} />,
+  bin: <Box size={14} />
+};
+
+const LocationManager: React.FC<LocationManagerProps> = ({ locations, onClose, onChanged, readOnly }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState<{ name: string; code: string; kind: LocationKind; parent_id: string }>({
+    name: '',
+    code: '',
+    kind: 'warehouse',
+    parent_id: ''
+  });
+
+  const parentKind = LOCATION_KINDS.find(k => k.id === form.kind)?.parentKind;
+  const parentOptions = locations.filter(l => l.kind === parentKind);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      if (parentKind && !form.parent_id) throw new Error(`A ${form.kind} must sit inside a ${parentKind}.`);
+      const location = {
+        name: form.name,
+        code: form.code.trim().toUpperCase(),
+        kind: form.kind,
+        parent_id: parentKind ? form.parent_id : null
+      };
+      const { error } = await supabase.from('locations').insert([location]);
+      if (error) throw error;
+      setForm({ ...form, name: '', code: '' });
+      onChanged();
+    } catch (err: any) {
+      alert("Location registration failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (location: StockLocation) => {
+    if (locations.some(l => l.parent_id === location.id)) {
+      alert("Remove the nested zones and bins first.");
+      return;
+    }
+    if (!confirm(`Retire location ${location.code}?`)) return;
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    const { error } = await supabase.from('locations').delete().eq('id', location.id);
+    if (error) {
+      alert("Location purge failed: " + error.message);
+      return;
+    }
+    onChanged();
+  };
+
+  // Scanned at the scan station to set where receipts and issues are posted
+  const handlePrintLabels = (targets: StockLocation[]) => {
+    try {
+      const name = targets.length === 1 ? targets[0].code.toLowerCase() : 'all';
+      downloadLabelSheet(`location-labels-${name}.pdf`, targets.map(l => locationLabel(l, getLocationPath(locations, l.id))));
+    } catch (err: any) {
+      alert("Label print failed: " + err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><MapPin size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Storage Topology</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Warehouse → Zone → Bin</p>
+          </div>
+          <div className="flex items-center space-x-3 relative z-10">
+            <button onClick={() => handlePrintLabels(sortLocationTree(locations).map(t => t.location))} disabled={locations.length === 0} title="Print labels for every location" className="p-3 bg-white/5 rounded-2xl hover:bg-blue-600 transition-all text-slate-400 hover:text-white disabled:opacity-30"><Printer size={24} /></button>
+            <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white"><X size={28} /></button>
+          </div>
+        </div>
+
+        {!readOnly && (
+          <form onSubmit={handleAdd} className="p-8 border-b border-slate-100 bg-slate-50/40 grid grid-cols-2 gap-4">
+            <select
+              value={form.kind}
+              onChange={e => setForm({ ...form, kind: e.target.value as LocationKind, parent_id: '' })}
+              className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+            >
+              {LOCATION_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+            </select>
+            <select
+              value={form.parent_id}
+              disabled={!parentKind}
+              onChange={e => setForm({ ...form, parent_id: e.target.value })}
+              className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer disabled:opacity-40"
+            >
+              <option value="">{parentKind ? `Parent ${parentKind}...` : 'Top level'}</option>
+              {parentOptions.map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+            </select>
+            <input required value={form.code} onChange={e => setForm({ ...form, code: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black uppercase outline-none placeholder:text-slate-300" placeholder="Code (e.g. MS-A-01)" />
+            <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Name (e.g. Main Store)" />
+            <button type="submit" disabled={isSaving} className="col-span-2 py-4 bg-blue-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 shadow-xl shadow-blue-500/20 flex items-center justify-center space-x-3 disabled:opacity-50">
+              {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+              <span>Register Location</span>
+            </button>
+          </form>
+        )}
+
+        <div className="p-8 max-h-[40vh] overflow-y-auto space-y-2 scrollbar-hide">
+          {locations.length === 0 ? (
+            <p className="py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No locations registered</p>
+          ) : (
+            sortLocationTree(locations).map(({ location, depth }) => (
+              <div key={location.id} style={{ marginLeft: depth * 24 }} className="flex items-center justify-between px-5 py-3 bg-white border border-slate-100 rounded-2xl group">
+                <div className="flex items-center space-x-3">
+                  <div className="p-2 bg-slate-50 rounded-xl text-slate-400">{KIND_ICONS[location.kind]}</div>
+                  <span className="text-[10px] font-mono font-black text-blue-500">{location.code}</span>
+                  <span className="text-xs font-black text-slate-900">{location.name}</span>
+                </div>
+                <div className="flex items-center">
+                  <button onClick={() => handlePrintLabels([location])} title="Print label" className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-blue-600 transition-all">
+                    <Printer size={14} />
+                  </button>
+                  {!readOnly && (
+                    <button onClick={() => handleDelete(location)} className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-rose-600 transition-all">
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationManager;
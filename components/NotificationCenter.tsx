@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Bell, CheckCheck, Settings2, Loader2, ChevronRight, BellOff } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { AppNotification, NotificationKind, ViewType } from '../types';
+import {
+  NOTIFICATION_KINDS,
+  fetchMutedKinds,
+  fetchNotifications,
+  getNotificationMeta,
+  markAllNotificationsRead,
+  markNotificationsRead,
+  saveMutedKinds,
+  sweepOverdueTasks
+} from '../lib/notifications';
+
+interface NotificationCenterProps {
+  userId: string;
+  onNavigate: (view: ViewType) => void;
+}
+
+const timeAgo = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / 1440)}d`;
+};
+
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ userId, onNavigate }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [mutedKinds, setMutedKinds] = useState<NotificationKind[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [showPreferences, setShowPreferences] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      setNotifications(await fetchNotifications(supabase, userId));
+    } catch (err: any) {
+      console.error('Notification fetch error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    fetchMutedKinds(supabase, userId).then(setMutedKinds).catch(() => setMutedKinds([]));
+    sweepOverdueTasks(supabase, userId).then(loadNotifications);
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on('postgres_changes', { event: '*', table: 'notifications', schema: 'public', filter: `user_id=eq.${userId}` }, () => {
+        loadNotifications();
+      })
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  // Muting hides a kind immediately, including anything delivered before the preference changed
+  const visible = notifications.filter(n => !mutedKinds.includes(n.kind));
+  const unreadCount = visible.filter(n => !n.read_at).length;
+
+  const handleOpen = async (notification: AppNotification) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    if (!notification.read_at) {
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n));
+      markNotificationsRead(supabase, [notification.id]).catch(err => console.error('Mark read error:', err.message));
+    }
+    if (notification.link_view) {
+      onNavigate(notification.link_view);
+      setIsOpen(false);
+    }
+  };
+
+  const handleMarkAll = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      await markAllNotificationsRead(supabase, userId);
+      loadNotifications();
+    } catch (err: any) {
+      alert("Update failed: " + err.message);
+    }
+  };
+
+  const toggleKind = async (kind: NotificationKind) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    const next = mutedKinds.includes(kind) ? mutedKinds.filter(k => k !== kind) : [...mutedKinds, kind];
+    setMutedKinds(next);
+    try {
+      await saveMutedKinds(supabase, userId, next);
+    } catch (err: any) {
+      alert("Preference save failed: " + err.message);
+      setMutedKinds(mutedKinds);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-3 rounded-2xl transition-all relative group ${isOpen ? 'bg-blue-50 text-blue-600' : 'text-slate-400 hover:bg-slate-50 hover:text-blue-600'}`}
+      >
+        {unreadCount > 0 && (
+          <div className="min-w-[18px] h-[18px] px-1 bg-blue-500 rounded-full absolute top-1 right-1 border-2 border-white shadow-sm flex items-center justify-center">
+            <span className="text-[8px] font-black text-white">{unreadCount > 9 ? '9+' : unreadCount}</span>
+          </div>
+        )}
+        <Bell size={22} className="group-hover:rotate-12 transition-transform" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-3 w-[26rem] bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden z-50 animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="bg-slate-900 px-6 py-5 flex items-center justify-between text-white">
+            <div>
+              <h3 className="font-black text-sm tracking-tight">{showPreferences ? 'Alert Preferences' : 'Signal Feed'}</h3>
+              <p className="text-[9px] font-black text-slate-500 uppercase tracking-[0.2em] mt-0.5">
+                {showPreferences ? 'Choose what reaches you' : `${unreadCount} unread`}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {!showPreferences && unreadCount > 0 && (
+                <button onClick={handleMarkAll} className="p-2 bg-white/5 rounded-xl text-slate-400 hover:text-white transition-all" title="Mark all read">
+                  <CheckCheck size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => setShowPreferences(!showPreferences)}
+                className={`p-2 rounded-xl transition-all ${showPreferences ? 'bg-blue-600 text-white' : 'bg-white/5 text-slate-400 hover:text-white'}`}
+                title="Preferences"
+              >
+                <Settings2 size={16} />
+              </button>
+            </div>
+          </div>
+
+          {showPreferences ? (
+            <div className="p-4 space-y-2">
+              {NOTIFICATION_KINDS.map(kind => {
+                const enabled = !mutedKinds.includes(kind.id);
+                return (
+                  <button
+                    key={kind.id}
+                    onClick={() => toggleKind(kind.id)}
+                    className="w-full flex items-center justify-between px-4 py-3 rounded-2xl hover:bg-slate-50 transition-all text-left"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-xs font-black text-slate-900">{kind.label}</p>
+                      <p className="text-[10px] text-slate-400 font-medium truncate">{kind.description}</p>
+                    </div>
+                    <div className={`w-10 h-6 rounded-full p-1 transition-all shrink-0 ml-4 ${enabled ? 'bg-blue-600' : 'bg-slate-200'}`}>
+                      <div className={`w-4 h-4 bg-white rounded-full shadow transition-all ${enabled ? 'translate-x-4' : ''}`}></div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          ) : loading ? (
+            <div className="flex justify-center p-12"><Loader2 className="animate-spin text-blue-500" size={28} /></div>
+          ) : visible.length === 0 ? (
+            <div className="flex flex-col items-center p-12 text-center">
+              <BellOff size={36} className="text-slate-100 mb-3" />
+              <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No signals</p>
+            </div>
+          ) : (
+            <div className="max-h-[28rem] overflow-y-auto scrollbar-hide divide-y divide-slate-50">
+              {visible.map(n => {
+                const meta = getNotificationMeta(n.kind);
+                return (
+                  <button
+                    key={n.id}
+                    onClick={() => handleOpen(n)}
+                    className={`w-full px-6 py-4 flex items-start space-x-3 text-left transition-all group ${n.read_at ? 'hover:bg-slate-50' : 'bg-blue-50/40 hover:bg-blue-50'}`}
+                  >
+                    <div className={`w-2 h-2 rounded-full mt-1.5 shrink-0 ${n.read_at ? 'bg-transparent' : 'bg-blue-500'}`}></div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between mb-1">
+                        <span className={`text-[8px] font-black uppercase tracking-widest px-2 py-0.5 rounded-md border ${meta.color}`}>{meta.label}</span>
+                        <span className="text-[9px] font-bold text-slate-300">{timeAgo(n.created_at)}</span>
+                      </div>
+                      <p className={`text-xs truncate ${n.read_at ? 'font-bold text-slate-500' : 'font-black text-slate-900'}`}>{n.title}</p>
+                      {n.body && <p className="text-[10px] text-slate-400 font-medium line-clamp-2 mt-0.5">{n.body}</p>}
+                    </div>
+                    {n.link_view && <ChevronRight size={14} className="text-slate-200 group-hover:text-blue-500 mt-4 shrink-0" />}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
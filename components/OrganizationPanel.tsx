@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Building2, Plus, Loader2, CheckCircle2, ArrowRightLeft } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { Profile } from '../types';
+import { getRoleMeta } from '../lib/permissions';
+import { createOrganization } from '../lib/organizations';
+
+interface OrganizationPanelProps {
+  profile: Profile;
+  onSwitch: (orgId: string) => Promise<void>;
+}
+
+const OrganizationPanel: React.FC<OrganizationPanelProps> = ({ profile, onSwitch }) => {
+  const [newName, setNewName] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const memberships = profile.memberships || [];
+
+  const handleSwitch = async (orgId: string) => {
+    setBusyId(orgId);
+    await onSwitch(orgId);
+    setBusyId(null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    setBusyId('new');
+    try {
+      const orgId = await createOrganization(supabase, newName);
+      setNewName('');
+      await onSwitch(orgId);
+    } catch (err: any) {
+      alert("Organization setup failed: " + err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-12 rounded-[3.5rem] border border-slate-200 shadow-xl">
+      <div className="flex items-center space-x-4 mb-10 pb-6 border-b border-slate-50">
+        <div className="p-4 bg-slate-50 rounded-2xl text-slate-400">
+          <Building2 size={24} />
+        </div>
+        <div>
+          <h3 className="font-black text-2xl text-slate-900 tracking-tight">Organizations</h3>
+          <p className="text-slate-400 text-[10px] font-black uppercase tracking-widest mt-1">Switch the active factory</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {memberships.length === 0 && (
+          <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest text-center p-6">No memberships yet</p>
+        )}
+        {memberships.map(m => {
+          const active = m.org_id === profile.active_org_id;
+          const role = getRoleMeta(m.role);
+          return (
+            <div
+              key={m.id}
+              className={`flex items-center justify-between p-5 rounded-3xl border transition-all ${active ? 'bg-blue-50/50 border-blue-200' : 'bg-slate-50 border-slate-100'}`}
+            >
+              <div className="flex items-center space-x-4 min-w-0">
+                <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 ${active ? 'bg-blue-600 text-white' : 'bg-white text-slate-400 border border-slate-200'}`}>
+                  <Building2 size={16} />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-black text-slate-900 truncate">{m.organization?.name || 'Unnamed Organization'}</p>
+                  <span className={`inline-block mt-1 px-2 py-0.5 rounded-md border text-[9px] font-black uppercase ${role.color}`}>
+                    {role.label}{m.department ? ` · ${m.department}` : ''}
+                  </span>
+                </div>
+              </div>
+              {active ? (
+                <span className="flex items-center space-x-2 text-[10px] font-black text-blue-600 uppercase tracking-widest">
+                  <CheckCircle2 size={14} /><span>Active</span>
+                </span>
+              ) : (
+                <button
+                  onClick={() => handleSwitch(m.org_id)}
+                  disabled={busyId !== null}
+                  className="flex items-center space-x-2 px-5 py-3 bg-white border border-slate-200 text-slate-600 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:border-blue-300 hover:text-blue-600 disabled:opacity-50"
+                >
+                  {busyId === m.org_id ? <Loader2 className="animate-spin" size={14} /> : <ArrowRightLeft size={14} />}
+                  <span>Switch</span>
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleCreate} className="flex items-center space-x-3 mt-8 pt-8 border-t border-slate-50">
+        <input
+          required
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          className="flex-1 px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-bold outline-none focus:ring-4 focus:ring-blue-500/10 placeholder:text-slate-300"
+          placeholder="New organization name"
+        />
+        <button type="submit" disabled={busyId !== null} className="flex items-center space-x-2 px-5 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-800 disabled:opacity-50">
+          {busyId === 'new' ? <Loader2 className="animate-spin" size={14} /> : <Plus size={14} />}
+          <span>Create</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default OrganizationPanel;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { X, Users, User as UserIcon } from 'lucide-react';
+import { EmailGroup, Profile } from '../types';
+import { isValidAddress, normalizeAddress } from '../lib/emailRecipients';
+
+interface RecipientInputProps {
+  label: string;
+  value: string[];
+  onChange: (addresses: string[]) => void;
+  members: Profile[];
+  groups: EmailGroup[];
+  placeholder?: string;
+}
+
+type Suggestion = { kind: 'member'; member: Profile } | { kind: 'group'; group: EmailGroup };
+
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * Address chips with autocomplete from organization members and distribution groups. Picking a group adds its
+ * members one by one, so the sender sees exactly who the message goes to and can drop anyone before sending.
+ */
+const RecipientInput: React.FC<RecipientInputProps> = ({ label, value, onChange, members, groups, placeholder }) => {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+
+  const add = (addresses: string[]) => {
+    const next = [...value];
+    addresses.map(normalizeAddress).forEach(a => { if (!next.includes(a)) next.push(a); });
+    onChange(next);
+  };
+
+  const remove = (address: string) => onChange(value.filter(a => a !== address));
+
+  const term = query.trim().toLowerCase();
+  const suggestions: Suggestion[] = term ? [
+    ...groups
+      .filter(g => g.name.toLowerCase().includes(term))
+      .map(group => ({ kind: 'group' as const, group })),
+    ...members
+      .filter(m => m.email && !value.includes(m.email.toLowerCase()))
+      .filter(m => m.email!.toLowerCase().includes(term) || (m.full_name || '').toLowerCase().includes(term))
+      .map(member => ({ kind: 'member' as const, member }))
+  ].slice(0, MAX_SUGGESTIONS) : [];
+
+  const pick = (suggestion: Suggestion) => {
+    add(suggestion.kind === 'group' ? suggestion.group.addresses : [suggestion.member.email!]);
+    setQuery('');
+    setHighlight(0);
+  };
+
+  // Typed text becomes a chip once it is a complete address; anything else stays in the box to be corrected
+  const commitTyped = () => {
+    if (isValidAddress(query)) {
+      add([query]);
+      setQuery('');
+    }
+  };
+
+  const handleChange = (text: string) => {
+    // Pasted lists ("a@x.com, b@y.com") split into chips, keeping the unfinished tail for typing
+    const parts = text.split(/[,;\s]+/);
+    if (parts.length > 1) {
+      const tail = parts.pop() || '';
+      add(parts.filter(isValidAddress));
+      setQuery(tail);
+    } else {
+      setQuery(text);
+    }
+    setHighlight(0);
+    setOpen(true);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlight(h => suggestions.length ? (h + step + suggestions.length) % suggestions.length : 0);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      // Enter never submits the surrounding form from here; the message is sent with its own button
+      if (e.key === 'Enter') e.preventDefault();
+      if (!query) return;
+      if (suggestions[highlight]) {
+        e.preventDefault();
+        pick(suggestions[highlight]);
+      } else if (isValidAddress(query)) {
+        e.preventDefault();
+        commitTyped();
+      }
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      remove(value[value.length - 1]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] ml-4">{label}</label>
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-2 px-5 py-3 bg-slate-50 border border-slate-200 rounded-3xl focus-within:ring-4 focus-within:ring-blue-500/10 transition-all">
+          {value.map(address => {
+            const member = members.find(m => m.email?.toLowerCase() === address);
+            return (
+              <span key={address} title={address} className="flex items-center space-x-2 bg-white pl-3 pr-2 py-1.5 rounded-xl border border-slate-200 text-[11px] font-black text-slate-700 shadow-sm">
+                <span>{member?.full_name || address}</span>
+                <button type="button" onClick={() => remove(address)} className="text-slate-300 hover:text-rose-500 transition-colors"><X size={12} /></button>
+              </span>
+            );
+          })}
+          <input
+            type="text"
+            value={query}
+            onChange={e => handleChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setOpen(true)}
+            onBlur={() => { commitTyped(); setOpen(false); }}
+            placeholder={value.length === 0 ? placeholder : ''}
+            className="flex-1 min-w-[180px] py-2 bg-transparent text-sm font-black outline-none"
+          />
+        </div>
+        {open && suggestions.length > 0 && (
+          <div className="absolute z-10 left-0 right-0 mt-2 bg-white border border-slate-200 rounded-3xl shadow-2xl overflow-hidden">
+            {suggestions.map((s, idx) => (
+              <button
+                key={s.kind === 'group' ? `group-${s.group.id}` : `member-${s.member.id}`}
+                type="button"
+                // Keeps focus in the input, so its blur handler does not run first
+                onMouseDown={e => { e.preventDefault(); pick(s); }}
+                className={`w-full flex items-center justify-between px-5 py-3 text-left transition-colors ${idx === highlight ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+              >
+                <span className="flex items-center space-x-3 min-w-0">
+                  <span className="p-1.5 bg-slate-100 rounded-lg text-slate-400">
+                    {s.kind === 'group' ? <Users size={12} /> : <UserIcon size={12} />}
+                  </span>
+                  <span className="text-xs font-black text-slate-900 truncate">{s.kind === 'group' ? s.group.name : s.member.full_name || s.member.email}</span>
+                </span>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex-shrink-0 ml-4">
+                  {s.kind === 'group' ? `${s.group.addresses.length} members` : s.member.email}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecipientInput;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { X, Link2, Loader2 } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { EmailLinkEntity } from '../types';
+import { LINK_ENTITIES, LinkTarget, getLinkEntityMeta, isSameTarget, searchLinkTargets } from '../lib/emailLinks';
+
+interface RecordLinkInputProps {
+  value: LinkTarget[];
+  onChange: (links: LinkTarget[]) => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Chips for the tasks, items and orders a message is about, with a type switch and a search box to add more.
+ * Results are looked up as you type, so large ledgers are never loaded whole.
+ */
+const RecordLinkInput: React.FC<RecordLinkInputProps> = ({ value, onChange, readOnly }) => {
+  const [entityType, setEntityType] = useState<EmailLinkEntity>('task');
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [results, setResults] = useState<LinkTarget[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchLinkTargets(supabase, entityType, query)
+        .then(found => { if (!cancelled) setResults(found); })
+        .catch(err => console.error('Record search error:', err.message))
+        .finally(() => { if (!cancelled) setSearching(false); });
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [open, entityType, query]);
+
+  const pick = (target: LinkTarget) => {
+    if (!value.some(v => isSameTarget(v, target))) onChange([...value, target]);
+    setQuery('');
+    setOpen(false);
+  };
+
+  const remove = (target: LinkTarget) => onChange(value.filter(v => !isSameTarget(v, target)));
+
+  const available = results.filter(r => !value.some(v => isSameTarget(v, r)));
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] ml-4">Linked Records</label>
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-2 px-5 py-3 bg-slate-50 border border-slate-200 rounded-3xl focus-within:ring-4 focus-within:ring-blue-500/10 transition-all">
+          {value.map(target => (
+            <span key={`${target.entity_type}-${target.entity_id}`} className="flex items-center space-x-2 bg-white pl-3 pr-2 py-1.5 rounded-xl border border-slate-200 text-[11px] font-black text-slate-700 shadow-sm">
+              <span className="text-[9px] text-blue-500 uppercase tracking-widest">{getLinkEntityMeta(target.entity_type).label}</span>
+              <span>{target.entity_label || target.entity_id}</span>
+              {!readOnly && (
+                <button type="button" onClick={() => remove(target)} className="text-slate-300 hover:text-rose-500 transition-colors"><X size={12} /></button>
+              )}
+            </span>
+          ))}
+          {!readOnly && (
+            <div className="flex-1 flex items-center min-w-[220px]">
+              <select
+                value={entityType}
+                onChange={e => { setEntityType(e.target.value as EmailLinkEntity); setResults([]); }}
+                className="bg-transparent text-[10px] font-black text-slate-500 uppercase tracking-widest outline-none cursor-pointer mr-2"
+              >
+                {LINK_ENTITIES.map(e => <option key={e.id} value={e.id}>{e.label}</option>)}
+              </select>
+              <input
+                type="text"
+                value={query}
+                onChange={e => { setQuery(e.target.value); setOpen(true); }}
+                onFocus={() => setOpen(true)}
+                onBlur={() => setOpen(false)}
+                // Enter picks the first match rather than submitting the surrounding form
+                onKeyDown={e => {
+                  if (e.key === 'Enter') { e.preventDefault(); if (available[0]) pick(available[0]); }
+                  else if (e.key === 'Escape') setOpen(false);
+                }}
+                placeholder={value.length === 0 ? 'Link a task, item or order...' : ''}
+                className="flex-1 py-2 bg-transparent text-sm font-black outline-none"
+              />
+            </div>
+          )}
+        </div>
+        {open && (searching || available.length > 0) && (
+          <div className="absolute z-10 left-0 right-0 mt-2 bg-white border border-slate-200 rounded-3xl shadow-2xl overflow-hidden">
+            {searching && available.length === 0 ? (
+              <div className="flex justify-center p-4"><Loader2 className="animate-spin text-blue-500" size={16} /></div>
+            ) : available.map(target => (
+              <button
+                key={target.entity_id}
+                type="button"
+                // Keeps focus in the input, so its blur handler does not close the list first
+                onMouseDown={e => { e.preventDefault(); pick(target); }}
+                className="w-full flex items-center space-x-3 px-5 py-3 text-left hover:bg-slate-50 transition-colors"
+              >
+                <span className="p-1.5 bg-slate-100 rounded-lg text-slate-400"><Link2 size={12} /></span>
+                <span className="text-xs font-black text-slate-900 truncate">{target.entity_label}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordLinkInput;
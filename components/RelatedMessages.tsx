@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Mail, MessagesSquare, Send, ChevronRight, User as UserIcon } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { Email } from '../types';
+import { EmailDraft, LinkTarget, draftAbout, fetchRelatedMessages } from '../lib/emailLinks';
+import { groupThreads } from '../lib/emailThreads';
+
+interface RelatedMessagesProps {
+  target: LinkTarget;
+  // Addresses a new message about this record starts out with, such as the task's assignee
+  composeTo?: string[];
+  onOpenMessage?: (email: Email) => void;
+  onCompose?: (draft: EmailDraft) => void;
+}
+
+// The Comms Node conversations linked to one record, as a section of that record's panel
+const RelatedMessages: React.FC<RelatedMessagesProps> = ({ target, composeTo, onOpenMessage, onCompose }) => {
+  const [messages, setMessages] = useState<Email[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    setLoading(true);
+    fetchRelatedMessages(supabase, target.entity_type, target.entity_id)
+      .then(setMessages)
+      .catch(err => console.error('Related messages error:', err.message))
+      .finally(() => setLoading(false));
+  }, [target.entity_type, target.entity_id]);
+
+  const threads = groupThreads(messages);
+
+  return (
+    <div className="space-y-3">
+      {onCompose && (
+        <button
+          onClick={() => onCompose(draftAbout(target, composeTo))}
+          className="w-full flex items-center justify-center space-x-2 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all"
+        >
+          <Send size={14} />
+          <span>New Message About This</span>
+        </button>
+      )}
+      {loading ? (
+        <div className="flex justify-center p-10"><Loader2 className="animate-spin text-blue-500" size={32} /></div>
+      ) : threads.length === 0 ? (
+        <div className="py-10 text-center">
+          <Mail size={40} className="text-slate-100 mx-auto mb-3" />
+          <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No linked messages</p>
+        </div>
+      ) : (
+        threads.map(thread => (
+          <button
+            key={thread.id}
+            onClick={() => onOpenMessage?.(thread.latest)}
+            disabled={!onOpenMessage}
+            className="w-full flex items-center justify-between p-4 bg-white border border-slate-100 rounded-2xl text-left hover:border-blue-300 transition-all group disabled:cursor-default"
+          >
+            <div className="flex items-center space-x-3 min-w-0">
+              <div className="w-8 h-8 rounded-xl bg-slate-100 overflow-hidden flex items-center justify-center shrink-0">
+                {thread.latest.sender?.avatar_url ? <img src={thread.latest.sender.avatar_url} className="w-full h-full object-cover" /> : <UserIcon size={14} className="text-slate-400" />}
+              </div>
+              <div className="min-w-0">
+                <p className="text-xs font-black text-slate-900 truncate">{thread.subject || '(No subject)'}</p>
+                <p className="text-[10px] text-slate-400 font-medium truncate">
+                  <span className="font-black text-slate-500 uppercase">{thread.latest.sender?.full_name || 'Operator'}</span> · {thread.latest.body}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3 shrink-0 ml-3">
+              {thread.messages.length > 1 && (
+                <span className="flex items-center space-x-1 text-[9px] font-black text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
+                  <MessagesSquare size={10} />
+                  <span>{thread.messages.length}</span>
+                </span>
+              )}
+              <span className="text-[9px] font-bold text-slate-300">{new Date(thread.latest.created_at).toLocaleDateString()}</span>
+              {onOpenMessage && <ChevronRight size={14} className="text-slate-200 group-hover:text-blue-500" />}
+            </div>
+          </button>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default RelatedMessages;
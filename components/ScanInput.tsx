@@ -0,0 +1,53 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScanLine } from 'lucide-react';
+
+interface ScanInputProps {
+  onScan: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  // Focus is pulled back whenever this changes, e.g. after the operator switches mode with the mouse
+  refocusKey?: string;
+}
+
+// Keyboard-wedge scanners type the code and press Enter, so a focused input is all a scanner needs
+const ScanInput: React.FC<ScanInputProps> = ({ onScan, placeholder, disabled, refocusKey }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [value, setValue] = useState('');
+  const [armed, setArmed] = useState(false);
+
+  useEffect(() => {
+    if (!disabled) inputRef.current?.focus();
+  }, [disabled, refocusKey]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const scanned = value.trim();
+    setValue('');
+    if (scanned) onScan(scanned);
+  };
+
+  return (
+    <div className="relative">
+      <ScanLine className={`absolute left-5 top-1/2 -translate-y-1/2 ${armed ? 'text-emerald-500' : 'text-slate-300'}`} size={20} />
+      <input
+        ref={inputRef}
+        value={value}
+        disabled={disabled}
+        onChange={e => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setArmed(true)}
+        onBlur={() => setArmed(false)}
+        autoComplete="off"
+        spellCheck={false}
+        placeholder={placeholder || 'Scan or type a code, then Enter'}
+        className="w-full pl-14 pr-32 py-4 bg-white border border-slate-200 rounded-3xl outline-none text-sm font-mono font-black transition-all focus:ring-4 focus:ring-emerald-500/10 focus:border-emerald-500 shadow-sm disabled:opacity-40"
+      />
+      <span className={`absolute right-5 top-1/2 -translate-y-1/2 text-[9px] font-black uppercase tracking-widest ${armed ? 'text-emerald-500' : 'text-amber-500'}`}>
+        {armed ? 'Scanner Ready' : 'Click to Arm'}
+      </span>
+    </div>
+  );
+};
+
+export default ScanInput;
@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import {
+  X,
+  Loader2,
+  History,
+  ArrowDownLeft,
+  ArrowUpRight,
+  SlidersHorizontal,
+  ArrowLeftRight,
+  User as UserIcon,
+  CheckCircle2
+} from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { Email, InventoryItem, StockLocation, StockMovement, StockMovementType } from '../types';
+import { fetchMovements, postStockMovement, movementDelta, deriveLocationLevels, getReasonLabel, MOVEMENT_TYPES, REASON_CODES } from '../lib/stockLedger';
+import { getLocationPath, sortLocationTree } from '../lib/locations';
+import { EmailDraft, itemLinkTarget } from '../lib/emailLinks';
+import RelatedMessages from './RelatedMessages';
+
+interface StockMovementPanelProps {
+  item: InventoryItem;
+  locations: StockLocation[];
+  onClose: () => void;
+  onPosted: (quantity: number) => void;
+  readOnly?: boolean;
+  onOpenMessage?: (email: Email) => void;
+  onComposeMessage?: (draft: EmailDraft) => void;
+}
+
+const MOVEMENT_STYLES: Record<StockMovementType, { icon: React.ReactNode; color: string }> = {
+  receipt: { icon: <ArrowDownLeft size={16} />, color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  issue: { icon: <ArrowUpRight size={16} />, color: 'bg-rose-50 text-rose-600 border-rose-100' },
+  adjustment: { icon: <SlidersHorizontal size={16} />, color: 'bg-amber-50 text-amber-600 border-amber-100' },
+  transfer: { icon: <ArrowLeftRight size={16} />, color: 'bg-blue-50 text-blue-600 border-blue-100' }
+};
+
+const StockMovementPanel: React.FC<StockMovementPanelProps> = ({ item, locations, onClose, onPosted, readOnly, onOpenMessage, onComposeMessage }) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [tab, setTab] = useState<'ledger' | 'messages'>('ledger');
+  const [loading, setLoading] = useState(true);
+  const [isPosting, setIsPosting] = useState(false);
+  const [form, setForm] = useState<{ movement_type: StockMovementType; quantity: number; reason_code: string; note: string; reference: string; location_id: string; to_location_id: string }>({
+    movement_type: 'receipt',
+    quantity: 0,
+    reason_code: REASON_CODES.receipt[0].id,
+    note: '',
+    reference: '',
+    location_id: '',
+    to_location_id: ''
+  });
+
+  const loadMovements = async () => {
+    setLoading(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      setMovements(await fetchMovements(supabase, item.id));
+    } catch (err: any) {
+      console.error('Movement history error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { loadMovements(); }, [item.id]);
+
+  const handleTypeChange = (type: StockMovementType) => {
+    setForm({ ...form, movement_type: type, reason_code: REASON_CODES[type][0].id });
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPosting(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      const quantity = await postStockMovement(supabase, {
+        item_id: item.id,
+        ...form,
+        location_id: form.location_id || null,
+        to_location_id: form.to_location_id || null
+      });
+      onPosted(quantity);
+      setForm({ ...form, quantity: 0, note: '', reference: '' });
+      loadMovements();
+    } catch (err: any) {
+      alert("Movement rejected: " + err.message);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  // Movements arrive newest first; walk them oldest first to compute the running balance
+  const balances: Record<string, number> = {};
+  [...movements].reverse().reduce((acc, m) => {
+    balances[m.id] = acc + movementDelta(m);
+    return balances[m.id];
+  }, 0);
+
+  const levels = deriveLocationLevels(movements);
+  const locationTree = sortLocationTree(locations);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-500">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><History size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Movement Ledger</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">{item.name} · #{item.sku}</p>
+          </div>
+          <div className="flex items-center space-x-6 relative z-10">
+            <div className="text-right">
+              <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">On Hand</p>
+              <p className="text-2xl font-black">{item.quantity}</p>
+            </div>
+            <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white"><X size={28} /></button>
+          </div>
+        </div>
+
+        <div className="px-8 pt-5 flex space-x-2">
+          {([['ledger', `Ledger · ${movements.length}`], ['messages', 'Messages']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-5 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${tab === id ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-900'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'ledger' && !readOnly && (
+          <form onSubmit={handlePost} className="p-8 border-b border-slate-100 bg-slate-50/40 space-y-4">
+            <div className="grid grid-cols-4 gap-2">
+              {MOVEMENT_TYPES.map(t => (
+                <button
+                  key={t.id}
+                  type="button"
+                  onClick={() => handleTypeChange(t.id)}
+                  className={`py-3 rounded-2xl text-[9px] font-black uppercase tracking-widest border transition-all ${
+                    form.movement_type === t.id ? 'bg-slate-900 text-white border-slate-900 shadow-lg' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <select
+                value={form.location_id}
+                onChange={e => setForm({ ...form, location_id: e.target.value })}
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+              >
+                <option value="">{form.movement_type === 'transfer' ? 'From: Unassigned' : 'At: Unassigned'}</option>
+                {locationTree.map(({ location, depth }) => (
+                  <option key={location.id} value={location.id}>{'\u00a0\u00a0'.repeat(depth)}{location.code} · {location.name}</option>
+                ))}
+              </select>
+              {form.movement_type === 'transfer' ? (
+                <select
+                  required
+                  value={form.to_location_id}
+                  onChange={e => setForm({ ...form, to_location_id: e.target.value })}
+                  className="w-full px-5 py-3 bg-white border border-blue-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+                >
+                  <option value="">To: Select destination...</option>
+                  {locationTree.map(({ location, depth }) => (
+                    <option key={location.id} value={location.id}>{'\u00a0\u00a0'.repeat(depth)}{location.code} · {location.name}</option>
+                  ))}
+                </select>
+              ) : <div />}
+              <input
+                type="number"
+                required
+                value={form.quantity}
+                onChange={e => setForm({ ...form, quantity: parseInt(e.target.value) || 0 })}
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none focus:ring-4 focus:ring-blue-500/10"
+                placeholder={form.movement_type === 'adjustment' ? '± Units' : 'Units'}
+              />
+              <select
+                value={form.reason_code}
+                onChange={e => setForm({ ...form, reason_code: e.target.value })}
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+              >
+                {REASON_CODES[form.movement_type].map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+              </select>
+              <input
+                value={form.reference}
+                onChange={e => setForm({ ...form, reference: e.target.value })}
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300"
+                placeholder="Reference (PO, lot)..."
+              />
+              <input
+                value={form.note}
+                onChange={e => setForm({ ...form, note: e.target.value })}
+                className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-medium outline-none placeholder:text-slate-300"
+                placeholder="Operator note..."
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isPosting || !form.quantity}
+              className="w-full py-4 bg-blue-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 shadow-xl shadow-blue-500/20 flex items-center justify-center space-x-3 disabled:opacity-50"
+            >
+              {isPosting ? <Loader2 className="animate-spin" size={16} /> : <CheckCircle2 size={16} />}
+              <span>Post Movement</span>
+            </button>
+          </form>
+        )}
+
+        {tab === 'ledger' && Object.keys(levels).length > 0 && (
+          <div className="px-8 pt-6 flex flex-wrap gap-2">
+            {Object.entries(levels).filter(([, qty]) => qty !== 0).map(([locationId, qty]) => (
+              <div key={locationId} className="flex items-center space-x-2 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-xl">
+                <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{getLocationPath(locations, locationId)}</span>
+                <span className={`text-[10px] font-black ${qty < 0 ? 'text-rose-600' : 'text-slate-900'}`}>{qty}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-3 scrollbar-hide">
+          {tab === 'messages' ? (
+            <RelatedMessages target={itemLinkTarget(item)} onOpenMessage={onOpenMessage} onCompose={onComposeMessage} />
+          ) : loading ? (
+            <div className="flex items-center justify-center h-40"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+          ) : movements.length === 0 ? (
+            <div className="py-20 text-center">
+              <History size={56} className="text-slate-100 mx-auto mb-4" />
+              <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">No movements recorded</p>
+            </div>
+          ) : (
+            movements.map(m => {
+              const delta = movementDelta(m);
+              return (
+                <div key={m.id} className="flex items-center justify-between p-5 bg-white border border-slate-100 rounded-3xl shadow-sm">
+                  <div className="flex items-center space-x-4 min-w-0">
+                    <div className={`p-3 rounded-2xl border ${MOVEMENT_STYLES[m.movement_type].color}`}>{MOVEMENT_STYLES[m.movement_type].icon}</div>
+                    <div className="min-w-0">
+                      <p className="text-xs font-black text-slate-900 uppercase tracking-tight">{getReasonLabel(m.movement_type, m.reason_code)}</p>
+                      <p className="text-[10px] text-slate-400 font-bold truncate max-w-[260px]">
+                        {m.movement_type === 'transfer'
+                          ? `${getLocationPath(locations, m.location_id)} → ${getLocationPath(locations, m.to_location_id)}`
+                          : getLocationPath(locations, m.location_id)}
+                        {[m.reference, m.note].filter(Boolean).map(t => ` · ${t}`).join('')}
+                      </p>
+                      <div className="flex items-center space-x-2 mt-1">
+                        <div className="w-4 h-4 rounded bg-slate-100 overflow-hidden flex items-center justify-center">
+                          {m.actor?.avatar_url ? <img src={m.actor.avatar_url} className="w-full h-full object-cover" /> : <UserIcon size={8} className="text-slate-400" />}
+                        </div>
+                        <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{m.actor?.full_name || 'System'}</span>
+                        <span className="text-[9px] font-bold text-slate-300">{new Date(m.created_at).toLocaleString()}</span>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-lg font-black ${delta > 0 ? 'text-emerald-600' : delta < 0 ? 'text-rose-600' : 'text-blue-600'}`}>
+                      {m.movement_type === 'transfer' ? `⇄ ${m.quantity}` : `${delta > 0 ? '+' : ''}${delta}`}
+                    </p>
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Bal {balances[m.id]}</p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StockMovementPanel;
@@ -0,0 +1,372 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Shirt, Plus, Save, ArrowLeft, Trash2, Printer } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { InventoryItem, ProductCategory, ProductStyle } from '../types';
+import {
+  buildVariantMatrix,
+  deleteStyle,
+  fetchStyleVariants,
+  fetchStyles,
+  generateVariants,
+  parseOptionList,
+  postVariantCounts,
+  saveStyle,
+  updateVariantPrices,
+  variantKey
+} from '../lib/variants';
+import { getCategoryPath, sortCategoryTree } from '../lib/categories';
+import { REASON_CODES } from '../lib/stockLedger';
+import { downloadLabelSheet } from '../lib/labels';
+import { itemLabel } from '../lib/scan';
+
+interface StylePanelProps {
+  categories: ProductCategory[];
+  initialStyleId?: string | null;
+  onClose: () => void;
+  onChanged: () => void;
+  readOnly?: boolean;
+  canDelete?: boolean;
+}
+
+const EMPTY_STYLE = { code: '', name: '', category_id: '', base_price: 0, sizes: '', colors: '' };
+
+const StylePanel: React.FC<StylePanelProps> = ({ categories, initialStyleId, onClose, onChanged, readOnly, canDelete }) => {
+  const [styles, setStyles] = useState<ProductStyle[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(initialStyleId || null);
+  const [variants, setVariants] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(EMPTY_STYLE);
+  const [extend, setExtend] = useState({ sizes: '', colors: '' });
+  // Grid edits keyed by variant id, held as text until saved
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [prices, setPrices] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('cycle_count');
+
+  const style = styles.find(s => s.id === selectedId) || null;
+
+  const loadStyles = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      setStyles(await fetchStyles(supabase));
+    } catch (err: any) {
+      console.error('Style sync error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadVariants = async (styleId: string) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      setVariants(await fetchStyleVariants(supabase, styleId));
+      setCounts({});
+      setPrices({});
+    } catch (err: any) {
+      console.error('Variant sync error:', err.message);
+    }
+  };
+
+  useEffect(() => { loadStyles(); }, []);
+  useEffect(() => {
+    if (selectedId) loadVariants(selectedId);
+    else setVariants([]);
+  }, [selectedId]);
+
+  const categoryName = (categoryId?: string | null) => categories.find(c => c.id === categoryId)?.name || '';
+
+  // Creating a style and widening its matrix both end here: save the style, then fill in the missing cells
+  const persistStyle = async (next: Omit<ProductStyle, 'id' | 'created_at'> & { id?: string }, before?: ProductStyle) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    const saved = await saveStyle(supabase, next);
+    const existing = before ? variants : [];
+    await generateVariants(supabase, saved, existing, categoryName(saved.category_id));
+    await loadStyles();
+    setSelectedId(saved.id);
+    await loadVariants(saved.id);
+    onChanged();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const sizes = parseOptionList(form.sizes);
+    const colors = parseOptionList(form.colors);
+    if (!sizes.length || !colors.length) {
+      alert("A style needs at least one size and one color.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await persistStyle({ code: form.code, name: form.name, category_id: form.category_id || null, base_price: Number(form.base_price), sizes, colors });
+      setForm(EMPTY_STYLE);
+    } catch (err: any) {
+      alert("Style registration failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExtend = async () => {
+    if (!style) return;
+    const sizes = Array.from(new Set([...style.sizes, ...parseOptionList(extend.sizes)]));
+    const colors = Array.from(new Set([...style.colors, ...parseOptionList(extend.colors)]));
+    setIsSaving(true);
+    try {
+      await persistStyle({ ...style, sizes, colors }, style);
+      setExtend({ sizes: '', colors: '' });
+    } catch (err: any) {
+      alert("Matrix update failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteStyle = async () => {
+    if (!style || !confirm(`Delete style ${style.code}?`)) return;
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      await deleteStyle(supabase, style);
+      setSelectedId(null);
+      loadStyles();
+    } catch (err: any) {
+      alert("Style purge failed: " + err.message);
+    }
+  };
+
+  const matrix = buildVariantMatrix(variants);
+
+  // One label per variant in grid order, so a printed sheet reads like the matrix
+  const handlePrintLabels = () => {
+    if (!style) return;
+    const ordered = style.colors.flatMap(color => style.sizes.map(size => matrix.get(variantKey(color, size))))
+      .filter((v): v is InventoryItem => !!v);
+    try {
+      downloadLabelSheet(`${style.code.toLowerCase()}-labels.pdf`, ordered.map(v => itemLabel({ ...v, category: `${style.code} · ${v.color} / ${v.size}` })));
+    } catch (err: any) {
+      alert("Label print failed: " + err.message);
+    }
+  };
+  const cellCount = (v: InventoryItem) => counts[v.id] ?? String(v.quantity);
+  const cellPrice = (v: InventoryItem) => prices[v.id] ?? String(v.price);
+
+  // Fills one price into every variant of a row, a column, or the whole grid
+  const fillPrice = (value: string, match: (v: InventoryItem) => boolean) => {
+    if (value === '' || !Number.isFinite(Number(value))) return;
+    const next = { ...prices };
+    variants.filter(match).forEach(v => { next[v.id] = value; });
+    setPrices(next);
+  };
+
+  const changedCounts = variants.filter(v => counts[v.id] !== undefined && Number(counts[v.id]) !== v.quantity);
+  const changedPrices = variants.filter(v => prices[v.id] !== undefined && Number(prices[v.id]) !== v.price);
+
+  const handleSaveGrid = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    if ([...changedCounts.map(v => counts[v.id]), ...changedPrices.map(v => prices[v.id])].some(value => value === '' || Number(value) < 0 || !Number.isFinite(Number(value)))) {
+      alert("Quantities and prices must be zero or more.");
+      return;
+    }
+    if (changedCounts.some(v => !Number.isInteger(Number(counts[v.id])))) {
+      alert("Quantities must be whole numbers.");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await updateVariantPrices(supabase, changedPrices.map(v => ({ id: v.id, price: Number(prices[v.id]) })));
+      await postVariantCounts(supabase, changedCounts.map(v => ({ item: v, quantity: Number(counts[v.id]) })), reason);
+      await loadVariants(style!.id);
+      onChanged();
+    } catch (err: any) {
+      alert("Grid update failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rowTotal = (color: string) => style!.sizes.reduce((acc, size) => acc + (matrix.get(variantKey(color, size))?.quantity || 0), 0);
+  const columnTotal = (size: string) => style!.colors.reduce((acc, color) => acc + (matrix.get(variantKey(color, size))?.quantity || 0), 0);
+  const gridInput = "w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg text-xs font-black outline-none text-center focus:border-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-5xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-500">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><Shirt size={120} /></div>
+          <div className="relative z-10 flex items-center space-x-4">
+            {style && (
+              <button onClick={() => setSelectedId(null)} className="p-3 bg-white/5 rounded-2xl hover:bg-white/10 transition-all text-slate-400 hover:text-white"><ArrowLeft size={20} /></button>
+            )}
+            <div>
+              <h3 className="font-black text-3xl tracking-tighter">{style ? style.name : 'Styles & Variants'}</h3>
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">
+                {style ? `${style.code} · ${variants.length} variants · ${getCategoryPath(categories, style.category_id) || 'Uncategorised'}` : 'Size × Color Matrix'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-hide">
+          {loading ? (
+            <div className="p-20 flex justify-center"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+          ) : !style ? (
+            <>
+              {!readOnly && (
+                <form onSubmit={handleCreate} className="p-8 border-b border-slate-100 bg-slate-50/40 grid grid-cols-2 gap-4">
+                  <input required value={form.code} onChange={e => setForm({ ...form, code: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black uppercase outline-none placeholder:text-slate-300" placeholder="Style code (e.g. TS100)" />
+                  <input required value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Name (e.g. Crew Neck Tee)" />
+                  <select value={form.category_id} onChange={e => setForm({ ...form, category_id: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer">
+                    <option value="">No category</option>
+                    {sortCategoryTree(categories).map(({ category, depth }) => (
+                      <option key={category.id} value={category.id}>{'\u00a0\u00a0'.repeat(depth)}{category.name}</option>
+                    ))}
+                  </select>
+                  <input type="number" min={0} step="0.01" value={form.base_price} onChange={e => setForm({ ...form, base_price: parseFloat(e.target.value) || 0 })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none" placeholder="Base price" />
+                  <input required value={form.sizes} onChange={e => setForm({ ...form, sizes: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Sizes (e.g. S, M, L, XL)" />
+                  <input required value={form.colors} onChange={e => setForm({ ...form, colors: e.target.value })} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Colors (e.g. Navy, Black)" />
+                  <button type="submit" disabled={isSaving} className="col-span-2 py-4 bg-blue-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 shadow-xl shadow-blue-500/20 flex items-center justify-center space-x-3 disabled:opacity-50">
+                    {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Plus size={16} />}
+                    <span>Create Style & Generate Variants</span>
+                  </button>
+                </form>
+              )}
+              <div className="p-8 space-y-2">
+                {styles.length === 0 ? (
+                  <p className="py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No styles registered</p>
+                ) : styles.map(s => (
+                  <button key={s.id} onClick={() => setSelectedId(s.id)} className="w-full flex items-center justify-between px-5 py-4 bg-white border border-slate-100 rounded-2xl hover:border-blue-200 hover:bg-blue-50/30 transition-all text-left">
+                    <div className="flex items-center space-x-4">
+                      <div className="p-2 bg-slate-50 rounded-xl text-slate-400"><Shirt size={14} /></div>
+                      <span className="text-[10px] font-mono font-black text-blue-500">{s.code}</span>
+                      <span className="text-xs font-black text-slate-900">{s.name}</span>
+                    </div>
+                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{s.sizes.length} sizes × {s.colors.length} colors</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="p-8 space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-left border-separate border-spacing-1">
+                  <thead>
+                    <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                      <th className="px-2 py-2">Color \ Size</th>
+                      {style.sizes.map(size => (
+                        <th key={size} className="px-2 py-2 text-center min-w-[110px]">
+                          <p>{size}</p>
+                          {!readOnly && (
+                            <input type="number" min={0} step="0.01" placeholder="$ column" onBlur={e => { fillPrice(e.target.value, v => v.size === size); e.target.value = ''; }} className={`${gridInput} mt-1 font-bold`} />
+                          )}
+                        </th>
+                      ))}
+                      <th className="px-2 py-2 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {style.colors.map(color => (
+                      <tr key={color}>
+                        <td className="px-2 py-2 align-top">
+                          <p className="text-xs font-black text-slate-900">{color}</p>
+                          {!readOnly && (
+                            <input type="number" min={0} step="0.01" placeholder="$ row" onBlur={e => { fillPrice(e.target.value, v => v.color === color); e.target.value = ''; }} className={`${gridInput} mt-1 font-bold w-24`} />
+                          )}
+                        </td>
+                        {style.sizes.map(size => {
+                          const v = matrix.get(variantKey(color, size));
+                          if (!v) return <td key={size} className="px-2 py-2 text-center text-[9px] font-black text-slate-300 uppercase">—</td>;
+                          const edited = changedCounts.includes(v) || changedPrices.includes(v);
+                          return (
+                            <td key={size} title={v.sku} className={`px-2 py-2 rounded-xl border ${edited ? 'bg-amber-50 border-amber-200' : 'bg-slate-50/60 border-slate-100'}`}>
+                              {readOnly ? (
+                                <div className="text-center">
+                                  <p className="text-sm font-black text-slate-900">{v.quantity}</p>
+                                  <p className="text-[9px] font-black text-slate-400">${v.price.toLocaleString()}</p>
+                                </div>
+                              ) : (
+                                <div className="space-y-1">
+                                  <input type="number" min={0} step={1} value={cellCount(v)} onChange={e => setCounts({ ...counts, [v.id]: e.target.value })} className={gridInput} />
+                                  <input type="number" min={0} step="0.01" value={cellPrice(v)} onChange={e => setPrices({ ...prices, [v.id]: e.target.value })} className={`${gridInput} text-slate-500 font-bold`} />
+                                </div>
+                              )}
+                            </td>
+                          );
+                        })}
+                        <td className="px-2 py-2 text-right text-sm font-black text-slate-900">{rowTotal(color)}</td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="px-2 py-2 text-[9px] font-black text-slate-400 uppercase tracking-widest">Total</td>
+                      {style.sizes.map(size => <td key={size} className="px-2 py-2 text-center text-sm font-black text-slate-900">{columnTotal(size)}</td>)}
+                      <td className="px-2 py-2 text-right text-sm font-black text-blue-600">{variants.reduce((acc, v) => acc + v.quantity, 0)}</td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {!readOnly && (
+                <div className="flex flex-wrap items-center gap-3 p-6 bg-slate-50/60 border border-slate-100 rounded-[2rem]">
+                  <input type="number" min={0} step="0.01" placeholder="$ all variants" onBlur={e => { fillPrice(e.target.value, () => true); e.target.value = ''; }} className="w-36 px-4 py-3 bg-white border border-slate-200 rounded-2xl text-xs font-black outline-none" />
+                  {changedCounts.length > 0 && (
+                    <select value={reason} onChange={e => setReason(e.target.value)} className="px-4 py-3 bg-white border border-amber-200 rounded-2xl text-xs font-black outline-none cursor-pointer">
+                      {REASON_CODES.adjustment.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                    </select>
+                  )}
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => { setCounts({}); setPrices({}); }}
+                    disabled={isSaving || (changedCounts.length === 0 && changedPrices.length === 0)}
+                    className="px-6 py-3 border border-slate-200 text-slate-500 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-white disabled:opacity-40"
+                  >
+                    Discard
+                  </button>
+                  <button
+                    onClick={handleSaveGrid}
+                    disabled={isSaving || (changedCounts.length === 0 && changedPrices.length === 0)}
+                    className="px-6 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-600 flex items-center space-x-2 disabled:opacity-40 transition-all"
+                  >
+                    {isSaving ? <Loader2 className="animate-spin" size={14} /> : <Save size={14} />}
+                    <span>Save {changedCounts.length + changedPrices.length ? `(${new Set([...changedCounts, ...changedPrices]).size})` : ''}</span>
+                  </button>
+                </div>
+              )}
+
+              {!readOnly && (
+                <div className="grid grid-cols-3 gap-3 p-6 border border-slate-100 rounded-[2rem]">
+                  <input value={extend.sizes} onChange={e => setExtend({ ...extend, sizes: e.target.value })} className="w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-xs font-black outline-none placeholder:text-slate-300" placeholder="Add sizes (e.g. XXL)" />
+                  <input value={extend.colors} onChange={e => setExtend({ ...extend, colors: e.target.value })} className="w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl text-xs font-black outline-none placeholder:text-slate-300" placeholder="Add colors (e.g. Olive)" />
+                  <button
+                    onClick={handleExtend}
+                    disabled={isSaving || (!extend.sizes.trim() && !extend.colors.trim())}
+                    className="py-3 bg-blue-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 flex items-center justify-center space-x-2 disabled:opacity-40"
+                  >
+                    <Plus size={14} /><span>Extend Matrix</span>
+                  </button>
+                </div>
+              )}
+
+              {variants.length > 0 && (
+                <button onClick={handlePrintLabels} className="flex items-center space-x-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-600">
+                  <Printer size={14} /><span>Print Variant Labels</span>
+                </button>
+              )}
+
+              {canDelete && variants.length === 0 && (
+                <button onClick={handleDeleteStyle} className="flex items-center space-x-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-600">
+                  <Trash2 size={14} /><span>Delete Style</span>
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StylePanel;
@@ -0,0 +1,357 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  X,
+  Loader2,
+  MessageSquare,
+  Paperclip,
+  Send,
+  Reply,
+  Trash2,
+  History,
+  ExternalLink,
+  FileText,
+  File as FileIcon,
+  Image as ImageIcon,
+  User as UserIcon
+} from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { Email, Profile, Task, TaskActivity, TaskComment } from '../types';
+import { deleteTaskComment, fetchTaskComments, mentionHandle, postTaskComment, splitMentions } from '../lib/taskComments';
+import { fetchTaskActivity, getFieldLabel, updateTaskFields } from '../lib/taskActivity';
+import { EmailDraft, taskLinkTarget } from '../lib/emailLinks';
+import RelatedMessages from './RelatedMessages';
+
+interface TaskDetailPanelProps {
+  task: Task;
+  teamMembers: Profile[];
+  currentUser: string | null;
+  canEdit: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+  onOpenMessage?: (email: Email) => void;
+  onComposeMessage?: (draft: EmailDraft) => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+const getFileIcon = (type: string) => {
+  if (type.includes('image')) return <ImageIcon size={14} className="text-blue-500" />;
+  if (type.includes('pdf')) return <FileText size={14} className="text-rose-500" />;
+  return <FileIcon size={14} className="text-slate-400" />;
+};
+
+const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({ task, teamMembers, currentUser, canEdit, onClose, onChanged, onOpenMessage, onComposeMessage }) => {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<'comments' | 'activity' | 'messages'>('comments');
+  const [body, setBody] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [replyTo, setReplyTo] = useState<TaskComment | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const loadStream = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      const [commentList, activityList] = await Promise.all([
+        fetchTaskComments(supabase, task.id),
+        fetchTaskActivity(supabase, task.id)
+      ]);
+      setComments(commentList);
+      setActivity(activityList);
+    } catch (err: any) {
+      console.error('Task stream error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStream();
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    const channel = supabase
+      .channel(`task-stream-${task.id}`)
+      .on('postgres_changes', { event: '*', table: 'task_comments', schema: 'public', filter: `task_id=eq.${task.id}` }, () => loadStream())
+      .on('postgres_changes', { event: 'INSERT', table: 'task_activity', schema: 'public', filter: `task_id=eq.${task.id}` }, () => loadStream())
+      .subscribe();
+
+    return () => { supabase.removeChannel(channel); };
+  }, [task.id]);
+
+  const handleFieldChange = async (patch: Pick<Partial<Task>, 'assigned_to' | 'priority'>) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      await updateTaskFields(supabase, task, patch);
+      onChanged();
+      loadStream();
+    } catch (err: any) {
+      alert("Update failed: " + err.message);
+    }
+  };
+
+  const handleBodyChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    const beforeCaret = e.target.value.slice(0, e.target.selectionStart);
+    const match = beforeCaret.match(/@([\w.-]*)$/);
+    setMentionQuery(match ? match[1].toLowerCase() : null);
+  };
+
+  const insertMention = (profile: Profile) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@([\w.-]*)$/, `@${mentionHandle(profile)} `);
+    setBody(before + body.slice(caret));
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPosting(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await postTaskComment(supabase, { task_id: task.id, parent_id: replyTo?.id, body, files }, teamMembers);
+      setBody('');
+      setFiles([]);
+      setReplyTo(null);
+      loadStream();
+    } catch (err: any) {
+      alert("Comment failed: " + err.message);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleDelete = async (comment: TaskComment) => {
+    if (!confirm("Delete this comment?")) return;
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      await deleteTaskComment(supabase, comment.id);
+      loadStream();
+    } catch (err: any) {
+      alert("Delete failed: " + err.message);
+    }
+  };
+
+  const describeValue = (field: TaskActivity['field'], value?: string | null) => {
+    if (!value) return 'None';
+    if (field === 'assigned_to') return teamMembers.find(m => m.id === value)?.full_name || 'Unknown';
+    return value.replace('_', ' ');
+  };
+
+  const mentionMatches = mentionQuery === null
+    ? []
+    : teamMembers.filter(m => mentionHandle(m).includes(mentionQuery) || m.full_name?.toLowerCase().includes(mentionQuery)).slice(0, 5);
+
+  const roots = comments.filter(c => !c.parent_id);
+  const repliesTo = (id: string) => comments.filter(c => c.parent_id === id);
+
+  const renderComment = (comment: TaskComment, isReply = false) => (
+    <div key={comment.id} className={`group ${isReply ? 'ml-10 pl-4 border-l-2 border-slate-100' : ''}`}>
+      <div className="flex items-start space-x-3">
+        <div className="w-8 h-8 rounded-xl bg-slate-100 overflow-hidden flex items-center justify-center shrink-0">
+          {comment.author?.avatar_url ? <img src={comment.author.avatar_url} className="w-full h-full object-cover" /> : <UserIcon size={14} className="text-slate-400" />}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <span className="text-[10px] font-black text-slate-900 uppercase tracking-tight">{comment.author?.full_name || 'Operator'}</span>
+              <span className="text-[9px] font-bold text-slate-300">{new Date(comment.created_at).toLocaleString()}</span>
+            </div>
+            <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-all">
+              <button onClick={() => { setReplyTo(isReply ? comments.find(c => c.id === comment.parent_id) || comment : comment); textareaRef.current?.focus(); }} className="text-slate-300 hover:text-blue-500"><Reply size={12} /></button>
+              {comment.user_id === currentUser && (
+                <button onClick={() => handleDelete(comment)} className="text-slate-300 hover:text-rose-500"><Trash2 size={12} /></button>
+              )}
+            </div>
+          </div>
+          {comment.body && (
+            <p className="text-xs text-slate-600 font-medium leading-relaxed mt-1 whitespace-pre-wrap break-words">
+              {splitMentions(comment.body).map((part, idx) =>
+                part.startsWith('@') ? <span key={idx} className="font-black text-blue-600 bg-blue-50 px-1 rounded">{part}</span> : part
+              )}
+            </p>
+          )}
+          {comment.attachments?.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {comment.attachments.map((at, idx) => at.type.includes('image') ? (
+                <a key={idx} href={at.url} target="_blank" rel="noreferrer" className="block w-24 h-24 rounded-xl overflow-hidden border border-slate-200 hover:border-blue-400">
+                  <img src={at.url} alt={at.name} className="w-full h-full object-cover" />
+                </a>
+              ) : (
+                <a key={idx} href={at.url} target="_blank" rel="noreferrer" className="flex items-center space-x-2 px-3 py-2 bg-white border border-slate-200 rounded-xl hover:border-blue-400">
+                  {getFileIcon(at.type)}
+                  <span className="text-[10px] font-black text-slate-600 truncate max-w-[140px] uppercase tracking-tight">{at.name}</span>
+                  <span className="text-[9px] font-bold text-slate-300">{formatFileSize(at.size)}</span>
+                  <ExternalLink size={10} className="text-slate-300" />
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-500">
+        <div className="bg-slate-900 p-10 flex items-start justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><MessageSquare size={120} /></div>
+          <div className="relative z-10 min-w-0">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em]">{task.department} · {task.status.replace('_', ' ')}</p>
+            <h3 className="font-black text-2xl tracking-tighter mt-2">{task.title}</h3>
+            {task.description && <p className="text-xs text-slate-400 font-medium mt-2 leading-relaxed">{task.description}</p>}
+          </div>
+          <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+        </div>
+
+        <div className="px-8 py-5 border-b border-slate-100 grid grid-cols-2 gap-4">
+          <select
+            value={task.assigned_to || ''}
+            disabled={!canEdit}
+            onChange={e => handleFieldChange({ assigned_to: e.target.value })}
+            className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-black outline-none cursor-pointer disabled:opacity-50 disabled:cursor-default"
+          >
+            <option value="">Unassigned</option>
+            {teamMembers.map(m => <option key={m.id} value={m.id}>{m.full_name || m.email}</option>)}
+          </select>
+          <select
+            value={task.priority}
+            disabled={!canEdit}
+            onChange={e => handleFieldChange({ priority: e.target.value as Task['priority'] })}
+            className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-black uppercase outline-none cursor-pointer disabled:opacity-50 disabled:cursor-default"
+          >
+            <option value="low">Low Priority</option>
+            <option value="medium">Medium Priority</option>
+            <option value="high">High Priority</option>
+          </select>
+        </div>
+
+        <div className="px-8 pt-5 flex space-x-2">
+          {([['comments', `Discussion · ${comments.length}`], ['activity', `Activity · ${activity.length}`], ['messages', 'Messages']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`px-5 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${tab === id ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-900'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6 scrollbar-hide">
+          {tab === 'messages' ? (
+            <RelatedMessages
+              target={taskLinkTarget(task)}
+              // A message about the task goes to whoever it is assigned to, unless that is you
+              composeTo={[teamMembers.find(m => m.id === task.assigned_to && m.id !== currentUser)?.email].filter((e): e is string => !!e)}
+              onOpenMessage={onOpenMessage}
+              onCompose={onComposeMessage}
+            />
+          ) : loading ? (
+            <div className="flex justify-center p-20"><Loader2 className="animate-spin text-blue-500" size={40} /></div>
+          ) : tab === 'comments' ? (
+            roots.length === 0 ? (
+              <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest text-center p-10">No discussion yet</p>
+            ) : roots.map(root => (
+              <div key={root.id} className="space-y-4">
+                {renderComment(root)}
+                {repliesTo(root.id).map(reply => renderComment(reply, true))}
+              </div>
+            ))
+          ) : activity.length === 0 ? (
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest text-center p-10">No changes recorded</p>
+          ) : (
+            <div className="space-y-2">
+              {activity.map(a => (
+                <div key={a.id} className="flex items-center justify-between px-5 py-3 bg-white border border-slate-100 rounded-2xl">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <History size={12} className="text-slate-300 shrink-0" />
+                    <span className="text-[10px] font-black text-slate-700 uppercase shrink-0">{a.actor?.full_name || 'System'}</span>
+                    <span className="text-[10px] text-slate-500 font-medium truncate">
+                      {getFieldLabel(a.field)}: <span className="line-through text-slate-300">{describeValue(a.field, a.old_value)}</span> → <span className="font-black text-slate-900">{describeValue(a.field, a.new_value)}</span>
+                    </span>
+                  </div>
+                  <span className="text-[9px] font-bold text-slate-300 shrink-0 ml-3">{new Date(a.created_at).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {tab === 'comments' && (
+          <form onSubmit={handlePost} className="p-6 border-t border-slate-100 bg-slate-50/40 space-y-3 relative">
+            {replyTo && (
+              <div className="flex items-center justify-between px-4 py-2 bg-blue-50 border border-blue-100 rounded-xl">
+                <span className="text-[9px] font-black text-blue-600 uppercase tracking-widest truncate">Replying to {replyTo.author?.full_name || 'Operator'}</span>
+                <button type="button" onClick={() => setReplyTo(null)} className="text-blue-300 hover:text-blue-600"><X size={12} /></button>
+              </div>
+            )}
+            {mentionMatches.length > 0 && (
+              <div className="absolute bottom-full left-6 mb-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-2xl overflow-hidden z-10">
+                {mentionMatches.map(m => (
+                  <button key={m.id} type="button" onClick={() => insertMention(m)} className="w-full flex items-center justify-between px-4 py-3 hover:bg-blue-50 text-left">
+                    <span className="text-xs font-black text-slate-900">{m.full_name || m.email}</span>
+                    <span className="text-[10px] font-mono font-black text-blue-500">@{mentionHandle(m)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            {files.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {files.map((file, idx) => (
+                  <div key={idx} className="flex items-center space-x-2 bg-white px-3 py-2 rounded-xl border border-slate-200">
+                    {getFileIcon(file.type)}
+                    <span className="text-[10px] font-black text-slate-600 truncate max-w-[120px] uppercase tracking-tight">{file.name}</span>
+                    <button type="button" onClick={() => setFiles(files.filter((_, i) => i !== idx))} className="text-slate-300 hover:text-rose-500"><X size={12} /></button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex items-end space-x-3">
+              <textarea
+                ref={textareaRef}
+                rows={2}
+                value={body}
+                onChange={handleBodyChange}
+                className="flex-1 px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-medium outline-none resize-none focus:ring-4 focus:ring-blue-500/10 placeholder:text-slate-300"
+                placeholder="Comment, @mention a teammate..."
+              />
+              <button type="button" onClick={() => fileInputRef.current?.click()} className="p-3 bg-white border border-slate-200 text-slate-500 rounded-2xl hover:bg-slate-100">
+                <Paperclip size={18} />
+              </button>
+              <input
+                type="file"
+                multiple
+                ref={fileInputRef}
+                onChange={e => { if (e.target.files) setFiles([...files, ...Array.from(e.target.files)]); e.target.value = ''; }}
+                className="hidden"
+              />
+              <button type="submit" disabled={isPosting} className="p-3 bg-blue-600 text-white rounded-2xl hover:bg-blue-700 shadow-lg shadow-blue-500/20 disabled:opacity-50">
+                {isPosting ? <Loader2 className="animate-spin" size={18} /> : <Send size={18} />}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskDetailPanel;
@@ -0,0 +1,189 @@
+import React, { useRef, useState } from 'react';
+import { X, ScanLine, Printer, CheckCircle2, AlertTriangle, ArrowRight } from 'lucide-react';
+import { Task } from '../types';
+import { TASK_STATUSES } from '../lib/pipeline';
+import { departmentLabel, parseScan, taskLabel } from '../lib/scan';
+import { downloadLabelSheet } from '../lib/labels';
+import ScanInput from './ScanInput';
+
+type Department = Task['department'];
+
+interface TaskScanPanelProps {
+  tasks: Task[];
+  departments: readonly { id: Department; label: string }[];
+  onMove: (task: Task, department: Department, status: Task['status']) => Promise<boolean>;
+  onClose: () => void;
+}
+
+interface ScanLogEntry {
+  id: number;
+  ok: boolean;
+  message: string;
+}
+
+const LOG_LIMIT = 30;
+
+// A bundle arriving at a department normally joins its queue; a cell that starts work on arrival can switch to In Progress
+const ARRIVAL_STATUSES = TASK_STATUSES.filter(s => s.id !== 'completed');
+
+/**
+ * Scan-to-move for bundles: a department label sets where bundles are going and stays set, so an operator at a
+ * drop-off point scans it once and then each bundle ticket. A bundle scanned first waits for its department.
+ */
+const TaskScanPanel: React.FC<TaskScanPanelProps> = ({ tasks, departments, onMove, onClose }) => {
+  const [destination, setDestination] = useState<Department | null>(null);
+  const [arrivalStatus, setArrivalStatus] = useState<Task['status']>('todo');
+  const [heldTask, setHeldTask] = useState<Task | null>(null);
+  const [log, setLog] = useState<ScanLogEntry[]>([]);
+  const logId = useRef(0);
+  const queue = useRef<Promise<void>>(Promise.resolve());
+  // Each move re-renders the board; queued scans must see the tasks and settings as they are by then
+  const latest = useRef({ tasks, onMove, destination, arrivalStatus, heldTask });
+  latest.current = { tasks, onMove, destination, arrivalStatus, heldTask };
+
+  const departmentName = (id: Department) => departments.find(d => d.id === id)?.label || id;
+
+  const report = (ok: boolean, message: string) => {
+    logId.current += 1;
+    const entry = { id: logId.current, ok, message };
+    setLog(prev => [entry, ...prev].slice(0, LOG_LIMIT));
+  };
+
+  const move = async (scanned: Task, department: Department) => {
+    const { onMove: moveTo, arrivalStatus: status } = latest.current;
+    const task = latest.current.tasks.find(t => t.id === scanned.id) || scanned;
+    if (task.department === department && task.status === status) {
+      report(true, `${task.title} is already in ${departmentName(department)}`);
+      return;
+    }
+    const moved = await moveTo(task, department, status);
+    report(moved, moved
+      ? `${task.title} → ${departmentName(department)}`
+      : `${task.title} was not moved to ${departmentName(department)}`);
+  };
+
+  const processScan = async (raw: string) => {
+    try {
+      const target = parseScan(raw);
+      if (!target) return;
+
+      if (target.kind === 'department') {
+        setDestination(target.id);
+        latest.current.destination = target.id;
+        const held = latest.current.heldTask;
+        if (held) {
+          setHeldTask(null);
+          latest.current.heldTask = null;
+          await move(held, target.id);
+        } else {
+          report(true, `Destination set to ${departmentName(target.id)}`);
+        }
+        return;
+      }
+      if (target.kind !== 'task') throw new Error(`${raw} is a stock label, not a bundle or department label.`);
+
+      const task = latest.current.tasks.find(t => t.id === target.id);
+      if (!task) throw new Error("This bundle is not on the board.");
+      const dest = latest.current.destination;
+      if (dest) {
+        await move(task, dest);
+      } else {
+        setHeldTask(task);
+        latest.current.heldTask = task;
+        report(true, `${task.title} held; scan a department label`);
+      }
+    } catch (err: any) {
+      report(false, `${raw}: ${err.message}`);
+    }
+  };
+
+  const handleScan = (raw: string) => {
+    queue.current = queue.current.then(() => processScan(raw));
+  };
+
+  const handlePrint = (kind: 'departments' | 'bundles') => {
+    try {
+      if (kind === 'departments') {
+        downloadLabelSheet('department-labels.pdf', departments.map(d => departmentLabel(d.id, d.label)));
+      } else {
+        const open = tasks.filter(t => t.status !== 'completed');
+        downloadLabelSheet('bundle-labels.pdf', open.map(taskLabel));
+      }
+    } catch (err: any) {
+      alert("Label print failed: " + err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-500">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><ScanLine size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">Bundle Scanner</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Scan a department, then bundle tickets</p>
+          </div>
+          <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+        </div>
+
+        <div className="p-8 border-b border-slate-100 bg-slate-50/40 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <select
+              value={destination || ''}
+              onChange={e => setDestination((e.target.value || null) as Department | null)}
+              className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+            >
+              <option value="">Destination: scan a label...</option>
+              {departments.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+            </select>
+            <select
+              value={arrivalStatus}
+              onChange={e => setArrivalStatus(e.target.value as Task['status'])}
+              className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer"
+            >
+              {ARRIVAL_STATUSES.map(s => <option key={s.id} value={s.id}>Arrives as {s.label}</option>)}
+            </select>
+          </div>
+
+          <ScanInput onScan={handleScan} refocusKey={`${destination}|${arrivalStatus}`} />
+
+          {heldTask && (
+            <div className="flex items-center justify-between px-5 py-3 bg-amber-50 border border-amber-100 rounded-2xl text-amber-700">
+              <div className="flex items-center space-x-3 text-[11px] font-bold">
+                <ArrowRight size={14} />
+                <span>{heldTask.title} is waiting for a department scan</span>
+              </div>
+              <button onClick={() => setHeldTask(null)} className="p-1 hover:text-amber-900"><X size={14} /></button>
+            </div>
+          )}
+
+          <div className="flex items-center space-x-3">
+            <button onClick={() => handlePrint('departments')} className="flex-1 py-3 bg-white border border-slate-200 text-slate-600 rounded-2xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-50 flex items-center justify-center space-x-2">
+              <Printer size={14} /><span>Department Labels</span>
+            </button>
+            <button onClick={() => handlePrint('bundles')} disabled={!tasks.some(t => t.status !== 'completed')} className="flex-1 py-3 bg-white border border-slate-200 text-slate-600 rounded-2xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-50 flex items-center justify-center space-x-2 disabled:opacity-30">
+              <Printer size={14} /><span>Open Bundle Tickets</span>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 p-8 overflow-y-auto space-y-2 scrollbar-hide">
+          {log.length === 0 ? (
+            <p className="py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">No scans yet</p>
+          ) : (
+            log.map(entry => (
+              <div key={entry.id} className={`flex items-center space-x-3 px-5 py-3 rounded-2xl border text-[11px] font-bold ${
+                entry.ok ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-rose-50 border-rose-100 text-rose-700'
+              }`}>
+                {entry.ok ? <CheckCircle2 size={14} /> : <AlertTriangle size={14} />}
+                <span>{entry.message}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskScanPanel;
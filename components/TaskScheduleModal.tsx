@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { X, Loader2, CalendarClock, Save, Link2, Trash2, ArrowRight } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { Task, TaskDependency } from '../types';
+import { addDependency, removeDependency, updateTaskSchedule, DEFAULT_DURATION_DAYS } from '../lib/schedule';
+
+interface TaskScheduleModalProps {
+  task: Task;
+  tasks: Task[];
+  dependencies: TaskDependency[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const TaskScheduleModal: React.FC<TaskScheduleModalProps> = ({ task, tasks, dependencies, onClose, onChanged }) => {
+  const [form, setForm] = useState({
+    start_date: task.start_date?.split('T')[0] || '',
+    duration_days: task.duration_days || DEFAULT_DURATION_DAYS,
+    due_date: task.due_date?.split('T')[0] || ''
+  });
+  const [predecessorId, setPredecessorId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const predecessors = dependencies.filter(d => d.successor_id === task.id);
+  const successors = dependencies.filter(d => d.predecessor_id === task.id);
+  const titleOf = (id: string) => tasks.find(t => t.id === id)?.title || 'Removed operation';
+  const candidates = tasks.filter(t => t.id !== task.id && !predecessors.some(p => p.predecessor_id === t.id));
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      onChanged();
+    } catch (err: any) {
+      alert(failure + ": " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    run(async () => {
+      await updateTaskSchedule(supabase, task.id, form);
+      onClose();
+    }, "Schedule update failed");
+  };
+
+  const handleLink = () => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !predecessorId) return;
+    run(async () => {
+      await addDependency(supabase, dependencies, predecessorId, task.id);
+      setPredecessorId('');
+    }, "Dependency rejected");
+  };
+
+  const handleUnlink = (dependency: TaskDependency) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    run(() => removeDependency(supabase, dependency.id), "Unlink failed");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-lg rounded-[2.5rem] shadow-2xl overflow-hidden border border-white/20">
+        <div className="bg-slate-900 p-8 flex items-center justify-between text-white">
+          <div className="min-w-0">
+            <h3 className="font-black text-xl tracking-tight truncate">{task.title}</h3>
+            <p className="text-slate-400 text-[10px] font-black mt-1 uppercase tracking-[0.2em]">Schedule & Dependencies</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors p-2 bg-white/5 rounded-xl">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSave} className="p-8 space-y-6 max-h-[70vh] overflow-y-auto scrollbar-hide">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] ml-2">Start</label>
+              <input
+                type="date"
+                value={form.start_date}
+                onChange={e => setForm({ ...form, start_date: e.target.value })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-black outline-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] ml-2">Days</label>
+              <input
+                type="number"
+                min={1}
+                value={form.duration_days}
+                onChange={e => setForm({ ...form, duration_days: parseInt(e.target.value) || DEFAULT_DURATION_DAYS })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-black outline-none"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] ml-2">Due</label>
+              <input
+                type="date"
+                value={form.due_date}
+                onChange={e => setForm({ ...form, due_date: e.target.value })}
+                className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-black outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] ml-2">Waits For</label>
+            {predecessors.map(d => (
+              <div key={d.id} className="flex items-center justify-between px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl">
+                <span className="text-xs font-black text-slate-700 truncate">{titleOf(d.predecessor_id)}</span>
+                <button type="button" onClick={() => handleUnlink(d)} className="p-1 text-slate-300 hover:text-rose-500"><Trash2 size={14} /></button>
+              </div>
+            ))}
+            <div className="flex space-x-3">
+              <select
+                value={predecessorId}
+                onChange={e => setPredecessorId(e.target.value)}
+                className="flex-1 px-4 py-3 bg-white border border-slate-200 rounded-2xl text-xs font-black outline-none cursor-pointer"
+              >
+                <option value="">Add predecessor...</option>
+                {candidates.map(t => <option key={t.id} value={t.id}>{t.title} ({t.department})</option>)}
+              </select>
+              <button
+                type="button"
+                onClick={handleLink}
+                disabled={!predecessorId || isSaving}
+                className="px-4 py-3 bg-slate-100 text-slate-600 rounded-2xl hover:bg-blue-50 hover:text-blue-600 disabled:opacity-40"
+              >
+                <Link2 size={16} />
+              </button>
+            </div>
+          </div>
+
+          {successors.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] ml-2">Blocks</label>
+              {successors.map(d => (
+                <div key={d.id} className="flex items-center space-x-2 px-4 py-2 text-xs font-black text-slate-500">
+                  <ArrowRight size={12} className="text-slate-300" />
+                  <span className="truncate">{titleOf(d.successor_id)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs tracking-widest hover:bg-slate-800 transition-all flex items-center justify-center space-x-2 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="animate-spin" size={16} /> : <Save size={16} />}
+            <span>Save Schedule</span>
+          </button>
+          <p className="flex items-center justify-center space-x-2 text-[9px] font-black text-slate-300 uppercase tracking-widest">
+            <CalendarClock size={10} /><span>Start + days drives the timeline; due date is used when no start is set</span>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TaskScheduleModal;
@@ -0,0 +1,158 @@
+import React from 'react';
+import { AlertTriangle, CalendarClock, Lock } from 'lucide-react';
+import { Task, TaskDependency } from '../types';
+import { computeSchedule, fromDay, todayDay } from '../lib/schedule';
+
+interface TaskTimelineProps {
+  tasks: Task[];
+  dependencies: TaskDependency[];
+  onSelect: (task: Task) => void;
+}
+
+const DAY_WIDTH = 36;
+const ROW_HEIGHT = 44;
+const LABEL_WIDTH = 260;
+
+const TaskTimeline: React.FC<TaskTimelineProps> = ({ tasks, dependencies, onSelect }) => {
+  const schedule = computeSchedule(tasks, dependencies);
+  const undated = tasks.length - schedule.length;
+  const today = todayDay();
+
+  if (schedule.length === 0) {
+    return (
+      <div className="flex-1 bg-white rounded-[2.5rem] border border-slate-200 p-20 flex flex-col items-center justify-center text-center">
+        <CalendarClock size={64} className="text-slate-100 mb-4" />
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">No scheduled operations</p>
+        <p className="text-xs text-slate-400 font-medium mt-2">Give tasks a start date or due date to place them on the timeline.</p>
+      </div>
+    );
+  }
+
+  const rangeStart = Math.min(today, ...schedule.map(s => Math.min(s.start, s.earlyStart))) - 1;
+  const rangeEnd = Math.max(today + 1, ...schedule.map(s => Math.max(s.end, s.earlyFinish))) + 1;
+  const days = Array.from({ length: rangeEnd - rangeStart }, (_, i) => rangeStart + i);
+  const rowIndex = new Map(schedule.map((s, i) => [s.task.id, i]));
+  const x = (day: number) => (day - rangeStart) * DAY_WIDTH;
+
+  const links = dependencies
+    .filter(d => rowIndex.has(d.predecessor_id) && rowIndex.has(d.successor_id))
+    .map(d => {
+      const from = schedule[rowIndex.get(d.predecessor_id)!];
+      const to = schedule[rowIndex.get(d.successor_id)!];
+      return { id: d.id, from, to, critical: from.critical && to.critical, overdue: from.overdue && to.overdue };
+    });
+
+  return (
+    <div className="flex-1 flex flex-col space-y-4 min-h-0">
+      <div className="flex items-center space-x-6 px-2">
+        {[
+          ['bg-blue-500', 'Scheduled'],
+          ['bg-slate-900 ring-2 ring-amber-400', 'Critical Path'],
+          ['bg-rose-500', 'Overdue Chain'],
+          ['bg-emerald-400', 'Completed']
+        ].map(([cls, label]) => (
+          <div key={label} className="flex items-center space-x-2">
+            <div className={`w-4 h-2.5 rounded-full ${cls}`}></div>
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+          </div>
+        ))}
+        {undated > 0 && (
+          <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{undated} undated not shown</span>
+        )}
+      </div>
+
+      <div className="flex-1 bg-white rounded-[2.5rem] border border-slate-200 shadow-sm overflow-auto scrollbar-hide">
+        <div className="relative" style={{ width: LABEL_WIDTH + days.length * DAY_WIDTH }}>
+          <div className="flex sticky top-0 z-20 bg-white border-b border-slate-100">
+            <div className="sticky left-0 z-30 bg-white shrink-0 px-6 py-4 text-[9px] font-black text-slate-400 uppercase tracking-widest border-r border-slate-100" style={{ width: LABEL_WIDTH }}>
+              Operation
+            </div>
+            {days.map(day => {
+              const date = new Date(fromDay(day));
+              return (
+                <div
+                  key={day}
+                  className={`shrink-0 py-2 text-center border-r border-slate-50 ${day === today ? 'bg-blue-50 text-blue-600' : 'text-slate-400'}`}
+                  style={{ width: DAY_WIDTH }}
+                >
+                  <p className="text-[8px] font-black uppercase">{date.toLocaleDateString(undefined, { weekday: 'narrow', timeZone: 'UTC' })}</p>
+                  <p className="text-[10px] font-black">{date.getUTCDate()}</p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="relative">
+            <div className="absolute top-0 bottom-0 w-0.5 bg-blue-400/40 z-10 pointer-events-none" style={{ left: LABEL_WIDTH + x(today) + DAY_WIDTH / 2 }}></div>
+
+            <svg className="absolute top-0 z-10 pointer-events-none" style={{ left: LABEL_WIDTH }} width={days.length * DAY_WIDTH} height={schedule.length * ROW_HEIGHT}>
+              {links.map(link => {
+                const x1 = x(link.from.earlyFinish);
+                const y1 = rowIndex.get(link.from.task.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                const x2 = x(link.to.earlyStart);
+                const y2 = rowIndex.get(link.to.task.id)! * ROW_HEIGHT + ROW_HEIGHT / 2;
+                const bend = Math.max(x1, x2 - 8);
+                return (
+                  <path
+                    key={link.id}
+                    d={`M ${x1} ${y1} H ${bend} V ${y2} H ${x2}`}
+                    fill="none"
+                    strokeWidth={link.critical || link.overdue ? 2 : 1.5}
+                    stroke={link.overdue ? '#f43f5e' : link.critical ? '#f59e0b' : '#cbd5e1'}
+                    strokeDasharray={link.critical || link.overdue ? undefined : '4 3'}
+                  />
+                );
+              })}
+            </svg>
+
+            {schedule.map(s => {
+              const slipped = s.earlyStart > s.start;
+              const barClass = s.task.status === 'completed'
+                ? 'bg-emerald-400'
+                : s.overdue
+                  ? 'bg-rose-500'
+                  : s.critical
+                    ? 'bg-slate-900 ring-2 ring-amber-400'
+                    : 'bg-blue-500';
+              return (
+                <div key={s.task.id} className="flex border-b border-slate-50 hover:bg-slate-50/60 transition-colors" style={{ height: ROW_HEIGHT }}>
+                  <button
+                    onClick={() => onSelect(s.task)}
+                    className="sticky left-0 z-20 bg-white shrink-0 px-6 flex items-center justify-between text-left border-r border-slate-100 hover:text-blue-600"
+                    style={{ width: LABEL_WIDTH }}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-[11px] font-black text-slate-900 truncate">{s.task.title}</p>
+                      <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{s.task.department} · {s.task.status.replace('_', ' ')}</p>
+                    </div>
+                    <div className="flex items-center space-x-1 shrink-0 ml-2">
+                      {s.blockedBy.length > 0 && <Lock size={10} className="text-amber-500" />}
+                      {s.overdue && <AlertTriangle size={10} className="text-rose-500" />}
+                    </div>
+                  </button>
+                  <div className="relative flex-1">
+                    {slipped && (
+                      <div
+                        className="absolute top-1/2 -translate-y-1/2 h-3 rounded-full border border-dashed border-slate-300"
+                        style={{ left: x(s.start) + 2, width: (s.end - s.start) * DAY_WIDTH - 4 }}
+                        title="Planned window"
+                      ></div>
+                    )}
+                    <div
+                      onClick={() => onSelect(s.task)}
+                      className={`absolute top-1/2 -translate-y-1/2 h-5 rounded-full cursor-pointer shadow-sm ${barClass}`}
+                      style={{ left: x(s.earlyStart) + 2, width: (s.earlyFinish - s.earlyStart) * DAY_WIDTH - 4 }}
+                      title={`${fromDay(s.earlyStart)} → ${fromDay(s.earlyFinish - 1)} · slack ${s.slack}d`}
+                    ></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskTimeline;
@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { X, Loader2, Factory, CheckCircle2, Ban, ClipboardCheck, User as UserIcon } from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { ProductionStage, StockLocation, WorkOrder } from '../types';
+import {
+  cancelWorkOrder,
+  completeWorkOrder,
+  getWorkOrderStatusMeta,
+  isOpenWorkOrder,
+  recordStageOutput,
+  stageInputRemaining,
+  stageTotals,
+  PRODUCTION_STAGES
+} from '../lib/workOrders';
+import { sortLocationTree } from '../lib/locations';
+
+interface WorkOrderPanelProps {
+  workOrder: WorkOrder;
+  locations: StockLocation[];
+  initialStage?: ProductionStage;
+  onClose: () => void;
+  onChanged: () => void;
+  canRecord?: boolean;
+  canManage?: boolean;
+}
+
+const WorkOrderPanel: React.FC<WorkOrderPanelProps> = ({ workOrder, locations, initialStage, onClose, onChanged, canRecord = true, canManage = true }) => {
+  const totals = stageTotals(workOrder.outputs);
+  const defaultStage = initialStage || 'cutting';
+  const [form, setForm] = useState({
+    stage: defaultStage,
+    good_quantity: stageInputRemaining(workOrder, totals, defaultStage),
+    reject_quantity: 0,
+    rework_quantity: 0,
+    note: ''
+  });
+  const [issueLocation, setIssueLocation] = useState('');
+  const [receiveLocation, setReceiveLocation] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+
+  const meta = getWorkOrderStatusMeta(workOrder.status);
+  const open = isOpenWorkOrder(workOrder);
+  const locationTree = sortLocationTree(locations);
+  const history = [...(workOrder.outputs || [])].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsPosting(true);
+    try {
+      await action();
+      onChanged();
+    } catch (err: any) {
+      alert(failure + ": " + err.message);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleRecord = (e: React.FormEvent) => {
+    e.preventDefault();
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    run(async () => {
+      await recordStageOutput(supabase, workOrder, form);
+      setForm({ ...form, reject_quantity: 0, rework_quantity: 0, note: '' });
+    }, "Output rejected");
+  };
+
+  const handleComplete = () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    if (!confirm(`Complete ${workOrder.wo_number}? Components will be issued and ${totals.finishing.good} units of ${workOrder.sku} received.`)) return;
+    run(() => completeWorkOrder(supabase, workOrder, {
+      issue_location_id: issueLocation || null,
+      receive_location_id: receiveLocation || null
+    }), "Completion failed");
+  };
+
+  const handleCancel = () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    if (!confirm(`Cancel ${workOrder.wo_number}? No stock will be moved.`)) return;
+    run(() => cancelWorkOrder(supabase, workOrder), "Cancellation failed");
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-500">
+        <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+          <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><Factory size={120} /></div>
+          <div className="relative z-10">
+            <h3 className="font-black text-3xl tracking-tighter">{workOrder.wo_number}</h3>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">{workOrder.item?.name || workOrder.sku} · #{workOrder.sku}</p>
+          </div>
+          <div className="flex items-center space-x-6 relative z-10">
+            <div className="text-right">
+              <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Planned</p>
+              <p className="text-2xl font-black">{workOrder.planned_quantity}</p>
+            </div>
+            <button onClick={onClose} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white"><X size={28} /></button>
+          </div>
+        </div>
+
+        <div className="px-8 pt-8 grid grid-cols-4 gap-3">
+          {PRODUCTION_STAGES.map(stage => {
+            const t = totals[stage.id];
+            return (
+              <div key={stage.id} className="p-4 bg-slate-50 border border-slate-100 rounded-2xl">
+                <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{stage.label}</p>
+                <p className="text-xl font-black text-slate-900 mt-1">{t.good}</p>
+                <p className="text-[9px] font-black uppercase tracking-widest mt-1">
+                  <span className={t.reject ? 'text-rose-500' : 'text-slate-300'}>{t.reject} rej</span>
+                  <span className="text-slate-200"> · </span>
+                  <span className={t.rework ? 'text-amber-500' : 'text-slate-300'}>{t.rework} rwk</span>
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        {open && canRecord ? (
+          <form onSubmit={handleRecord} className="p-8 border-b border-slate-100 space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Record Stage Output</p>
+              <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest border ${meta.color}`}>{meta.label}</span>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              {PRODUCTION_STAGES.map(stage => (
+                <button
+                  key={stage.id}
+                  type="button"
+                  onClick={() => setForm({ ...form, stage: stage.id, good_quantity: stageInputRemaining(workOrder, totals, stage.id) })}
+                  className={`py-3 rounded-2xl text-[9px] font-black uppercase tracking-widest border transition-all ${
+                    form.stage === stage.id ? 'bg-slate-900 text-white border-slate-900 shadow-lg' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                  {stage.id}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              {([
+                ['good_quantity', 'Good'],
+                ['reject_quantity', 'Rejects'],
+                ['rework_quantity', 'Rework']
+              ] as const).map(([key, label]) => (
+                <div key={key} className="space-y-1">
+                  <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-2">{label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form[key]}
+                    onChange={e => setForm({ ...form, [key]: parseInt(e.target.value) || 0 })}
+                    className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none focus:ring-4 focus:ring-blue-500/10"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex space-x-4">
+              <input
+                value={form.note}
+                onChange={e => setForm({ ...form, note: e.target.value })}
+                className="flex-1 px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-medium outline-none placeholder:text-slate-300"
+                placeholder="Defect reason, line, shift..."
+              />
+              <button
+                type="submit"
+                disabled={isPosting}
+                className="px-8 py-3 bg-blue-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-blue-700 shadow-xl shadow-blue-500/20 flex items-center space-x-2 disabled:opacity-50"
+              >
+                {isPosting ? <Loader2 className="animate-spin" size={16} /> : <ClipboardCheck size={16} />}
+                <span>Record</span>
+              </button>
+            </div>
+
+            {canManage && (
+              <div className="pt-4 border-t border-slate-100 grid grid-cols-2 gap-4">
+                <select
+                  value={issueLocation}
+                  onChange={e => setIssueLocation(e.target.value)}
+                  className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-xs font-black outline-none cursor-pointer"
+                >
+                  <option value="">Issue materials from: Unassigned</option>
+                  {locationTree.map(({ location, depth }) => (
+                    <option key={location.id} value={location.id}>{'\u00a0\u00a0'.repeat(depth)}{location.code} · {location.name}</option>
+                  ))}
+                </select>
+                <select
+                  value={receiveLocation}
+                  onChange={e => setReceiveLocation(e.target.value)}
+                  className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-xs font-black outline-none cursor-pointer"
+                >
+                  <option value="">Receive goods into: Unassigned</option>
+                  {locationTree.map(({ location, depth }) => (
+                    <option key={location.id} value={location.id}>{'\u00a0\u00a0'.repeat(depth)}{location.code} · {location.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  disabled={isPosting}
+                  className="py-4 border border-slate-200 text-slate-400 hover:text-rose-600 hover:border-rose-200 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center space-x-2 disabled:opacity-50"
+                >
+                  <Ban size={14} /><span>Cancel Order</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={handleComplete}
+                  disabled={isPosting || totals.finishing.good === 0}
+                  className="py-4 bg-emerald-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center justify-center space-x-2 shadow-lg shadow-emerald-500/20 disabled:opacity-50"
+                >
+                  <CheckCircle2 size={14} /><span>Complete & Post Stock</span>
+                </button>
+              </div>
+            )}
+          </form>
+        ) : (
+          <div className="p-8 border-b border-slate-100">
+            <div className={`flex items-center justify-between px-5 py-4 rounded-2xl border ${meta.color}`}>
+              <span className="text-[10px] font-black uppercase tracking-widest">{meta.label}</span>
+              {workOrder.status === 'completed' && (
+                <span className="text-[10px] font-black uppercase tracking-widest">
+                  {workOrder.issued_quantity} issued · {workOrder.completed_quantity} received
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-2 scrollbar-hide">
+          {history.length === 0 ? (
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest text-center p-10">No output recorded</p>
+          ) : history.map(o => (
+            <div key={o.id} className="flex items-center justify-between px-5 py-3 bg-white border border-slate-100 rounded-2xl">
+              <div className="flex items-center space-x-3">
+                <UserIcon size={12} className="text-slate-300" />
+                <span className="text-[10px] font-black text-slate-700 uppercase">{o.operator?.full_name || 'System'}</span>
+                <span className="text-[9px] font-black text-blue-500 uppercase tracking-widest">{o.stage}</span>
+                {o.note && <span className="text-[10px] text-slate-400 font-medium truncate max-w-[160px]">{o.note}</span>}
+              </div>
+              <div className="flex items-center space-x-4">
+                <span className="text-xs font-black text-emerald-600">+{o.good_quantity}</span>
+                {o.reject_quantity > 0 && <span className="text-xs font-black text-rose-500">✕{o.reject_quantity}</span>}
+                {o.rework_quantity > 0 && <span className="text-xs font-black text-amber-500">↺{o.rework_quantity}</span>}
+                <span className="text-[9px] font-bold text-slate-300">{new Date(o.created_at).toLocaleString()}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkOrderPanel;
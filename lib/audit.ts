@@ -0,0 +1,151 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AuditAction, AuditChange, AuditEntity, AuditEntry, ViewType } from '../types';
+import { toCsv } from './csv';
+
+export const AUDIT_ENTITIES: { id: AuditEntity; label: string }[] = [
+  { id: 'inventory', label: 'Asset' },
+  { id: 'category', label: 'Category' },
+  { id: 'style', label: 'Style' },
+  { id: 'stock_movement', label: 'Stock Movement' },
+  { id: 'location', label: 'Location' },
+  { id: 'bom_line', label: 'BOM Line' },
+  { id: 'task', label: 'Operation' },
+  { id: 'work_order', label: 'Work Order' },
+  { id: 'wip_limits', label: 'WIP Limits' },
+  { id: 'purchase_order', label: 'Purchase Order' },
+  { id: 'sales_order', label: 'Sales Order' },
+  { id: 'email', label: 'Message' },
+  { id: 'profile', label: 'Profile' },
+  { id: 'member', label: 'Member' },
+  { id: 'invitation', label: 'Invitation' }
+];
+
+export const AUDIT_ACTIONS: { id: AuditAction; label: string; color: string }[] = [
+  { id: 'create', label: 'Created', color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  { id: 'update', label: 'Updated', color: 'bg-blue-50 text-blue-600 border-blue-100' },
+  { id: 'delete', label: 'Deleted', color: 'bg-rose-50 text-rose-600 border-rose-100' }
+];
+
+export const getEntityLabel = (entity: AuditEntity) =>
+  AUDIT_ENTITIES.find(e => e.id === entity)?.label || entity;
+
+export const getActionMeta = (action: AuditAction) =>
+  AUDIT_ACTIONS.find(a => a.id === action) || AUDIT_ACTIONS[1];
+
+export const AUDIT_PAGE_SIZE = 500;
+
+// Bookkeeping and generated columns change on every write and say nothing about what the operator did
+export const AUDIT_IGNORED_FIELDS = ['id', 'user_id', 'org_id', 'created_at', 'updated_at', 'updated_by', 'version', 'search_vector', 'low_stock'];
+
+const itemSku = (column: string) => `(select sku from public.inventory where id = ($1 ->> '${column}')::uuid)`;
+
+/**
+ * Tables the database audits (see audit_row_change in lib/schema.ts). `id` is the column that identifies the record,
+ * `id` itself unless given; `label` is a SQL expression over the row as jsonb ($1) that names the record in the trail.
+ */
+export const AUDITED_TABLES: { table: string; entity: AuditEntity; source: ViewType; id?: string; label: string }[] = [
+  { table: 'inventory', entity: 'inventory', source: 'inventory', label: `$1 ->> 'sku'` },
+  { table: 'categories', entity: 'category', source: 'inventory', label: `$1 ->> 'name'` },
+  { table: 'styles', entity: 'style', source: 'inventory', label: `$1 ->> 'code'` },
+  { table: 'stock_movements', entity: 'stock_movement', source: 'inventory', label: itemSku('item_id') },
+  { table: 'locations', entity: 'location', source: 'inventory', label: `$1 ->> 'code'` },
+  { table: 'bom_lines', entity: 'bom_line', source: 'inventory', label: `${itemSku('parent_item_id')} || ' · ' || ${itemSku('component_item_id')}` },
+  { table: 'tasks', entity: 'task', source: 'tasks', label: `$1 ->> 'title'` },
+  { table: 'work_orders', entity: 'work_order', source: 'tasks', label: `$1 ->> 'wo_number'` },
+  { table: 'wip_limits', entity: 'wip_limits', source: 'tasks', id: 'department', label: `$1 ->> 'department'` },
+  { table: 'purchase_orders', entity: 'purchase_order', source: 'purchasing', label: `$1 ->> 'po_number'` },
+  {
+    table: 'purchase_order_lines',
+    entity: 'purchase_order',
+    source: 'purchasing',
+    id: 'purchase_order_id',
+    label: `(select po_number from public.purchase_orders where id = ($1 ->> 'purchase_order_id')::uuid) || ' · ' || ($1 ->> 'sku')`
+  },
+  { table: 'sales_orders', entity: 'sales_order', source: 'sales', label: `$1 ->> 'order_number'` },
+  { table: 'emails', entity: 'email', source: 'emails', label: `coalesce(nullif($1 ->> 'subject', ''), '(No subject)')` },
+  { table: 'profiles', entity: 'profile', source: 'settings', label: `coalesce($1 ->> 'full_name', $1 ->> 'email')` },
+  {
+    table: 'org_members',
+    entity: 'member',
+    source: 'settings',
+    id: 'user_id',
+    label: `(select coalesce(full_name, email) from public.profiles where id = ($1 ->> 'user_id')::uuid)`
+  },
+  { table: 'org_invitations', entity: 'invitation', source: 'settings', label: `$1 ->> 'email'` }
+];
+
+export interface AuditFilters {
+  userId?: string;
+  entity?: AuditEntity | '';
+  from?: string;
+  to?: string;
+}
+
+// One page of the filtered log, newest first; the id tie-breaker keeps entries with equal timestamps from shifting pages
+export const fetchAuditLog = async (supabase: SupabaseClient, filters: AuditFilters, page = 0, pageSize = AUDIT_PAGE_SIZE): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select(`
+      *,
+      actor:profiles!user_id(full_name, email)
+    `)
+    .order('created_at', { ascending: false })
+    .order('id')
+    .range(page * pageSize, (page + 1) * pageSize - 1);
+
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.entity) query = query.eq('entity', filters.entity);
+  // Date inputs are whole days in the operator's timezone; the upper bound includes the whole `to` day
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('created_at', end.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// The whole filtered range for exports, not just the page on screen
+export const fetchAllAuditEntries = async (supabase: SupabaseClient, filters: AuditFilters): Promise<AuditEntry[]> => {
+  const all: AuditEntry[] = [];
+  for (let page = 0; ; page++) {
+    const entries = await fetchAuditLog(supabase, filters, page, EXPORT_PAGE_SIZE);
+    all.push(...entries);
+    if (entries.length < EXPORT_PAGE_SIZE) return all;
+  }
+};
+
+export const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// One CSV row per changed field, so the export can be filtered and pivoted without parsing JSON
+export const auditToCsv = (entries: AuditEntry[]) => toCsv(
+  ['Timestamp', 'Actor', 'Email', 'Action', 'Entity', 'Entity ID', 'Record', 'Field', 'Before', 'After', 'Source'],
+  entries.flatMap(entry => {
+    const base = [
+      entry.created_at,
+      entry.actor?.full_name || '',
+      entry.actor?.email || '',
+      entry.action,
+      entry.entity,
+      entry.entity_id || '',
+      entry.entity_label || ''
+    ];
+    const fields = Object.entries<AuditChange>(entry.changes || {});
+    if (fields.length === 0) return [[...base, '', '', '', entry.source]];
+    return fields.map(([field, change]) => [
+      ...base,
+      field,
+      change.before === null ? '' : formatAuditValue(change.before),
+      change.after === null ? '' : formatAuditValue(change.after),
+      entry.source
+    ]);
+  })
+);
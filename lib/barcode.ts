@@ -0,0 +1,311 @@
+// Barcode symbologies for printed labels, encoded here so label sheets need no third-party renderer
+
+// Bar/space widths for Code 128 symbols 0-105, then the stop symbol
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+// Code set B covers printable ASCII, which is all a SKU or location code should hold
+export const isCode128Encodable = (text: string) => /^[\x20-\x7e]+$/.test(text);
+
+/**
+ * Encodes text as Code 128 (code set B) and returns the module run as booleans, dark first, without quiet zones.
+ * Each symbol is 11 modules wide and the stop symbol 13.
+ */
+export const encodeCode128 = (text: string): boolean[] => {
+  if (!isCode128Encodable(text)) throw new Error(`"${text}" cannot be encoded as Code 128.`);
+  const values = Array.from(text).map(ch => ch.charCodeAt(0) - 32);
+  const checksum = values.reduce((acc, value, i) => acc + value * (i + 1), CODE128_START_B) % 103;
+
+  const modules: boolean[] = [];
+  [CODE128_START_B, ...values, checksum, CODE128_STOP].forEach(symbol => {
+    Array.from(CODE128_PATTERNS[symbol]).forEach((width, i) => {
+      for (let w = 0; w < Number(width); w++) modules.push(i % 2 === 0);
+    });
+  });
+  return modules;
+};
+
+// --- QR Code (byte mode, error correction level M) ---
+
+// Per version 1-10 at level M: total codewords, error-correction blocks, EC codewords per block
+const QR_VERSIONS_M: { total: number; blocks: number; ecPerBlock: number }[] = [
+  { total: 26, blocks: 1, ecPerBlock: 10 },
+  { total: 44, blocks: 1, ecPerBlock: 16 },
+  { total: 70, blocks: 1, ecPerBlock: 26 },
+  { total: 100, blocks: 2, ecPerBlock: 18 },
+  { total: 134, blocks: 2, ecPerBlock: 24 },
+  { total: 172, blocks: 4, ecPerBlock: 16 },
+  { total: 196, blocks: 4, ecPerBlock: 18 },
+  { total: 242, blocks: 4, ecPerBlock: 22 },
+  { total: 292, blocks: 5, ecPerBlock: 22 },
+  { total: 346, blocks: 5, ecPerBlock: 26 }
+];
+
+const QR_ALIGNMENT = [[], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50]];
+
+// Level M carries format bits 00
+const QR_EC_LEVEL_M = 0;
+
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  });
+  return result;
+};
+
+// Data codewords for the payload: mode, length, bytes, terminator and pad bytes up to the version's capacity
+const buildDataCodewords = (bytes: Uint8Array, version: number, capacity: number) => {
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(b => push(b, 8));
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  while (bits.length % 8) bits.push(0);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  for (let pad = 0xec; codewords.length < capacity; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+};
+
+// Splits data into blocks, appends each block's error correction, then interleaves them column by column
+const addErrorCorrection = (data: number[], spec: typeof QR_VERSIONS_M[number]) => {
+  const shortBlocks = spec.blocks - (spec.total % spec.blocks);
+  const shortLength = Math.floor(spec.total / spec.blocks) - spec.ecPerBlock;
+  const divisor = reedSolomonDivisor(spec.ecPerBlock);
+
+  const dataBlocks: number[][] = [];
+  const ecBlocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < spec.blocks; i++) {
+    const length = shortLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    dataBlocks.push(block);
+    ecBlocks.push(reedSolomonRemainder(block, divisor));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i <= shortLength; i++) dataBlocks.forEach(block => { if (i < block.length) result.push(block[i]); });
+  for (let i = 0; i < spec.ecPerBlock; i++) ecBlocks.forEach(block => result.push(block[i]));
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+// Lower is easier to scan: long runs, 2×2 blocks, finder look-alikes and colour imbalance all cost points
+const maskPenalty = (modules: boolean[][]) => {
+  const size = modules.length;
+  let penalty = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map(row => row[x]))
+  ];
+  const finderLike = [true, false, true, true, true, false, true];
+
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) penalty += 3 + (run - 5);
+        run = 1;
+      }
+    }
+    for (let i = 0; i + 7 <= size; i++) {
+      if (!finderLike.every((dark, k) => line[i + k] === dark)) continue;
+      const lightBefore = i >= 4 && [1, 2, 3, 4].every(k => !line[i - k]);
+      const lightAfter = i + 11 <= size && [7, 8, 9, 10].every(k => !line[i + k]);
+      if (lightBefore || lightAfter) penalty += 40;
+    }
+  });
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x];
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) penalty += 3;
+    }
+  }
+
+  const dark = modules.reduce((acc, row) => acc + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return penalty;
+};
+
+/**
+ * Encodes text as a QR code at error correction level M, picking the smallest version (up to 10, 213 bytes)
+ * and the mask with the lowest penalty. Returns the module grid, dark = true, without the quiet zone.
+ */
+export const encodeQr = (text: string): boolean[][] => {
+  const bytes = new TextEncoder().encode(text);
+  const versionIndex = QR_VERSIONS_M.findIndex((spec, i) => {
+    const capacityBits = (spec.total - spec.blocks * spec.ecPerBlock) * 8;
+    return 4 + (i + 1 < 10 ? 8 : 16) + bytes.length * 8 <= capacityBits;
+  });
+  if (versionIndex === -1) throw new Error("Text is too long for a label QR code.");
+
+  const version = versionIndex + 1;
+  const spec = QR_VERSIONS_M[versionIndex];
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  const alignment = QR_ALIGNMENT[versionIndex];
+  alignment.forEach((cy, i) => alignment.forEach((cx, j) => {
+    const last = alignment.length - 1;
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  const drawFormat = (mask: number) => {
+    const data = (QR_EC_LEVEL_M << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i));
+    setFunction(8, 7, bit(6));
+    setFunction(8, 8, bit(7));
+    setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i));
+    setFunction(8, size - 8, true);
+  };
+  // Reserve the format areas so data placement skips them; the real bits are written once the mask is chosen
+  drawFormat(0);
+
+  if (version >= 7) {
+    let rem = version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (version << 12) | rem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  const dataCodewords = buildDataCodewords(bytes, version, spec.total - spec.blocks * spec.ecPerBlock);
+  const codewords = addErrorCorrection(dataCodewords, spec);
+
+  // Zigzag through two-module columns from the bottom right, skipping the vertical timing column
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (isFunction[y][x] || bitIndex >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+        bitIndex++;
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  MASKS.forEach((_, mask) => {
+    applyMask(mask);
+    drawFormat(mask);
+    const penalty = maskPenalty(modules);
+    if (penalty < bestPenalty) {
+      bestPenalty = penalty;
+      bestMask = mask;
+    }
+    // Masking is its own inverse
+    applyMask(mask);
+  });
+  applyMask(bestMask);
+  drawFormat(bestMask);
+  return modules;
+};
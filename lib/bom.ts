@@ -0,0 +1,160 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { BomLine, InventoryItem } from '../types';
+
+export interface MaterialRequirement {
+  item_id: string;
+  sku: string;
+  name: string;
+  required: number;
+  onHand: number;
+  shortage: number;
+}
+
+type StockItem = Pick<InventoryItem, 'id' | 'sku' | 'name' | 'quantity'>;
+
+// Gross component usage for a production quantity, wastage included
+export const grossRequirement = (line: Pick<BomLine, 'quantity_per' | 'wastage_pct'>, quantity: number) =>
+  quantity * line.quantity_per * (1 + (line.wastage_pct || 0) / 100);
+
+const roundQty = (qty: number) => Math.round(qty * 1000) / 1000;
+
+export const groupBomLines = (lines: BomLine[]) => {
+  const byParent: Record<string, BomLine[]> = {};
+  lines.forEach(l => {
+    (byParent[l.parent_item_id] ||= []).push(l);
+  });
+  return byParent;
+};
+
+export const fetchAllBomLines = async (supabase: SupabaseClient): Promise<BomLine[]> => {
+  const { data, error } = await supabase.from('bom_lines').select('*');
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchBomLines = async (supabase: SupabaseClient, parentItemId: string): Promise<BomLine[]> => {
+  const { data, error } = await supabase.from('bom_lines').select('*').eq('parent_item_id', parentItemId);
+  if (error) throw error;
+  return data || [];
+};
+
+// True when parentId is reachable from componentId, i.e. adding the line would close a loop
+const createsCycle = (byParent: Record<string, BomLine[]>, parentId: string, componentId: string): boolean => {
+  if (parentId === componentId) return true;
+  const stack = [componentId];
+  const seen = new Set<string>();
+  while (stack.length) {
+    const current = stack.pop()!;
+    if (current === parentId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    (byParent[current] || []).forEach(l => stack.push(l.component_item_id));
+  }
+  return false;
+};
+
+/**
+ * Net material requirements for producing `quantity` of an item.
+ * Sub-assemblies with their own BOM draw on their stock first and only the shortfall is exploded further,
+ * so the result lists every leaf material plus any sub-assembly that had to be consumed from stock.
+ */
+export const explodeBom = (
+  parentItemId: string,
+  quantity: number,
+  lines: BomLine[],
+  items: StockItem[]
+): MaterialRequirement[] => {
+  const byParent = groupBomLines(lines);
+  const itemMap = new Map<string, StockItem>(items.map(i => [i.id, i]));
+  const required: Record<string, number> = {};
+  const available: Record<string, number> = Object.fromEntries(items.map(i => [i.id, i.quantity]));
+
+  const walk = (itemId: string, qty: number, path: Set<string>) => {
+    (byParent[itemId] || []).forEach(line => {
+      const componentId = line.component_item_id;
+      if (path.has(componentId)) return;
+      const gross = grossRequirement(line, qty);
+      const children = byParent[componentId];
+
+      if (!children?.length) {
+        required[componentId] = (required[componentId] || 0) + gross;
+        return;
+      }
+
+      const fromStock = Math.min(gross, Math.max(0, available[componentId] || 0));
+      available[componentId] = (available[componentId] || 0) - fromStock;
+      if (fromStock > 0) required[componentId] = (required[componentId] || 0) + fromStock;
+      if (gross > fromStock) walk(componentId, gross - fromStock, new Set(path).add(componentId));
+    });
+  };
+  walk(parentItemId, quantity, new Set([parentItemId]));
+
+  return Object.entries(required)
+    .map(([itemId, qty]) => {
+      const item = itemMap.get(itemId);
+      const onHand = item?.quantity || 0;
+      const req = roundQty(qty);
+      return {
+        item_id: itemId,
+        sku: item?.sku || 'UNKNOWN',
+        name: item?.name || 'Unknown component',
+        required: req,
+        onHand,
+        shortage: roundQty(Math.max(0, req - onHand))
+      };
+    })
+    .sort((a, b) => b.shortage - a.shortage || a.sku.localeCompare(b.sku));
+};
+
+export const hasShortage = (requirements: MaterialRequirement[]) => requirements.some(r => r.shortage > 0);
+
+// Whole units that current stock can cover, limited by the scarcest direct component
+export const maxBuildable = (parentItemId: string, lines: BomLine[], items: StockItem[]) => {
+  const components = lines.filter(l => l.parent_item_id === parentItemId);
+  if (components.length === 0) return null;
+  const stock = new Map<string, number>(items.map(i => [i.id, i.quantity]));
+  return Math.max(0, Math.min(...components.map(l => {
+    const perUnit = grossRequirement(l, 1);
+    return perUnit > 0 ? Math.floor((stock.get(l.component_item_id) || 0) / perUnit) : Infinity;
+  })));
+};
+
+export interface BomLineInput {
+  component_item_id: string;
+  quantity_per: number;
+  wastage_pct: number;
+  note?: string;
+}
+
+export const addBomLine = async (supabase: SupabaseClient, parentItemId: string, input: BomLineInput): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  if (!input.component_item_id) throw new Error("Select a component item.");
+  if (!(input.quantity_per > 0)) throw new Error("Quantity per unit must be greater than zero.");
+  if (input.wastage_pct < 0 || input.wastage_pct >= 100) throw new Error("Wastage must be between 0 and 100%.");
+
+  const byParent = groupBomLines(await fetchAllBomLines(supabase));
+  if ((byParent[parentItemId] || []).some(l => l.component_item_id === input.component_item_id)) {
+    throw new Error("That component is already on this bill of materials.");
+  }
+  if (createsCycle(byParent, parentItemId, input.component_item_id)) {
+    throw new Error("That component already uses this item; the BOM would loop.");
+  }
+
+  const { data, error } = await supabase.from('bom_lines').insert([{
+    parent_item_id: parentItemId,
+    component_item_id: input.component_item_id,
+    quantity_per: input.quantity_per,
+    wastage_pct: input.wastage_pct,
+    note: input.note || null,
+    user_id: user.id
+  }]).select('id').single();
+  if (error) throw error;
+  return data.id;
+};
+
+export const deleteBomLine = async (supabase: SupabaseClient, lineId: string) => {
+  const { error } = await supabase.from('bom_lines').delete().eq('id', lineId);
+  if (error) throw error;
+};
@@ -0,0 +1,143 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AttributeDefinition, AttributeType, ItemAttributes, ProductCategory } from '../types';
+
+export const ATTRIBUTE_TYPES: { id: AttributeType; label: string }[] = [
+  { id: 'text', label: 'Text' },
+  { id: 'number', label: 'Number' },
+  { id: 'select', label: 'Pick List' }
+];
+
+// Deep enough for Fabric / Knit / Jersey; also guards path walks against a malformed parent cycle
+const MAX_CATEGORY_DEPTH = 8;
+
+export const fetchCategories = async (supabase: SupabaseClient): Promise<ProductCategory[]> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(c => ({ ...c, attributes: c.attributes || [] }));
+};
+
+// Root first, so the path reads "Fabric / Knit"
+export const getCategoryChain = (categories: ProductCategory[], categoryId?: string | null): ProductCategory[] => {
+  const byId = new Map(categories.map(c => [c.id, c]));
+  const chain: ProductCategory[] = [];
+  let current = categoryId ? byId.get(categoryId) : undefined;
+  while (current && chain.length < MAX_CATEGORY_DEPTH) {
+    chain.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return chain;
+};
+
+export const getCategoryPath = (categories: ProductCategory[], categoryId?: string | null): string =>
+  getCategoryChain(categories, categoryId).map(c => c.name).join(' / ');
+
+// The category itself plus every subcategory beneath it
+export const getCategoryScope = (categories: ProductCategory[], categoryId: string): Set<string> => {
+  const scope = new Set([categoryId]);
+  let added = true;
+  while (added) {
+    added = false;
+    categories.forEach(c => {
+      if (c.parent_id && scope.has(c.parent_id) && !scope.has(c.id)) {
+        scope.add(c.id);
+        added = true;
+      }
+    });
+  }
+  return scope;
+};
+
+// Depth-first ordering so a flat <select> reads as a tree
+export const sortCategoryTree = (categories: ProductCategory[]): { category: ProductCategory; depth: number }[] => {
+  const result: { category: ProductCategory; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    categories
+      .filter(c => (c.parent_id || null) === parentId)
+      .forEach(c => {
+        result.push({ category: c, depth });
+        visit(c.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return result;
+};
+
+/**
+ * The attributes an item in this category carries: its own plus everything inherited from its ancestors.
+ * A subcategory redefining a key overrides the parent's definition.
+ */
+export const getCategoryAttributes = (categories: ProductCategory[], categoryId?: string | null): AttributeDefinition[] => {
+  const byKey = new Map<string, AttributeDefinition>();
+  getCategoryChain(categories, categoryId).forEach(c => c.attributes.forEach(a => byKey.set(a.key, a)));
+  return Array.from(byKey.values());
+};
+
+// "Fabric GSM" -> "fabric_gsm"; keys are what items store, so they stay stable when a label is reworded
+export const toAttributeKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Keeps only the values the schema defines, coerced to their type, and reports required attributes left empty.
+ * Values for attributes dropped from the schema are discarded on the next save.
+ */
+export const normalizeAttributes = (schema: AttributeDefinition[], values: ItemAttributes = {}) => {
+  const attributes: ItemAttributes = {};
+  const missing: string[] = [];
+  schema.forEach(def => {
+    const raw = values[def.key];
+    const text = raw === undefined || raw === null ? '' : String(raw).trim();
+    if (!text) {
+      if (def.required) missing.push(def.label);
+      return;
+    }
+    if (def.type === 'number') {
+      const value = Number(text);
+      if (!Number.isFinite(value)) throw new Error(`${def.label} must be a number.`);
+      attributes[def.key] = value;
+    } else if (def.type === 'select' && def.options?.length && !def.options.includes(text)) {
+      throw new Error(`${def.label} must be one of ${def.options.join(', ')}.`);
+    } else {
+      attributes[def.key] = text;
+    }
+  });
+  return { attributes, missing };
+};
+
+export const formatAttributeValue = (def: AttributeDefinition, value: string | number) =>
+  def.unit ? `${value} ${def.unit}` : String(value);
+
+export const saveCategory = async (
+  supabase: SupabaseClient,
+  category: Pick<ProductCategory, 'name' | 'parent_id' | 'attributes'> & { id?: string }
+): Promise<ProductCategory> => {
+  const payload = { name: category.name.trim(), parent_id: category.parent_id || null, attributes: category.attributes };
+  const { data, error } = category.id
+    ? await supabase.from('categories').update(payload).eq('id', category.id).select().single()
+    : await supabase.from('categories').insert([payload]).select().single();
+
+  if (error) throw error;
+  // Items carry the leaf name for display and sorting, so a rename is pushed down to them
+  if (category.id) {
+    const { error: renameError } = await supabase.from('inventory').update({ category: payload.name }).eq('category_id', category.id);
+    if (renameError) throw renameError;
+  }
+  return data;
+};
+
+export const deleteCategory = async (supabase: SupabaseClient, categories: ProductCategory[], category: ProductCategory) => {
+  if (categories.some(c => c.parent_id === category.id)) throw new Error("Remove or move its subcategories first.");
+
+  const { count, error: countError } = await supabase
+    .from('inventory')
+    .select('id', { count: 'exact', head: true })
+    .eq('category_id', category.id);
+  if (countError) throw countError;
+  if (count) throw new Error(`${count} item${count === 1 ? ' is' : 's are'} still filed under ${category.name}.`);
+
+  const { error } = await supabase.from('categories').delete().eq('id', category.id);
+  if (error) throw error;
+};
@@ -0,0 +1,32 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+// Text a spreadsheet would evaluate as a formula when the file is opened
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes every cell that could break the row: separators, quotes and line breaks. Text that would start a formula
+ * is prefixed with an apostrophe so it opens as plain text; numbers are left alone, so negatives stay numeric.
+ */
+const escapeCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Undoes the formula guard when one of our exports is read back in
+export const stripFormulaGuard = (text: string) =>
+  text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+  [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+export const downloadCsv = (filename: string, csv: string) => {
+  // The BOM makes Excel read the file as UTF-8
+  const blob = new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
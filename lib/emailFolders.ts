@@ -0,0 +1,137 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { EmailLabel, EmailState } from '../types';
+import { EmailThread, groupThreads } from './emailThreads';
+import { fetchMailbox, isAddressedTo, ownRecipientRows } from './emailRecipients';
+
+export type MailboxFolder = 'inbox' | 'starred' | 'sent' | 'archive' | 'trash';
+
+// A folder, or one of the operator's labels
+export type MailboxView = MailboxFolder | `label:${string}`;
+
+export const MAILBOX_FOLDERS: { id: MailboxFolder; label: string }[] = [
+  { id: 'inbox', label: 'Inbox' },
+  { id: 'starred', label: 'Starred' },
+  { id: 'sent', label: 'Sent' },
+  { id: 'archive', label: 'Archive' },
+  { id: 'trash', label: 'Trash' }
+];
+
+export const LABEL_COLORS: Record<string, { dot: string; chip: string }> = {
+  blue: { dot: 'bg-blue-500', chip: 'bg-blue-50 text-blue-600 border-blue-100' },
+  emerald: { dot: 'bg-emerald-500', chip: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  amber: { dot: 'bg-amber-500', chip: 'bg-amber-50 text-amber-600 border-amber-100' },
+  rose: { dot: 'bg-rose-500', chip: 'bg-rose-50 text-rose-600 border-rose-100' },
+  purple: { dot: 'bg-purple-500', chip: 'bg-purple-50 text-purple-600 border-purple-100' },
+  slate: { dot: 'bg-slate-500', chip: 'bg-slate-50 text-slate-600 border-slate-200' }
+};
+
+export const getLabelColor = (color: string) => LABEL_COLORS[color] || LABEL_COLORS.blue;
+
+export interface ThreadState {
+  incoming: boolean;
+  outgoing: boolean;
+  starred: boolean;
+  // Archived and trashed apply to the whole thread only once every message in it is; a new reply brings it back
+  archived: boolean;
+  trashed: boolean;
+  labelIds: string[];
+  // Recipient rows addressed to this operator that are still unread
+  unreadRowIds: string[];
+}
+
+export const getThreadState = (
+  thread: EmailThread,
+  states: Record<string, EmailState>,
+  userId: string | null,
+  userEmail: string | null
+): ThreadState => {
+  const rows = thread.messages.map(m => states[m.id]);
+  return {
+    incoming: thread.messages.some(m => isAddressedTo(m, userId, userEmail)),
+    outgoing: thread.messages.some(m => m.user_id === userId),
+    starred: rows.some(s => s?.starred),
+    archived: rows.every(s => !!s?.archived_at),
+    trashed: rows.every(s => !!s?.trashed_at),
+    labelIds: Array.from(new Set(rows.flatMap(s => s?.label_ids || []))),
+    unreadRowIds: thread.messages.flatMap(m => ownRecipientRows(m, userId, userEmail)).filter(r => !r.read_at).map(r => r.id)
+  };
+};
+
+// The trash holds trashed threads and nothing else; the inbox is what you received and have not filed away
+export const isInView = (state: ThreadState, view: MailboxView) => {
+  if (view === 'trash') return state.trashed;
+  if (state.trashed) return false;
+  if (view === 'inbox') return state.incoming && !state.archived;
+  if (view === 'starred') return state.starred;
+  if (view === 'sent') return state.outgoing;
+  if (view === 'archive') return state.archived;
+  return state.labelIds.includes(view.slice('label:'.length));
+};
+
+export const countUnreadThreads = (threadStates: ThreadState[]) =>
+  threadStates.filter(s => s.unreadRowIds.length > 0 && isInView(s, 'inbox')).length;
+
+export const fetchEmailStates = async (supabase: SupabaseClient, userId: string): Promise<Record<string, EmailState>> => {
+  const { data, error } = await supabase
+    .from('email_states')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((s: EmailState) => [s.email_id, s]));
+};
+
+// For the sidebar badge, outside the Comms Node
+export const fetchUnreadThreadCount = async (supabase: SupabaseClient, userId: string, userEmail: string | null) => {
+  const [emails, states] = await Promise.all([fetchMailbox(supabase), fetchEmailStates(supabase, userId)]);
+  return countUnreadThreads(groupThreads(emails).map(t => getThreadState(t, states, userId, userEmail)));
+};
+
+export type StatePatch = Partial<Pick<EmailState, 'starred' | 'archived_at' | 'trashed_at' | 'label_ids'>>;
+
+export type StateRow = { email_id: string } & StatePatch;
+
+/**
+ * Files messages for this operator. Every row in one call carries the same columns, so existing rows keep
+ * whatever the patch leaves out and new rows take the column defaults.
+ */
+export const updateEmailStates = async (supabase: SupabaseClient, userId: string, rows: StateRow[]) => {
+  if (rows.length === 0) return;
+  const { error } = await supabase
+    .from('email_states')
+    .upsert(rows.map(r => ({ ...r, user_id: userId, updated_at: new Date().toISOString() })), { onConflict: 'email_id,user_id' });
+
+  if (error) throw error;
+};
+
+// The same rows applied locally, so the list refiles before the round trip
+export const applyStateRows = (states: Record<string, EmailState>, userId: string, rows: StateRow[]) => {
+  const next = { ...states };
+  rows.forEach(r => {
+    next[r.email_id] = { starred: false, label_ids: [], ...states[r.email_id], ...r, user_id: userId };
+  });
+  return next;
+};
+
+export const fetchEmailLabels = async (supabase: SupabaseClient, userId: string): Promise<EmailLabel[]> => {
+  const { data, error } = await supabase
+    .from('email_labels')
+    .select('*')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createEmailLabel = async (supabase: SupabaseClient, userId: string, name: string, color: string) => {
+  if (!name.trim()) throw new Error("A label needs a name.");
+  const { error } = await supabase.from('email_labels').insert([{ user_id: userId, name: name.trim(), color }]);
+  if (error) throw error;
+};
+
+// Messages keep the deleted label's id in their label_ids; unknown ids are simply not shown
+export const deleteEmailLabel = async (supabase: SupabaseClient, labelId: string) => {
+  const { error } = await supabase.from('email_labels').delete().eq('id', labelId);
+  if (error) throw error;
+};
@@ -0,0 +1,113 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Email, EmailLink, EmailLinkEntity, InventoryItem, Task, ViewType } from '../types';
+
+export const LINK_ENTITIES: { id: EmailLinkEntity; label: string; view: ViewType }[] = [
+  { id: 'task', label: 'Task', view: 'tasks' },
+  { id: 'inventory', label: 'Item', view: 'inventory' },
+  { id: 'purchase_order', label: 'PO', view: 'purchasing' },
+  { id: 'sales_order', label: 'Order', view: 'sales' }
+];
+
+export const getLinkEntityMeta = (entity: EmailLinkEntity) =>
+  LINK_ENTITIES.find(e => e.id === entity) || LINK_ENTITIES[0];
+
+// A record a message is (or will be) about, before it has a saved link row
+export type LinkTarget = Pick<EmailLink, 'entity_type' | 'entity_id' | 'entity_label'>;
+
+export const isSameTarget = (a: LinkTarget, b: LinkTarget) => a.entity_type === b.entity_type && a.entity_id === b.entity_id;
+
+// Every record a set of messages (usually one thread) is linked to, once each
+export const collectLinks = (emails: Email[]): LinkTarget[] =>
+  emails
+    .flatMap(e => e.links || [])
+    .filter((link, idx, all) => all.findIndex(other => isSameTarget(other, link)) === idx)
+    .map(({ entity_type, entity_id, entity_label }) => ({ entity_type, entity_id, entity_label }));
+
+export const taskLinkTarget = (task: Task): LinkTarget => ({ entity_type: 'task', entity_id: task.id, entity_label: task.title });
+
+export const itemLinkTarget = (item: InventoryItem): LinkTarget => ({ entity_type: 'inventory', entity_id: item.id, entity_label: `#${item.sku} · ${item.name}` });
+
+// What the Comms Node opens its compose form with when a message is started from a record
+export interface EmailDraft {
+  subject: string;
+  to: string[];
+  links: LinkTarget[];
+}
+
+export const draftAbout = (target: LinkTarget, to: string[] = []): EmailDraft => ({ subject: target.entity_label || '', to, links: [target] });
+
+const MAX_LINK_RESULTS = 8;
+
+// A looked-up record: its id and the searched columns, all text
+type LinkRow = { id: string } & Record<string, string>;
+
+// Where each kind of record is looked up, and how it reads once picked
+const LINK_SOURCES: Record<EmailLinkEntity, { table: string; columns: string[]; label: (row: LinkRow) => string }> = {
+  task: { table: 'tasks', columns: ['title', 'sku_ref'], label: row => row.title },
+  inventory: { table: 'inventory', columns: ['sku', 'name'], label: row => `#${row.sku} · ${row.name}` },
+  purchase_order: { table: 'purchase_orders', columns: ['po_number'], label: row => row.po_number },
+  sales_order: { table: 'sales_orders', columns: ['order_number'], label: row => row.order_number }
+};
+
+export const searchLinkTargets = async (supabase: SupabaseClient, entityType: EmailLinkEntity, term: string): Promise<LinkTarget[]> => {
+  const source = LINK_SOURCES[entityType];
+  // Commas and parentheses would break out of the or() filter
+  const cleaned = term.trim().replace(/[,()]/g, ' ');
+  let builder = supabase.from(source.table).select(['id', ...source.columns].join(', ')).limit(MAX_LINK_RESULTS);
+  if (cleaned) builder = builder.or(source.columns.map(c => `${c}.ilike.%${cleaned}%`).join(','));
+
+  const { data, error } = await builder.overrideTypes<LinkRow[], { merge: false }>();
+  if (error) throw error;
+  return (data || []).map(row => ({ entity_type: entityType, entity_id: row.id, entity_label: source.label(row) }));
+};
+
+// A link row with the message it points at; null when the message is not visible to the operator
+type RelatedMessageRow = { email: Email | null };
+
+/**
+ * Messages linked to one record, newest first. Only messages the operator sent or received come back, since the
+ * link rows are only visible to people in the conversation.
+ */
+export const fetchRelatedMessages = async (supabase: SupabaseClient, entityType: EmailLinkEntity, entityId: string): Promise<Email[]> => {
+  const { data, error } = await supabase
+    .from('email_links')
+    .select(`
+      email:emails!email_id(
+        *,
+        sender:profiles!user_id(full_name, avatar_url, email),
+        recipients:email_recipients(*),
+        links:email_links(*)
+      )
+    `)
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .overrideTypes<RelatedMessageRow[], { merge: false }>();
+
+  if (error) throw error;
+  return (data || [])
+    .map(row => row.email)
+    .filter((email): email is Email => !!email)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+};
+
+// Links every given message to every given record; links that already exist are left as they are
+export const linkEmails = async (supabase: SupabaseClient, emailIds: string[], targets: LinkTarget[]) => {
+  const rows = emailIds.flatMap(email_id => targets.map(t => ({ email_id, ...t })));
+  if (rows.length === 0) return;
+  const { error } = await supabase
+    .from('email_links')
+    .upsert(rows, { onConflict: 'email_id,entity_type,entity_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+export const unlinkEmails = async (supabase: SupabaseClient, emailIds: string[], target: LinkTarget) => {
+  const { error } = await supabase
+    .from('email_links')
+    .delete()
+    .in('email_id', emailIds)
+    .eq('entity_type', target.entity_type)
+    .eq('entity_id', target.entity_id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,115 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Email, EmailDeliveryStatus, EmailRecipient } from '../types';
+
+export const EMAIL_STATUSES: Record<EmailDeliveryStatus, { label: string; color: string }> = {
+  pending: { label: 'Queued', color: 'bg-amber-50 text-amber-600 border-amber-100' },
+  sent: { label: 'Sent', color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  failed: { label: 'Failed', color: 'bg-rose-50 text-rose-600 border-rose-100' }
+};
+
+export const MAX_DELIVERY_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// Long enough for a slow SMTP exchange with attachments; a worker that dies mid-send releases its claim when this runs out
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+// 1, 2, 4, 8, 16 minutes between attempts, capped at an hour
+export const retryDelay = (attempt: number) => Math.min(RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0), RETRY_MAX_MS);
+
+// The message's status summarises its recipients: queued while any is, failed if any could not be reached
+export const rollupDeliveryStatus = (statuses: EmailDeliveryStatus[]): EmailDeliveryStatus =>
+  statuses.includes('pending') ? 'pending' : statuses.includes('failed') ? 'failed' : 'sent';
+
+// A queued delivery to one recipient, with the message it belongs to
+export type DeliveryJob = EmailRecipient & { email: Email };
+
+/**
+ * Claims up to `limit` recipient deliveries that are due. Each claim is a conditional update on the lease, so two workers
+ * polling the same table never send the same message to the same address twice.
+ */
+export const claimDueDeliveries = async (supabase: SupabaseClient, limit: number): Promise<DeliveryJob[]> => {
+  const now = new Date().toISOString();
+  const unleased = `locked_until.is.null,locked_until.lt.${now}`;
+  const { data, error } = await supabase
+    .from('email_recipients')
+    .select('id')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now)
+    .or(unleased)
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const claimed: DeliveryJob[] = [];
+  for (const { id } of data || []) {
+    const { data: row, error: claimError } = await supabase
+      .from('email_recipients')
+      .update({ locked_until: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .or(unleased)
+      .select(`
+        *,
+        email:emails!email_id(
+          *,
+          sender:profiles!user_id(full_name, avatar_url, email),
+          recipients:email_recipients(kind, address)
+        )
+      `)
+      .maybeSingle();
+    if (claimError) throw claimError;
+    if (row) claimed.push(row);
+  }
+  return claimed;
+};
+
+const refreshEmailStatus = async (supabase: SupabaseClient, emailId: string) => {
+  const { data, error } = await supabase.from('email_recipients').select('status').eq('email_id', emailId);
+  if (error) throw error;
+
+  const { error: updateError } = await supabase
+    .from('emails')
+    .update({ status: rollupDeliveryStatus((data || []).map(r => r.status)) })
+    .eq('id', emailId);
+  if (updateError) throw updateError;
+};
+
+export type DeliveryOutcome = { messageId: string } | { error: string; permanent: boolean };
+
+// Writes one attempt's result back to the queue and returns the status the recipient ends up in
+export const recordDeliveryAttempt = async (
+  supabase: SupabaseClient,
+  job: EmailRecipient,
+  outcome: DeliveryOutcome
+): Promise<EmailDeliveryStatus> => {
+  const attempt = (job.attempt_count || 0) + 1;
+  const patch = 'messageId' in outcome
+    ? { status: 'sent' as const, sent_at: new Date().toISOString(), provider_message_id: outcome.messageId, last_error: null }
+    : outcome.permanent || attempt >= MAX_DELIVERY_ATTEMPTS
+      ? { status: 'failed' as const, last_error: outcome.error }
+      : { status: 'pending' as const, last_error: outcome.error, next_attempt_at: new Date(Date.now() + retryDelay(attempt)).toISOString() };
+
+  const { error } = await supabase
+    .from('email_recipients')
+    .update({ ...patch, attempt_count: attempt, locked_until: null })
+    .eq('id', job.id);
+
+  if (error) throw error;
+  await refreshEmailStatus(supabase, job.email_id);
+  return patch.status;
+};
+
+// A manual retry puts a message's failed recipients back in the queue with a fresh set of attempts
+export const requeueEmail = async (supabase: SupabaseClient, emailId: string) => {
+  const { error } = await supabase
+    .from('email_recipients')
+    .update({ status: 'pending', attempt_count: 0, next_attempt_at: new Date().toISOString(), locked_until: null, last_error: null })
+    .eq('email_id', emailId)
+    .eq('status', 'failed');
+
+  if (error) throw error;
+
+  const { error: emailError } = await supabase.from('emails').update({ status: 'pending' }).eq('id', emailId);
+  if (emailError) throw emailError;
+};
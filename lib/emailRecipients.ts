@@ -0,0 +1,124 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Email, EmailGroup, EmailRecipientKind, Profile } from '../types';
+
+export const RECIPIENT_KINDS: { id: EmailRecipientKind; label: string }[] = [
+  { id: 'to', label: 'To' },
+  { id: 'cc', label: 'Cc' },
+  { id: 'bcc', label: 'Bcc' }
+];
+
+export type RecipientLists = Record<EmailRecipientKind, string[]>;
+
+export const EMPTY_RECIPIENTS: RecipientLists = { to: [], cc: [], bcc: [] };
+
+export const normalizeAddress = (address: string) => address.trim().toLowerCase();
+
+export const isValidAddress = (address: string) => /^[^\s@<>,;]+@[^\s@<>,;]+\.[^\s@<>,;]+$/.test(address.trim());
+
+// One row per address; an address listed twice keeps its most visible kind (To over Cc over Bcc)
+export const buildRecipientRows = (lists: RecipientLists, members: Profile[]) => {
+  const seen = new Set<string>();
+  return RECIPIENT_KINDS.flatMap(({ id: kind }) => lists[kind]
+    .map(normalizeAddress)
+    .filter(address => !seen.has(address) && !!seen.add(address))
+    .map(address => ({
+      kind,
+      address,
+      profile_id: members.find(m => m.email?.toLowerCase() === address)?.id || null
+    })));
+};
+
+export const recipientAddresses = (email: Email, kind: EmailRecipientKind) =>
+  email.recipients
+    ? email.recipients.filter(r => r.kind === kind).map(r => r.address)
+    : kind === 'to' ? [email.recipient_email] : [];
+
+// The rows addressed to this operator: matched on profile, or on address for outside recipients who joined later
+export const ownRecipientRows = (email: Email, userId: string | null, userEmail: string | null) =>
+  (email.recipients || []).filter(r => (!!userId && r.profile_id === userId) || (!!userEmail && r.address === userEmail.toLowerCase()));
+
+export const isAddressedTo = (email: Email, userId: string | null, userEmail: string | null) =>
+  email.recipients ? ownRecipientRows(email, userId, userEmail).length > 0 : email.recipient_email === userEmail;
+
+// "ana@x.com +3" for list rows
+export const summarizeRecipients = (email: Email) => {
+  const visible = [...recipientAddresses(email, 'to'), ...recipientAddresses(email, 'cc')];
+  const all = visible.length ? visible : recipientAddresses(email, 'bcc');
+  return all.length > 1 ? `${all[0]} +${all.length - 1}` : all[0] || email.recipient_email;
+};
+
+const MAILBOX_PAGE_SIZE = 1000;
+
+/**
+ * Everything the operator sent or was sent. Row-level security already limits emails to the sender and the
+ * addressees, Cc and Bcc copies included, so the mailbox is read page by page without a filter of its own.
+ */
+export const fetchMailbox = async (supabase: SupabaseClient): Promise<Email[]> => {
+  const all: Email[] = [];
+  for (let from = 0; ; from += MAILBOX_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('emails')
+      .select(`
+        *,
+        sender:profiles!user_id(full_name, avatar_url, email),
+        recipients:email_recipients(*),
+        links:email_links(*)
+      `)
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, from + MAILBOX_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    all.push(...(data || []));
+    if (!data || data.length < MAILBOX_PAGE_SIZE) return all;
+  }
+};
+
+export const markRecipientsRead = async (supabase: SupabaseClient, recipientIds: string[]) => {
+  if (recipientIds.length === 0) return;
+  const { error } = await supabase
+    .from('email_recipients')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', recipientIds)
+    .is('read_at', null);
+
+  if (error) throw error;
+};
+
+export const markRecipientsUnread = async (supabase: SupabaseClient, recipientIds: string[]) => {
+  if (recipientIds.length === 0) return;
+  const { error } = await supabase
+    .from('email_recipients')
+    .update({ read_at: null })
+    .in('id', recipientIds);
+
+  if (error) throw error;
+};
+
+export const fetchEmailGroups = async (supabase: SupabaseClient): Promise<EmailGroup[]> => {
+  const { data, error } = await supabase
+    .from('email_groups')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveEmailGroup = async (supabase: SupabaseClient, group: Pick<EmailGroup, 'name' | 'addresses'> & { id?: string }) => {
+  const name = group.name.trim();
+  const addresses = Array.from(new Set(group.addresses.map(normalizeAddress)));
+  if (!name) throw new Error("A distribution group needs a name.");
+  if (addresses.length === 0) throw new Error("A distribution group needs at least one address.");
+
+  const { error } = group.id
+    ? await supabase.from('email_groups').update({ name, addresses }).eq('id', group.id)
+    : await supabase.from('email_groups').insert([{ name, addresses }]);
+
+  if (error) throw error;
+};
+
+export const deleteEmailGroup = async (supabase: SupabaseClient, groupId: string) => {
+  const { error } = await supabase.from('email_groups').delete().eq('id', groupId);
+  if (error) throw error;
+};
@@ -0,0 +1,78 @@
+import { Email } from '../types';
+import { RecipientLists, isAddressedTo, normalizeAddress, recipientAddresses } from './emailRecipients';
+
+export interface EmailThread {
+  id: string;
+  subject: string;
+  // Oldest first, as the conversation reads
+  messages: Email[];
+  latest: Email;
+}
+
+// A conversation is keyed by its first message; that message has no thread_id of its own
+export const threadKeyOf = (email: Email) => email.thread_id || email.id;
+
+export const groupThreads = (emails: Email[]): EmailThread[] => {
+  const byKey = new Map<string, Email[]>();
+  emails.forEach(e => {
+    const key = threadKeyOf(e);
+    byKey.set(key, [...(byKey.get(key) || []), e]);
+  });
+  return Array.from(byKey.entries())
+    .map(([id, messages]) => {
+      const ordered = [...messages].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      return { id, subject: ordered[0].subject, messages: ordered, latest: ordered[ordered.length - 1] };
+    })
+    .sort((a, b) => b.latest.created_at.localeCompare(a.latest.created_at));
+};
+
+const REPLY_PREFIX = /^\s*((re|fwd?)\s*:\s*)+/i;
+
+// "Re: Re: Fwd: Batch 12" collapses to a single prefix instead of growing with every round trip
+export const replySubject = (subject: string) => `Re: ${subject.replace(REPLY_PREFIX, '')}`;
+
+export const forwardSubject = (subject: string) => `Fwd: ${subject.replace(REPLY_PREFIX, '')}`;
+
+const senderLabel = (email: Email) =>
+  email.sender?.email ? `${email.sender.full_name} <${email.sender.email}>` : email.sender?.full_name || 'Unknown sender';
+
+export const quoteForReply = (email: Email) => [
+  '',
+  '',
+  `On ${new Date(email.created_at).toLocaleString()}, ${senderLabel(email)} wrote:`,
+  ...email.body.split(/\r?\n/).map(line => `> ${line}`)
+].join('\n');
+
+export const forwardBody = (email: Email) => {
+  const cc = recipientAddresses(email, 'cc');
+  return [
+    '',
+    '',
+    '---------- Forwarded message ----------',
+    `From: ${senderLabel(email)}`,
+    `Date: ${new Date(email.created_at).toLocaleString()}`,
+    `Subject: ${email.subject}`,
+    `To: ${recipientAddresses(email, 'to').join(', ')}`,
+    ...(cc.length ? [`Cc: ${cc.join(', ')}`] : []),
+    '',
+    email.body
+  ].join('\n');
+};
+
+/**
+ * Who a reply goes to. Answering a received message goes back to its sender, and with reply-all to the other
+ * To and Cc recipients as well; following up on your own message goes to its original recipients. Bcc never carries over.
+ */
+export const replyRecipients = (email: Email, userId: string | null, userEmail: string | null, all: boolean): RecipientLists => {
+  const self = normalizeAddress(userEmail || '');
+  const others = (addresses: string[]) => addresses.filter(a => normalizeAddress(a) !== self);
+  if (email.user_id === userId && !isAddressedTo(email, userId, userEmail)) {
+    return { to: recipientAddresses(email, 'to'), cc: all ? recipientAddresses(email, 'cc') : [], bcc: [] };
+  }
+  const sender = email.sender?.email ? [email.sender.email] : [];
+  return {
+    to: all ? Array.from(new Set([...sender, ...others(recipientAddresses(email, 'to'))])) : sender,
+    cc: all ? others(recipientAddresses(email, 'cc')) : [],
+    bcc: []
+  };
+};
@@ -0,0 +1,294 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { InventoryItem, ProductCategory } from '../types';
+import { SheetRows } from './spreadsheet';
+import { stripFormulaGuard, toCsv } from './csv';
+import { getCategoryAttributes, getCategoryPath, normalizeAttributes } from './categories';
+
+export type ImportField = 'sku' | 'name' | 'category' | 'price' | 'quantity' | 'reorder_point' | 'reorder_quantity' | 'lead_time_days';
+
+type NumericField = Exclude<ImportField, 'sku' | 'name' | 'category'>;
+
+export const IMPORT_FIELDS: { id: ImportField; label: string; required?: boolean; integer?: boolean; aliases: string[] }[] = [
+  { id: 'sku', label: 'SKU', required: true, aliases: ['sku', 'code', 'itemcode', 'partnumber'] },
+  { id: 'name', label: 'Name', required: true, aliases: ['name', 'itemname', 'description', 'title'] },
+  { id: 'category', label: 'Category', aliases: ['category', 'sector', 'group'] },
+  { id: 'price', label: 'Price', aliases: ['price', 'unitprice', 'value', 'cost'] },
+  { id: 'quantity', label: 'Quantity', integer: true, aliases: ['quantity', 'qty', 'onhand', 'stock'] },
+  { id: 'reorder_point', label: 'Reorder Point', integer: true, aliases: ['reorderpoint', 'rop', 'minstock'] },
+  { id: 'reorder_quantity', label: 'Reorder Quantity', integer: true, aliases: ['reorderquantity', 'reorderqty', 'orderqty'] },
+  { id: 'lead_time_days', label: 'Lead Time Days', integer: true, aliases: ['leadtimedays', 'leadtime', 'leaddays'] }
+];
+
+export const IMPORT_BATCH_SIZE = 100;
+
+// Column index per field; unmapped fields keep their current value on update
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const autoMapColumns = (header: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = header.map(normalizeHeader);
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex(h => field.aliases.includes(h));
+    if (index !== -1 && !Object.values(mapping).includes(index)) mapping[field.id] = index;
+  });
+  return mapping;
+};
+
+// Accepts "1,250.50" and "1,250" as well as the comma-decimal "12,5"; a lone comma is a decimal only before one or two
+// digits. Anything else, such as the dot-thousands "1.250,50", is rejected rather than guessed at
+const parseNumber = (raw: string) => {
+  const text = raw.replace(/\s/g, '');
+  if (/^-?\d+,\d{1,2}$/.test(text)) return Number(text.replace(',', '.'));
+  if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) return Number(text.replace(/,/g, ''));
+  return /^-?(\d+(\.\d*)?|\.\d+)$/.test(text) ? Number(text) : NaN;
+};
+
+const chunk = <T,>(list: T[], size: number) =>
+  Array.from({ length: Math.ceil(list.length / size) }, (_, i) => list.slice(i * size, (i + 1) * size));
+
+const SKU_LOOKUP_CHUNK = 200;
+
+// Existing items for the SKUs in a file, looked up in chunks so the filter stays within URL limits
+export const fetchItemsBySku = async (supabase: SupabaseClient, skus: string[]): Promise<InventoryItem[]> => {
+  const unique = Array.from(new Set(skus));
+  const found: InventoryItem[] = [];
+  for (const part of chunk(unique, SKU_LOOKUP_CHUNK)) {
+    const { data, error } = await supabase.from('inventory').select('*').in('sku', part);
+    if (error) throw error;
+    found.push(...(data || []));
+  }
+  return found;
+};
+
+export type ImportValues = Partial<Pick<InventoryItem, 'sku' | 'name' | 'category' | 'category_id' | NumericField>>;
+
+/**
+ * Finds the category a cell names, either by full path ("Fabric / Knit") or by its own name when that is unambiguous.
+ * Returns an error message instead when nothing or more than one category matches.
+ */
+const matchCategory = (categories: ProductCategory[], text: string): ProductCategory | string => {
+  const wanted = text.toLowerCase().split('/').map(part => part.trim()).join(' / ');
+  const byPath = categories.find(c => getCategoryPath(categories, c.id).toLowerCase() === wanted);
+  if (byPath) return byPath;
+  const byName = categories.filter(c => c.name.toLowerCase() === wanted);
+  if (byName.length === 1) return byName[0];
+  return byName.length ? `Category "${text}" is ambiguous, use its full path` : `Unknown category "${text}"`;
+};
+
+export interface ImportPreviewRow {
+  line: number;
+  values: ImportValues;
+  status: 'create' | 'update' | 'error';
+  errors: string[];
+  existing?: InventoryItem;
+}
+
+/**
+ * Validates every row before anything is written. Rows with errors are reported and skipped; a SKU that already
+ * exists updates that item, and a SKU repeated inside the file is rejected on every line rather than letting the last one win.
+ */
+export const buildImportPreview = (
+  rows: SheetRows,
+  mapping: ColumnMapping,
+  items: InventoryItem[],
+  categories: ProductCategory[]
+): ImportPreviewRow[] => {
+  const bySku = new Map(items.map(i => [i.sku.trim().toLowerCase(), i]));
+  const skuLines = new Map<string, number[]>();
+
+  const preview = rows.slice(1).map(({ line, cells }): ImportPreviewRow => {
+    const cell = (field: ImportField) => {
+      const index = mapping[field];
+      return index === undefined ? undefined : stripFormulaGuard((cells[index] || '').trim());
+    };
+    const values: ImportValues = {};
+    const errors: string[] = [];
+
+    const sku = cell('sku');
+    if (sku) {
+      values.sku = sku;
+      const key = sku.toLowerCase();
+      skuLines.set(key, [...(skuLines.get(key) || []), line]);
+    } else {
+      errors.push('SKU is missing');
+    }
+    const existing = sku ? bySku.get(sku.toLowerCase()) : undefined;
+
+    const name = cell('name');
+    if (name) values.name = name;
+    else if (!existing) errors.push('Name is missing');
+
+    const category = cell('category');
+    if (category) {
+      const match = matchCategory(categories, category);
+      if (typeof match === 'string') {
+        errors.push(match);
+      } else {
+        values.category = match.name;
+        values.category_id = match.id;
+      }
+    } else if (!existing) {
+      errors.push('Category is missing');
+    }
+
+    // The file has no attribute columns, so an item entering a category must already hold the attributes it requires
+    if (values.category_id && values.category_id !== existing?.category_id) {
+      try {
+        const { missing } = normalizeAttributes(getCategoryAttributes(categories, values.category_id), existing?.attributes);
+        if (missing.length) errors.push(`${getCategoryPath(categories, values.category_id)} requires ${missing.join(', ')}`);
+      } catch (err: any) {
+        errors.push(err.message);
+      }
+    }
+
+    IMPORT_FIELDS.filter(f => !['sku', 'name', 'category'].includes(f.id)).forEach(field => {
+      const raw = cell(field.id);
+      if (!raw) return;
+      const value = parseNumber(raw);
+      if (!Number.isFinite(value)) errors.push(`${field.label} "${raw}" is not a number`);
+      else if (value < 0) errors.push(`${field.label} cannot be negative`);
+      else if (field.integer && !Number.isInteger(value)) errors.push(`${field.label} must be a whole number`);
+      else values[field.id as NumericField] = value;
+    });
+
+    return { line, values, errors, existing, status: existing ? 'update' : 'create' };
+  });
+
+  return preview.map(row => {
+    const lines = row.values.sku ? skuLines.get(row.values.sku.toLowerCase()) || [] : [];
+    const errors = lines.length > 1 ? [...row.errors, `Duplicate SKU in file (lines ${lines.join(', ')})`] : row.errors;
+    return { ...row, errors, status: errors.length ? 'error' : row.status };
+  });
+};
+
+export interface ImportResult {
+  line: number;
+  sku: string;
+  outcome: 'created' | 'updated' | 'skipped' | 'failed';
+  message?: string;
+}
+
+/**
+ * Writes the valid rows in batches: new items are inserted, existing ones upserted by id with their unmapped fields kept.
+ * A batch the database refuses is retried row by row, so one bad row fails only its own line.
+ * Quantity stays owned by the stock ledger, so a changed count is posted as one movement per row against the ledger's
+ * on-hand figure (`ledgerOnHand`); the database brings the cached quantity on the row into line.
+ */
+export const runInventoryImport = async (
+  supabase: SupabaseClient,
+  preview: ImportPreviewRow[],
+  ledgerOnHand: (itemId: string) => number,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const results: ImportResult[] = preview
+    .filter(r => r.status === 'error')
+    .map(r => ({ line: r.line, sku: r.values.sku || '', outcome: 'skipped', message: r.errors.join('; ') }));
+
+  const valid = preview.filter(r => r.status !== 'error');
+  const batches = chunk(valid, IMPORT_BATCH_SIZE);
+
+  for (const [index, batch] of batches.entries()) {
+    const movements: Record<string, unknown>[] = [];
+    const written: { row: ImportPreviewRow; id: string; outcome: ImportResult['outcome'] }[] = [];
+
+    const creates = batch.filter(r => r.status === 'create');
+    if (creates.length) {
+      const insertRows = (rows: ImportPreviewRow[]) => supabase
+        .from('inventory')
+        .insert(rows.map(r => ({ price: 0, ...r.values, quantity: 0, user_id: user.id })))
+        .select('id, sku');
+      const { data, error } = await insertRows(creates);
+      const inserted: { id: string; sku: string }[] = error ? [] : data || [];
+      if (error) {
+        for (const r of creates) {
+          const { data: row, error: rowError } = await insertRows([r]);
+          if (rowError) results.push({ line: r.line, sku: r.values.sku || '', outcome: 'failed', message: rowError.message });
+          else inserted.push(...(row || []));
+        }
+      }
+      creates.forEach(r => {
+        const id = inserted.find(d => d.sku === r.values.sku)?.id;
+        if (!id) return;
+        written.push({ row: r, id, outcome: 'created' });
+        if (r.values.quantity) {
+          movements.push({ item_id: id, movement_type: 'receipt', quantity: r.values.quantity, reason_code: 'opening_balance', note: 'Bulk import', user_id: user.id });
+        }
+      });
+    }
+
+    const updates = batch.filter(r => r.status === 'update' && r.existing);
+    if (updates.length) {
+      const rows = updates.map(r => {
+        const {
+          id, name, sku, category, category_id, attributes, price, quantity, image_url,
+          reorder_point, reorder_quantity, lead_time_days, preferred_supplier_id, user_id
+        } = r.existing!;
+        return {
+          id, name, sku, category, category_id, attributes, price, image_url,
+          reorder_point, reorder_quantity, lead_time_days, preferred_supplier_id, user_id,
+          ...r.values,
+          quantity
+        };
+      });
+      const { error } = await supabase.from('inventory').upsert(rows, { onConflict: 'id' });
+      const saved: ImportPreviewRow[] = error ? [] : [...updates];
+      if (error) {
+        for (const [i, r] of updates.entries()) {
+          const { error: rowError } = await supabase.from('inventory').upsert([rows[i]], { onConflict: 'id' });
+          if (rowError) results.push({ line: r.line, sku: r.values.sku || '', outcome: 'failed', message: rowError.message });
+          else saved.push(r);
+        }
+      }
+      saved.forEach(r => {
+        const item = r.existing!;
+        written.push({ row: r, id: item.id, outcome: 'updated' });
+        const delta = r.values.quantity === undefined ? 0 : r.values.quantity - ledgerOnHand(item.id);
+        if (delta !== 0) {
+          movements.push({ item_id: item.id, movement_type: 'adjustment', quantity: delta, reason_code: 'data_correction', note: 'Bulk import', user_id: user.id });
+        }
+      });
+    }
+
+    const { error: movementError } = movements.length
+      ? await supabase.from('stock_movements').insert(movements)
+      : { error: null };
+    written.forEach(({ row, outcome, id }) => {
+      const ledgerFailed = movementError && movements.some(m => m.item_id === id);
+      results.push({
+        line: row.line,
+        sku: row.values.sku || '',
+        outcome,
+        message: ledgerFailed ? `Item saved but the stock movement failed: ${movementError.message}` : undefined
+      });
+    });
+
+    onProgress?.(index + 1, batches.length);
+  }
+
+  return results.sort((a, b) => a.line - b.line);
+};
+
+export const importReportToCsv = (results: ImportResult[]) =>
+  toCsv(['Line', 'SKU', 'Outcome', 'Message'], results.map(r => [r.line, r.sku, r.outcome, r.message || '']));
+
+/**
+ * Exports items with the import's column headers so the file maps itself when it comes back in. Categories go out as
+ * their full path, since a bare name shared by two subcategories would not match on the way back.
+ * With a location filter the scoped figure is added as an extra column; the import ignores it.
+ */
+export const ledgerToCsv = (
+  items: InventoryItem[],
+  categories: ProductCategory[],
+  scopedQuantity?: (item: InventoryItem) => number
+) => toCsv(
+  [...IMPORT_FIELDS.map(f => f.label), ...(scopedQuantity ? ['Quantity In Location'] : [])],
+  items.map(item => [
+    ...IMPORT_FIELDS.map(f => f.id === 'category' ? getCategoryPath(categories, item.category_id) || item.category : item[f.id] ?? ''),
+    ...(scopedQuantity ? [scopedQuantity(item)] : [])
+  ])
+);
@@ -0,0 +1,234 @@
+import { PostgrestFilterBuilder, SupabaseClient } from '@supabase/supabase-js';
+import { AttributeDefinition, InventoryItem } from '../types';
+
+export type StockStatus = 'in_stock' | 'low' | 'out';
+
+export const STOCK_STATUSES: { id: StockStatus; label: string }[] = [
+  { id: 'in_stock', label: 'Healthy' },
+  { id: 'low', label: 'Low Stock' },
+  { id: 'out', label: 'Out of Stock' }
+];
+
+export type SortColumn = 'name' | 'sku' | 'category' | 'price' | 'quantity' | 'created_at';
+
+export interface SortKey {
+  column: SortColumn;
+  ascending: boolean;
+}
+
+export interface InventoryQuery {
+  search: string;
+  category: string;
+  priceMin: number | null;
+  priceMax: number | null;
+  stock: StockStatus | '';
+  owner: string;
+  location: string;
+  // Attribute key -> filter text, only meaningful for the attributes of the filtered category
+  attributes: Record<string, string>;
+  sort: SortKey[];
+  page: number;
+  pageSize: number;
+}
+
+export const PAGE_SIZES = [25, 50, 100];
+
+export const DEFAULT_INVENTORY_QUERY: InventoryQuery = {
+  search: '',
+  category: '',
+  priceMin: null,
+  priceMax: null,
+  stock: '',
+  owner: '',
+  location: '',
+  attributes: {},
+  sort: [{ column: 'created_at', ascending: false }],
+  page: 1,
+  pageSize: PAGE_SIZES[0]
+};
+
+const SORT_COLUMNS: SortColumn[] = ['name', 'sku', 'category', 'price', 'quantity', 'created_at'];
+
+/**
+ * A plain click sorts by that column alone (flipping direction if it already leads); with `additive` the column is
+ * appended as a tie-breaker, or flipped in place if already present.
+ */
+export const toggleSort = (sort: SortKey[], column: SortColumn, additive: boolean): SortKey[] => {
+  const current = sort.find(s => s.column === column);
+  if (additive) {
+    return current
+      ? sort.map(s => s.column === column ? { ...s, ascending: !s.ascending } : s)
+      : [...sort, { column, ascending: true }];
+  }
+  return [{ column, ascending: sort[0]?.column === column ? !sort[0].ascending : true }];
+};
+
+// Prefix match on every word, so "blad sku-12" finds "Cutting Blade" with SKU "SKU-1234"
+export const toSearchQuery = (search: string) =>
+  search.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(term => `${term}:*`).join(' & ');
+
+// Any filterable builder: the table's and the location RPC's differ only in their row and method type parameters
+type FilterableQuery = PostgrestFilterBuilder<any, any, any, any, any, any, any>;
+
+// What the query alone cannot resolve: trees and schemas the caller already holds
+export interface LedgerScope {
+  // The filtered location and everything nested in it
+  locationIds?: string[] | null;
+  // The filtered category and its subcategories
+  categoryIds?: string[] | null;
+  // Attribute schema of the filtered category, which decides how each attribute filter matches
+  attributes?: AttributeDefinition[];
+}
+
+/**
+ * Applies the ledger filters server-side. Search reads the `search_vector` column and stock status the `low_stock`
+ * column, both generated in the database (see lib/schema.ts) since PostgREST cannot compare two columns.
+ * Pick-list and number attributes match exactly through jsonb containment; text attributes match by substring.
+ */
+const applyFilters = <Q extends FilterableQuery>(builder: Q, query: InventoryQuery, scope: LedgerScope): Q => {
+  let next = builder;
+  const search = toSearchQuery(query.search);
+  if (search) next = next.textSearch('search_vector', search, { config: 'simple' });
+  if (query.priceMin !== null) next = next.gte('price', query.priceMin);
+  if (query.priceMax !== null) next = next.lte('price', query.priceMax);
+  if (query.owner) next = next.eq('user_id', query.owner);
+  if (query.stock === 'out') next = next.lte('quantity', 0);
+  if (query.stock === 'low') next = next.eq('low_stock', true).gt('quantity', 0);
+  if (query.stock === 'in_stock') next = next.eq('low_stock', false);
+  if (scope.categoryIds) next = next.in('category_id', scope.categoryIds);
+  Object.entries(query.attributes).forEach(([key, value]) => {
+    const def = scope.attributes?.find(a => a.key === key);
+    if (!def || !value.trim()) return;
+    if (def.type === 'text') next = next.ilike(`attributes->>${key}`, `%${value.trim()}%`);
+    else next = next.contains('attributes', { [key]: def.type === 'number' ? Number(value) : value });
+  });
+  return next;
+};
+
+const LEDGER_SELECT = `
+  *,
+  owner:profiles!user_id(full_name, avatar_url, email)
+`;
+
+export const fetchInventoryPage = async (
+  supabase: SupabaseClient,
+  query: InventoryQuery,
+  scope: LedgerScope = {}
+): Promise<{ items: InventoryItem[]; total: number }> => {
+  // The location filter goes through an RPC returning inventory rows. It filters and pages exactly like the table
+  const source: FilterableQuery = scope.locationIds
+    ? supabase.rpc('inventory_in_locations', { location_ids: scope.locationIds }, { count: 'exact' }).select(LEDGER_SELECT)
+    : supabase.from('inventory').select(LEDGER_SELECT, { count: 'exact' });
+  let builder = applyFilters(source, query, scope);
+  query.sort.forEach(s => { builder = builder.order(s.column, { ascending: s.ascending }); });
+
+  const from = (query.page - 1) * query.pageSize;
+  // The id tie-breaker keeps rows from shifting between pages when sort values repeat
+  const { data, error, count } = await builder.order('id').range(from, from + query.pageSize - 1);
+  if (error) throw error;
+  return { items: (data || []) as InventoryItem[], total: count || 0 };
+};
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// Every row matching the filters, fetched page by page for exports
+export const fetchAllMatchingItems = async (
+  supabase: SupabaseClient,
+  query: InventoryQuery,
+  scope: LedgerScope = {}
+): Promise<InventoryItem[]> => {
+  const all: InventoryItem[] = [];
+  for (let page = 1; ; page++) {
+    const { items, total } = await fetchInventoryPage(supabase, { ...query, page, pageSize: EXPORT_PAGE_SIZE }, scope);
+    all.push(...items);
+    if (items.length < EXPORT_PAGE_SIZE || all.length >= total) return all;
+  }
+};
+
+export interface InventoryRollup {
+  itemCount: number;
+  totalValue: number;
+  lowStockCount: number;
+  topCategory: string | null;
+}
+
+// Catalogue-wide figures, or those for what is held inside the given locations, summed by the inventory_rollup RPC
+export const fetchInventoryRollup = async (supabase: SupabaseClient, locationIds?: string[]): Promise<InventoryRollup> => {
+  const { data, error } = await supabase.rpc('inventory_rollup', { location_ids: locationIds || null }).single();
+  if (error) throw error;
+  const row = data as { item_count: number; total_value: number; low_stock_count: number; top_category: string | null } | null;
+  return {
+    itemCount: Number(row?.item_count) || 0,
+    totalValue: Number(row?.total_value) || 0,
+    lowStockCount: Number(row?.low_stock_count) || 0,
+    topCategory: row?.top_category || null
+  };
+};
+
+// Slim catalogue for pickers and BOM maths, which need every item but none of the ledger detail
+export const fetchItemCatalogue = async (supabase: SupabaseClient): Promise<InventoryItem[]> => {
+  const { data, error } = await supabase
+    .from('inventory')
+    .select('id, name, sku, category, category_id, price, quantity, reorder_point')
+    .order('sku');
+
+  if (error) throw error;
+  return data || [];
+};
+
+const parseNumberParam = (value: string | null) => {
+  if (value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const ATTRIBUTE_PARAM_PREFIX = 'a.';
+
+export const queryFromParams = (params: URLSearchParams): InventoryQuery => {
+  const sort = (params.get('sort') || '')
+    .split(',')
+    .map(part => part.split('.'))
+    .filter(([column]) => SORT_COLUMNS.includes(column as SortColumn))
+    .map(([column, dir]) => ({ column: column as SortColumn, ascending: dir !== 'desc' }));
+  const stock = params.get('stock') as StockStatus | null;
+  const pageSize = Number(params.get('size'));
+
+  return {
+    search: params.get('q') || '',
+    category: params.get('cat') || '',
+    priceMin: parseNumberParam(params.get('pmin')),
+    priceMax: parseNumberParam(params.get('pmax')),
+    stock: stock && STOCK_STATUSES.some(s => s.id === stock) ? stock : '',
+    owner: params.get('owner') || '',
+    location: params.get('loc') || '',
+    attributes: Object.fromEntries(
+      Array.from(params.entries())
+        .filter(([key, value]) => key.startsWith(ATTRIBUTE_PARAM_PREFIX) && value)
+        .map(([key, value]) => [key.slice(ATTRIBUTE_PARAM_PREFIX.length), value])
+    ),
+    sort: sort.length ? sort : DEFAULT_INVENTORY_QUERY.sort,
+    page: Math.max(1, Math.floor(Number(params.get('page')) || 1)),
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_INVENTORY_QUERY.pageSize
+  };
+};
+
+// Defaults are left out so a plain ledger keeps a clean URL
+export const queryToParams = (query: InventoryQuery): Record<string, string | null> => {
+  const sort = query.sort.map(s => `${s.column}.${s.ascending ? 'asc' : 'desc'}`).join(',');
+  const defaultSort = DEFAULT_INVENTORY_QUERY.sort.map(s => `${s.column}.${s.ascending ? 'asc' : 'desc'}`).join(',');
+  return {
+    q: query.search || null,
+    cat: query.category || null,
+    pmin: query.priceMin === null ? null : String(query.priceMin),
+    pmax: query.priceMax === null ? null : String(query.priceMax),
+    stock: query.stock || null,
+    owner: query.owner || null,
+    loc: query.location || null,
+    ...Object.fromEntries(Object.entries(query.attributes).map(([key, value]) => [`${ATTRIBUTE_PARAM_PREFIX}${key}`, value || null])),
+    sort: sort === defaultSort ? null : sort,
+    page: query.page > 1 ? String(query.page) : null,
+    size: query.pageSize === DEFAULT_INVENTORY_QUERY.pageSize ? null : String(query.pageSize)
+  };
+};
+
+export const LEDGER_PARAM_KEYS = Object.keys(queryToParams(DEFAULT_INVENTORY_QUERY));
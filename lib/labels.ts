@@ -0,0 +1,140 @@
+import { encodeCode128, encodeQr, isCode128Encodable } from './barcode';
+
+export interface LabelSpec {
+  // What the scanner reads back: the QR code and, where it fits, the Code 128 strip
+  value: string;
+  title: string;
+  subtitle?: string;
+}
+
+// A4 sheet of 3 × 8 labels at 70 × 36 mm, the common pre-cut office stock
+const MM = 72 / 25.4;
+const PAGE = { width: 210 * MM, height: 297 * MM };
+const SHEET = { columns: 3, rows: 8, width: 70 * MM, height: 36 * MM, top: 4.5 * MM, left: 0 };
+const PADDING = 3 * MM;
+const QR_SIZE = 19 * MM;
+const BARCODE_HEIGHT = 8 * MM;
+// Below this a handheld scanner stops resolving the narrowest bar, so long values rely on the QR code alone
+const MIN_BAR_WIDTH = 0.19 * MM;
+const CODE128_QUIET_ZONE = 10;
+
+const num = (value: number) => value.toFixed(2).replace(/\.?0+$/, '');
+
+// Content streams are written in WinAnsi; anything outside Latin-1 prints as '?', and bytes above 127 are escaped
+// so the file stays ASCII and the xref offsets can be taken from string length
+const pdfText = (text: string) => Array.from(text).map(ch => {
+  const code = ch.charCodeAt(0);
+  if (ch === '(' || ch === ')' || ch === '\\') return '\\' + ch;
+  if (code >= 32 && code < 127) return ch;
+  if (code >= 160 && code <= 255) return '\\' + code.toString(8).padStart(3, '0');
+  return '?';
+}).join('');
+
+// Helvetica averages about half an em per character; close enough to keep a line inside its box
+const fitText = (text: string, fontSize: number, width: number) => {
+  const maxChars = Math.floor(width / (fontSize * 0.52));
+  return text.length > maxChars ? text.slice(0, Math.max(maxChars - 1, 1)) + '...' : text;
+};
+
+// Adjacent dark modules become one rectangle, which keeps each page's stream small
+const drawRuns = (row: boolean[], x: number, y: number, moduleWidth: number, height: number) => {
+  const ops: string[] = [];
+  let start = -1;
+  row.forEach((dark, i) => {
+    if (dark && start < 0) start = i;
+    if ((!dark || i === row.length - 1) && start >= 0) {
+      const end = dark ? i + 1 : i;
+      ops.push(`${num(x + start * moduleWidth)} ${num(y)} ${num((end - start) * moduleWidth)} ${num(height)} re`);
+      start = -1;
+    }
+  });
+  return ops;
+};
+
+const drawLabel = (label: LabelSpec, left: number, bottom: number) => {
+  const ops: string[] = [];
+  const text: string[] = [];
+  const top = bottom + SHEET.height;
+
+  const qr = encodeQr(label.value);
+  const qrModule = QR_SIZE / qr.length;
+  qr.forEach((row, r) => ops.push(...drawRuns(row, left + PADDING, top - PADDING - (r + 1) * qrModule, qrModule, qrModule)));
+
+  const textLeft = left + PADDING * 2 + QR_SIZE;
+  const textWidth = SHEET.width - (textLeft - left) - PADDING;
+  const lines: [string, number, string][] = [
+    ['F2', 9, label.title],
+    ['F1', 7, label.value],
+    ...(label.subtitle ? [['F1', 6.5, label.subtitle] as [string, number, string]] : [])
+  ];
+  let baseline = top - PADDING - 8;
+  lines.forEach(([font, size, line]) => {
+    text.push(`BT /${font} ${size} Tf ${num(textLeft)} ${num(baseline)} Td (${pdfText(fitText(line, size, textWidth))}) Tj ET`);
+    baseline -= size + 3;
+  });
+
+  if (isCode128Encodable(label.value)) {
+    const bars = encodeCode128(label.value);
+    const barWidth = (SHEET.width - PADDING * 2) / (bars.length + CODE128_QUIET_ZONE * 2);
+    if (barWidth >= MIN_BAR_WIDTH) {
+      ops.push(...drawRuns(bars, left + PADDING + CODE128_QUIET_ZONE * barWidth, bottom + PADDING, barWidth, BARCODE_HEIGHT));
+    }
+  }
+
+  // Fill the collected bars and modules in one go; text objects cannot sit inside a path
+  return [...ops, 'f', ...text].join('\n');
+};
+
+/**
+ * Lays the labels out on A4 sheets and returns the PDF. Everything is drawn as filled rectangles and the two
+ * standard Helvetica faces, so no fonts or images need embedding.
+ */
+export const buildLabelSheet = (labels: LabelSpec[]): Blob => {
+  if (labels.length === 0) throw new Error("Nothing to print.");
+  const perPage = SHEET.columns * SHEET.rows;
+  const pageCount = Math.ceil(labels.length / perPage);
+
+  // Fixed object numbers: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content stream per sheet
+  const objects: string[] = [];
+  const pageIds = Array.from({ length: pageCount }, (_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pageIds.forEach((pageId, page) => {
+    const content = labels.slice(page * perPage, (page + 1) * perPage).map((label, i) => {
+      const column = i % SHEET.columns;
+      const row = Math.floor(i / SHEET.columns);
+      const left = SHEET.left + column * SHEET.width;
+      const bottom = PAGE.height - SHEET.top - (row + 1) * SHEET.height;
+      return drawLabel(label, left, bottom);
+    }).join('\n');
+
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE.width)} ${num(PAGE.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+};
+
+export const downloadLabelSheet = (filename: string, labels: LabelSpec[]) => {
+  const url = URL.createObjectURL(buildLabelSheet(labels));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,71 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LocationKind, StockLocation } from '../types';
+
+export const UNASSIGNED_LOCATION = 'unassigned';
+
+export const LOCATION_KINDS: { id: LocationKind; label: string; parentKind: LocationKind | null }[] = [
+  { id: 'warehouse', label: 'Warehouse', parentKind: null },
+  { id: 'zone', label: 'Zone', parentKind: 'warehouse' },
+  { id: 'bin', label: 'Bin', parentKind: 'zone' }
+];
+
+export const fetchLocations = async (supabase: SupabaseClient): Promise<StockLocation[]> => {
+  const { data, error } = await supabase
+    .from('locations')
+    .select('*')
+    .order('code', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const getLocationPath = (locations: StockLocation[], locationId?: string | null): string => {
+  if (!locationId || locationId === UNASSIGNED_LOCATION) return 'Unassigned';
+  const byId = new Map(locations.map(l => [l.id, l]));
+  const path: string[] = [];
+  let current = byId.get(locationId);
+  // Guard against a malformed parent cycle
+  while (current && path.length < LOCATION_KINDS.length) {
+    path.unshift(current.name);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path.join(' / ') || 'Unknown';
+};
+
+// The location itself plus every zone and bin nested beneath it
+export const getLocationScope = (locations: StockLocation[], locationId: string): Set<string> => {
+  const scope = new Set([locationId]);
+  let added = true;
+  while (added) {
+    added = false;
+    locations.forEach(l => {
+      if (l.parent_id && scope.has(l.parent_id) && !scope.has(l.id)) {
+        scope.add(l.id);
+        added = true;
+      }
+    });
+  }
+  return scope;
+};
+
+// Depth-first ordering so a flat <select> reads as a tree
+export const sortLocationTree = (locations: StockLocation[]): { location: StockLocation; depth: number }[] => {
+  const result: { location: StockLocation; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    locations
+      .filter(l => (l.parent_id || null) === parentId)
+      .forEach(l => {
+        result.push({ location: l, depth });
+        visit(l.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return result;
+};
+
+export const sumInScope = (levels: Record<string, number> | undefined, scope: Set<string> | null): number => {
+  if (!levels) return 0;
+  return Object.entries(levels)
+    .filter(([locationId]) => !scope || scope.has(locationId))
+    .reduce((acc, [, qty]) => acc + qty, 0);
+};
@@ -0,0 +1,38 @@
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface OutboundMail {
+  // Stable per queued email, so a retry after an ambiguous failure reaches the recipient as the same message
+  messageId: string;
+  from: string;
+  replyTo?: string;
+  // Message ids this one answers, so the recipient's client threads it with the earlier messages
+  inReplyTo?: string;
+  references?: string[];
+  // Header recipients; Bcc addresses never appear here
+  to: string[];
+  cc?: string[];
+  // Envelope recipients the transport actually delivers to; defaults to the To and Cc headers
+  envelope?: string[];
+  subject: string;
+  text: string;
+  attachments: MailAttachment[];
+}
+
+/**
+ * Anything that can hand a message to the outside world. The outbox worker only talks to this interface,
+ * so SMTP, a provider's HTTP API or a local log are interchangeable.
+ */
+export interface MailTransport {
+  name: string;
+  send: (mail: OutboundMail) => Promise<{ response: string }>;
+}
+
+// Transports mark rejections a retry cannot fix (a 5xx reply to the envelope, a refused recipient) so the outbox fails them at once
+export const permanentFailure = (message: string) => Object.assign(new Error(message), { permanent: true });
+
+export const isPermanentFailure = (err: unknown) =>
+  typeof err === 'object' && err !== null && 'permanent' in err && err.permanent === true;
@@ -0,0 +1,156 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { AppNotification, NotificationKind, ViewType } from '../types';
+import { fetchActiveOrgId } from './organizations';
+
+export const NOTIFICATION_KINDS: { id: NotificationKind; label: string; description: string; color: string }[] = [
+  { id: 'task_assigned', label: 'Task Assigned', description: 'An operation is assigned to you', color: 'bg-blue-50 text-blue-600 border-blue-100' },
+  { id: 'task_overdue', label: 'Task Overdue', description: 'One of your operations passes its due date', color: 'bg-rose-50 text-rose-600 border-rose-100' },
+  { id: 'task_mention', label: 'Mention', description: 'Someone @mentions you in a task discussion', color: 'bg-indigo-50 text-indigo-600 border-indigo-100' },
+  { id: 'low_stock', label: 'Low Stock', description: 'An item falls to or below its reorder point', color: 'bg-amber-50 text-amber-600 border-amber-100' },
+  { id: 'new_message', label: 'New Message', description: 'A transmission arrives in the Comms Node', color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  { id: 'po_approved', label: 'PO Approved', description: 'A purchase order you raised is approved', color: 'bg-purple-50 text-purple-600 border-purple-100' },
+  { id: 'delivery_failed', label: 'Delivery Failed', description: 'A transmission you sent could not be delivered', color: 'bg-rose-50 text-rose-600 border-rose-100' }
+];
+
+export const getNotificationMeta = (kind: NotificationKind) =>
+  NOTIFICATION_KINDS.find(k => k.id === kind) || NOTIFICATION_KINDS[0];
+
+export interface NotificationInput {
+  kind: NotificationKind;
+  title: string;
+  body?: string;
+  link_view?: ViewType;
+  entity_id?: string;
+  dedupe_key?: string;
+  // Only needed without a signed-in operator (the outbox worker), where the column default cannot resolve an organization
+  org_id?: string | null;
+}
+
+export const fetchNotifications = async (supabase: SupabaseClient, userId: string): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchMutedKinds = async (supabase: SupabaseClient, userId: string): Promise<NotificationKind[]> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('muted_kinds')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.muted_kinds || [];
+};
+
+export const saveMutedKinds = async (supabase: SupabaseClient, userId: string, mutedKinds: NotificationKind[]) => {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, muted_kinds: mutedKinds, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+  if (error) throw error;
+};
+
+/**
+ * Delivers a notification to each recipient who has not muted its kind.
+ * Like the task activity log, delivery is best-effort: a failure is logged and never blocks the action that raised it.
+ */
+export const notifyUsers = async (supabase: SupabaseClient, recipientIds: string[], input: NotificationInput) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  // Acting on your own record is not news; the overdue sweep is the one kind a user raises for themselves
+  const recipients = Array.from(new Set(recipientIds.filter(id => id && (id !== user?.id || input.kind === 'task_overdue'))));
+  if (recipients.length === 0) return;
+
+  try {
+    const { data: prefs, error: prefError } = await supabase
+      .from('notification_preferences')
+      .select('user_id, muted_kinds')
+      .in('user_id', recipients);
+    if (prefError) throw prefError;
+
+    const muted = new Set((prefs || []).filter(p => (p.muted_kinds || []).includes(input.kind)).map(p => p.user_id));
+    const rows = recipients.filter(id => !muted.has(id)).map(id => ({
+      user_id: id,
+      kind: input.kind,
+      title: input.title,
+      body: input.body || null,
+      link_view: input.link_view || null,
+      entity_id: input.entity_id || null,
+      dedupe_key: input.dedupe_key || null,
+      ...(input.org_id ? { org_id: input.org_id } : {})
+    }));
+    if (rows.length === 0) return;
+
+    const { error } = input.dedupe_key
+      ? await supabase.from('notifications').upsert(rows, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+      : await supabase.from('notifications').insert(rows);
+    if (error) throw error;
+  } catch (err: any) {
+    console.error('Notification delivery error:', err.message);
+  }
+};
+
+// Broadcast kinds (stock alerts) go to every member of the active organization
+export const notifyAll = async (supabase: SupabaseClient, input: NotificationInput) => {
+  try {
+    const orgId = await fetchActiveOrgId(supabase);
+    if (!orgId) return;
+    const { data, error } = await supabase.from('org_members').select('user_id').eq('org_id', orgId);
+    if (error) throw error;
+    await notifyUsers(supabase, (data || []).map(m => m.user_id), input);
+  } catch (err: any) {
+    console.error('Notification delivery error:', err.message);
+  }
+};
+
+// Fires only on the movement that takes the item from above its reorder point to at or below it
+export const crossedReorderPoint = (before: number, after: number, reorderPoint?: number | null) =>
+  reorderPoint !== null && reorderPoint !== undefined && before > reorderPoint && after <= reorderPoint;
+
+// Overdue is a matter of time passing rather than an event, so it is swept when the operator's session loads
+export const sweepOverdueTasks = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, title, due_date')
+    .eq('assigned_to', userId)
+    .neq('status', 'completed')
+    .lt('due_date', new Date().toISOString().split('T')[0]);
+
+  if (error) {
+    console.error('Overdue sweep error:', error.message);
+    return;
+  }
+  for (const task of data || []) {
+    await notifyUsers(supabase, [userId], {
+      kind: 'task_overdue',
+      title: task.title,
+      body: `Was due ${new Date(task.due_date).toLocaleDateString()}`,
+      link_view: 'tasks',
+      entity_id: task.id,
+      dedupe_key: `task_overdue:${task.id}:${task.due_date}`
+    });
+  }
+};
+
+export const markNotificationsRead = async (supabase: SupabaseClient, ids: string[]) => {
+  if (ids.length === 0) return;
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) throw error;
+};
+
+export const markAllNotificationsRead = async (supabase: SupabaseClient, userId: string) => {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+  if (error) throw error;
+};
@@ -0,0 +1,196 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { OrgInvitation, OrgMembership, Profile, Task, UserRole } from '../types';
+
+type Department = Task['department'];
+
+export const fetchMemberships = async (supabase: SupabaseClient, userId: string): Promise<OrgMembership[]> => {
+  const { data, error } = await supabase
+    .from('org_members')
+    .select(`
+      *,
+      organization:organizations!org_id(name)
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The stored active org wins while the operator still belongs to it; otherwise fall back to their oldest membership
+export const resolveActiveMembership = (memberships: OrgMembership[], activeOrgId?: string | null) =>
+  memberships.find(m => m.org_id === activeOrgId) || memberships[0] || null;
+
+// Role and department are per organization, so the profile carries whichever membership is active
+export const applyMembership = (profile: Profile, memberships: OrgMembership[]): Profile => {
+  const active = resolveActiveMembership(memberships, profile.active_org_id);
+  return {
+    ...profile,
+    memberships,
+    active_org_id: active?.org_id || null,
+    role: active?.role || null,
+    department: active?.department || null
+  };
+};
+
+export const fetchActiveOrgId = async (supabase: SupabaseClient): Promise<string | null> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('active_org_id')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.active_org_id || null;
+};
+
+/**
+ * Switching is stored on the profile rather than in the browser: the database reads it to default `org_id`
+ * on inserts and to scope every tenant table, so all devices and realtime channels follow the same org.
+ */
+export const switchOrganization = async (supabase: SupabaseClient, orgId: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const { error } = await supabase.from('profiles').update({ active_org_id: orgId }).eq('id', user.id);
+  if (error) throw error;
+};
+
+export const createOrganization = async (supabase: SupabaseClient, name: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+  if (!name.trim()) throw new Error("Name the organization.");
+
+  const { data: org, error } = await supabase
+    .from('organizations')
+    .insert([{ name: name.trim(), created_by: user.id }])
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const { error: memberError } = await supabase
+    .from('org_members')
+    .insert([{ org_id: org.id, user_id: user.id, role: 'admin' }]);
+  if (memberError) throw memberError;
+
+  await switchOrganization(supabase, org.id);
+  return org.id as string;
+};
+
+// Members of one organization as assignable profiles, carrying their role in that organization
+export const fetchOrgMembers = async (supabase: SupabaseClient, orgId: string): Promise<Profile[]> => {
+  const { data, error } = await supabase
+    .from('org_members')
+    .select(`
+      *,
+      member:profiles!user_id(full_name, email, avatar_url, username)
+    `)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+  return ((data || []) as OrgMembership[])
+    .map(m => ({ id: m.user_id, ...m.member, role: m.role, department: m.department || null }))
+    .sort((a, b) => (a.full_name || a.email || '').localeCompare(b.full_name || b.email || ''));
+};
+
+// Removing or demoting the only admin would leave the organization with nobody able to manage it. The database holds
+// the same line (see keep_org_admin in lib/permissions.ts); this check just fails early with a clearer message
+const isLastAdmin = (members: Profile[], userId: string) =>
+  members.find(m => m.id === userId)?.role === 'admin' && members.filter(m => m.role === 'admin').length === 1;
+
+export const updateMemberAccess = async (
+  supabase: SupabaseClient,
+  orgId: string,
+  members: Profile[],
+  userId: string,
+  patch: { role: UserRole; department?: Department | null }
+) => {
+  if (patch.role !== 'admin' && isLastAdmin(members, userId)) throw new Error("An organization needs at least one admin.");
+
+  const { error } = await supabase
+    .from('org_members')
+    .update({ role: patch.role, department: patch.role === 'supervisor' ? patch.department || null : null })
+    .eq('org_id', orgId)
+    .eq('user_id', userId);
+  if (error) throw error;
+};
+
+export const removeMember = async (supabase: SupabaseClient, orgId: string, members: Profile[], userId: string) => {
+  if (isLastAdmin(members, userId)) throw new Error("An organization needs at least one admin.");
+
+  const { error } = await supabase.from('org_members').delete().eq('org_id', orgId).eq('user_id', userId);
+  if (error) throw error;
+};
+
+export const fetchInvitations = async (supabase: SupabaseClient, orgId: string): Promise<OrgInvitation[]> => {
+  const { data, error } = await supabase
+    .from('org_invitations')
+    .select('*')
+    .eq('org_id', orgId)
+    .is('accepted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export interface InvitationInput {
+  email: string;
+  role: UserRole;
+  department?: Department | null;
+}
+
+export const inviteMember = async (supabase: SupabaseClient, orgId: string, members: Profile[], input: InvitationInput) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const email = input.email.trim().toLowerCase();
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) throw new Error("Enter a valid email address.");
+  if (members.some(m => m.email?.toLowerCase() === email)) throw new Error(`${email} is already a member.`);
+
+  const { count, error: pendingError } = await supabase
+    .from('org_invitations')
+    .select('id', { count: 'exact', head: true })
+    .eq('org_id', orgId)
+    .eq('email', email)
+    .is('accepted_at', null);
+  if (pendingError) throw pendingError;
+  if (count) throw new Error(`${email} already has a pending invitation.`);
+
+  const { error } = await supabase.from('org_invitations').insert([{
+    org_id: orgId,
+    email,
+    role: input.role,
+    department: input.role === 'supervisor' ? input.department || null : null,
+    invited_by: user.id
+  }]);
+  if (error) throw error;
+};
+
+export const revokeInvitation = async (supabase: SupabaseClient, invitationId: string) => {
+  const { error } = await supabase.from('org_invitations').delete().eq('id', invitationId);
+  if (error) throw error;
+};
+
+// Invitations are addressed by email, so they are redeemed whenever that operator signs in. The accept_invitation
+// RPC writes the membership, taking the role from the invitation rather than from the client
+export const acceptPendingInvitations = async (supabase: SupabaseClient) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user?.email) return 0;
+
+  const { data, error } = await supabase
+    .from('org_invitations')
+    .select('*')
+    .eq('email', user.email.toLowerCase())
+    .is('accepted_at', null);
+  if (error) throw error;
+
+  for (const invitation of (data || []) as OrgInvitation[]) {
+    const { error: acceptError } = await supabase.rpc('accept_invitation', { invitation: invitation.id });
+    if (acceptError) throw acceptError;
+  }
+  return (data || []).length;
+};
@@ -0,0 +1,494 @@
+import { Profile, Task, UserRole, ViewType } from '../types';
+
+type Department = Task['department'];
+
+export type Permission =
+  | 'inventory.write'
+  | 'inventory.delete'
+  | 'stock.post'
+  | 'bom.write'
+  | 'tasks.write'
+  | 'tasks.move'
+  | 'tasks.delete'
+  | 'pipeline.configure'
+  | 'production.write'
+  | 'production.record'
+  | 'sales.write'
+  | 'purchasing.write'
+  | 'purchasing.approve'
+  | 'purchasing.receive'
+  | 'roles.manage'
+  | 'audit.view'
+  | 'catalog.manage'
+  | 'comms.groups';
+
+export const ROLES: { id: UserRole; label: string; description: string; color: string }[] = [
+  { id: 'admin', label: 'Admin', description: 'Full access, including operator roles', color: 'bg-slate-900 text-white border-slate-900' },
+  { id: 'planner', label: 'Planner', description: 'Orders, production planning and the pipeline', color: 'bg-blue-50 text-blue-600 border-blue-100' },
+  { id: 'store_keeper', label: 'Store Keeper', description: 'Stock, locations and goods receipt', color: 'bg-amber-50 text-amber-600 border-amber-100' },
+  { id: 'supervisor', label: 'Dept. Supervisor', description: 'Moves cards and records output for one department', color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  { id: 'viewer', label: 'Viewer', description: 'Read-only access', color: 'bg-slate-50 text-slate-500 border-slate-200' }
+];
+
+export const getRoleMeta = (role: UserRole) => ROLES.find(r => r.id === role) || ROLES[ROLES.length - 1];
+
+const ALL_PERMISSIONS: Permission[] = [
+  'inventory.write', 'inventory.delete', 'stock.post', 'bom.write',
+  'tasks.write', 'tasks.move', 'tasks.delete', 'pipeline.configure',
+  'production.write', 'production.record', 'sales.write',
+  'purchasing.write', 'purchasing.approve', 'purchasing.receive', 'roles.manage', 'audit.view',
+  'catalog.manage', 'comms.groups'
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ALL_PERMISSIONS,
+  planner: [
+    'bom.write', 'tasks.write', 'tasks.move', 'tasks.delete', 'pipeline.configure',
+    'production.write', 'production.record', 'sales.write', 'purchasing.write', 'comms.groups'
+  ],
+  store_keeper: ['inventory.write', 'stock.post', 'purchasing.receive'],
+  supervisor: ['tasks.move', 'production.record'],
+  viewer: []
+};
+
+const ALWAYS_VISIBLE: ViewType[] = ['settings', 'auth', 'setup'];
+
+export const ROLE_VIEWS: Record<UserRole, ViewType[]> = {
+  admin: ['dashboard', 'tasks', 'inventory', 'sales', 'purchasing', 'replenishment', 'emails', 'audit'],
+  planner: ['dashboard', 'tasks', 'inventory', 'sales', 'purchasing', 'replenishment', 'emails'],
+  store_keeper: ['dashboard', 'tasks', 'inventory', 'purchasing', 'replenishment', 'emails'],
+  supervisor: ['dashboard', 'tasks', 'inventory', 'emails'],
+  viewer: ['dashboard', 'tasks', 'inventory', 'sales', 'purchasing', 'emails']
+};
+
+// Profiles created before roles existed carry no role and get the least privilege
+export const resolveRole = (profile?: Pick<Profile, 'role'> | null): UserRole => profile?.role || 'viewer';
+
+export const can = (profile: Pick<Profile, 'role'> | null | undefined, permission: Permission) =>
+  ROLE_PERMISSIONS[resolveRole(profile)].includes(permission);
+
+export const canView = (profile: Pick<Profile, 'role'> | null | undefined, view: ViewType) =>
+  ALWAYS_VISIBLE.includes(view) || ROLE_VIEWS[resolveRole(profile)].includes(view);
+
+// A supervisor may only move cards into or out of their own department column
+export const canMoveTask = (
+  profile: Pick<Profile, 'role' | 'department'> | null | undefined,
+  from: Department,
+  to: Department
+) => {
+  if (!can(profile, 'tasks.move')) return false;
+  if (resolveRole(profile) !== 'supervisor') return true;
+  return !!profile?.department && (from === profile.department || to === profile.department);
+};
+
+type TableOp = 'insert' | 'update' | 'delete';
+
+// Write access per table; reads stay open to every authenticated operator
+export const TABLE_WRITE_PERMISSIONS: { table: string; ops: Partial<Record<TableOp, Permission[]>> }[] = [
+  // On-hand is kept by a ledger trigger, so posting stock needs no write access to the item row itself
+  { table: 'inventory', ops: { insert: ['inventory.write'], update: ['inventory.write'], delete: ['inventory.delete'] } },
+  { table: 'stock_movements', ops: { insert: ['stock.post', 'production.write', 'purchasing.receive'], delete: ['inventory.delete'] } },
+  { table: 'styles', ops: { insert: ['inventory.write'], update: ['inventory.write'], delete: ['inventory.delete'] } },
+  { table: 'categories', ops: { insert: ['catalog.manage'], update: ['catalog.manage'], delete: ['catalog.manage'] } },
+  { table: 'locations', ops: { insert: ['inventory.write'], update: ['inventory.write'], delete: ['inventory.write'] } },
+  { table: 'bom_lines', ops: { insert: ['bom.write'], update: ['bom.write'], delete: ['bom.write'] } },
+  { table: 'tasks', ops: { insert: ['tasks.write', 'sales.write'], update: ['tasks.write', 'tasks.move', 'production.write'], delete: ['tasks.delete'] } },
+  { table: 'task_dependencies', ops: { insert: ['tasks.write', 'sales.write'], delete: ['tasks.write'] } },
+  { table: 'wip_limits', ops: { insert: ['pipeline.configure'], update: ['pipeline.configure'] } },
+  { table: 'work_orders', ops: { insert: ['production.write'], update: ['production.write'] } },
+  { table: 'work_order_outputs', ops: { insert: ['production.write', 'production.record'] } },
+  { table: 'customers', ops: { insert: ['sales.write'], update: ['sales.write'] } },
+  { table: 'sales_orders', ops: { insert: ['sales.write'], update: ['sales.write'], delete: ['sales.write'] } },
+  { table: 'sales_order_lines', ops: { insert: ['sales.write'], update: ['sales.write'], delete: ['sales.write'] } },
+  { table: 'suppliers', ops: { insert: ['purchasing.write'], update: ['purchasing.write'] } },
+  { table: 'purchase_orders', ops: { insert: ['purchasing.write'], update: ['purchasing.write', 'purchasing.approve'], delete: ['purchasing.write'] } },
+  { table: 'purchase_order_lines', ops: { insert: ['purchasing.write'], update: ['purchasing.write'], delete: ['purchasing.write'] } },
+  { table: 'goods_receipts', ops: { insert: ['purchasing.receive'] } },
+  { table: 'email_groups', ops: { insert: ['comms.groups'], update: ['comms.groups'], delete: ['comms.groups'] } }
+];
+
+// Per-user tables keep their owner policies; they only gain the organization boundary
+const TENANT_ONLY_TABLES = ['emails', 'email_recipients', 'email_states', 'email_labels', 'email_links', 'task_comments', 'task_activity', 'notifications'];
+
+export const TENANT_TABLES = [...TABLE_WRITE_PERMISSIONS.map(t => t.table), ...TENANT_ONLY_TABLES, 'audit_log'];
+
+export const sqlList = (values: string[]) => values.map(v => `'${v.replace(/'/g, "''")}'`).join(', ');
+
+const permissionCheck = (permissions: Permission[]) =>
+  permissions.map(p => `public.has_permission('${p}')`).join(' or ');
+
+const MANAGE_ACTIVE_ORG = `org_id = public.active_org_id() and public.has_permission('roles.manage')`;
+
+/**
+ * Generates the Supabase SQL that enforces ROLE_PERMISSIONS server-side, so the database and the UI read from one matrix.
+ * Tenant isolation is a restrictive policy keyed on the operator's active organization, layered under the permissive role policies;
+ * rules that compare the old and new row (supervisor departments, PO approval) are triggers, since RLS cannot see both.
+ */
+export const buildRlsPolicies = () => {
+  const roleCases = (Object.keys(ROLE_PERMISSIONS) as UserRole[])
+    .map(role => `    when '${role}' then perm = any(array[${sqlList(ROLE_PERMISSIONS[role]) || "''"}])`)
+    .join('\n');
+
+  const tenantPolicies = TENANT_TABLES.map(table => [
+    `drop policy if exists "tenant_${table}" on public.${table};`,
+    `create policy "tenant_${table}" on public.${table} as restrictive for all to authenticated`,
+    `  using (org_id = public.active_org_id()) with check (org_id = public.active_org_id());`
+  ].join('\n')).join('\n');
+
+  const tablePolicies = TABLE_WRITE_PERMISSIONS.map(({ table, ops }) => {
+    const statements = [
+      `alter table public.${table} enable row level security;`,
+      `drop policy if exists "rbac_${table}_select" on public.${table};`,
+      `create policy "rbac_${table}_select" on public.${table} for select to authenticated using (true);`
+    ];
+    (['insert', 'update', 'delete'] as TableOp[]).forEach(op => {
+      const permissions = ops[op];
+      statements.push(`drop policy if exists "rbac_${table}_${op}" on public.${table};`);
+      if (!permissions) return;
+      const check = permissionCheck(permissions);
+      const clause = op === 'insert' ? `with check (${check})` : op === 'update' ? `using (${check}) with check (${check})` : `using (${check})`;
+      statements.push(`create policy "rbac_${table}_${op}" on public.${table} for ${op} to authenticated ${clause};`);
+    });
+    return `-- ${table}\n${statements.join('\n')}`;
+  }).join('\n\n');
+
+  return `-- Generated from lib/permissions.ts. Re-run after changing the role matrix or the tenant tables.
+
+create or replace function public.has_permission(perm text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select case coalesce((select role from public.org_members where user_id = auth.uid() and org_id = public.active_org_id()), 'viewer')
+${roleCases}
+    else false
+  end;
+$$;
+
+create or replace function public.is_org_member(org uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from public.org_members where org_id = org and user_id = auth.uid());
+$$;
+
+-- A member row may be self-inserted only by the creator of an empty org; invitees join through accept_invitation
+create or replace function public.can_join_org(org uuid, member_role text) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from public.organizations o where o.id = org and o.created_by = auth.uid())
+    and not exists (select 1 from public.org_members m where m.org_id = org)
+    and member_role = 'admin';
+$$;
+
+-- Redeems one pending invitation addressed to the caller. Role and department come from the invitation row, which
+-- only managers can write, so an invitee cannot choose their own
+create or replace function public.accept_invitation(invitation uuid) returns void
+language plpgsql security definer set search_path = public as $$
+declare
+  inv public.org_invitations;
+begin
+  update public.org_invitations set accepted_at = now()
+    where id = invitation and accepted_at is null and email = lower(auth.jwt() ->> 'email')
+    returning * into inv;
+  if inv.id is null then
+    raise exception 'This invitation is no longer open';
+  end if;
+  insert into public.org_members (org_id, user_id, role, department)
+    values (inv.org_id, auth.uid(), inv.role, inv.department)
+    on conflict (org_id, user_id) do nothing;
+end;
+$$;
+
+alter table public.organizations enable row level security;
+drop policy if exists "org_select" on public.organizations;
+create policy "org_select" on public.organizations for select to authenticated
+  using (public.is_org_member(id) or created_by = auth.uid());
+drop policy if exists "org_insert" on public.organizations;
+create policy "org_insert" on public.organizations for insert to authenticated with check (created_by = auth.uid());
+drop policy if exists "org_update" on public.organizations;
+create policy "org_update" on public.organizations for update to authenticated
+  using (id = public.active_org_id() and public.has_permission('roles.manage'));
+
+alter table public.org_members enable row level security;
+drop policy if exists "org_members_select" on public.org_members;
+create policy "org_members_select" on public.org_members for select to authenticated
+  using (user_id = auth.uid() or org_id = public.active_org_id());
+drop policy if exists "org_members_insert" on public.org_members;
+create policy "org_members_insert" on public.org_members for insert to authenticated
+  with check ((${MANAGE_ACTIVE_ORG}) or (user_id = auth.uid() and public.can_join_org(org_id, role)));
+drop policy if exists "org_members_update" on public.org_members;
+create policy "org_members_update" on public.org_members for update to authenticated using (${MANAGE_ACTIVE_ORG});
+drop policy if exists "org_members_delete" on public.org_members;
+create policy "org_members_delete" on public.org_members for delete to authenticated using (${MANAGE_ACTIVE_ORG});
+
+-- Every organization keeps at least one admin. The admin rows are locked first so two demotions racing each other
+-- cannot both see the other admin still in place; deleting the organization itself takes its members with it
+create or replace function public.keep_org_admin() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if old.role = 'admin' and (tg_op = 'DELETE' or new.role <> 'admin' or new.org_id <> old.org_id) then
+    perform 1 from public.org_members where org_id = old.org_id and role = 'admin' for update;
+    if exists (select 1 from public.organizations where id = old.org_id)
+      and not exists (select 1 from public.org_members where org_id = old.org_id and role = 'admin' and id <> old.id) then
+      raise exception 'An organization needs at least one admin';
+    end if;
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+drop trigger if exists rbac_org_members_admin on public.org_members;
+create trigger rbac_org_members_admin before update or delete on public.org_members
+  for each row execute function public.keep_org_admin();
+
+alter table public.org_invitations enable row level security;
+drop policy if exists "org_invitations_select" on public.org_invitations;
+create policy "org_invitations_select" on public.org_invitations for select to authenticated
+  using ((${MANAGE_ACTIVE_ORG}) or email = lower(auth.jwt() ->> 'email'));
+drop policy if exists "org_invitations_insert" on public.org_invitations;
+create policy "org_invitations_insert" on public.org_invitations for insert to authenticated with check (${MANAGE_ACTIVE_ORG});
+drop policy if exists "org_invitations_update" on public.org_invitations;
+create policy "org_invitations_update" on public.org_invitations for update to authenticated
+  using (${MANAGE_ACTIVE_ORG}) with check (${MANAGE_ACTIVE_ORG});
+drop policy if exists "org_invitations_delete" on public.org_invitations;
+create policy "org_invitations_delete" on public.org_invitations for delete to authenticated using (${MANAGE_ACTIVE_ORG});
+
+-- The audit log is written only by the audit triggers (see lib/schema.ts) and read only by auditors; nobody edits it
+alter table public.audit_log enable row level security;
+drop policy if exists "audit_log_select" on public.audit_log;
+create policy "audit_log_select" on public.audit_log for select to authenticated using (public.has_permission('audit.view'));
+drop policy if exists "audit_log_insert" on public.audit_log;
+revoke insert, update, delete on public.audit_log from anon, authenticated;
+
+-- Senders may put their own failed messages back in the queue; delivery results are written by the worker's service role
+drop policy if exists "emails_sender_requeue" on public.emails;
+create policy "emails_sender_requeue" on public.emails for update to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid() and status = 'pending');
+
+-- A sender's update may only set the status; subject, body and addressing stay as sent
+create or replace function public.guard_email_sender() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is not null then
+    old.status := new.status;
+    return old;
+  end if;
+  return new;
+end;
+$$;
+drop trigger if exists emails_guard on public.emails;
+create trigger emails_guard before update on public.emails
+  for each row execute function public.guard_email_sender();
+
+-- Only a message whose recipient rows never got written can be taken back, which is how a failed send cleans up
+drop policy if exists "emails_sender_discard" on public.emails;
+create policy "emails_sender_discard" on public.emails for delete to authenticated
+  using (user_id = auth.uid() and not exists (select 1 from public.email_recipients r where r.email_id = emails.id));
+
+-- Security definer, so the emails and email_recipients policies can refer to each other without recursing
+create or replace function public.is_email_sender(email uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (select 1 from public.emails e where e.id = email and e.user_id = auth.uid());
+$$;
+create or replace function public.is_email_recipient(email uuid) returns boolean
+language sql stable security definer set search_path = public as $$
+  select exists (
+    select 1 from public.email_recipients r
+    where r.email_id = email and (r.profile_id = auth.uid() or r.address = lower(auth.jwt() ->> 'email'))
+  );
+$$;
+
+drop policy if exists "emails_sender_select" on public.emails;
+create policy "emails_sender_select" on public.emails for select to authenticated using (user_id = auth.uid());
+drop policy if exists "emails_recipient_select" on public.emails;
+create policy "emails_recipient_select" on public.emails for select to authenticated using (public.is_email_recipient(id));
+
+-- Senders see every recipient row; recipients see the To and Cc rows and only their own Bcc row
+alter table public.email_recipients enable row level security;
+drop policy if exists "email_recipients_select" on public.email_recipients;
+create policy "email_recipients_select" on public.email_recipients for select to authenticated
+  using (
+    public.is_email_sender(email_id) or profile_id = auth.uid() or address = lower(auth.jwt() ->> 'email')
+    or (kind <> 'bcc' and public.is_email_recipient(email_id))
+  );
+drop policy if exists "email_recipients_insert" on public.email_recipients;
+create policy "email_recipients_insert" on public.email_recipients for insert to authenticated
+  with check (public.is_email_sender(email_id));
+drop policy if exists "email_recipients_sender_requeue" on public.email_recipients;
+create policy "email_recipients_sender_requeue" on public.email_recipients for update to authenticated
+  using (public.is_email_sender(email_id)) with check (public.is_email_sender(email_id) and status = 'pending');
+drop policy if exists "email_recipients_mark_read" on public.email_recipients;
+create policy "email_recipients_mark_read" on public.email_recipients for update to authenticated
+  using (profile_id = auth.uid() or address = lower(auth.jwt() ->> 'email'));
+
+-- A recipient's update may only set read_at, and a sender's only the delivery columns a requeue resets;
+-- the addressing and delivery results belong to the worker
+create or replace function public.guard_email_recipient() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+  if public.is_email_sender(old.email_id) then
+    old.status := new.status;
+    old.attempt_count := new.attempt_count;
+    old.next_attempt_at := new.next_attempt_at;
+    old.locked_until := new.locked_until;
+    old.last_error := new.last_error;
+  end if;
+  if old.profile_id = auth.uid() or old.address = lower(auth.jwt() ->> 'email') then
+    old.read_at := new.read_at;
+  end if;
+  return old;
+end;
+$$;
+drop trigger if exists email_recipients_guard on public.email_recipients;
+create trigger email_recipients_guard before update on public.email_recipients
+  for each row execute function public.guard_email_recipient();
+
+alter table public.email_states enable row level security;
+drop policy if exists "email_states_owner" on public.email_states;
+create policy "email_states_owner" on public.email_states for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+alter table public.email_labels enable row level security;
+drop policy if exists "email_labels_owner" on public.email_labels;
+create policy "email_labels_owner" on public.email_labels for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Anyone in the conversation can see, add and remove its links; a record's panel only lists messages you could already read
+alter table public.email_links enable row level security;
+drop policy if exists "email_links_select" on public.email_links;
+create policy "email_links_select" on public.email_links for select to authenticated
+  using (public.is_email_sender(email_id) or public.is_email_recipient(email_id));
+drop policy if exists "email_links_insert" on public.email_links;
+create policy "email_links_insert" on public.email_links for insert to authenticated
+  with check ((public.is_email_sender(email_id) or public.is_email_recipient(email_id)) and created_by = auth.uid());
+drop policy if exists "email_links_delete" on public.email_links;
+create policy "email_links_delete" on public.email_links for delete to authenticated
+  using (public.is_email_sender(email_id) or public.is_email_recipient(email_id));
+
+-- A task's discussion and field history are open to the whole organization; each entry is written as its author, and
+-- only the author may take a comment back
+alter table public.task_comments enable row level security;
+drop policy if exists "task_comments_select" on public.task_comments;
+create policy "task_comments_select" on public.task_comments for select to authenticated using (true);
+drop policy if exists "task_comments_insert" on public.task_comments;
+create policy "task_comments_insert" on public.task_comments for insert to authenticated with check (user_id = auth.uid());
+drop policy if exists "task_comments_delete" on public.task_comments;
+create policy "task_comments_delete" on public.task_comments for delete to authenticated using (user_id = auth.uid());
+alter table public.task_activity enable row level security;
+drop policy if exists "task_activity_select" on public.task_activity;
+create policy "task_activity_select" on public.task_activity for select to authenticated using (true);
+drop policy if exists "task_activity_insert" on public.task_activity;
+create policy "task_activity_insert" on public.task_activity for insert to authenticated with check (user_id = auth.uid());
+
+-- Notifications are raised for other members of the organization but read, marked and cleared only by their owner.
+-- Muted kinds are read by whoever raises a notification, so they are visible within the organization
+alter table public.notifications enable row level security;
+drop policy if exists "notifications_owner" on public.notifications;
+create policy "notifications_owner" on public.notifications for select to authenticated using (user_id = auth.uid());
+drop policy if exists "notifications_owner_update" on public.notifications;
+create policy "notifications_owner_update" on public.notifications for update to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+drop policy if exists "notifications_owner_delete" on public.notifications;
+create policy "notifications_owner_delete" on public.notifications for delete to authenticated using (user_id = auth.uid());
+drop policy if exists "notifications_insert" on public.notifications;
+create policy "notifications_insert" on public.notifications for insert to authenticated
+  with check (exists (select 1 from public.org_members m where m.user_id = notifications.user_id and m.org_id = public.active_org_id()));
+alter table public.notification_preferences enable row level security;
+drop policy if exists "notification_preferences_select" on public.notification_preferences;
+create policy "notification_preferences_select" on public.notification_preferences for select to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.org_members m where m.user_id = notification_preferences.user_id and m.org_id = public.active_org_id())
+  );
+drop policy if exists "notification_preferences_owner" on public.notification_preferences;
+create policy "notification_preferences_owner" on public.notification_preferences for all to authenticated
+  using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- Roles now live on org_members. The old profile columns are frozen for operators, on insert (the sign-up upsert) as well
+-- as update, so no one can write themselves a role there even though nothing reads it for access any more
+create or replace function public.protect_profile_access() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if auth.uid() is not null then
+    if tg_op = 'INSERT' then
+      new.role := 'viewer';
+      new.department := null;
+    else
+      new.role := old.role;
+      new.department := old.department;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+drop trigger if exists rbac_profile_access on public.profiles;
+create trigger rbac_profile_access before insert or update on public.profiles
+  for each row execute function public.protect_profile_access();
+drop policy if exists "rbac_profiles_update" on public.profiles;
+create policy "rbac_profiles_update" on public.profiles for update to authenticated using (id = auth.uid());
+
+create or replace function public.enforce_supervisor_department() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  actor public.org_members;
+begin
+  select * into actor from public.org_members where user_id = auth.uid() and org_id = public.active_org_id();
+  if actor.role = 'supervisor' and coalesce(actor.department, '') not in (old.department, new.department) then
+    raise exception 'Supervisors may only move cards in or out of their own department';
+  end if;
+  return new;
+end;
+$$;
+drop trigger if exists rbac_tasks_department on public.tasks;
+create trigger rbac_tasks_department before update of department, status, order_index on public.tasks
+  for each row execute function public.enforce_supervisor_department();
+
+-- tasks.move on its own only moves cards: without tasks.write or production.write, an update may change the lane and
+-- position and nothing else on the card
+create or replace function public.enforce_task_move_only() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  move_columns text[] := array['department', 'status', 'order_index', 'version'];
+begin
+  if auth.uid() is not null and not public.has_permission('tasks.write') and not public.has_permission('production.write')
+    and (to_jsonb(new) - move_columns) <> (to_jsonb(old) - move_columns) then
+    raise exception 'Moving a card may only change its department, status and position';
+  end if;
+  return new;
+end;
+$$;
+drop trigger if exists rbac_tasks_move_only on public.tasks;
+create trigger rbac_tasks_move_only before update on public.tasks
+  for each row execute function public.enforce_task_move_only();
+
+-- On-hand belongs to the stock ledger. Operators' writes to it are ignored; only the ledger trigger (see lib/schema.ts),
+-- which updates the row one trigger level down, changes it
+create or replace function public.protect_item_quantity() returns trigger
+language plpgsql set search_path = public as $$
+begin
+  if auth.uid() is not null and pg_trigger_depth() = 1 then
+    new.quantity := old.quantity;
+  end if;
+  return new;
+end;
+$$;
+drop trigger if exists rbac_inventory_quantity on public.inventory;
+create trigger rbac_inventory_quantity before update of quantity on public.inventory
+  for each row execute function public.protect_item_quantity();
+
+create or replace function public.enforce_po_approval() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.status = 'approved' and old.status <> 'approved'
+    and auth.uid() is not null and not public.has_permission('purchasing.approve') then
+    raise exception 'Approving purchase orders requires the purchasing.approve permission';
+  end if;
+  return new;
+end;
+$$;
+drop trigger if exists rbac_po_approval on public.purchase_orders;
+create trigger rbac_po_approval before update of status on public.purchase_orders
+  for each row execute function public.enforce_po_approval();
+
+-- Tenant isolation
+${tenantPolicies}
+
+${tablePolicies}
+`;
+};
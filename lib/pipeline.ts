@@ -0,0 +1,137 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Task } from '../types';
+
+type Department = Task['department'];
+
+export const TASK_STATUSES: { id: Task['status']; label: string; color: string }[] = [
+  { id: 'todo', label: 'Queued', color: 'text-slate-400' },
+  { id: 'in_progress', label: 'In Progress', color: 'text-blue-500' },
+  { id: 'completed', label: 'Done', color: 'text-emerald-500' }
+];
+
+export const PIPELINE_DEPARTMENTS: Department[] = ['planning', 'cutting', 'stitching', 'washing', 'finishing'];
+
+// Fallback limits until an admin saves their own; stitching and washing are the usual bottlenecks
+export const DEFAULT_WIP_LIMITS: Record<Department, number> = {
+  planning: 10,
+  cutting: 8,
+  stitching: 6,
+  washing: 4,
+  finishing: 8
+};
+
+export type WipLimits = Record<Department, number>;
+
+export interface WipLoad {
+  wip: number;
+  limit: number;
+  atLimit: boolean;
+  overLimit: boolean;
+}
+
+export const fetchWipLimits = async (supabase: SupabaseClient): Promise<WipLimits> => {
+  const { data, error } = await supabase.from('wip_limits').select('department, wip_limit');
+  if (error) throw error;
+
+  const limits = { ...DEFAULT_WIP_LIMITS };
+  (data || []).forEach(row => {
+    if (row.department in limits && row.wip_limit > 0) limits[row.department as Department] = row.wip_limit;
+  });
+  return limits;
+};
+
+export const saveWipLimits = async (supabase: SupabaseClient, limits: WipLimits) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const rows = PIPELINE_DEPARTMENTS.map(department => {
+    const wipLimit = Math.floor(limits[department]);
+    if (!(wipLimit > 0)) throw new Error(`The ${department} limit must be at least 1.`);
+    return { department, wip_limit: wipLimit, updated_by: user.id, updated_at: new Date().toISOString() };
+  });
+
+  const { error } = await supabase.from('wip_limits').upsert(rows, { onConflict: 'org_id,department' });
+  if (error) throw error;
+};
+
+// Work in progress is what a department has actually started, so queued and finished cards do not count
+export const computeWipLoad = (tasks: Pick<Task, 'department' | 'status'>[], limits: WipLimits): Record<Department, WipLoad> =>
+  Object.fromEntries(PIPELINE_DEPARTMENTS.map(department => {
+    const wip = tasks.filter(t => t.department === department && t.status === 'in_progress').length;
+    const limit = limits[department];
+    return [department, { wip, limit, atLimit: wip >= limit, overLimit: wip > limit }];
+  })) as Record<Department, WipLoad>;
+
+/**
+ * Active work counted against capacity: in-progress cards up to each department's limit are active,
+ * anything beyond is reported as overflow rather than inflating throughput.
+ */
+export const summarizeWip = (load: Record<Department, WipLoad>) => {
+  const rows = Object.entries(load) as [Department, WipLoad][];
+  return {
+    active: rows.reduce((acc, [, l]) => acc + Math.min(l.wip, l.limit), 0),
+    overflow: rows.reduce((acc, [, l]) => acc + Math.max(0, l.wip - l.limit), 0),
+    capacity: rows.reduce((acc, [, l]) => acc + l.limit, 0),
+    overloaded: rows.filter(([, l]) => l.overLimit).map(([department]) => department)
+  };
+};
+
+// Gap left between neighbouring cards so most moves only rewrite the card being moved
+export const ORDER_STEP = 1024;
+
+export const compareTaskOrder = (a: Pick<Task, 'order_index' | 'created_at'>, b: Pick<Task, 'order_index' | 'created_at'>) =>
+  (a.order_index ?? 0) - (b.order_index ?? 0) || a.created_at.localeCompare(b.created_at);
+
+export const getLane = (tasks: Task[], department: Department, status: Task['status'], excludeId?: string) =>
+  tasks
+    .filter(t => t.department === department && t.status === status && t.id !== excludeId)
+    .sort(compareTaskOrder);
+
+/**
+ * Integer index that sorts between two neighbours, or null when they are adjacent
+ * and the lane has to be respaced first.
+ */
+export const orderBetween = (before?: number, after?: number): number | null => {
+  if (before === undefined && after === undefined) return ORDER_STEP;
+  if (before === undefined) return after! - ORDER_STEP;
+  if (after === undefined) return before + ORDER_STEP;
+  const mid = Math.floor((before + after) / 2);
+  return mid > before && mid < after ? mid : null;
+};
+
+/**
+ * Writes a card's position only if nobody else has touched it since it was loaded.
+ * The version column acts as the optimistic lock: a stale write matches no rows and returns null.
+ */
+export const persistTaskPosition = async (
+  supabase: SupabaseClient,
+  task: Pick<Task, 'id' | 'version'>,
+  patch: Pick<Task, 'department' | 'status' | 'order_index'>
+): Promise<number | null> => {
+  const version = task.version ?? 0;
+  const { data, error } = await supabase
+    .from('tasks')
+    .update({ ...patch, version: version + 1 })
+    .eq('id', task.id)
+    .eq('version', version)
+    .select('id');
+
+  if (error) throw error;
+  return data && data.length > 0 ? version + 1 : null;
+};
+
+// Respaces a lane to even ORDER_STEP gaps when two neighbours have no integer left between them; null on conflict
+export const respaceLane = async (supabase: SupabaseClient, lane: Task[]): Promise<Task[] | null> => {
+  const respaced: Task[] = [];
+  for (const [idx, task] of lane.entries()) {
+    const order_index = (idx + 1) * ORDER_STEP;
+    if (task.order_index === order_index) {
+      respaced.push(task);
+      continue;
+    }
+    const version = await persistTaskPosition(supabase, task, { department: task.department, status: task.status, order_index });
+    if (version === null) return null;
+    respaced.push({ ...task, order_index, version });
+  }
+  return respaced;
+};
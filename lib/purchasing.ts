@@ -0,0 +1,195 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { GoodsReceipt, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, Supplier } from '../types';
+import { notifyUsers } from './notifications';
+
+export const PO_STATUSES: { id: PurchaseOrderStatus; label: string; color: string }[] = [
+  { id: 'draft', label: 'Draft', color: 'bg-slate-100 text-slate-600 border-slate-200' },
+  { id: 'approved', label: 'Approved', color: 'bg-indigo-50 text-indigo-600 border-indigo-100' },
+  { id: 'sent', label: 'Sent', color: 'bg-blue-50 text-blue-600 border-blue-100' },
+  { id: 'partially_received', label: 'Partially Received', color: 'bg-amber-50 text-amber-600 border-amber-100' },
+  { id: 'closed', label: 'Closed', color: 'bg-emerald-50 text-emerald-600 border-emerald-100' }
+];
+
+export const getStatusMeta = (status: PurchaseOrderStatus) =>
+  PO_STATUSES.find(s => s.id === status) || PO_STATUSES[0];
+
+// Manual transitions only; the receiving statuses are set by goods receipt
+const MANUAL_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['approved'],
+  approved: ['sent'],
+  sent: ['closed'],
+  partially_received: ['closed'],
+  closed: []
+};
+
+export const canTransition = (from: PurchaseOrderStatus, to: PurchaseOrderStatus) =>
+  MANUAL_TRANSITIONS[from].includes(to);
+
+export const canReceive = (po: Pick<PurchaseOrder, 'status'>) =>
+  po.status === 'sent' || po.status === 'partially_received';
+
+export const outstandingQuantity = (line: Pick<PurchaseOrderLine, 'quantity' | 'received_quantity'>) =>
+  Math.max(0, line.quantity - (line.received_quantity || 0));
+
+export const orderTotal = (po: Pick<PurchaseOrder, 'lines'>) =>
+  (po.lines || []).reduce((acc, l) => acc + l.quantity * l.unit_price, 0);
+
+export const generatePoNumber = () => {
+  const d = new Date();
+  const stamp = `${String(d.getFullYear()).slice(2)}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+  return `PO-${stamp}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+};
+
+export const fetchSuppliers = async (supabase: SupabaseClient): Promise<Supplier[]> => {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchPurchaseOrders = async (supabase: SupabaseClient): Promise<PurchaseOrder[]> => {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select(`
+      *,
+      supplier:suppliers!supplier_id(name, email),
+      lines:purchase_order_lines(*, item:inventory!item_id(name, image_url))
+    `)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchGoodsReceipts = async (supabase: SupabaseClient, purchaseOrderId: string): Promise<GoodsReceipt[]> => {
+  const { data, error } = await supabase
+    .from('goods_receipts')
+    .select(`
+      *,
+      receiver:profiles!user_id(full_name)
+    `)
+    .eq('purchase_order_id', purchaseOrderId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Units still due on every PO that has not been closed, drafts included so suggestions are not drafted twice
+export const fetchOnOrder = async (supabase: SupabaseClient): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from('purchase_order_lines')
+    .select('item_id, quantity, received_quantity, purchase_order:purchase_orders!inner(status)')
+    .neq('purchase_order.status', 'closed');
+
+  if (error) throw error;
+
+  const onOrder: Record<string, number> = {};
+  (data || []).forEach(l => {
+    onOrder[l.item_id] = (onOrder[l.item_id] || 0) + outstandingQuantity(l);
+  });
+  return onOrder;
+};
+
+export interface PurchaseOrderInput {
+  supplier_id?: string | null;
+  expected_date?: string | null;
+  notes?: string;
+  lines: { item_id: string; sku: string; quantity: number; unit_price: number }[];
+}
+
+export const createPurchaseOrder = async (supabase: SupabaseClient, input: PurchaseOrderInput): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const lines = input.lines.filter(l => l.quantity > 0);
+  if (lines.length === 0) throw new Error("A purchase order needs at least one line.");
+
+  const { data: po, error } = await supabase
+    .from('purchase_orders')
+    .insert([{
+      po_number: generatePoNumber(),
+      supplier_id: input.supplier_id || null,
+      expected_date: input.expected_date || null,
+      notes: input.notes || null,
+      status: 'draft',
+      user_id: user.id
+    }])
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const { error: lineError } = await supabase.from('purchase_order_lines').insert(
+    lines.map(l => ({ ...l, purchase_order_id: po.id, received_quantity: 0 }))
+  );
+  if (lineError) throw lineError;
+
+  return po.id;
+};
+
+export const transitionPurchaseOrder = async (supabase: SupabaseClient, po: PurchaseOrder, to: PurchaseOrderStatus) => {
+  if (!canTransition(po.status, to)) {
+    throw new Error(`Cannot move ${po.po_number} from ${getStatusMeta(po.status).label} to ${getStatusMeta(to).label}.`);
+  }
+  if (to === 'approved' && !po.supplier_id) throw new Error("Assign a supplier before approval.");
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const stamp = new Date().toISOString();
+  const patch: Partial<PurchaseOrder> = { status: to };
+  if (to === 'approved') {
+    patch.approved_by = user.id;
+    patch.approved_at = stamp;
+  }
+  if (to === 'sent') patch.sent_at = stamp;
+
+  const { error } = await supabase.from('purchase_orders').update(patch).eq('id', po.id);
+  if (error) throw error;
+
+  if (to === 'approved') {
+    await notifyUsers(supabase, [po.user_id], {
+      kind: 'po_approved',
+      title: `${po.po_number} approved`,
+      body: po.supplier?.name ? `Ready to send to ${po.supplier.name}` : undefined,
+      link_view: 'purchasing',
+      entity_id: po.id
+    });
+  }
+};
+
+export interface ReceiptLineInput {
+  line: PurchaseOrderLine;
+  quantity: number;
+  location_id?: string | null;
+}
+
+/**
+ * Posts each received quantity into the stock ledger, records it against its PO line and rolls the PO status forward.
+ * Each line goes through the receive_po_line RPC (see lib/schema.ts), which increments the line from its stored value.
+ */
+export const receiveGoods = async (supabase: SupabaseClient, po: PurchaseOrder, receipts: ReceiptLineInput[], note?: string) => {
+  if (!canReceive(po)) throw new Error(`${po.po_number} is not open for receiving.`);
+
+  const toPost = receipts.filter(r => r.quantity > 0);
+  if (toPost.length === 0) throw new Error("Enter at least one received quantity.");
+
+  for (const r of toPost) {
+    if (r.quantity > outstandingQuantity(r.line)) {
+      throw new Error(`${r.line.sku}: receiving ${r.quantity} exceeds the ${outstandingQuantity(r.line)} outstanding.`);
+    }
+  }
+
+  for (const r of toPost) {
+    const { error } = await supabase.rpc('receive_po_line', {
+      line_id: r.line.id,
+      received: r.quantity,
+      to_location: r.location_id || null,
+      receipt_note: note || null
+    });
+    if (error) throw new Error(`${r.line.sku}: ${error.message}`);
+  }
+};
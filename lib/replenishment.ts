@@ -0,0 +1,106 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { InventoryItem } from '../types';
+import { createPurchaseOrder } from './purchasing';
+
+// Applied to items that have not been given their own reorder point yet
+export const DEFAULT_REORDER_POINT = 10;
+export const CONSUMPTION_WINDOW_DAYS = 90;
+
+export const getReorderPoint = (item: Pick<InventoryItem, 'reorder_point'>) =>
+  item.reorder_point ?? DEFAULT_REORDER_POINT;
+
+export const isLowStock = (item: Pick<InventoryItem, 'reorder_point' | 'quantity'>, quantity = item.quantity) =>
+  quantity <= getReorderPoint(item);
+
+export interface ReplenishmentSuggestion {
+  item: InventoryItem;
+  onHand: number;
+  dailyUsage: number;
+  leadTimeDemand: number;
+  openDemand: number;
+  onOrder: number;
+  projected: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+}
+
+// Units issued per item over the trailing window, read from the stock ledger
+export const fetchConsumption = async (supabase: SupabaseClient, windowDays = CONSUMPTION_WINDOW_DAYS): Promise<Record<string, number>> => {
+  const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select('item_id, quantity')
+    .eq('movement_type', 'issue')
+    .gte('created_at', since);
+
+  if (error) throw error;
+
+  const consumption: Record<string, number> = {};
+  (data || []).forEach(m => {
+    consumption[m.item_id] = (consumption[m.item_id] || 0) + Math.abs(m.quantity);
+  });
+  return consumption;
+};
+
+// Projects stock to the end of each item's lead time and suggests an order wherever it lands at or below the reorder point.
+// openDemand carries units already committed elsewhere (orders, production) and onOrder units still due on open POs, both keyed by item id.
+export const computeSuggestions = (
+  items: InventoryItem[],
+  consumption: Record<string, number>,
+  openDemand: Record<string, number> = {},
+  onOrder: Record<string, number> = {},
+  windowDays = CONSUMPTION_WINDOW_DAYS
+): ReplenishmentSuggestion[] => {
+  return items
+    .map(item => {
+      const dailyUsage = (consumption[item.id] || 0) / windowDays;
+      const leadTimeDemand = Math.ceil(dailyUsage * (item.lead_time_days || 0));
+      const committed = openDemand[item.id] || 0;
+      const inbound = onOrder[item.id] || 0;
+      const projected = item.quantity + inbound - leadTimeDemand - committed;
+      const reorderPoint = getReorderPoint(item);
+      const shortfall = reorderPoint - projected;
+      const suggestedQuantity = shortfall >= 0 ? Math.max(item.reorder_quantity || 0, Math.ceil(shortfall) || 1) : 0;
+
+      return {
+        item,
+        onHand: item.quantity,
+        dailyUsage,
+        leadTimeDemand,
+        openDemand: committed,
+        onOrder: inbound,
+        projected,
+        reorderPoint,
+        suggestedQuantity
+      };
+    })
+    .filter(s => s.suggestedQuantity > 0)
+    .sort((a, b) => (a.projected - a.reorderPoint) - (b.projected - b.reorderPoint));
+};
+
+// One draft PO per preferred supplier; items without a supplier are grouped together for the buyer to assign
+export const createDraftPurchaseOrders = async (
+  supabase: SupabaseClient,
+  lines: { item: InventoryItem; quantity: number }[]
+): Promise<number> => {
+  const bySupplier: Record<string, { item: InventoryItem; quantity: number }[]> = {};
+  lines.filter(l => l.quantity > 0).forEach(l => {
+    const key = l.item.preferred_supplier_id || '';
+    (bySupplier[key] = bySupplier[key] || []).push(l);
+  });
+
+  for (const [supplierId, supplierLines] of Object.entries(bySupplier)) {
+    await createPurchaseOrder(supabase, {
+      supplier_id: supplierId || null,
+      notes: 'Generated from replenishment suggestions',
+      lines: supplierLines.map(l => ({
+        item_id: l.item.id,
+        sku: l.item.sku,
+        quantity: l.quantity,
+        unit_price: l.item.price
+      }))
+    });
+  }
+
+  return Object.keys(bySupplier).length;
+};
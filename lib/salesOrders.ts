@@ -0,0 +1,259 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Customer, SalesOrder, SalesOrderStatus, Task } from '../types';
+import { orderBetween } from './pipeline';
+
+export const SIZE_RUN = ['XS', 'S', 'M', 'L', 'XL', 'XXL'];
+
+export const SO_STATUSES: { id: SalesOrderStatus; label: string; color: string }[] = [
+  { id: 'draft', label: 'Draft', color: 'bg-slate-100 text-slate-600 border-slate-200' },
+  { id: 'confirmed', label: 'Confirmed', color: 'bg-blue-50 text-blue-600 border-blue-100' },
+  { id: 'shipped', label: 'Shipped', color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  { id: 'cancelled', label: 'Cancelled', color: 'bg-rose-50 text-rose-600 border-rose-100' }
+];
+
+export const getOrderStatusMeta = (status: SalesOrderStatus) =>
+  SO_STATUSES.find(s => s.id === status) || SO_STATUSES[0];
+
+// Working days each stage is given, counted back from the ship date
+export const PRODUCTION_CHAIN: { department: Task['department']; days: number }[] = [
+  { department: 'planning', days: 2 },
+  { department: 'cutting', days: 2 },
+  { department: 'stitching', days: 4 },
+  { department: 'washing', days: 2 },
+  { department: 'finishing', days: 2 }
+];
+
+export const sumSizeBreakdown = (breakdown: Record<string, number>) =>
+  Object.values(breakdown).reduce((acc, qty) => acc + (Number(qty) || 0), 0);
+
+export const formatSizeBreakdown = (breakdown: Record<string, number>) =>
+  SIZE_RUN.filter(size => breakdown[size]).map(size => `${size}:${breakdown[size]}`).join(' ');
+
+export const generateOrderNumber = () => {
+  const d = new Date();
+  const stamp = `${String(d.getFullYear()).slice(2)}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+  return `SO-${stamp}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+};
+
+export const isOpenOrder = (order: Pick<SalesOrder, 'status'>) => order.status === 'confirmed';
+
+export const fetchCustomers = async (supabase: SupabaseClient): Promise<Customer[]> => {
+  const { data, error } = await supabase
+    .from('customers')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchSalesOrders = async (supabase: SupabaseClient): Promise<SalesOrder[]> => {
+  const { data, error } = await supabase
+    .from('sales_orders')
+    .select(`
+      *,
+      customer:customers!customer_id(name, code),
+      lines:sales_order_lines(*)
+    `)
+    .order('ship_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Units committed to confirmed orders, keyed by item id, for replenishment projections
+export const fetchOpenDemand = async (supabase: SupabaseClient): Promise<Record<string, number>> => {
+  const { data, error } = await supabase
+    .from('sales_order_lines')
+    .select('item_id, quantity, sales_order:sales_orders!inner(status)')
+    .eq('sales_order.status', 'confirmed');
+
+  if (error) throw error;
+
+  const demand: Record<string, number> = {};
+  (data || []).forEach(l => {
+    if (l.item_id) demand[l.item_id] = (demand[l.item_id] || 0) + l.quantity;
+  });
+  return demand;
+};
+
+export interface SalesOrderInput {
+  customer_id: string;
+  ship_date: string;
+  notes?: string;
+  lines: { item_id?: string | null; sku: string; size_breakdown: Record<string, number> }[];
+}
+
+export const createSalesOrder = async (supabase: SupabaseClient, input: SalesOrderInput): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const lines = input.lines.filter(l => l.sku && sumSizeBreakdown(l.size_breakdown) > 0);
+  if (lines.length === 0) throw new Error("A sales order needs at least one style with quantities.");
+
+  const { data: order, error } = await supabase
+    .from('sales_orders')
+    .insert([{
+      order_number: generateOrderNumber(),
+      customer_id: input.customer_id,
+      ship_date: input.ship_date,
+      notes: input.notes || null,
+      status: 'draft',
+      user_id: user.id
+    }])
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const { error: lineError } = await supabase.from('sales_order_lines').insert(
+    lines.map(l => ({
+      sales_order_id: order.id,
+      item_id: l.item_id || null,
+      sku: l.sku,
+      size_breakdown: l.size_breakdown,
+      quantity: sumSizeBreakdown(l.size_breakdown)
+    }))
+  );
+  if (lineError) throw lineError;
+
+  return order.id;
+};
+
+type Department = Task['department'];
+
+/**
+ * Back-schedules one task per production stage for every order line, finishing the day before shipment.
+ * Cards join the end of their To Do lane, spaced like any other card, given the lane's current last `order_index`.
+ */
+export const buildProductionTasks = (order: SalesOrder, userId: string, laneEnds: Partial<Record<Department, number>> = {}) => {
+  const ends = { ...laneEnds };
+  const shipDate = new Date(order.ship_date);
+  const daysToShip = (shipDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+  const priority: Task['priority'] = daysToShip < 7 ? 'high' : daysToShip < 21 ? 'medium' : 'low';
+
+  return (order.lines || []).flatMap(line => {
+    let offset = 1;
+    const dueDates: Record<string, string> = {};
+    const startDates: Record<string, string> = {};
+    [...PRODUCTION_CHAIN].reverse().forEach(stage => {
+      const due = new Date(shipDate);
+      due.setDate(due.getDate() - offset);
+      dueDates[stage.department] = due.toISOString().split('T')[0];
+      const start = new Date(due);
+      start.setDate(start.getDate() - stage.days + 1);
+      startDates[stage.department] = start.toISOString().split('T')[0];
+      offset += stage.days;
+    });
+
+    return PRODUCTION_CHAIN.map(stage => ({
+      title: `${order.order_number} · ${stage.department.charAt(0).toUpperCase() + stage.department.slice(1)}`,
+      description: `${line.quantity} units of ${line.sku} for ${order.customer?.name || 'customer'} (${formatSizeBreakdown(line.size_breakdown)})`,
+      department: stage.department,
+      status: 'todo' as const,
+      priority,
+      sku_ref: line.sku,
+      start_date: startDates[stage.department],
+      duration_days: stage.days,
+      due_date: dueDates[stage.department],
+      sales_order_id: order.id,
+      sales_order_line_id: line.id,
+      order_index: (ends[stage.department] = orderBetween(ends[stage.department])!),
+      user_id: userId
+    }));
+  });
+};
+
+/**
+ * Creates the order's stage tasks and chains them; the order itself is claimed by confirmSalesOrder. If the chain
+ * cannot be saved the tasks are deleted again, so confirming a second time does not leave a duplicate set behind.
+ */
+const scheduleProduction = async (supabase: SupabaseClient, order: SalesOrder, userId: string) => {
+  const { data: lanes, error: laneError } = await supabase.from('tasks').select('department, order_index').eq('status', 'todo');
+  if (laneError) throw laneError;
+  const laneEnds: Partial<Record<Department, number>> = {};
+  (lanes || []).forEach(t => {
+    const department = t.department as Department;
+    laneEnds[department] = Math.max(laneEnds[department] ?? t.order_index, t.order_index);
+  });
+
+  const { data: tasks, error: taskError } = await supabase
+    .from('tasks')
+    .insert(buildProductionTasks(order, userId, laneEnds))
+    .select('id, department, sales_order_line_id');
+  if (taskError) throw taskError;
+
+  // Chain each line's stages so washing cannot start before stitching finishes, and so on
+  const dependencies = (order.lines || []).flatMap(line => {
+    const stageIds = PRODUCTION_CHAIN.map(stage =>
+      (tasks || []).find(t => t.sales_order_line_id === line.id && t.department === stage.department)?.id
+    );
+    return stageIds.slice(1).flatMap((id, idx) =>
+      id && stageIds[idx] ? [{ predecessor_id: stageIds[idx], successor_id: id, user_id: userId }] : []
+    );
+  });
+  if (dependencies.length) {
+    const { error: depError } = await supabase.from('task_dependencies').insert(dependencies);
+    if (depError) {
+      await supabase.from('tasks').delete().in('id', (tasks || []).map(t => t.id));
+      throw depError;
+    }
+  }
+};
+
+/**
+ * Claims the order by moving it out of draft only if it is still there, so a second click or a second operator cannot
+ * schedule its production twice. If scheduling fails the claim is handed back.
+ */
+export const confirmSalesOrder = async (supabase: SupabaseClient, order: SalesOrder) => {
+  if (order.status !== 'draft') throw new Error(`${order.order_number} has already been confirmed.`);
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const { data: claimed, error } = await supabase
+    .from('sales_orders')
+    .update({ status: 'confirmed', confirmed_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .eq('status', 'draft')
+    .select('id')
+    .maybeSingle();
+  if (error) throw error;
+  if (!claimed) throw new Error(`${order.order_number} has already been confirmed.`);
+
+  try {
+    await scheduleProduction(supabase, order, user.id);
+  } catch (err) {
+    await supabase
+      .from('sales_orders')
+      .update({ status: 'draft', confirmed_at: null })
+      .eq('id', order.id)
+      .eq('status', 'confirmed');
+    throw err;
+  }
+};
+
+export const updateSalesOrderStatus = async (supabase: SupabaseClient, order: SalesOrder, status: 'shipped' | 'cancelled') => {
+  if (order.status === 'shipped' || order.status === 'cancelled') {
+    throw new Error(`${order.order_number} is already ${order.status}.`);
+  }
+
+  const { error } = await supabase
+    .from('sales_orders')
+    .update({ status, shipped_at: status === 'shipped' ? new Date().toISOString() : null })
+    .eq('id', order.id);
+  if (error) throw error;
+};
+
+export const computeOrderMetrics = (orders: Pick<SalesOrder, 'status' | 'ship_date' | 'shipped_at' | 'lines'>[]) => {
+  const open = orders.filter(isOpenOrder);
+  const shipped = orders.filter(o => o.status === 'shipped' && o.shipped_at);
+  const onTime = shipped.filter(o => new Date(o.shipped_at!).toISOString().split('T')[0] <= o.ship_date.split('T')[0]);
+  const today = new Date().toISOString().split('T')[0];
+
+  return {
+    backlogOrders: open.length,
+    backlogUnits: open.reduce((acc, o) => acc + (o.lines || []).reduce((sum, l) => sum + l.quantity, 0), 0),
+    lateOrders: open.filter(o => o.ship_date.split('T')[0] < today).length,
+    onTimeRate: shipped.length ? Math.round((onTime.length / shipped.length) * 100) : null
+  };
+};
@@ -0,0 +1,63 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { InventoryItem, StockLocation, Task } from '../types';
+import { LabelSpec } from './labels';
+import { PIPELINE_DEPARTMENTS } from './pipeline';
+
+// Location, department and bundle labels carry a prefix; anything else a scanner sends is read as an item SKU
+const SCAN_PREFIXES = {
+  location: 'LOC:',
+  department: 'DEPT:',
+  task: 'TASK:'
+} as const;
+
+export type ScanTarget =
+  | { kind: 'location'; code: string }
+  | { kind: 'department'; id: Task['department'] }
+  | { kind: 'task'; id: string }
+  | { kind: 'item'; sku: string };
+
+/**
+ * Classifies one scan. Prefixes are matched case-insensitively because wedge scanners type through the keyboard
+ * layout and will upper-case everything while Caps Lock is on.
+ */
+export const parseScan = (raw: string): ScanTarget | null => {
+  const text = raw.trim();
+  if (!text) return null;
+  const upper = text.toUpperCase();
+  const rest = (prefix: string) => text.slice(prefix.length).trim();
+
+  if (upper.startsWith(SCAN_PREFIXES.location)) return { kind: 'location', code: rest(SCAN_PREFIXES.location).toUpperCase() };
+  if (upper.startsWith(SCAN_PREFIXES.task)) return { kind: 'task', id: rest(SCAN_PREFIXES.task).toLowerCase() };
+  if (upper.startsWith(SCAN_PREFIXES.department)) {
+    const id = rest(SCAN_PREFIXES.department).toLowerCase() as Task['department'];
+    if (!PIPELINE_DEPARTMENTS.includes(id)) throw new Error(`Unknown department label "${text}".`);
+    return { kind: 'department', id };
+  }
+  return { kind: 'item', sku: text };
+};
+
+export const itemLabel = (item: Pick<InventoryItem, 'sku' | 'name' | 'category'>): LabelSpec =>
+  ({ value: item.sku, title: item.name, subtitle: item.category });
+
+export const locationLabel = (location: StockLocation, path: string): LabelSpec =>
+  ({ value: SCAN_PREFIXES.location + location.code, title: location.name, subtitle: path });
+
+export const departmentLabel = (id: Task['department'], name: string): LabelSpec =>
+  ({ value: SCAN_PREFIXES.department + id.toUpperCase(), title: name, subtitle: 'Department drop-off' });
+
+export const taskLabel = (task: Pick<Task, 'id' | 'title' | 'sku_ref'>): LabelSpec =>
+  ({ value: SCAN_PREFIXES.task + task.id, title: task.title, subtitle: task.sku_ref ? `Bundle · ${task.sku_ref}` : 'Bundle' });
+
+// SKUs are not unique across the ledger, so a scan that hits several rows is refused rather than guessed
+export const findItemBySku = async (supabase: SupabaseClient, sku: string): Promise<InventoryItem> => {
+  const { data, error } = await supabase
+    .from('inventory')
+    .select('*')
+    .eq('sku', sku)
+    .limit(2);
+
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error(`No item with SKU ${sku}.`);
+  if (data.length > 1) throw new Error(`SKU ${sku} is shared by several items; post this one from the ledger.`);
+  return data[0];
+};
@@ -0,0 +1,170 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Task, TaskDependency } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DURATION_DAYS = 1;
+
+export const toDay = (date: string) => Math.floor(new Date(date.split('T')[0]).getTime() / DAY_MS);
+
+export const fromDay = (day: number) => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+export const todayDay = () => toDay(new Date().toISOString());
+
+export interface ScheduledTask {
+  task: Task;
+  start: number;
+  end: number;
+  earlyStart: number;
+  earlyFinish: number;
+  slack: number;
+  critical: boolean;
+  overdue: boolean;
+  blockedBy: string[];
+}
+
+// Planned window in whole days; end is exclusive. Tasks with no dates at all are left off the timeline
+export const taskWindow = (task: Pick<Task, 'start_date' | 'due_date' | 'duration_days'>) => {
+  const duration = Math.max(1, task.duration_days || DEFAULT_DURATION_DAYS);
+  if (task.start_date) return { start: toDay(task.start_date), end: toDay(task.start_date) + duration };
+  if (task.due_date) return { start: toDay(task.due_date) + 1 - duration, end: toDay(task.due_date) + 1 };
+  return null;
+};
+
+export const fetchDependencies = async (supabase: SupabaseClient): Promise<TaskDependency[]> => {
+  const { data, error } = await supabase.from('task_dependencies').select('*');
+  if (error) throw error;
+  return data || [];
+};
+
+const reaches = (deps: TaskDependency[], fromId: string, targetId: string) => {
+  const stack = [fromId];
+  const seen = new Set<string>();
+  while (stack.length) {
+    const current = stack.pop()!;
+    if (current === targetId) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    deps.filter(d => d.predecessor_id === current).forEach(d => stack.push(d.successor_id));
+  }
+  return false;
+};
+
+export const addDependency = async (supabase: SupabaseClient, deps: TaskDependency[], predecessorId: string, successorId: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  if (predecessorId === successorId) throw new Error("A task cannot depend on itself.");
+  if (deps.some(d => d.predecessor_id === predecessorId && d.successor_id === successorId)) {
+    throw new Error("That dependency already exists.");
+  }
+  if (reaches(deps, successorId, predecessorId)) throw new Error("That link would create a circular dependency.");
+
+  const { error } = await supabase.from('task_dependencies').insert([{
+    predecessor_id: predecessorId,
+    successor_id: successorId,
+    user_id: user.id
+  }]);
+  if (error) throw error;
+};
+
+export const removeDependency = async (supabase: SupabaseClient, dependencyId: string) => {
+  const { error } = await supabase.from('task_dependencies').delete().eq('id', dependencyId);
+  if (error) throw error;
+};
+
+export const updateTaskSchedule = async (
+  supabase: SupabaseClient,
+  taskId: string,
+  patch: Pick<Task, 'start_date' | 'duration_days' | 'due_date'>
+) => {
+  const { error } = await supabase
+    .from('tasks')
+    .update({
+      start_date: patch.start_date || null,
+      duration_days: patch.duration_days || null,
+      due_date: patch.due_date || null
+    })
+    .eq('id', taskId);
+  if (error) throw error;
+};
+
+/**
+ * Critical-path pass over the dated tasks. Early start is the later of a task's own planned start and
+ * its predecessors' early finish; the backward pass runs from the latest finish, and zero-slack tasks are critical.
+ * A task is overdue when its finish is past and it is not done; everything downstream of it is part of the overdue chain.
+ */
+export const computeSchedule = (tasks: Task[], deps: TaskDependency[], today = todayDay()): ScheduledTask[] => {
+  const dated = tasks
+    .map(task => ({ task, window: taskWindow(task) }))
+    .filter((t): t is { task: Task; window: { start: number; end: number } } => t.window !== null);
+  const ids = new Set(dated.map(d => d.task.id));
+  const links = deps.filter(d => ids.has(d.predecessor_id) && ids.has(d.successor_id));
+  const byId = new Map(dated.map(d => [d.task.id, d]));
+
+  const preds = (id: string) => links.filter(l => l.successor_id === id).map(l => l.predecessor_id);
+  const succs = (id: string) => links.filter(l => l.predecessor_id === id).map(l => l.successor_id);
+
+  // Topological order; links that form a cycle are dropped by only visiting nodes once
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string) => {
+    if (state.get(id)) return;
+    state.set(id, 'visiting');
+    preds(id).forEach(p => { if (state.get(p) !== 'visiting') visit(p); });
+    state.set(id, 'done');
+    order.push(id);
+  };
+  dated.forEach(d => visit(d.task.id));
+
+  const es: Record<string, number> = {};
+  const ef: Record<string, number> = {};
+  order.forEach(id => {
+    const { window } = byId.get(id)!;
+    const duration = window.end - window.start;
+    es[id] = Math.max(window.start, ...preds(id).map(p => ef[p] ?? -Infinity));
+    ef[id] = es[id] + duration;
+  });
+
+  const projectEnd = Math.max(...order.map(id => ef[id]));
+  const ls: Record<string, number> = {};
+  [...order].reverse().forEach(id => {
+    const duration = ef[id] - es[id];
+    const lf = Math.min(projectEnd, ...succs(id).map(s => ls[s] ?? Infinity));
+    ls[id] = lf - duration;
+  });
+
+  const late = new Set(
+    dated.filter(d => d.task.status !== 'completed' && ef[d.task.id] <= today).map(d => d.task.id)
+  );
+  const overdueChain = new Set<string>();
+  const mark = (id: string) => {
+    if (overdueChain.has(id)) return;
+    overdueChain.add(id);
+    succs(id).forEach(mark);
+  };
+  late.forEach(mark);
+
+  return order.map(id => {
+    const { task, window } = byId.get(id)!;
+    const slack = ls[id] - es[id];
+    return {
+      task,
+      start: window.start,
+      end: window.end,
+      earlyStart: es[id],
+      earlyFinish: ef[id],
+      slack,
+      critical: slack <= 0,
+      overdue: overdueChain.has(id),
+      blockedBy: preds(id).filter(p => byId.get(p)!.task.status !== 'completed')
+    };
+  }).sort((a, b) => a.earlyStart - b.earlyStart || a.task.title.localeCompare(b.task.title));
+};
+
+// Incomplete predecessors of a task, independent of whether either side is dated
+export const openPredecessors = (task: Task, tasks: Task[], deps: TaskDependency[]) =>
+  deps
+    .filter(d => d.successor_id === task.id)
+    .map(d => tasks.find(t => t.id === d.predecessor_id))
+    .filter((t): t is Task => !!t && t.status !== 'completed');
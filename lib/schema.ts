@@ -0,0 +1,692 @@
+import { ROLES, TENANT_TABLES, sqlList } from './permissions';
+import { DEFAULT_REORDER_POINT } from './replenishment';
+import { AUDIT_IGNORED_FIELDS, AUDITED_TABLES } from './audit';
+
+/**
+ * Generates the schema migration: the tables, columns, indexes and data backfills the features need. Every statement is
+ * idempotent, so the script is re-run as a whole whenever a feature adds to it. Access rules live in buildRlsPolicies,
+ * which runs after this.
+ */
+export const buildSchemaMigration = (bootstrapAdminId?: string) => {
+  const roleCheck = `check (role in (${sqlList(ROLES.map(r => r.id))}))`;
+  // The compose form's isValidAddress, as a Postgres regex
+  const addressPattern = '^[^\\s@<>,;]+@[^\\s@<>,;]+\\.[^\\s@<>,;]+$';
+
+  const tenantColumns = TENANT_TABLES
+    .map(table => `alter table public.${table} add column if not exists org_id uuid default public.active_org_id() references public.organizations(id) on delete cascade;`)
+    .join('\n');
+
+  const tenantBackfill = TENANT_TABLES
+    .map(table => `    update public.${table} set org_id = first_org where org_id is null;`)
+    .join('\n');
+
+  const auditTriggers = AUDITED_TABLES
+    .map(t => `drop trigger if exists audit_${t.table} on public.${t.table};
+create trigger audit_${t.table} after insert or update or delete on public.${t.table}
+  for each row execute function public.audit_row_change(${sqlList([t.entity, t.source, t.id || 'id', t.label])});`)
+    .join('\n');
+
+  return `-- Generated from lib/schema.ts. Run before the RLS policies; every statement is safe to repeat.
+
+-- Organizations and membership
+create table if not exists public.organizations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.org_members (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  role text not null default 'viewer' ${roleCheck},
+  department text,
+  created_at timestamptz not null default now(),
+  unique (org_id, user_id)
+);
+create table if not exists public.org_invitations (
+  id uuid primary key default gen_random_uuid(),
+  org_id uuid not null references public.organizations(id) on delete cascade,
+  email text not null,
+  role text not null default 'viewer' ${roleCheck},
+  department text,
+  invited_by uuid references public.profiles(id) on delete set null,
+  accepted_at timestamptz,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id),
+  action text not null check (action in ('create', 'update', 'delete')),
+  entity text not null,
+  entity_id text,
+  entity_label text,
+  changes jsonb not null default '{}'::jsonb,
+  source text not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+-- Changes made by the outbox worker or other service-role jobs have no operator behind them
+alter table public.audit_log alter column user_id drop not null;
+
+-- Product categories form a tree; each carries the attribute schema its items fill in
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  parent_id uuid references public.categories(id) on delete restrict,
+  attributes jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+alter table public.inventory add column if not exists category_id uuid references public.categories(id) on delete set null;
+alter table public.inventory add column if not exists attributes jsonb not null default '{}'::jsonb;
+
+-- A style is the parent of its size × color variants, each of which is an ordinary inventory row
+create table if not exists public.styles (
+  id uuid primary key default gen_random_uuid(),
+  code text not null,
+  name text not null,
+  category_id uuid references public.categories(id) on delete set null,
+  sizes text[] not null default '{}',
+  colors text[] not null default '{}',
+  base_price numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+alter table public.inventory add column if not exists style_id uuid references public.styles(id) on delete restrict;
+alter table public.inventory add column if not exists size text;
+alter table public.inventory add column if not exists color text;
+alter table public.tasks add column if not exists variant_skus text[];
+
+-- Stock ledger: every change to on-hand is a movement, optionally in or between locations (warehouse > zone > bin)
+create table if not exists public.locations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  code text not null,
+  kind text not null default 'warehouse' check (kind in ('warehouse', 'zone', 'bin')),
+  parent_id uuid references public.locations(id) on delete restrict,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references public.inventory(id) on delete cascade,
+  movement_type text not null check (movement_type in ('receipt', 'issue', 'adjustment', 'transfer')),
+  quantity numeric not null,
+  reason_code text not null,
+  note text,
+  reference text,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+alter table public.stock_movements add column if not exists location_id uuid references public.locations(id) on delete restrict;
+alter table public.stock_movements add column if not exists to_location_id uuid references public.locations(id) on delete restrict;
+alter table public.inventory add column if not exists reorder_point integer;
+alter table public.inventory add column if not exists reorder_quantity integer;
+alter table public.inventory add column if not exists lead_time_days integer;
+
+-- Bill of materials: each line is one component per unit of the parent, plus its wastage allowance
+create table if not exists public.bom_lines (
+  id uuid primary key default gen_random_uuid(),
+  parent_item_id uuid not null references public.inventory(id) on delete cascade,
+  component_item_id uuid not null references public.inventory(id) on delete restrict,
+  quantity_per numeric not null check (quantity_per > 0),
+  wastage_pct numeric not null default 0 check (wastage_pct >= 0),
+  note text,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Purchasing
+create table if not exists public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  code text not null,
+  contact_name text,
+  email text,
+  phone text,
+  address text,
+  lead_time_days integer,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+alter table public.inventory add column if not exists preferred_supplier_id uuid references public.suppliers(id) on delete set null;
+create table if not exists public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number text not null,
+  supplier_id uuid references public.suppliers(id) on delete set null,
+  status text not null default 'draft' check (status in ('draft', 'approved', 'sent', 'partially_received', 'closed')),
+  expected_date date,
+  notes text,
+  approved_by uuid references public.profiles(id) on delete set null,
+  approved_at timestamptz,
+  sent_at timestamptz,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  item_id uuid not null references public.inventory(id) on delete restrict,
+  sku text not null,
+  quantity numeric not null check (quantity > 0),
+  received_quantity numeric not null default 0,
+  unit_price numeric not null default 0
+);
+create table if not exists public.goods_receipts (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  po_line_id uuid not null references public.purchase_order_lines(id) on delete cascade,
+  item_id uuid not null references public.inventory(id) on delete restrict,
+  quantity numeric not null,
+  location_id uuid references public.locations(id) on delete set null,
+  note text,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Sales orders; each line is a style broken down by size
+create table if not exists public.customers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  code text not null,
+  contact_name text,
+  email text,
+  phone text,
+  address text,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.sales_orders (
+  id uuid primary key default gen_random_uuid(),
+  order_number text not null,
+  customer_id uuid not null references public.customers(id) on delete restrict,
+  status text not null default 'draft' check (status in ('draft', 'confirmed', 'shipped', 'cancelled')),
+  ship_date date not null,
+  shipped_at timestamptz,
+  confirmed_at timestamptz,
+  notes text,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.sales_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  sales_order_id uuid not null references public.sales_orders(id) on delete cascade,
+  item_id uuid references public.inventory(id) on delete set null,
+  sku text not null,
+  size_breakdown jsonb not null default '{}'::jsonb,
+  quantity numeric not null default 0
+);
+
+-- Production: work orders consume their BOM and record output per stage
+create table if not exists public.work_orders (
+  id uuid primary key default gen_random_uuid(),
+  wo_number text not null,
+  item_id uuid not null references public.inventory(id) on delete restrict,
+  sku text not null,
+  planned_quantity numeric not null check (planned_quantity > 0),
+  status text not null default 'planned' check (status in ('planned', 'in_progress', 'completed', 'cancelled')),
+  sales_order_line_id uuid references public.sales_order_lines(id) on delete set null,
+  issued_quantity numeric,
+  completed_quantity numeric,
+  completed_at timestamptz,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.work_order_outputs (
+  id uuid primary key default gen_random_uuid(),
+  work_order_id uuid not null references public.work_orders(id) on delete cascade,
+  stage text not null check (stage in ('cutting', 'stitching', 'washing', 'finishing')),
+  good_quantity numeric not null default 0,
+  reject_quantity numeric not null default 0,
+  rework_quantity numeric not null default 0,
+  note text,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- Pipeline: optimistic moves, scheduling, and the orders a card was raised for
+alter table public.tasks add column if not exists version integer not null default 0;
+alter table public.tasks add column if not exists start_date date;
+alter table public.tasks add column if not exists duration_days integer;
+alter table public.tasks add column if not exists sales_order_id uuid references public.sales_orders(id) on delete set null;
+alter table public.tasks add column if not exists sales_order_line_id uuid references public.sales_order_lines(id) on delete set null;
+alter table public.tasks add column if not exists work_order_id uuid references public.work_orders(id) on delete set null;
+create table if not exists public.task_dependencies (
+  id uuid primary key default gen_random_uuid(),
+  predecessor_id uuid not null references public.tasks(id) on delete cascade,
+  successor_id uuid not null references public.tasks(id) on delete cascade,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (predecessor_id, successor_id)
+);
+create table if not exists public.wip_limits (
+  department text not null,
+  wip_limit integer not null check (wip_limit > 0),
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+-- Task discussion, field history and in-app notifications
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  parent_id uuid references public.task_comments(id) on delete cascade,
+  body text not null default '',
+  mentions uuid[] not null default '{}',
+  attachments jsonb not null default '[]'::jsonb,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.task_activity (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  field text not null,
+  old_value text,
+  new_value text,
+  user_id uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  kind text not null,
+  title text not null,
+  body text,
+  link_view text,
+  entity_id uuid,
+  dedupe_key text,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  muted_kinds text[] not null default '{}',
+  updated_at timestamptz not null default now()
+);
+
+-- Single-recipient delivery state, from before email_recipients; carried into the recipient rows below
+alter table public.emails add column if not exists attempt_count integer not null default 0;
+alter table public.emails add column if not exists next_attempt_at timestamptz not null default now();
+alter table public.emails add column if not exists locked_until timestamptz;
+alter table public.emails add column if not exists last_error text;
+alter table public.emails add column if not exists sent_at timestamptz;
+alter table public.emails add column if not exists provider_message_id text;
+-- Replies point at the message they answer and at the conversation's first message
+alter table public.emails add column if not exists thread_id uuid references public.emails(id) on delete set null;
+alter table public.emails add column if not exists in_reply_to uuid references public.emails(id) on delete set null;
+
+-- One row per addressee. The outbox worker (worker/emailOutbox.ts) delivers row by row, so each has its own status, retries and read receipt
+create table if not exists public.email_recipients (
+  id uuid primary key default gen_random_uuid(),
+  email_id uuid not null references public.emails(id) on delete cascade,
+  kind text not null default 'to' check (kind in ('to', 'cc', 'bcc')),
+  address text not null,
+  profile_id uuid references public.profiles(id) on delete set null,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+  attempt_count integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  locked_until timestamptz,
+  last_error text,
+  sent_at timestamptz,
+  provider_message_id text,
+  read_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (email_id, address)
+);
+create table if not exists public.email_groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  addresses text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+-- Each operator files messages for themselves: starred, archived, in the trash, labelled. Nobody else sees these rows
+create table if not exists public.email_states (
+  id uuid primary key default gen_random_uuid(),
+  email_id uuid not null references public.emails(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  starred boolean not null default false,
+  archived_at timestamptz,
+  trashed_at timestamptz,
+  label_ids uuid[] not null default '{}',
+  updated_at timestamptz not null default now(),
+  unique (email_id, user_id)
+);
+create table if not exists public.email_labels (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null,
+  color text not null default 'blue',
+  created_at timestamptz not null default now()
+);
+-- The business records a message is about; entity_label keeps the record's name as it read when the link was made
+create table if not exists public.email_links (
+  id uuid primary key default gen_random_uuid(),
+  email_id uuid not null references public.emails(id) on delete cascade,
+  entity_type text not null check (entity_type in ('task', 'inventory', 'purchase_order', 'sales_order')),
+  entity_id uuid not null,
+  entity_label text,
+  created_by uuid references public.profiles(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  unique (email_id, entity_type, entity_id)
+);
+alter table public.profiles add column if not exists active_org_id uuid references public.organizations(id) on delete set null;
+
+-- The active org only counts while the operator is still a member of it
+create or replace function public.active_org_id() returns uuid
+language sql stable security definer set search_path = public as $$
+  select p.active_org_id from public.profiles p
+  where p.id = auth.uid()
+    and exists (select 1 from public.org_members m where m.org_id = p.active_org_id and m.user_id = p.id);
+$$;
+
+${tenantColumns}
+
+-- Existing single-tenant data moves into a first organization
+do $$
+declare
+  first_org uuid;
+begin
+  if not exists (select 1 from public.organizations) then
+    insert into public.organizations (name, created_by) values ('Default Organization', ${bootstrapAdminId ? `'${bootstrapAdminId}'` : 'null'})
+      returning id into first_org;
+    insert into public.org_members (org_id, user_id, role)
+      select first_org, id, ${bootstrapAdminId ? `case when id = '${bootstrapAdminId}' then 'admin' else 'viewer' end` : `'viewer'`} from public.profiles;
+    update public.profiles set active_org_id = first_org;
+${tenantBackfill}
+  end if;
+end $$;
+${bootstrapAdminId ? `
+-- Promote the operator who generated this script when their active organization has no admin yet
+update public.org_members m set role = 'admin'
+  from public.profiles p
+  where p.id = '${bootstrapAdminId}' and m.user_id = p.id and m.org_id = p.active_org_id
+    and not exists (select 1 from public.org_members a where a.org_id = m.org_id and a.role = 'admin');
+` : ''}
+-- WIP limits are configured per organization
+alter table public.wip_limits drop constraint if exists wip_limits_pkey;
+alter table public.wip_limits add constraint wip_limits_pkey primary key (org_id, department);
+
+-- Recipient addresses go into mail headers, so the database refuses anything the compose form would; rows from before
+-- the check are left for the worker to fail
+alter table public.email_recipients drop constraint if exists email_recipients_address_check;
+alter table public.email_recipients add constraint email_recipients_address_check check (address ~ '${addressPattern}') not valid;
+
+-- Asset ledger search and stock status, computed in the database so paging and filtering stay server-side
+alter table public.inventory add column if not exists search_vector tsvector
+  generated always as (to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(sku, ''))) stored;
+alter table public.inventory add column if not exists low_stock boolean
+  generated always as (quantity <= coalesce(reorder_point, ${DEFAULT_REORDER_POINT})) stored;
+create index if not exists inventory_search_idx on public.inventory using gin (search_vector);
+create index if not exists inventory_category_idx on public.inventory (org_id, category);
+create index if not exists inventory_created_at_idx on public.inventory (org_id, created_at desc);
+create index if not exists inventory_category_id_idx on public.inventory (org_id, category_id);
+create index if not exists inventory_attributes_idx on public.inventory using gin (attributes);
+create unique index if not exists styles_code_idx on public.styles (org_id, code);
+create unique index if not exists inventory_variant_idx on public.inventory (style_id, color, size) where style_id is not null;
+drop index if exists public.emails_outbox_idx;
+create index if not exists emails_thread_idx on public.emails (thread_id);
+create index if not exists email_recipients_outbox_idx on public.email_recipients (next_attempt_at) where status = 'pending';
+create index if not exists email_recipients_email_idx on public.email_recipients (email_id);
+create index if not exists email_recipients_profile_idx on public.email_recipients (profile_id);
+create unique index if not exists email_groups_name_idx on public.email_groups (org_id, name);
+create index if not exists email_states_user_idx on public.email_states (user_id);
+create unique index if not exists email_labels_name_idx on public.email_labels (user_id, org_id, name);
+create index if not exists email_links_entity_idx on public.email_links (entity_type, entity_id);
+create index if not exists stock_movements_item_idx on public.stock_movements (item_id);
+-- notifyUsers upserts on (user_id, dedupe_key); rows without a key never collide, since nulls are distinct
+create unique index if not exists notifications_dedupe_idx on public.notifications (user_id, dedupe_key);
+
+-- On-hand per item and location, summed in the database. A transfer debits its source and credits its destination;
+-- security_invoker keeps the ledger's own row-level security in force
+create or replace view public.stock_levels with (security_invoker = true) as
+  select item_id, location_id, sum(quantity) as quantity
+  from (
+    select item_id, location_id, case when movement_type = 'transfer' then -quantity else quantity end as quantity
+      from public.stock_movements
+    union all
+    select item_id, to_location_id, quantity from public.stock_movements where movement_type = 'transfer'
+  ) legs
+  group by item_id, location_id;
+
+-- Items from before the ledger carry a bare quantity; it becomes their opening balance, once
+insert into public.stock_movements (item_id, org_id, movement_type, quantity, reason_code, note)
+  select i.id, i.org_id, 'adjustment', i.quantity, 'opening_balance', 'Seeded from pre-ledger quantity'
+  from public.inventory i
+  where coalesce(i.quantity, 0) <> 0 and not exists (select 1 from public.stock_movements m where m.item_id = i.id);
+
+-- The cached on-hand figure on inventory follows the ledger. It is recomputed with the item row locked, so concurrent
+-- posts on one item queue behind each other and none of them writes a total that misses the other's movement
+create or replace function public.sync_item_quantity() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  item uuid := coalesce(new.item_id, old.item_id);
+begin
+  perform 1 from public.inventory where id = item for update;
+  update public.inventory set quantity = (
+      select coalesce(sum(m.quantity), 0) from public.stock_movements m where m.item_id = item and m.movement_type <> 'transfer'
+    )
+    where id = item;
+  return null;
+end;
+$$;
+drop trigger if exists stock_movements_sync_quantity on public.stock_movements;
+create trigger stock_movements_sync_quantity after insert or delete on public.stock_movements
+  for each row execute function public.sync_item_quantity();
+
+-- An item created with a quantity opens its ledger with it, in the same transaction as the insert
+create or replace function public.open_item_ledger() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if coalesce(new.quantity, 0) <> 0 then
+    insert into public.stock_movements (item_id, org_id, movement_type, quantity, reason_code, note, user_id)
+      values (new.id, new.org_id, 'adjustment', new.quantity, 'opening_balance', 'Opening balance', auth.uid());
+  end if;
+  return null;
+end;
+$$;
+drop trigger if exists inventory_open_ledger on public.inventory;
+create trigger inventory_open_ledger after insert on public.inventory
+  for each row execute function public.open_item_ledger();
+
+-- Brings an item to a counted quantity. The adjustment is worked out against on-hand as it stands once the item row is
+-- locked, not against the figure the counting screen loaded
+create or replace function public.post_stock_count(item uuid, counted numeric, reason text, count_note text default null)
+returns numeric
+language plpgsql security definer set search_path = public as $$
+declare
+  on_hand numeric;
+begin
+  if not public.has_permission('stock.post') then
+    raise exception 'Posting stock counts requires the stock.post permission';
+  end if;
+  select i.quantity into on_hand from public.inventory i where i.id = item and i.org_id = public.active_org_id() for update;
+  if not found then
+    raise exception 'Item not found';
+  end if;
+  if counted <> on_hand then
+    insert into public.stock_movements (item_id, org_id, movement_type, quantity, reason_code, note, user_id)
+      values (item, public.active_org_id(), 'adjustment', counted - on_hand, reason,
+        coalesce(count_note, format('Count revised from %s to %s', on_hand, counted)), auth.uid());
+  end if;
+  return counted - on_hand;
+end;
+$$;
+
+-- Ledger rows with stock inside a set of locations (a location and everything nested in it), so the location filter
+-- pages and counts server-side like every other filter
+create or replace function public.inventory_in_locations(location_ids uuid[]) returns setof public.inventory
+language sql stable set search_path = public as $$
+  select i.* from public.inventory i
+  where i.id in (
+    select l.item_id from public.stock_levels l
+    where l.location_id = any(location_ids)
+    group by l.item_id having sum(l.quantity) <> 0
+  );
+$$;
+
+-- Dashboard figures for the whole catalogue, or for what is held inside a set of locations
+create or replace function public.inventory_rollup(location_ids uuid[] default null)
+returns table (item_count bigint, total_value numeric, low_stock_count bigint, top_category text)
+language sql stable set search_path = public as $$
+  with scoped as (
+    select i.category, i.price, i.reorder_point,
+      case when location_ids is null then i.quantity else (
+        select coalesce(sum(l.quantity), 0) from public.stock_levels l where l.item_id = i.id and l.location_id = any(location_ids)
+      ) end as quantity
+    from public.inventory i
+    where location_ids is null
+      or exists (select 1 from public.stock_levels l where l.item_id = i.id and l.location_id = any(location_ids))
+  )
+  select count(*), coalesce(sum(price * quantity), 0),
+    count(*) filter (where quantity <= coalesce(reorder_point, ${DEFAULT_REORDER_POINT})),
+    (select category from scoped group by category order by sum(quantity) desc limit 1)
+  from scoped;
+$$;
+
+-- Receives one PO line in a single transaction. The increment is conditional on the row as it stands, so two receipts
+-- racing on one line cannot take it past its ordered quantity. Receiving staff have no write access to orders or their
+-- lines, so the function runs with its owner's rights and checks purchasing.receive itself
+create or replace function public.receive_po_line(line_id uuid, received numeric, to_location uuid, receipt_note text)
+returns numeric
+language plpgsql security definer set search_path = public as $$
+declare
+  po_line public.purchase_order_lines;
+  po public.purchase_orders;
+begin
+  if not public.has_permission('purchasing.receive') then
+    raise exception 'Receiving goods requires the purchasing.receive permission';
+  end if;
+  update public.purchase_order_lines l set received_quantity = coalesce(l.received_quantity, 0) + received
+    where l.id = line_id and l.org_id = public.active_org_id()
+      and received > 0 and coalesce(l.received_quantity, 0) + received <= l.quantity
+      and exists (select 1 from public.purchase_orders o where o.id = l.purchase_order_id and o.status in ('sent', 'partially_received'))
+    returning * into po_line;
+  if po_line.id is null then
+    raise exception 'The receipt exceeds the quantity outstanding, or the order is no longer open for receiving';
+  end if;
+
+  select * into po from public.purchase_orders where id = po_line.purchase_order_id;
+  insert into public.stock_movements (item_id, movement_type, quantity, reason_code, note, reference, location_id, user_id)
+    values (po_line.item_id, 'receipt', received, 'purchase', receipt_note, po.po_number, to_location, auth.uid());
+  insert into public.goods_receipts (purchase_order_id, po_line_id, item_id, quantity, location_id, note, user_id)
+    values (po.id, po_line.id, po_line.item_id, received, to_location, receipt_note, auth.uid());
+  update public.purchase_orders set status = case
+      when exists (select 1 from public.purchase_order_lines where purchase_order_id = po.id and coalesce(received_quantity, 0) < quantity)
+      then 'partially_received' else 'closed' end
+    where id = po.id;
+  return po_line.received_quantity;
+end;
+$$;
+
+-- Completes a work order in one transaction: BOM components are issued for every piece that went through cutting
+-- (rejects included, since their material is spent, or the planned quantity when no cutting was recorded), the
+-- finishing output is received as the finished item, and the order and its cards close. The order row is locked and
+-- its status checked first, so completing it twice cannot issue its components twice
+create or replace function public.complete_work_order(work_order uuid, issue_location uuid, receive_location uuid)
+returns numeric
+language plpgsql security definer set search_path = public as $$
+declare
+  wo public.work_orders;
+  started numeric;
+  finished numeric;
+begin
+  if not public.has_permission('production.write') then
+    raise exception 'Completing work orders requires the production.write permission';
+  end if;
+  select * into wo from public.work_orders where id = work_order and org_id = public.active_org_id() for update;
+  if wo.id is null or wo.status not in ('planned', 'in_progress') then
+    raise exception 'The work order is no longer open';
+  end if;
+
+  select coalesce(sum(good_quantity) filter (where stage = 'finishing'), 0),
+      coalesce(sum(good_quantity + reject_quantity) filter (where stage = 'cutting'), 0)
+    into finished, started
+    from public.work_order_outputs where work_order_id = wo.id;
+  if finished <= 0 then
+    raise exception 'Record finishing output before completing the work order';
+  end if;
+  if started <= 0 then
+    started := wo.planned_quantity;
+  end if;
+
+  update public.work_orders set status = 'completed', issued_quantity = started, completed_quantity = finished, completed_at = now()
+    where id = wo.id;
+  insert into public.stock_movements (item_id, org_id, movement_type, quantity, reason_code, reference, location_id, user_id)
+    select b.component_item_id, wo.org_id, 'issue', -ceil(started * b.quantity_per * (1 + coalesce(b.wastage_pct, 0) / 100)),
+      'production_issue', wo.wo_number, issue_location, auth.uid()
+    from public.bom_lines b where b.parent_item_id = wo.item_id and b.org_id = wo.org_id;
+  insert into public.stock_movements (item_id, org_id, movement_type, quantity, reason_code, reference, location_id, user_id)
+    values (wo.item_id, wo.org_id, 'receipt', finished, 'production_output', wo.wo_number, receive_location, auth.uid());
+  update public.tasks set status = 'completed' where work_order_id = wo.id;
+  return finished;
+end;
+$$;
+
+-- Free-text categories become managed top-level ones, one per name and organization
+insert into public.categories (org_id, name)
+  select distinct i.org_id, i.category from public.inventory i
+  where i.category_id is null and i.org_id is not null and coalesce(i.category, '') <> ''
+    and not exists (select 1 from public.categories c where c.org_id = i.org_id and c.parent_id is null and c.name = i.category);
+update public.inventory i set category_id = c.id
+  from public.categories c
+  where i.category_id is null and c.org_id = i.org_id and c.parent_id is null and c.name = i.category;
+
+-- Messages from before recipient lists get their single addressee as a To row, carrying its delivery state
+insert into public.email_recipients
+    (email_id, org_id, kind, address, profile_id, status, attempt_count, next_attempt_at, last_error, sent_at, provider_message_id)
+  select e.id, e.org_id, 'to', lower(e.recipient_email),
+    (select p.id from public.profiles p where lower(p.email) = lower(e.recipient_email) limit 1),
+    e.status, e.attempt_count, e.next_attempt_at, e.last_error, e.sent_at, e.provider_message_id
+  from public.emails e
+  where not exists (select 1 from public.email_recipients r where r.email_id = e.id)
+    and lower(e.recipient_email) ~ '${addressPattern}';
+
+-- The audit trail is written by the database, so a change is recorded in the same transaction whether it came from a
+-- screen, an RPC or the outbox worker. Each trigger passes the entity, the view it belongs to, the column that
+-- identifies the record and a SQL expression over the row ($1, as jsonb) that names it. Updates that change nothing
+-- but bookkeeping columns are not recorded
+create or replace function public.audit_row_change() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  before_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  after_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  subject jsonb := coalesce(after_row, before_row);
+  changes jsonb;
+  label text;
+begin
+  -- Rows removed along with their organization leave no trail; the organization's log goes with it
+  if tg_op = 'DELETE' and subject ? 'org_id'
+    and not exists (select 1 from public.organizations where id = (subject ->> 'org_id')::uuid) then
+    return null;
+  end if;
+
+  select coalesce(jsonb_object_agg(d.key, jsonb_build_object('before', d.before_value, 'after', d.after_value)), '{}'::jsonb)
+    into changes
+  from (
+    select k.key,
+      nullif(nullif(before_row -> k.key, 'null'::jsonb), '""'::jsonb) as before_value,
+      nullif(nullif(after_row -> k.key, 'null'::jsonb), '""'::jsonb) as after_value
+    from jsonb_object_keys(coalesce(before_row, '{}'::jsonb) || coalesce(after_row, '{}'::jsonb)) as k(key)
+    where k.key <> all (array[${sqlList(AUDIT_IGNORED_FIELDS)}])
+  ) d
+  where d.before_value is distinct from d.after_value;
+  if tg_op = 'UPDATE' and changes = '{}'::jsonb then
+    return null;
+  end if;
+
+  execute 'select (' || tg_argv[3] || ')::text' into label using subject;
+  insert into public.audit_log (org_id, user_id, action, entity, entity_id, entity_label, changes, source)
+  values (
+    coalesce((subject ->> 'org_id')::uuid, public.active_org_id()),
+    auth.uid(),
+    case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'update' else 'delete' end,
+    tg_argv[0],
+    subject ->> tg_argv[2],
+    label,
+    changes,
+    tg_argv[1]
+  );
+  return null;
+end;
+$$;
+${auditTriggers}
+`;
+};
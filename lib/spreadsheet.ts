@@ -0,0 +1,158 @@
+// One row of cell text with its 1-based row number in the source file, which blank rows being skipped does not change
+export interface SheetRow {
+  line: number;
+  cells: string[];
+}
+
+// Non-blank rows, first row being the header; both readers return the same shape
+export type SheetRows = SheetRow[];
+
+const dropBlankRows = (rows: SheetRows) => rows.filter(r => r.cells.some(c => c.trim()));
+
+// Excel in comma-decimal locales saves CSV with semicolons, so the separator is taken from the header line
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return (header.match(/;/g) || []).length > (header.match(/,/g) || []).length ? ';' : ',';
+};
+
+export const parseCsv = (text: string): SheetRows => {
+  const source = text.replace(/^\ufeff/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ line: rows.length + 1, cells: row });
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push({ line: rows.length + 1, cells: row });
+  }
+  return dropBlankRows(rows);
+};
+
+type ZipEntry = { method: number; offset: number; size: number };
+
+// Reads the zip central directory; an .xlsx is a zip of XML parts
+const readZipEntries = (view: DataView) => {
+  let eocd = view.byteLength - 22;
+  while (eocd >= 0 && view.getUint32(eocd, true) !== 0x06054b50) eocd--;
+  if (eocd < 0) throw new Error("The file is not a valid XLSX workbook.");
+
+  const entries: Record<string, ZipEntry> = {};
+  const count = view.getUint16(eocd + 10, true);
+  let pointer = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    const nameLength = view.getUint16(pointer + 28, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, pointer + 46, nameLength));
+    entries[name] = {
+      method: view.getUint16(pointer + 10, true),
+      size: view.getUint32(pointer + 20, true),
+      offset: view.getUint32(pointer + 42, true)
+    };
+    pointer += 46 + nameLength + view.getUint16(pointer + 30, true) + view.getUint16(pointer + 32, true);
+  }
+  return entries;
+};
+
+const readZipText = async (view: DataView, entry?: ZipEntry) => {
+  if (!entry) return null;
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = new Uint8Array(view.buffer, start, entry.size);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error("The workbook uses an unsupported compression method.");
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// "AB12" -> 27
+const columnIndex = (ref: string) =>
+  ref.replace(/\d+$/, '').split('').reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+
+/**
+ * Reads the first worksheet of an .xlsx workbook as text cells. Only what an item list needs is supported:
+ * shared, inline and plain values. Formulas come through as their cached result.
+ */
+export const readXlsx = async (buffer: ArrayBuffer): Promise<SheetRows> => {
+  const view = new DataView(buffer);
+  const entries = readZipEntries(view);
+
+  const sharedXml = await readZipText(view, entries['xl/sharedStrings.xml']);
+  const shared = sharedXml
+    ? Array.from(parseXml(sharedXml).getElementsByTagName('si')).map(si =>
+        Array.from(si.getElementsByTagName('t')).map(t => t.textContent || '').join(''))
+    : [];
+
+  // The first sheet in workbook order, resolved through its relationship rather than assuming sheet1.xml
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbookXml = await readZipText(view, entries['xl/workbook.xml']);
+  const relsXml = await readZipText(view, entries['xl/_rels/workbook.xml.rels']);
+  if (workbookXml && relsXml) {
+    const firstSheet = parseXml(workbookXml).getElementsByTagName('sheet')[0];
+    const relId = firstSheet?.getAttribute('r:id');
+    const target = Array.from(parseXml(relsXml).getElementsByTagName('Relationship'))
+      .find(r => r.getAttribute('Id') === relId)?.getAttribute('Target');
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheetXml = await readZipText(view, entries[sheetPath]);
+  if (!sheetXml) throw new Error("The workbook has no readable worksheet.");
+
+  const rows: SheetRows = [];
+  Array.from(parseXml(sheetXml).getElementsByTagName('row')).forEach(rowNode => {
+    const row: string[] = [];
+    Array.from(rowNode.getElementsByTagName('c')).forEach((cellNode, position) => {
+      const ref = cellNode.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cellNode.getAttribute('t');
+      const raw = cellNode.getElementsByTagName('v')[0]?.textContent || '';
+      let value = raw;
+      if (type === 's') value = shared[Number(raw)] || '';
+      else if (type === 'inlineStr') value = Array.from(cellNode.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      while (row.length < index) row.push('');
+      row[index] = value;
+    });
+    // Empty rows are left out of the sheet XML altogether, so the row's own reference is the only reliable number
+    rows.push({ line: Number(rowNode.getAttribute('r')) || rows.length + 1, cells: row });
+  });
+  return dropBlankRows(rows);
+};
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const readSpreadsheet = async (file: File): Promise<SheetRows> => {
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(await file.arrayBuffer());
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') return parseCsv(await file.text());
+  throw new Error("Upload a .csv or .xlsx file.");
+};
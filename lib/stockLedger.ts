@@ -0,0 +1,240 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { StockMovement, StockMovementType } from '../types';
+import { UNASSIGNED_LOCATION } from './locations';
+import { crossedReorderPoint, notifyAll } from './notifications';
+
+export const MOVEMENT_TYPES: { id: StockMovementType; label: string }[] = [
+  { id: 'receipt', label: 'Receipt' },
+  { id: 'issue', label: 'Issue' },
+  { id: 'adjustment', label: 'Adjustment' },
+  { id: 'transfer', label: 'Transfer' }
+];
+
+export const REASON_CODES: Record<StockMovementType, { id: string; label: string }[]> = {
+  receipt: [
+    { id: 'purchase', label: 'Purchase Receipt' },
+    { id: 'production_output', label: 'Production Output' },
+    { id: 'customer_return', label: 'Customer Return' },
+    { id: 'opening_balance', label: 'Opening Balance' }
+  ],
+  issue: [
+    { id: 'production_issue', label: 'Issued to Production' },
+    { id: 'sale', label: 'Sales Dispatch' },
+    { id: 'sample', label: 'Sampling' },
+    { id: 'scrap', label: 'Scrap / Write-off' }
+  ],
+  adjustment: [
+    { id: 'cycle_count', label: 'Cycle Count' },
+    { id: 'damage', label: 'Damage' },
+    { id: 'data_correction', label: 'Data Correction' },
+    { id: 'opening_balance', label: 'Opening Balance' }
+  ],
+  transfer: [
+    { id: 'relocation', label: 'Relocation' },
+    { id: 'replenishment', label: 'Floor Replenishment' }
+  ]
+};
+
+export const getReasonLabel = (type: StockMovementType, reasonCode: string) =>
+  REASON_CODES[type]?.find(r => r.id === reasonCode)?.label || reasonCode;
+
+// Transfers move stock around without changing the on-hand total
+export const movementDelta = (movement: Pick<StockMovement, 'movement_type' | 'quantity'>) =>
+  movement.movement_type === 'transfer' ? 0 : movement.quantity;
+
+export const deriveQuantity = (movements: Pick<StockMovement, 'movement_type' | 'quantity'>[]) =>
+  movements.reduce((acc, m) => acc + movementDelta(m), 0);
+
+type LevelMovement = Pick<StockMovement, 'movement_type' | 'quantity' | 'location_id' | 'to_location_id'>;
+
+// Per-location on-hand: a transfer debits its source and credits its destination
+export const deriveLocationLevels = (movements: LevelMovement[]): Record<string, number> => {
+  const levels: Record<string, number> = {};
+  const credit = (locationId: string | null | undefined, qty: number) => {
+    const key = locationId || UNASSIGNED_LOCATION;
+    levels[key] = (levels[key] || 0) + qty;
+  };
+  movements.forEach(m => {
+    if (m.movement_type === 'transfer') {
+      credit(m.location_id, -m.quantity);
+      credit(m.to_location_id, m.quantity);
+    } else {
+      credit(m.location_id, m.quantity);
+    }
+  });
+  return levels;
+};
+
+// Receipts are always inbound and issues always outbound; adjustments keep the sign the operator entered
+export const normalizeQuantity = (type: StockMovementType, quantity: number) => {
+  if (type === 'receipt' || type === 'transfer') return Math.abs(quantity);
+  if (type === 'issue') return -Math.abs(quantity);
+  return quantity;
+};
+
+export interface PostMovementInput {
+  item_id: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  reason_code: string;
+  note?: string;
+  reference?: string;
+  location_id?: string | null;
+  to_location_id?: string | null;
+}
+
+export const fetchMovements = async (supabase: SupabaseClient, itemId: string): Promise<StockMovement[]> => {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select(`
+      *,
+      actor:profiles!user_id(full_name, avatar_url, email)
+    `)
+    .eq('item_id', itemId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const LEVEL_PAGE_SIZE = 1000;
+// Item ids per request, so the filter stays within URL limits
+const LEVEL_ID_CHUNK = 200;
+
+const fetchLevelRows = async (supabase: SupabaseClient, itemIds: string[] | null, levels: Record<string, Record<string, number>>) => {
+  for (let from = 0; ; from += LEVEL_PAGE_SIZE) {
+    let builder = supabase.from('stock_levels').select('item_id, location_id, quantity');
+    if (itemIds) builder = builder.in('item_id', itemIds);
+    const { data, error } = await builder
+      .order('item_id')
+      .order('location_id')
+      .range(from, from + LEVEL_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    (data || []).forEach(row => {
+      const item = (levels[row.item_id] = levels[row.item_id] || {});
+      item[row.location_id || UNASSIGNED_LOCATION] = Number(row.quantity);
+    });
+    if (!data || data.length < LEVEL_PAGE_SIZE) return;
+  }
+};
+
+// On-hand per item and location from the stock_levels view, optionally for the given items only
+export const fetchStockLevels = async (
+  supabase: SupabaseClient,
+  itemIds?: string[]
+): Promise<Record<string, Record<string, number>>> => {
+  const levels: Record<string, Record<string, number>> = {};
+  if (!itemIds) {
+    await fetchLevelRows(supabase, null, levels);
+    return levels;
+  }
+  for (let i = 0; i < itemIds.length; i += LEVEL_ID_CHUNK) {
+    await fetchLevelRows(supabase, itemIds.slice(i, i + LEVEL_ID_CHUNK), levels);
+  }
+  return levels;
+};
+
+type AlertItem = { name: string; sku: string; reorder_point?: number | null };
+
+const fetchAlertItem = async (supabase: SupabaseClient, itemId: string): Promise<AlertItem | null> => {
+  const { data, error } = await supabase
+    .from('inventory')
+    .select('name, sku, reorder_point')
+    .eq('id', itemId)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+// On-hand as the database left it; a trigger keeps the cached figure in step with the ledger (see lib/schema.ts)
+const fetchOnHand = async (supabase: SupabaseClient, itemId: string): Promise<number> => {
+  const { data, error } = await supabase.from('inventory').select('quantity').eq('id', itemId).maybeSingle();
+  if (error) throw error;
+  return Number(data?.quantity) || 0;
+};
+
+// Alerts the organization when a movement takes an item from above its reorder point to at or below it
+const alertIfLow = async (supabase: SupabaseClient, itemId: string, item: AlertItem | null, before: number, onHand: number) => {
+  if (!item || !crossedReorderPoint(before, onHand, item.reorder_point)) return;
+  await notifyAll(supabase, {
+    kind: 'low_stock',
+    title: `${item.name} is low`,
+    body: `${item.sku}: ${onHand} on hand, reorder point ${item.reorder_point}`,
+    link_view: 'replenishment',
+    entity_id: itemId
+  });
+};
+
+/**
+ * For postings made inside the database (RPCs), which cannot raise the app's notifications: re-reads the given items
+ * and alerts on each that the posting took from above its reorder point to at or below it.
+ */
+export const alertCrossedReorderPoints = async (
+  supabase: SupabaseClient,
+  before: (AlertItem & { id: string; quantity: number })[]
+) => {
+  if (before.length === 0) return;
+  const { data, error } = await supabase.from('inventory').select('id, quantity').in('id', before.map(i => i.id));
+  if (error) throw error;
+  for (const item of before) {
+    const onHand = Number((data || []).find(d => d.id === item.id)?.quantity) || 0;
+    await alertIfLow(supabase, item.id, item, Number(item.quantity) || 0, onHand);
+  }
+};
+
+export const postStockMovement = async (supabase: SupabaseClient, input: PostMovementInput): Promise<number> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const quantity = normalizeQuantity(input.movement_type, Number(input.quantity));
+  if (!quantity) throw new Error("Movement quantity must be non-zero.");
+  if (input.movement_type === 'transfer') {
+    if (!input.to_location_id) throw new Error("Transfers require a destination location.");
+    if ((input.location_id || null) === input.to_location_id) throw new Error("Source and destination must differ.");
+  }
+
+  const item = await fetchAlertItem(supabase, input.item_id);
+  const movement = {
+    item_id: input.item_id,
+    movement_type: input.movement_type,
+    quantity,
+    reason_code: input.reason_code,
+    note: input.note || null,
+    reference: input.reference || null,
+    location_id: input.location_id || null,
+    to_location_id: input.movement_type === 'transfer' ? input.to_location_id : null
+  };
+  const { error } = await supabase.from('stock_movements').insert([{ ...movement, user_id: user.id }]);
+  if (error) throw error;
+
+  const onHand = await fetchOnHand(supabase, input.item_id);
+  await alertIfLow(supabase, input.item_id, item, onHand - movementDelta(movement), onHand);
+  return onHand;
+};
+
+export interface PostCountInput {
+  item_id: string;
+  counted: number;
+  reason_code: string;
+  note?: string;
+}
+
+/**
+ * Brings an item to a counted quantity. The post_stock_count RPC works out the adjustment against on-hand as it stands
+ * in the database, so a count entered against a stale screen still lands on the counted figure. Returns on-hand.
+ */
+export const postStockCount = async (supabase: SupabaseClient, input: PostCountInput): Promise<number> => {
+  const item = await fetchAlertItem(supabase, input.item_id);
+  const { data: delta, error } = await supabase.rpc('post_stock_count', {
+    item: input.item_id,
+    counted: input.counted,
+    reason: input.reason_code,
+    count_note: input.note || null
+  });
+  if (error) throw error;
+
+  const adjustment = Number(delta) || 0;
+  await alertIfLow(supabase, input.item_id, item, input.counted - adjustment, input.counted);
+  return input.counted;
+};
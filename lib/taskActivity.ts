@@ -0,0 +1,69 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Task, TaskActivity, TaskActivityField } from '../types';
+import { notifyUsers } from './notifications';
+
+export const TRACKED_FIELDS: { id: TaskActivityField; label: string }[] = [
+  { id: 'department', label: 'Department' },
+  { id: 'status', label: 'Status' },
+  { id: 'assigned_to', label: 'Assignee' },
+  { id: 'priority', label: 'Priority' }
+];
+
+export const getFieldLabel = (field: TaskActivityField) =>
+  TRACKED_FIELDS.find(f => f.id === field)?.label || field;
+
+export const fetchTaskActivity = async (supabase: SupabaseClient, taskId: string): Promise<TaskActivity[]> => {
+  const { data, error } = await supabase
+    .from('task_activity')
+    .select(`
+      *,
+      actor:profiles!user_id(full_name)
+    `)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Records one activity row per tracked field that differs between the task and the patch being applied.
+ * Called alongside every task update so the history never depends on the caller remembering which fields changed.
+ */
+export const logTaskChanges = async (supabase: SupabaseClient, task: Task, patch: Partial<Task>) => {
+  const changes = TRACKED_FIELDS
+    .filter(f => f.id in patch && (patch[f.id] || null) !== (task[f.id] || null))
+    .map(f => ({ field: f.id, old_value: task[f.id] || null, new_value: patch[f.id] || null }));
+  if (changes.length === 0) return;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await supabase.from('task_activity').insert(
+    changes.map(c => ({ ...c, task_id: task.id, user_id: user.id }))
+  );
+  if (error) console.error('Activity log error:', error.message);
+};
+
+// Applies a field edit from the detail panel and logs it
+export const updateTaskFields = async (supabase: SupabaseClient, task: Task, patch: Pick<Partial<Task>, 'assigned_to' | 'priority'>) => {
+  const payload: Record<string, unknown> = { ...patch };
+  if ('assigned_to' in patch) payload.assigned_to = patch.assigned_to || null;
+
+  const { error } = await supabase.from('tasks').update(payload).eq('id', task.id);
+  if (error) throw error;
+  await logTaskChanges(supabase, task, patch);
+
+  if (patch.assigned_to && patch.assigned_to !== task.assigned_to) {
+    await notifyTaskAssigned(supabase, { ...task, assigned_to: patch.assigned_to });
+  }
+};
+
+export const notifyTaskAssigned = (supabase: SupabaseClient, task: Pick<Task, 'id' | 'title' | 'department' | 'assigned_to'>) =>
+  notifyUsers(supabase, task.assigned_to ? [task.assigned_to] : [], {
+    kind: 'task_assigned',
+    title: task.title,
+    body: `Assigned to you in ${task.department}`,
+    link_view: 'tasks',
+    entity_id: task.id
+  });
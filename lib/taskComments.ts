@@ -0,0 +1,108 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Profile, TaskAttachment, TaskComment } from '../types';
+import { notifyUsers } from './notifications';
+
+export const TASK_ATTACHMENT_BUCKET = 'task_attachments';
+
+// The token a user types after "@": their username, falling back to the local part of their email
+export const mentionHandle = (profile: Pick<Profile, 'username' | 'email' | 'full_name'>) =>
+  (profile.username || profile.email?.split('@')[0] || profile.full_name?.replace(/\s+/g, '') || '').toLowerCase();
+
+export const parseMentions = (body: string, profiles: Profile[]) => {
+  const tokens = new Set((body.match(/@([\w.-]+)/g) || []).map(t => t.slice(1).toLowerCase()));
+  return profiles.filter(p => tokens.has(mentionHandle(p))).map(p => p.id);
+};
+
+// Splits a comment body so @handles can be rendered as highlighted spans
+export const splitMentions = (body: string) => body.split(/(@[\w.-]+)/g);
+
+export const fetchTaskComments = async (supabase: SupabaseClient, taskId: string): Promise<TaskComment[]> => {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select(`
+      *,
+      author:profiles!user_id(full_name, avatar_url)
+    `)
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchCommentCounts = async (supabase: SupabaseClient): Promise<Record<string, number>> => {
+  const { data, error } = await supabase.from('task_comments').select('task_id');
+  if (error) throw error;
+
+  const counts: Record<string, number> = {};
+  (data || []).forEach(c => { counts[c.task_id] = (counts[c.task_id] || 0) + 1; });
+  return counts;
+};
+
+export const uploadTaskAttachments = async (supabase: SupabaseClient, taskId: string, files: File[]) => {
+  const uploaded: TaskAttachment[] = [];
+  for (const file of files) {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+    const filePath = `${taskId}/${fileName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(TASK_ATTACHMENT_BUCKET)
+      .upload(filePath, file);
+
+    if (uploadError) throw uploadError;
+
+    const { data: { publicUrl } } = supabase.storage
+      .from(TASK_ATTACHMENT_BUCKET)
+      .getPublicUrl(filePath);
+
+    uploaded.push({
+      name: file.name,
+      url: publicUrl,
+      type: file.type,
+      size: file.size
+    });
+  }
+  return uploaded;
+};
+
+export interface CommentInput {
+  task_id: string;
+  parent_id?: string | null;
+  body: string;
+  files: File[];
+}
+
+export const postTaskComment = async (supabase: SupabaseClient, input: CommentInput, profiles: Profile[]) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const body = input.body.trim();
+  if (!body && input.files.length === 0) throw new Error("Write a comment or attach a file.");
+
+  const attachments = await uploadTaskAttachments(supabase, input.task_id, input.files);
+  const mentions = parseMentions(body, profiles);
+
+  const { error } = await supabase.from('task_comments').insert([{
+    task_id: input.task_id,
+    parent_id: input.parent_id || null,
+    body,
+    mentions,
+    attachments,
+    user_id: user.id
+  }]);
+  if (error) throw error;
+
+  await notifyUsers(supabase, mentions, {
+    kind: 'task_mention',
+    title: `${profiles.find(p => p.id === user.id)?.full_name || 'An operator'} mentioned you`,
+    body: body.length > 120 ? `${body.slice(0, 120)}…` : body,
+    link_view: 'tasks',
+    entity_id: input.task_id
+  });
+};
+
+export const deleteTaskComment = async (supabase: SupabaseClient, commentId: string) => {
+  const { error } = await supabase.from('task_comments').delete().eq('id', commentId);
+  if (error) throw error;
+};
@@ -0,0 +1,27 @@
+import { ViewType } from '../types';
+
+export const getUrlParams = () => new URLSearchParams(window.location.search);
+
+// Rewrites the given keys in place without adding history entries; empty values drop the key
+export const setUrlParams = (params: Record<string, string | null | undefined>) => {
+  const search = getUrlParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) search.set(key, value);
+    else search.delete(key);
+  });
+  const query = search.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`);
+};
+
+const LINKABLE_VIEWS: ViewType[] = ['dashboard', 'tasks', 'inventory', 'sales', 'purchasing', 'replenishment', 'emails', 'audit', 'settings'];
+
+// The view a shared link points at, so filters carried in the same URL land on the screen that reads them
+export const getLinkedView = (): ViewType | null => {
+  const view = getUrlParams().get('view') as ViewType | null;
+  return view && LINKABLE_VIEWS.includes(view) ? view : null;
+};
+
+// Keeps the address bar on the current view so a copied link reopens it; the dashboard needs no param
+export const setLinkedView = (view: ViewType) => {
+  if (LINKABLE_VIEWS.includes(view)) setUrlParams({ view: view === 'dashboard' ? null : view });
+};
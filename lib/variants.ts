@@ -0,0 +1,168 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { InventoryItem, ProductStyle, Task } from '../types';
+import { postStockCount } from './stockLedger';
+
+export const fetchStyles = async (supabase: SupabaseClient): Promise<ProductStyle[]> => {
+  const { data, error } = await supabase
+    .from('styles')
+    .select('*')
+    .order('code', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(s => ({ ...s, sizes: s.sizes || [], colors: s.colors || [] }));
+};
+
+export const fetchStyleVariants = async (supabase: SupabaseClient, styleId: string): Promise<InventoryItem[]> => {
+  const { data, error } = await supabase
+    .from('inventory')
+    .select('*')
+    .eq('style_id', styleId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// "S, M ,XL, M" -> ["S", "M", "XL"]; order is kept because it is the order of the size run
+export const parseOptionList = (text: string) =>
+  Array.from(new Set(text.split(',').map(v => v.trim()).filter(Boolean)));
+
+const skuPart = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, '');
+
+// TS100 + Navy Blue + XL -> TS100-NAVYBLUE-XL
+export const variantSku = (style: Pick<ProductStyle, 'code'>, color: string, size: string) =>
+  [skuPart(style.code), skuPart(color), skuPart(size)].join('-');
+
+export const variantKey = (color: string, size: string) => `${color}\u0000${size}`;
+
+// Variants keyed by cell, so the grid can find each one without searching
+export const buildVariantMatrix = (variants: InventoryItem[]) =>
+  new Map(variants.filter(v => v.color && v.size).map(v => [variantKey(v.color!, v.size!), v]));
+
+export const saveStyle = async (
+  supabase: SupabaseClient,
+  style: Omit<ProductStyle, 'id' | 'created_at'> & { id?: string }
+): Promise<ProductStyle> => {
+  const payload = {
+    code: style.code.trim().toUpperCase(),
+    name: style.name.trim(),
+    category_id: style.category_id || null,
+    sizes: style.sizes,
+    colors: style.colors,
+    base_price: Number(style.base_price) || 0
+  };
+  const { data, error } = style.id
+    ? await supabase.from('styles').update(payload).eq('id', style.id).select().single()
+    : await supabase.from('styles').insert([payload]).select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Creates the variant rows the matrix is missing. Existing variants are never touched, and a size or color
+ * dropped from the style keeps its variants, since they may still hold stock and history.
+ * SKU parts drop punctuation, so "1/2" and "12" would share a SKU; any clash, within the grid or with another item,
+ * is reported by cell and nothing is inserted.
+ */
+export const generateVariants = async (
+  supabase: SupabaseClient,
+  style: ProductStyle,
+  existing: InventoryItem[],
+  categoryName: string
+): Promise<InventoryItem[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const matrix = buildVariantMatrix(existing);
+  const rows = style.colors.flatMap(color => style.sizes
+    .filter(size => !matrix.has(variantKey(color, size)))
+    .map(size => ({
+      name: `${style.name} · ${color} / ${size}`,
+      sku: variantSku(style, color, size),
+      category: categoryName,
+      category_id: style.category_id || null,
+      price: style.base_price,
+      quantity: 0,
+      style_id: style.id,
+      color,
+      size,
+      user_id: user.id
+    })));
+  if (rows.length === 0) return [];
+
+  const taken = new Map(existing.map(v => [v.sku, `${v.color} / ${v.size}`]));
+  const conflicts: string[] = [];
+  rows.forEach(row => {
+    const other = taken.get(row.sku);
+    if (other) conflicts.push(`${row.color} / ${row.size} and ${other} both make ${row.sku}`);
+    else taken.set(row.sku, `${row.color} / ${row.size}`);
+  });
+
+  const { data: clashing, error: lookupError } = await supabase
+    .from('inventory')
+    .select('sku, name')
+    .in('sku', rows.map(r => r.sku));
+  if (lookupError) throw lookupError;
+  (clashing || []).forEach(item => {
+    const row = rows.find(r => r.sku === item.sku);
+    if (row && !existing.some(v => v.sku === item.sku)) conflicts.push(`${row.color} / ${row.size} makes ${item.sku}, already used by ${item.name}`);
+  });
+  if (conflicts.length) throw new Error(`Variant SKUs collide, rename these sizes or colors: ${conflicts.join('; ')}`);
+
+  const { data, error } = await supabase.from('inventory').insert(rows).select();
+  if (error) throw error;
+  return data || [];
+};
+
+export const deleteStyle = async (supabase: SupabaseClient, style: ProductStyle) => {
+  const { count, error: countError } = await supabase
+    .from('inventory')
+    .select('id', { count: 'exact', head: true })
+    .eq('style_id', style.id);
+  if (countError) throw countError;
+  if (count) throw new Error(`${style.code} still has ${count} variant${count === 1 ? '' : 's'}; delete them from the ledger first.`);
+
+  const { error } = await supabase.from('styles').delete().eq('id', style.id);
+  if (error) throw error;
+};
+
+// One update per distinct price keeps a whole-row or whole-column change to a single request
+export const updateVariantPrices = async (supabase: SupabaseClient, prices: { id: string; price: number }[]) => {
+  const byPrice = new Map<number, string[]>();
+  prices.forEach(p => byPrice.set(p.price, [...(byPrice.get(p.price) || []), p.id]));
+  for (const [price, ids] of byPrice) {
+    const { error } = await supabase.from('inventory').update({ price }).in('id', ids);
+    if (error) throw error;
+  }
+};
+
+/**
+ * Brings each variant to its counted quantity. Quantity is owned by the stock ledger, so every changed cell is
+ * posted as a count, adjusted against on-hand as the database holds it rather than the figure the grid loaded.
+ */
+export const postVariantCounts = async (
+  supabase: SupabaseClient,
+  counts: { item: InventoryItem; quantity: number }[],
+  reasonCode: string
+) => {
+  for (const { item, quantity } of counts) {
+    if (quantity === item.quantity) continue;
+    await postStockCount(supabase, { item_id: item.id, counted: quantity, reason_code: reasonCode });
+  }
+};
+
+/**
+ * The items a task works on. A sku_ref naming a style targets all of its variants, or only `variant_skus` when set;
+ * any other sku_ref is a single item.
+ */
+export const resolveTaskItems = (
+  task: Pick<Task, 'sku_ref' | 'variant_skus'>,
+  inventory: InventoryItem[],
+  styles: ProductStyle[]
+): InventoryItem[] => {
+  if (!task.sku_ref) return [];
+  const style = styles.find(s => s.code === task.sku_ref);
+  if (!style) return inventory.filter(i => i.sku === task.sku_ref);
+  const variants = inventory.filter(i => i.style_id === style.id);
+  return task.variant_skus?.length ? variants.filter(v => task.variant_skus!.includes(v.sku)) : variants;
+};
@@ -0,0 +1,193 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ProductionStage, WorkOrder, WorkOrderOutput, WorkOrderStatus } from '../types';
+import { fetchBomLines } from './bom';
+import { alertCrossedReorderPoints } from './stockLedger';
+
+export const PRODUCTION_STAGES: { id: ProductionStage; label: string }[] = [
+  { id: 'cutting', label: 'Cut Pieces' },
+  { id: 'stitching', label: 'Stitched' },
+  { id: 'washing', label: 'Washed' },
+  { id: 'finishing', label: 'Finished' }
+];
+
+export const WO_STATUSES: { id: WorkOrderStatus; label: string; color: string }[] = [
+  { id: 'planned', label: 'Planned', color: 'bg-slate-100 text-slate-600 border-slate-200' },
+  { id: 'in_progress', label: 'In Progress', color: 'bg-blue-50 text-blue-600 border-blue-100' },
+  { id: 'completed', label: 'Completed', color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  { id: 'cancelled', label: 'Cancelled', color: 'bg-rose-50 text-rose-600 border-rose-100' }
+];
+
+export const getWorkOrderStatusMeta = (status: WorkOrderStatus) =>
+  WO_STATUSES.find(s => s.id === status) || WO_STATUSES[0];
+
+export const isProductionStage = (department: string): department is ProductionStage =>
+  PRODUCTION_STAGES.some(s => s.id === department);
+
+export const isOpenWorkOrder = (wo: Pick<WorkOrder, 'status'>) =>
+  wo.status === 'planned' || wo.status === 'in_progress';
+
+export const generateWoNumber = () => {
+  const d = new Date();
+  const stamp = `${String(d.getFullYear()).slice(2)}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+  return `WO-${stamp}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+};
+
+export type StageTotals = Record<ProductionStage, { good: number; reject: number; rework: number }>;
+
+export const stageTotals = (outputs: WorkOrderOutput[] = []): StageTotals => {
+  const totals = Object.fromEntries(
+    PRODUCTION_STAGES.map(s => [s.id, { good: 0, reject: 0, rework: 0 }])
+  ) as StageTotals;
+  outputs.forEach(o => {
+    const t = totals[o.stage];
+    if (!t) return;
+    t.good += o.good_quantity;
+    t.reject += o.reject_quantity;
+    t.rework += o.rework_quantity;
+  });
+  return totals;
+};
+
+// Pieces a stage can still process: the planned run for cutting, otherwise whatever the previous stage passed on
+export const stageInputRemaining = (wo: Pick<WorkOrder, 'planned_quantity'>, totals: StageTotals, stage: ProductionStage) => {
+  const idx = PRODUCTION_STAGES.findIndex(s => s.id === stage);
+  const processed = totals[stage].good + totals[stage].reject;
+  if (idx === 0) return Math.max(0, wo.planned_quantity - processed);
+  return Math.max(0, totals[PRODUCTION_STAGES[idx - 1].id].good - processed);
+};
+
+export const fetchWorkOrders = async (supabase: SupabaseClient): Promise<WorkOrder[]> => {
+  const { data, error } = await supabase
+    .from('work_orders')
+    .select(`
+      *,
+      item:inventory!item_id(name),
+      outputs:work_order_outputs(*, operator:profiles!user_id(full_name))
+    `)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export interface WorkOrderInput {
+  item_id: string;
+  sku: string;
+  planned_quantity: number;
+  sales_order_line_id?: string | null;
+  task_id?: string;
+}
+
+// Creates the work order and attaches it to the task, or to every stage task of the same sales order line
+export const createWorkOrder = async (supabase: SupabaseClient, input: WorkOrderInput): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+  if (!(input.planned_quantity > 0)) throw new Error("Planned quantity must be greater than zero.");
+
+  const { data: wo, error } = await supabase
+    .from('work_orders')
+    .insert([{
+      wo_number: generateWoNumber(),
+      item_id: input.item_id,
+      sku: input.sku,
+      planned_quantity: input.planned_quantity,
+      sales_order_line_id: input.sales_order_line_id || null,
+      status: 'planned',
+      user_id: user.id
+    }])
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  if (input.sales_order_line_id || input.task_id) {
+    const link = supabase.from('tasks').update({ work_order_id: wo.id });
+    const { error: linkError } = input.sales_order_line_id
+      ? await link.eq('sales_order_line_id', input.sales_order_line_id)
+      : await link.eq('id', input.task_id!);
+    if (linkError) throw linkError;
+  }
+
+  return wo.id;
+};
+
+export interface StageOutputInput {
+  stage: ProductionStage;
+  good_quantity: number;
+  reject_quantity: number;
+  rework_quantity: number;
+  note?: string;
+}
+
+export const recordStageOutput = async (supabase: SupabaseClient, wo: WorkOrder, input: StageOutputInput) => {
+  if (!isOpenWorkOrder(wo)) throw new Error(`${wo.wo_number} is ${getWorkOrderStatusMeta(wo.status).label.toLowerCase()}.`);
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error("Authentication session expired.");
+
+  const good = Math.max(0, input.good_quantity || 0);
+  const reject = Math.max(0, input.reject_quantity || 0);
+  const rework = Math.max(0, input.rework_quantity || 0);
+  if (good + reject + rework === 0) throw new Error("Enter an output, reject or rework count.");
+
+  // Cutting may run over plan to cover expected rejects; downstream stages cannot exceed what reached them
+  if (input.stage !== 'cutting') {
+    const remaining = stageInputRemaining(wo, stageTotals(wo.outputs), input.stage);
+    if (good + reject > remaining) {
+      throw new Error(`Only ${remaining} pieces are waiting at ${input.stage}.`);
+    }
+  }
+
+  const { error } = await supabase.from('work_order_outputs').insert([{
+    work_order_id: wo.id,
+    stage: input.stage,
+    good_quantity: good,
+    reject_quantity: reject,
+    rework_quantity: rework,
+    note: input.note || null,
+    user_id: user.id
+  }]);
+  if (error) throw error;
+
+  if (wo.status === 'planned') {
+    const { error: statusError } = await supabase.from('work_orders').update({ status: 'in_progress' }).eq('id', wo.id);
+    if (statusError) throw statusError;
+  }
+};
+
+export interface CompletionInput {
+  issue_location_id?: string | null;
+  receive_location_id?: string | null;
+}
+
+/**
+ * Closes the work order against the stock ledger: BOM components are issued for every piece that went
+ * through cutting (rejects included, since their material is spent) and the finishing output is received
+ * as the finished SKU. Falls back to the planned quantity when no cutting output was recorded.
+ * The complete_work_order RPC (see lib/schema.ts) does all of it in one transaction, so a failure posts nothing.
+ */
+export const completeWorkOrder = async (supabase: SupabaseClient, wo: WorkOrder, input: CompletionInput = {}) => {
+  if (!isOpenWorkOrder(wo)) throw new Error(`${wo.wo_number} is already ${wo.status}.`);
+  if (stageTotals(wo.outputs).finishing.good <= 0) throw new Error("Record finishing output before completing the work order.");
+
+  // Components before the issue, so those it takes to their reorder point can be flagged afterwards
+  const components = await fetchBomLines(supabase, wo.item_id);
+  const { data: before, error: itemsError } = components.length
+    ? await supabase.from('inventory').select('id, name, sku, quantity, reorder_point').in('id', components.map(l => l.component_item_id))
+    : { data: [], error: null };
+  if (itemsError) throw itemsError;
+
+  const { error } = await supabase.rpc('complete_work_order', {
+    work_order: wo.id,
+    issue_location: input.issue_location_id || null,
+    receive_location: input.receive_location_id || null
+  });
+  if (error) throw new Error(`${wo.wo_number}: ${error.message}`);
+
+  await alertCrossedReorderPoints(supabase, before || []);
+};
+
+export const cancelWorkOrder = async (supabase: SupabaseClient, wo: WorkOrder) => {
+  if (!isOpenWorkOrder(wo)) throw new Error(`${wo.wo_number} is already ${wo.status}.`);
+  const { error } = await supabase.from('work_orders').update({ status: 'cancelled' }).eq('id', wo.id);
+  if (error) throw error;
+};
@@ -5,8 +5,19 @@ export interface InventoryItem {
   sku: string;
   quantity: number;
   price: number;
+  // Name of the leaf category, kept alongside category_id for display and sorting
   category: string;
+  category_id?: string | null;
+  attributes?: ItemAttributes;
+  // Set on variants: the style they belong to and their cell in its size × color matrix
+  style_id?: string | null;
+  size?: string | null;
+  color?: string | null;
   image_url?: string;
+  reorder_point?: number | null;
+  reorder_quantity?: number | null;
+  lead_time_days?: number | null;
+  preferred_supplier_id?: string | null;
   created_at?: string;
   user_id?: string;
   owner?: {
@@ -15,19 +26,155 @@ export interface InventoryItem {
   };
 }
 
+export interface ProductStyle {
+  id: string;
+  code: string;
+  name: string;
+  category_id?: string | null;
+  sizes: string[];
+  colors: string[];
+  base_price: number;
+  created_at?: string;
+}
+
+export type AttributeType = 'text' | 'number' | 'select';
+
+export interface AttributeDefinition {
+  key: string;
+  label: string;
+  type: AttributeType;
+  unit?: string;
+  options?: string[];
+  required?: boolean;
+}
+
+export type ItemAttributes = Record<string, string | number>;
+
+export interface ProductCategory {
+  id: string;
+  name: string;
+  parent_id?: string | null;
+  attributes: AttributeDefinition[];
+  created_at?: string;
+}
+
+export type LocationKind = 'warehouse' | 'zone' | 'bin';
+
+export interface StockLocation {
+  id: string;
+  name: string;
+  code: string;
+  kind: LocationKind;
+  parent_id?: string | null;
+  created_at?: string;
+}
+
+export type StockMovementType = 'receipt' | 'issue' | 'adjustment' | 'transfer';
+
+export interface StockMovement {
+  id: string;
+  item_id: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  reason_code: string;
+  note?: string;
+  reference?: string;
+  location_id?: string | null;
+  to_location_id?: string | null;
+  user_id: string;
+  created_at: string;
+  actor?: {
+    full_name?: string;
+    avatar_url?: string;
+    email?: string;
+  };
+}
+
+export interface BomLine {
+  id: string;
+  parent_item_id: string;
+  component_item_id: string;
+  quantity_per: number;
+  wastage_pct: number;
+  note?: string | null;
+  user_id?: string;
+  created_at?: string;
+}
+
+export type WorkOrderStatus = 'planned' | 'in_progress' | 'completed' | 'cancelled';
+
+export type ProductionStage = 'cutting' | 'stitching' | 'washing' | 'finishing';
+
+export interface WorkOrderOutput {
+  id: string;
+  work_order_id: string;
+  stage: ProductionStage;
+  good_quantity: number;
+  reject_quantity: number;
+  rework_quantity: number;
+  note?: string | null;
+  user_id: string;
+  created_at: string;
+  operator?: {
+    full_name?: string;
+  };
+}
+
+export interface WorkOrder {
+  id: string;
+  wo_number: string;
+  item_id: string;
+  sku: string;
+  planned_quantity: number;
+  status: WorkOrderStatus;
+  sales_order_line_id?: string | null;
+  issued_quantity?: number | null;
+  completed_quantity?: number | null;
+  completed_at?: string | null;
+  user_id: string;
+  created_at: string;
+  item?: {
+    name?: string;
+  };
+  outputs?: WorkOrderOutput[];
+}
+
+export interface TaskDependency {
+  id: string;
+  predecessor_id: string;
+  successor_id: string;
+  user_id?: string;
+  created_at?: string;
+}
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
   sku_ref?: string;
+  // When sku_ref names a style, narrows the task to these variant SKUs; empty means the whole style
+  variant_skus?: string[] | null;
   department: 'planning' | 'cutting' | 'stitching' | 'washing' | 'finishing';
   status: 'todo' | 'in_progress' | 'completed';
   priority: 'low' | 'medium' | 'high';
   assigned_to?: string;
+  start_date?: string | null;
+  duration_days?: number | null;
   due_date?: string;
+  sales_order_id?: string | null;
+  sales_order_line_id?: string | null;
+  work_order_id?: string | null;
   user_id: string;
   order_index: number;
+  version?: number;
   created_at: string;
+  sales_order?: {
+    order_number?: string;
+    ship_date?: string;
+  };
+  sales_order_line?: {
+    quantity?: number;
+  };
   creator?: {
     full_name?: string;
     avatar_url?: string;
@@ -38,6 +185,112 @@ export interface Task {
   };
 }
 
+export interface Supplier {
+  id: string;
+  name: string;
+  code: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  lead_time_days?: number | null;
+  user_id?: string;
+  created_at?: string;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'approved' | 'sent' | 'partially_received' | 'closed';
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  item_id: string;
+  sku: string;
+  quantity: number;
+  received_quantity: number;
+  unit_price: number;
+  item?: {
+    name?: string;
+    image_url?: string;
+  };
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id?: string | null;
+  status: PurchaseOrderStatus;
+  expected_date?: string | null;
+  notes?: string;
+  approved_by?: string | null;
+  approved_at?: string | null;
+  sent_at?: string | null;
+  user_id: string;
+  created_at: string;
+  supplier?: {
+    name?: string;
+    email?: string;
+  };
+  lines?: PurchaseOrderLine[];
+}
+
+export interface GoodsReceipt {
+  id: string;
+  purchase_order_id: string;
+  po_line_id: string;
+  item_id: string;
+  quantity: number;
+  location_id?: string | null;
+  note?: string;
+  user_id: string;
+  created_at: string;
+  receiver?: {
+    full_name?: string;
+  };
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  code: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  user_id?: string;
+  created_at?: string;
+}
+
+export type SalesOrderStatus = 'draft' | 'confirmed' | 'shipped' | 'cancelled';
+
+export interface SalesOrderLine {
+  id: string;
+  sales_order_id: string;
+  item_id?: string | null;
+  sku: string;
+  size_breakdown: Record<string, number>;
+  quantity: number;
+}
+
+export interface SalesOrder {
+  id: string;
+  order_number: string;
+  customer_id: string;
+  status: SalesOrderStatus;
+  ship_date: string;
+  shipped_at?: string | null;
+  confirmed_at?: string | null;
+  notes?: string;
+  user_id: string;
+  created_at: string;
+  customer?: {
+    name?: string;
+    code?: string;
+  };
+  lines?: SalesOrderLine[];
+}
+
+export type UserRole = 'admin' | 'planner' | 'store_keeper' | 'supervisor' | 'viewer';
+
 export interface Profile {
   id: string;
   username?: string;
@@ -46,6 +299,41 @@ export interface Profile {
   website?: string;
   updated_at?: string;
   email?: string;
+  role?: UserRole | null;
+  department?: Task['department'] | null;
+  active_org_id?: string | null;
+  memberships?: OrgMembership[];
+}
+
+export interface Organization {
+  id: string;
+  name: string;
+  created_by?: string;
+  created_at?: string;
+}
+
+export interface OrgMembership {
+  id: string;
+  org_id: string;
+  user_id: string;
+  role: UserRole;
+  department?: Task['department'] | null;
+  created_at?: string;
+  organization?: {
+    name?: string;
+  };
+  member?: Pick<Profile, 'full_name' | 'email' | 'avatar_url' | 'username'>;
+}
+
+export interface OrgInvitation {
+  id: string;
+  org_id: string;
+  email: string;
+  role: UserRole;
+  department?: Task['department'] | null;
+  invited_by: string;
+  accepted_at?: string | null;
+  created_at: string;
 }
 
 export interface EmailAttachment {
@@ -55,19 +343,177 @@ export interface EmailAttachment {
   size: number;
 }
 
+export type EmailDeliveryStatus = 'sent' | 'pending' | 'failed';
+
+export type EmailRecipientKind = 'to' | 'cc' | 'bcc';
+
+export interface EmailRecipient {
+  id: string;
+  email_id: string;
+  org_id?: string | null;
+  kind: EmailRecipientKind;
+  address: string;
+  // Set when the address belongs to an organization member, who also reads the message in the Comms Node
+  profile_id?: string | null;
+  // pending until the outbox worker hands it to the mail transport; failed once retries are exhausted or the server refuses it
+  status: EmailDeliveryStatus;
+  attempt_count?: number;
+  next_attempt_at?: string | null;
+  locked_until?: string | null;
+  last_error?: string | null;
+  sent_at?: string | null;
+  provider_message_id?: string | null;
+  read_at?: string | null;
+  created_at?: string;
+}
+
+export interface EmailGroup {
+  id: string;
+  org_id?: string | null;
+  name: string;
+  addresses: string[];
+  created_at?: string;
+}
+
+// One operator's own filing of a message; read state lives on their recipient row, where the sender sees it as a receipt
+export interface EmailState {
+  id?: string;
+  email_id: string;
+  user_id: string;
+  org_id?: string | null;
+  starred: boolean;
+  archived_at?: string | null;
+  trashed_at?: string | null;
+  label_ids: string[];
+  updated_at?: string;
+}
+
+export interface EmailLabel {
+  id: string;
+  user_id: string;
+  org_id?: string | null;
+  name: string;
+  color: string;
+  created_at?: string;
+}
+
+export type EmailLinkEntity = 'task' | 'inventory' | 'purchase_order' | 'sales_order';
+
+export interface EmailLink {
+  id: string;
+  email_id: string;
+  org_id?: string | null;
+  entity_type: EmailLinkEntity;
+  entity_id: string;
+  entity_label?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
 export interface Email {
   id: string;
   user_id: string;
+  org_id?: string | null;
+  // The first To address, kept for messages written before recipient lists
   recipient_email: string;
   subject: string;
   body: string;
   attachments: EmailAttachment[];
-  status: 'sent' | 'pending' | 'failed';
+  // First message of the conversation; null on that first message itself
+  thread_id?: string | null;
+  in_reply_to?: string | null;
+  // Rolled up from the recipients: pending while any is queued, failed if any could not be reached
+  status: EmailDeliveryStatus;
   created_at: string;
   sender?: {
     full_name: string;
     avatar_url: string;
+    email?: string;
+  };
+  // Recipients see every To and Cc row but only their own Bcc row
+  recipients?: EmailRecipient[];
+  links?: EmailLink[];
+}
+
+export type TaskAttachment = EmailAttachment;
+
+export interface TaskComment {
+  id: string;
+  task_id: string;
+  parent_id?: string | null;
+  body: string;
+  mentions: string[];
+  attachments: TaskAttachment[];
+  user_id: string;
+  created_at: string;
+  author?: {
+    full_name?: string;
+    avatar_url?: string;
+  };
+}
+
+export type TaskActivityField = 'department' | 'status' | 'assigned_to' | 'priority';
+
+export interface TaskActivity {
+  id: string;
+  task_id: string;
+  field: TaskActivityField;
+  old_value?: string | null;
+  new_value?: string | null;
+  user_id: string;
+  created_at: string;
+  actor?: {
+    full_name?: string;
+  };
+}
+
+export type NotificationKind = 'task_assigned' | 'task_overdue' | 'task_mention' | 'low_stock' | 'new_message' | 'po_approved' | 'delivery_failed';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  kind: NotificationKind;
+  title: string;
+  body?: string | null;
+  link_view?: ViewType | null;
+  entity_id?: string | null;
+  dedupe_key?: string | null;
+  read_at?: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreferences {
+  user_id: string;
+  muted_kinds: NotificationKind[];
+  updated_at?: string;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntity =
+  | 'inventory' | 'category' | 'style' | 'stock_movement' | 'location' | 'bom_line' | 'task' | 'work_order' | 'wip_limits'
+  | 'purchase_order' | 'sales_order' | 'email' | 'profile' | 'member' | 'invitation';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  // Null for changes made by the outbox worker and other service-role jobs
+  user_id: string | null;
+  action: AuditAction;
+  entity: AuditEntity;
+  entity_id?: string | null;
+  entity_label?: string | null;
+  changes: Record<string, AuditChange>;
+  source: ViewType;
+  created_at: string;
+  actor?: {
+    full_name?: string;
+    email?: string;
   };
 }
 
-export type ViewType = 'dashboard' | 'inventory' | 'tasks' | 'emails' | 'settings' | 'setup' | 'auth';
+export type ViewType = 'dashboard' | 'inventory' | 'purchasing' | 'replenishment' | 'sales' | 'tasks' | 'emails' | 'audit' | 'settings' | 'setup' | 'auth';
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Loader2,
+  RefreshCw,
+  Download,
+  History,
+  User as UserIcon,
+  ArrowRight,
+  Filter
+} from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { AuditChange, AuditEntry, Profile } from '../types';
+import {
+  AUDIT_ENTITIES,
+  AUDIT_PAGE_SIZE,
+  AuditFilters,
+  auditToCsv,
+  fetchAllAuditEntries,
+  fetchAuditLog,
+  formatAuditValue,
+  getActionMeta,
+  getEntityLabel
+} from '../lib/audit';
+import { downloadCsv } from '../lib/csv';
+import { fetchOrgMembers } from '../lib/organizations';
+
+interface AuditProps {
+  profile?: Profile | null;
+}
+
+const Audit: React.FC<AuditProps> = ({ profile }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>({ userId: '', entity: '', from: '', to: '' });
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setEntries(await fetchAuditLog(supabase, filters));
+    } catch (err: any) {
+      console.error('Audit fetch error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !profile?.active_org_id) return;
+    fetchOrgMembers(supabase, profile.active_org_id).then(setMembers).catch(() => setMembers([]));
+  }, [profile?.active_org_id]);
+
+  useEffect(() => { fetchEntries(); }, [filters]);
+
+  // Exports every entry matching the filters, which can be far more than the latest page on screen
+  const handleExport = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    setExporting(true);
+    try {
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadCsv(`audit-log-${stamp}.csv`, auditToCsv(await fetchAllAuditEntries(supabase, filters)));
+    } catch (err: any) {
+      alert("Export failed: " + err.message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const selectClass = "px-4 py-3 bg-white border border-slate-200 rounded-2xl text-[10px] font-black uppercase outline-none cursor-pointer focus:ring-4 focus:ring-blue-500/10";
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h1 className="text-4xl font-black text-slate-900 tracking-tighter">Audit Trail</h1>
+          <p className="text-slate-500 text-sm font-bold mt-2 uppercase tracking-widest text-[10px]">
+            Every Create, Update & Delete · Latest {AUDIT_PAGE_SIZE} Entries
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={fetchEntries}
+            disabled={loading}
+            className="p-4 bg-white border border-slate-200 text-slate-400 hover:text-blue-600 rounded-2xl transition-all hover:border-blue-200 shadow-sm"
+          >
+            <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={loading || exporting || entries.length === 0}
+            className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all shadow-2xl shadow-slate-300 disabled:opacity-50"
+          >
+            {exporting ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
+            <span>Export All Matching</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 bg-white p-5 rounded-[2rem] border border-slate-200 shadow-sm">
+        <Filter size={16} className="text-slate-300 ml-2" />
+        <select value={filters.userId} onChange={e => setFilters({ ...filters, userId: e.target.value })} className={selectClass}>
+          <option value="">All Operators</option>
+          {members.map(m => <option key={m.id} value={m.id}>{m.full_name || m.email}</option>)}
+        </select>
+        <select value={filters.entity} onChange={e => setFilters({ ...filters, entity: e.target.value as AuditFilters['entity'] })} className={selectClass}>
+          <option value="">All Records</option>
+          {AUDIT_ENTITIES.map(e => <option key={e.id} value={e.id}>{e.label}</option>)}
+        </select>
+        <input type="date" value={filters.from} max={filters.to || undefined} onChange={e => setFilters({ ...filters, from: e.target.value })} className={selectClass} />
+        <ArrowRight size={14} className="text-slate-300" />
+        <input type="date" value={filters.to} min={filters.from || undefined} onChange={e => setFilters({ ...filters, to: e.target.value })} className={selectClass} />
+      </div>
+
+      <div className="bg-white rounded-[3.5rem] border border-slate-200 shadow-2xl overflow-hidden">
+        <div className="overflow-x-auto scrollbar-hide">
+          {loading ? (
+            <div className="p-40 flex flex-col items-center justify-center space-y-6">
+              <Loader2 className="animate-spin text-blue-500" size={56} />
+              <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.3em]">Reading Audit Log...</p>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="p-40 flex flex-col items-center justify-center text-center">
+              <History size={80} className="text-slate-100 mb-6" />
+              <h3 className="text-2xl font-black text-slate-900 tracking-tight">No Recorded Changes</h3>
+              <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-2">Nothing matches the current filters.</p>
+            </div>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-[0.3em] border-b border-slate-200">
+                  <th className="px-8 py-6">Timestamp</th>
+                  <th className="px-8 py-6">Operator</th>
+                  <th className="px-8 py-6">Record</th>
+                  <th className="px-8 py-6">Changes</th>
+                  <th className="px-8 py-6 text-right">Source</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {entries.map(entry => {
+                  const action = getActionMeta(entry.action);
+                  const changes = Object.entries<AuditChange>(entry.changes || {});
+                  return (
+                    <tr key={entry.id} className="hover:bg-blue-50/30 transition-all align-top">
+                      <td className="px-8 py-6 whitespace-nowrap">
+                        <p className="text-xs font-black text-slate-900">{new Date(entry.created_at).toLocaleDateString()}</p>
+                        <p className="text-[10px] font-bold text-slate-400">{new Date(entry.created_at).toLocaleTimeString()}</p>
+                      </td>
+                      <td className="px-8 py-6">
+                        <div className="flex items-center space-x-3">
+                          <UserIcon size={14} className="text-slate-300 shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-xs font-black text-slate-900 truncate">{entry.actor?.full_name || (entry.user_id ? 'Unknown Operator' : 'System')}</p>
+                            <p className="text-[10px] font-bold text-slate-400 truncate">{entry.actor?.email}</p>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-8 py-6">
+                        <span className={`inline-block px-2 py-0.5 rounded-md border text-[9px] font-black uppercase ${action.color}`}>{action.label}</span>
+                        <p className="text-sm font-black text-slate-900 tracking-tight mt-2">{entry.entity_label || entry.entity_id || '—'}</p>
+                        <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">{getEntityLabel(entry.entity)}</p>
+                      </td>
+                      <td className="px-8 py-6">
+                        <div className="space-y-1 max-w-md">
+                          {changes.map(([field, change]) => (
+                            <p key={field} className="text-[11px] font-bold text-slate-600 break-words">
+                              <span className="font-black text-slate-400 uppercase text-[9px] tracking-widest mr-2">{field}</span>
+                              {entry.action !== 'create' && <span className="text-rose-500 line-through mr-1">{formatAuditValue(change.before)}</span>}
+                              {entry.action !== 'delete' && <span className="text-emerald-600">{formatAuditValue(change.after)}</span>}
+                            </p>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-8 py-6 text-right">
+                        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{entry.source}</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Audit;
@@ -18,7 +18,12 @@ import {
   Mail,
   Inbox,
   ArrowDownLeft,
-  ArrowUpRight
+  ArrowUpRight,
+  MapPin,
+  Warehouse,
+  Receipt,
+  Truck,
+  Timer
 } from 'lucide-react';
 import { 
   BarChart, 
@@ -31,7 +36,14 @@ import {
   Cell
 } from 'recharts';
 import { getSupabaseClient } from '../lib/supabase';
-import { Email } from '../types';
+import { Email, EmailState, SalesOrder, StockLocation } from '../types';
+import { fetchLocations, getLocationScope } from '../lib/locations';
+import { computeOrderMetrics, fetchSalesOrders } from '../lib/salesOrders';
+import { InventoryRollup, fetchInventoryRollup } from '../lib/inventoryQuery';
+import { computeWipLoad, fetchWipLimits, summarizeWip, DEFAULT_WIP_LIMITS } from '../lib/pipeline';
+import { fetchMailbox, isAddressedTo, summarizeRecipients } from '../lib/emailRecipients';
+import { countUnreadThreads, fetchEmailStates, getThreadState, isInView } from '../lib/emailFolders';
+import { groupThreads } from '../lib/emailThreads';
 
 const Dashboard: React.FC = () => {
   const [metrics, setMetrics] = useState({
@@ -40,13 +52,22 @@ const Dashboard: React.FC = () => {
     lowStockCount: 0,
     topCategory: 'N/A',
     activeTasks: 0,
+    wipOverflow: 0,
+    overloadedDepartments: [] as string[],
     inboxCount: 0,
+    unreadCount: 0,
     outboxCount: 0,
     loading: true
   });
   const [productionChart, setProductionChart] = useState<any[]>([]);
   const [recentComms, setRecentComms] = useState<Email[]>([]);
   const [userEmail, setUserEmail] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [warehouseRollUp, setWarehouseRollUp] = useState<({ location: StockLocation } & InventoryRollup)[]>([]);
+  const [locationFilter, setLocationFilter] = useState('');
+  const [scopedRollup, setScopedRollup] = useState<InventoryRollup | null>(null);
+  const [orderMetrics, setOrderMetrics] = useState(computeOrderMetrics([]));
 
   useEffect(() => {
     const fetchRealData = async () => {
@@ -66,58 +87,70 @@ const Dashboard: React.FC = () => {
         
         const emailKey = profile?.email || user.email;
         setUserEmail(emailKey);
+        setUserId(user.id);
 
-        const [invRes, taskRes, emailRes] = await Promise.all([
-          supabase.from('inventory').select('*'),
+        // Catalogue figures are summed in the database rather than over the whole catalogue here
+        const [rollup, taskRes, emailRes, emailStates, locs, salesOrders, wipLimits] = await Promise.all([
+          fetchInventoryRollup(supabase),
           supabase.from('tasks').select('department, status'),
-          supabase.from('emails')
-            .select('*')
-            .or(`user_id.eq.${user.id},recipient_email.eq.${emailKey}`)
-            .order('created_at', { ascending: false })
+          fetchMailbox(supabase).catch(() => [] as Email[]),
+          fetchEmailStates(supabase, user.id).catch(() => ({} as Record<string, EmailState>)),
+          fetchLocations(supabase).catch(() => [] as StockLocation[]),
+          fetchSalesOrders(supabase).catch(() => [] as SalesOrder[]),
+          fetchWipLimits(supabase).catch(() => DEFAULT_WIP_LIMITS)
         ]);
 
-        if (invRes.error) throw invRes.error;
         if (taskRes.error) throw taskRes.error;
 
-        const invData = invRes.data || [];
         const taskData = taskRes.data || [];
-        const commsData = emailRes.data || [];
-
-        const totalVal = invData.reduce((acc, item) => acc + (item.price * item.quantity), 0);
-        const lowStock = invData.filter(item => item.quantity < 10).length;
-        
-        const categoryMap: Record<string, number> = {};
-        invData.forEach(item => {
-          categoryMap[item.category] = (categoryMap[item.category] || 0) + item.quantity;
-        });
-        const topCat = Object.entries(categoryMap).sort((a, b) => b[1] - a[1])[0]?.[0] || 'N/A';
+        const commsData = emailRes;
 
         const deptMap: Record<string, number> = {
           'planning': 0, 'cutting': 0, 'stitching': 0, 'washing': 0, 'finishing': 0
         };
         taskData.forEach(t => {
-          if (deptMap[t.department] !== undefined) deptMap[t.department]++;
+          if (deptMap[t.department] !== undefined && t.status !== 'completed') deptMap[t.department]++;
         });
 
+        const wipLoad = computeWipLoad(taskData, wipLimits);
+        const wipSummary = summarizeWip(wipLoad);
+
         const prodChartData = Object.entries(deptMap).map(([key, count]) => ({
           name: key.charAt(0).toUpperCase() + key.slice(1).replace('_', ' '),
-          count
+          count,
+          overLimit: wipLoad[key as keyof typeof wipLoad]?.overLimit || false
         }));
 
-        const inbox = commsData.filter(e => e.recipient_email === emailKey).length;
-        const outbox = commsData.filter(e => e.recipient_email !== emailKey).length;
+        // Counted in threads, as the Comms Node inbox lists them
+        const threadStates = groupThreads(commsData).map(t => getThreadState(t, emailStates, user.id, emailKey || null));
+        const inbox = threadStates.filter(s => isInView(s, 'inbox')).length;
+        const unread = countUnreadThreads(threadStates);
+        const outbox = commsData.filter(e => e.user_id === user.id).length;
 
         setMetrics({
-          totalValue: totalVal,
-          itemCount: invData.length,
-          lowStockCount: lowStock,
-          topCategory: topCat,
-          activeTasks: taskData.filter(t => t.status !== 'completed').length,
+          totalValue: rollup.totalValue,
+          itemCount: rollup.itemCount,
+          lowStockCount: rollup.lowStockCount,
+          topCategory: rollup.topCategory || 'N/A',
+          activeTasks: wipSummary.active,
+          wipOverflow: wipSummary.overflow,
+          overloadedDepartments: wipSummary.overloaded,
           inboxCount: inbox,
+          unreadCount: unread,
           outboxCount: outbox,
           loading: false
         });
         
+        setLocations(locs);
+        const warehouses = locs.filter(l => l.kind === 'warehouse');
+        const rollups = await Promise.all(warehouses.map(l =>
+          fetchInventoryRollup(supabase, Array.from(getLocationScope(locs, l.id))).catch(() => null)
+        ));
+        setWarehouseRollUp(warehouses.flatMap((location, idx) => {
+          const rollup = rollups[idx];
+          return rollup ? [{ location, ...rollup }] : [];
+        }));
+        setOrderMetrics(computeOrderMetrics(salesOrders));
         setProductionChart(prodChartData);
         setRecentComms(commsData.slice(0, 5));
       } catch (e) {
@@ -131,6 +164,23 @@ const Dashboard: React.FC = () => {
 
   const COLORS = ['#3b82f6', '#6366f1', '#8b5cf6', '#06b6d4', '#10b981'];
 
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !locationFilter) {
+      setScopedRollup(null);
+      return;
+    }
+    let cancelled = false;
+    fetchInventoryRollup(supabase, Array.from(getLocationScope(locations, locationFilter)))
+      .then(rollup => { if (!cancelled) setScopedRollup(rollup); })
+      .catch(err => console.error('Location roll-up error:', err.message));
+    return () => { cancelled = true; };
+  }, [locationFilter, locations]);
+
+  const scopedMetrics = locationFilter && scopedRollup
+    ? scopedRollup
+    : { totalValue: metrics.totalValue, lowStockCount: metrics.lowStockCount };
+
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
       <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
@@ -138,17 +188,39 @@ const Dashboard: React.FC = () => {
           <h1 className="text-4xl font-black text-slate-900 tracking-tight">System Command</h1>
           <p className="text-slate-500 text-sm font-medium mt-1 uppercase tracking-widest text-[10px]">Registry Node Activity & Performance Intelligence</p>
         </div>
-        <div className="flex items-center space-x-3 text-[10px] font-black text-blue-600 uppercase tracking-[0.2em] bg-blue-50 px-5 py-2.5 rounded-full border border-blue-100 shadow-sm">
-          <ShieldCheck size={14} className="text-blue-500" />
-          Operator ID: {userEmail?.split('@')[0] || 'Identifying...'}
+        <div className="flex items-center space-x-3">
+          {locations.length > 0 && (
+            <div className="relative">
+              <MapPin className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={14} />
+              <select
+                value={locationFilter}
+                onChange={(e) => setLocationFilter(e.target.value)}
+                className="pl-10 pr-5 py-2.5 bg-white border border-slate-200 rounded-full outline-none text-[10px] font-black uppercase tracking-[0.2em] cursor-pointer shadow-sm"
+              >
+                <option value="">All Locations</option>
+                {locations.map(l => <option key={l.id} value={l.id}>{l.code} · {l.name}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="flex items-center space-x-3 text-[10px] font-black text-blue-600 uppercase tracking-[0.2em] bg-blue-50 px-5 py-2.5 rounded-full border border-blue-100 shadow-sm">
+            <ShieldCheck size={14} className="text-blue-500" />
+            Operator ID: {userEmail?.split('@')[0] || 'Identifying...'}
+          </div>
         </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <StatCard label="Total Asset Value" value={`$${metrics.totalValue.toLocaleString()}`} trend="up" change="+4.2%" icon={<DollarSign size={20} />} loading={metrics.loading} />
-        <StatCard label="Inbox Comms" value={metrics.inboxCount.toString()} trend="up" change="Live" icon={<Inbox size={20} />} loading={metrics.loading} />
+        <StatCard label="Total Asset Value" value={`$${scopedMetrics.totalValue.toLocaleString()}`} trend="up" change="+4.2%" icon={<DollarSign size={20} />} loading={metrics.loading} />
+        <StatCard label="Inbox Comms" value={metrics.inboxCount.toString()} trend="up" change={metrics.unreadCount ? `${metrics.unreadCount} Unread` : 'All Read'} icon={<Inbox size={20} />} loading={metrics.loading} />
         <StatCard label="Deployment Outbox" value={metrics.outboxCount.toString()} trend="up" change="Executed" icon={<SendHorizontal size={20} />} loading={metrics.loading} />
-        <StatCard label="Pipeline Critical" value={metrics.lowStockCount.toString()} trend={metrics.lowStockCount > 0 ? "down" : "up"} change={metrics.lowStockCount > 0 ? "Alert" : "Stable"} icon={<AlertCircle size={20} />} loading={metrics.loading} />
+        <StatCard label="Pipeline Critical" value={scopedMetrics.lowStockCount.toString()} trend={scopedMetrics.lowStockCount > 0 ? "down" : "up"} change={scopedMetrics.lowStockCount > 0 ? "Alert" : "Stable"} icon={<AlertCircle size={20} />} loading={metrics.loading} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard label="Order Backlog" value={orderMetrics.backlogOrders.toString()} trend="up" change="Confirmed" icon={<Receipt size={20} />} loading={metrics.loading} />
+        <StatCard label="Backlog Units" value={orderMetrics.backlogUnits.toLocaleString()} trend="up" change="To Ship" icon={<Package size={20} />} loading={metrics.loading} />
+        <StatCard label="Past Ship Date" value={orderMetrics.lateOrders.toString()} trend={orderMetrics.lateOrders > 0 ? "down" : "up"} change={orderMetrics.lateOrders > 0 ? "Late" : "Clear"} icon={<Timer size={20} />} loading={metrics.loading} />
+        <StatCard label="On-Time Delivery" value={orderMetrics.onTimeRate === null ? '—' : `${orderMetrics.onTimeRate}%`} trend={orderMetrics.onTimeRate !== null && orderMetrics.onTimeRate < 90 ? "down" : "up"} change="Shipped" icon={<Truck size={20} />} loading={metrics.loading} />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -159,6 +231,17 @@ const Dashboard: React.FC = () => {
               <div>
                 <h3 className="font-black text-slate-900 text-xl tracking-tight">Operational Load</h3>
                 <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Cross-Departmental Synergy Matrix</p>
+                <div className="flex items-center space-x-2 mt-3">
+                  <span className="px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest bg-blue-50 text-blue-600 border border-blue-100">
+                    {metrics.activeTasks} Active
+                  </span>
+                  {metrics.wipOverflow > 0 && (
+                    <span className="flex items-center space-x-1 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest bg-rose-50 text-rose-600 border border-rose-100">
+                      <AlertTriangle size={10} />
+                      <span>{metrics.wipOverflow} Over WIP · {metrics.overloadedDepartments.join(', ')}</span>
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="p-3 bg-slate-50 rounded-2xl text-slate-400 group-hover:bg-blue-50 group-hover:text-blue-600 transition-colors">
                  <Factory size={20} />
@@ -175,13 +258,47 @@ const Dashboard: React.FC = () => {
                     contentStyle={{ borderRadius: '24px', border: 'none', boxShadow: '0 25px 50px -12px rgb(0 0 0 / 0.15)', fontWeight: 'black', padding: '16px' }} 
                   />
                   <Bar dataKey="count" radius={[0, 12, 12, 0]} barSize={40}>
-                    {productionChart.map((entry, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
+                    {productionChart.map((entry, index) => <Cell key={`cell-${index}`} fill={entry.overLimit ? '#f43f5e' : COLORS[index % COLORS.length]} />)}
                   </Bar>
                 </BarChart>
               </ResponsiveContainer>
             </div>
           </div>
 
+          {warehouseRollUp.length > 0 && (
+            <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm hover:border-blue-300 transition-all duration-500">
+              <div className="flex items-center justify-between mb-8">
+                <div>
+                  <h3 className="font-black text-slate-900 text-xl tracking-tight">Storage Roll-up</h3>
+                  <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">Value & Critical Stock per Warehouse</p>
+                </div>
+                <div className="p-3 bg-slate-50 rounded-2xl text-slate-400"><Warehouse size={20} /></div>
+              </div>
+              <div className="space-y-3">
+                {warehouseRollUp.map(({ location, totalValue, lowStockCount }) => (
+                  <div
+                    key={location.id}
+                    onClick={() => setLocationFilter(location.id)}
+                    className={`flex items-center justify-between p-5 rounded-[1.5rem] border cursor-pointer transition-all ${
+                      locationFilter === location.id ? 'bg-blue-50 border-blue-200' : 'bg-slate-50 border-slate-100 hover:border-blue-200'
+                    }`}
+                  >
+                    <div>
+                      <p className="text-sm font-black text-slate-900">{location.name}</p>
+                      <p className="text-[9px] font-mono font-black text-slate-400 uppercase">{location.code}</p>
+                    </div>
+                    <div className="flex items-center space-x-6">
+                      <span className="text-sm font-black text-slate-900">${totalValue.toLocaleString()}</span>
+                      <span className={`px-3 py-1 rounded-full text-[8px] font-black uppercase tracking-widest border ${
+                        lowStockCount > 0 ? 'bg-rose-50 text-rose-600 border-rose-100' : 'bg-emerald-50 text-emerald-600 border-emerald-100'
+                      }`}>{lowStockCount} Critical</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Secure Communications Registry */}
           <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm hover:border-blue-300 transition-all duration-500">
              <div className="flex items-center justify-between mb-8">
@@ -202,7 +319,7 @@ const Dashboard: React.FC = () => {
                   </div>
                 ) : (
                   recentComms.map((email) => {
-                    const isInbox = email.recipient_email === userEmail;
+                    const isInbox = isAddressedTo(email, userId, userEmail);
                     return (
                       <div key={email.id} className={`flex items-center justify-between p-6 rounded-[1.8rem] border group hover:scale-[1.01] transition-all cursor-pointer ${
                          email.status === 'failed' ? 'bg-rose-50/50 border-rose-100 hover:border-rose-300' : 'bg-slate-50 border-slate-100 hover:border-blue-200'
@@ -217,7 +334,7 @@ const Dashboard: React.FC = () => {
                             </div>
                             <div className="min-w-0">
                                <p className="text-[10px] font-black text-slate-400 tracking-[0.1em] uppercase mb-1">
-                                 {isInbox ? 'Sender Node Verified' : `Target: ${email.recipient_email}`}
+                                 {isInbox ? 'Sender Node Verified' : `Target: ${summarizeRecipients(email)}`}
                                </p>
                                <p className={`text-sm font-black truncate max-w-[280px] ${
                                  email.status === 'failed' ? 'text-rose-600' : 'text-slate-800'
@@ -24,30 +24,120 @@ import {
   Lock,
   ArrowDownLeft,
   ArrowUpRight,
-  User as UserIcon
+  Reply,
+  Forward,
+  MessagesSquare,
+  ReplyAll,
+  Users,
+  Eye,
+  User as UserIcon,
+  Star,
+  Archive,
+  Trash2,
+  Tag,
+  Plus,
+  MailOpen,
+  Undo2,
+  Link2
 } from 'lucide-react';
 import { getSupabaseClient } from '../lib/supabase';
-import { Email, EmailAttachment } from '../types';
+import { Email, EmailAttachment, EmailGroup, EmailLabel, EmailRecipientKind, EmailState, Profile } from '../types';
+import { notifyUsers } from '../lib/notifications';
+import { fetchOrgMembers } from '../lib/organizations';
+import { can } from '../lib/permissions';
+import { EMAIL_STATUSES, MAX_DELIVERY_ATTEMPTS, requeueEmail } from '../lib/emailOutbox';
+import { EmailThread, forwardBody, forwardSubject, groupThreads, quoteForReply, replyRecipients, replySubject, threadKeyOf } from '../lib/emailThreads';
+import {
+  LABEL_COLORS,
+  MAILBOX_FOLDERS,
+  MailboxFolder,
+  MailboxView,
+  StatePatch,
+  StateRow,
+  applyStateRows,
+  countUnreadThreads,
+  createEmailLabel,
+  deleteEmailLabel,
+  fetchEmailLabels,
+  fetchEmailStates,
+  getLabelColor,
+  getThreadState,
+  isInView,
+  updateEmailStates
+} from '../lib/emailFolders';
+import {
+  EMPTY_RECIPIENTS,
+  RECIPIENT_KINDS,
+  RecipientLists,
+  buildRecipientRows,
+  fetchEmailGroups,
+  fetchMailbox,
+  isAddressedTo,
+  markRecipientsRead,
+  markRecipientsUnread,
+  ownRecipientRows,
+  recipientAddresses,
+  summarizeRecipients
+} from '../lib/emailRecipients';
+import { EmailDraft, LinkTarget, collectLinks, getLinkEntityMeta, isSameTarget, linkEmails, unlinkEmails } from '../lib/emailLinks';
+import { getUrlParams, setUrlParams } from '../lib/urlState';
+import RecipientInput from '../components/RecipientInput';
+import RecordLinkInput from '../components/RecordLinkInput';
+import EmailGroupManager from '../components/EmailGroupManager';
 
-const Emails: React.FC = () => {
+interface EmailsProps {
+  profile?: Profile | null;
+  // Keeps the sidebar badge in step with reads and filing done here
+  onUnreadCountChange?: (count: number) => void;
+  // A message started from a task or item panel; cleared once the compose form has taken it
+  draft?: EmailDraft | null;
+  onDraftOpened?: () => void;
+}
+
+const FOLDER_ICONS: Record<MailboxFolder, React.ElementType> = {
+  inbox: Inbox,
+  starred: Star,
+  sent: SendHorizontal,
+  archive: Archive,
+  trash: Trash2
+};
+
+const Emails: React.FC<EmailsProps> = ({ profile, onUnreadCountChange, draft, onDraftOpened }) => {
   const [emails, setEmails] = useState<Email[]>([]);
   const [loading, setLoading] = useState(true);
   const [isSending, setIsSending] = useState(false);
   const [showCompose, setShowCompose] = useState(false);
-  const [selectedEmail, setSelectedEmail] = useState<Email | null>(null);
+  // A thread named in the URL (from a record's Related messages, or a shared link) opens once the mailbox loads
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(() => getUrlParams().get('thread'));
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
   const [currentUserEmail, setCurrentUserEmail] = useState<string | null>(null);
-  const [viewTab, setViewTab] = useState<'inbox' | 'outbox'>('inbox');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [members, setMembers] = useState<Profile[]>([]);
+  const [groups, setGroups] = useState<EmailGroup[]>([]);
+  const [showGroups, setShowGroups] = useState(false);
+  const [view, setView] = useState<MailboxView>('inbox');
+  // Per-operator filing, keyed by email id; messages without a row are simply unfiled
+  const [states, setStates] = useState<Record<string, EmailState>>({});
+  const [labels, setLabels] = useState<EmailLabel[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [labelForm, setLabelForm] = useState<{ name: string; color: string } | null>(null);
   
-  const [to, setTo] = useState('');
+  const [recipients, setRecipients] = useState<RecipientLists>(EMPTY_RECIPIENTS);
+  const [showCopies, setShowCopies] = useState(false);
   const [subject, setSubject] = useState('');
+  const [links, setLinks] = useState<LinkTarget[]>([]);
   const [body, setBody] = useState('');
   const [attachments, setAttachments] = useState<File[]>([]);
+  // Set while composing a reply; forwards start a new thread and only carry the original's stored attachments
+  const [replyTarget, setReplyTarget] = useState<Email | null>(null);
+  const [forwardedAttachments, setForwardedAttachments] = useState<EmailAttachment[]>([]);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const fetchEmails = async () => {
-    setLoading(true);
+  // Quiet refreshes (polling the outbox) keep the list on screen instead of swapping in the loader
+  const fetchEmails = async (quiet = false) => {
+    if (!quiet) setLoading(true);
     const supabase = getSupabaseClient();
     if (!supabase) return;
     try {
@@ -63,20 +153,17 @@ const Emails: React.FC = () => {
       
       const userEmail = profile?.email || user.email;
       setCurrentUserEmail(userEmail || null);
+      setCurrentUserId(user.id);
 
-      // 2. Fetch emails with Sender Identity Join
-      // Profiles join is aliased to 'sender' for clear UI mapping
-      const { data, error } = await supabase
-        .from('emails')
-        .select(`
-          *,
-          sender:profiles!user_id(full_name, avatar_url, email)
-        `)
-        .or(`user_id.eq.${user.id},recipient_email.eq.${userEmail}`)
-        .order('created_at', { ascending: false });
-      
-      if (error) throw error;
-      setEmails(data || []);
+      // 2. Fetch everything sent or addressed to this operator, with sender identity and recipient rows, and how they filed it
+      const [mailbox, emailStates, emailLabels] = await Promise.all([
+        fetchMailbox(supabase),
+        fetchEmailStates(supabase, user.id),
+        fetchEmailLabels(supabase, user.id)
+      ]);
+      setEmails(mailbox);
+      setStates(emailStates);
+      setLabels(emailLabels);
     } catch (e) { 
       console.error("Communication log error:", e); 
     } finally { 
@@ -86,6 +173,233 @@ const Emails: React.FC = () => {
 
   useEffect(() => { fetchEmails(); }, []);
 
+  const loadGroups = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      setGroups(await fetchEmailGroups(supabase));
+    } catch (e) {
+      console.error("Distribution group error:", e);
+    }
+  };
+
+  // Members and groups feed the recipient picker; a missing directory only loses autocomplete
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !profile?.active_org_id) return;
+    fetchOrgMembers(supabase, profile.active_org_id).then(setMembers).catch(() => setMembers([]));
+    loadGroups();
+  }, [profile?.active_org_id]);
+
+  // Queued messages change status as the outbox worker gets to them
+  const hasQueued = emails.some(e => e.status === 'pending' && e.user_id === currentUserId);
+  useEffect(() => {
+    if (!hasQueued) return;
+    const timer = setInterval(() => fetchEmails(true), 15000);
+    return () => clearInterval(timer);
+  }, [hasQueued]);
+
+  const isIncoming = (e: Email) => isAddressedTo(e, currentUserId, currentUserEmail);
+  const isOutgoing = (e: Email) => e.user_id === currentUserId;
+  const unreadRows = (messages: Email[]) =>
+    messages.flatMap(m => ownRecipientRows(m, currentUserId, currentUserEmail)).filter(r => !r.read_at);
+
+  const setReadAt = (rowIds: string[], readAt: string | null) =>
+    setEmails(prev => prev.map(e => e.recipients?.some(r => rowIds.includes(r.id))
+      ? { ...e, recipients: e.recipients.map(r => rowIds.includes(r.id) ? { ...r, read_at: readAt } : r) }
+      : e));
+
+  // Opening a thread reads every message in it that was addressed to you
+  const openThread = async (threadId: string, messages: Email[]) => {
+    setSelectedThreadId(threadId);
+    setUrlParams({ thread: threadId });
+    setExpandedIds(new Set([messages[messages.length - 1].id]));
+
+    const unread = unreadRows(messages).map(r => r.id);
+    const supabase = getSupabaseClient();
+    if (!supabase || unread.length === 0) return;
+    try {
+      await markRecipientsRead(supabase, unread);
+      setReadAt(unread, new Date().toISOString());
+    } catch (e) {
+      console.error("Read receipt error:", e);
+    }
+  };
+
+  const closeThread = () => {
+    setSelectedThreadId(null);
+    setUrlParams({ thread: null });
+  };
+
+  const linkedThreadId = useRef(selectedThreadId);
+  useEffect(() => {
+    if (loading || !linkedThreadId.current) return;
+    const thread = groupThreads(emails).find(t => t.id === linkedThreadId.current);
+    linkedThreadId.current = null;
+    if (thread) openThread(thread.id, thread.messages);
+    else closeThread();
+  }, [loading]);
+
+  useEffect(() => () => setUrlParams({ thread: null }), []);
+
+  // Linking from the thread view covers every message in it, as filing does
+  const updateThreadLinks = async (thread: EmailThread, next: LinkTarget[]) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    const current = collectLinks(thread.messages);
+    const ids = thread.messages.map(m => m.id);
+    try {
+      await linkEmails(supabase, ids, next.filter(t => !current.some(c => isSameTarget(c, t))));
+      for (const removed of current.filter(c => !next.some(t => isSameTarget(c, t)))) {
+        await unlinkEmails(supabase, ids, removed);
+      }
+      fetchEmails(true);
+    } catch (err: any) {
+      alert("Record link failed: " + err.message);
+    }
+  };
+
+  /**
+   * Marking unread clears the receipt on the latest message you received in each thread only; that is enough to
+   * bring the thread back as unread without taking back what the sender already saw you read earlier.
+   */
+  const markThreads = async (targets: EmailThread[], read: boolean) => {
+    const rowIds = read
+      ? unreadRows(targets.flatMap(t => t.messages)).map(r => r.id)
+      : targets.flatMap(t => {
+          const received = [...t.messages].reverse().find(isIncoming);
+          return received ? ownRecipientRows(received, currentUserId, currentUserEmail).filter(r => r.read_at).map(r => r.id) : [];
+        });
+    const supabase = getSupabaseClient();
+    if (!supabase || rowIds.length === 0) return;
+    try {
+      await (read ? markRecipientsRead(supabase, rowIds) : markRecipientsUnread(supabase, rowIds));
+      setReadAt(rowIds, read ? new Date().toISOString() : null);
+    } catch (err: any) {
+      alert("Read state update failed: " + err.message);
+    }
+  };
+
+  // Filing always covers every message in a thread, so the thread moves as one
+  const fileThreads = async (targets: EmailThread[], patch: StatePatch | ((email: Email) => StatePatch)) => {
+    const supabase = getSupabaseClient();
+    if (!supabase || !currentUserId || targets.length === 0) return;
+    const rows: StateRow[] = targets.flatMap(t => t.messages).map(m => ({ email_id: m.id, ...(typeof patch === 'function' ? patch(m) : patch) }));
+    const previous = states;
+    setStates(applyStateRows(states, currentUserId, rows));
+    try {
+      await updateEmailStates(supabase, currentUserId, rows);
+    } catch (err: any) {
+      setStates(previous);
+      alert("Filing failed: " + err.message);
+    }
+  };
+
+  const toggleStar = (targets: EmailThread[]) =>
+    fileThreads(targets, { starred: !targets.every(t => threadStates[t.id]?.starred) });
+
+  // Archive and trash act as "move back" from inside their own folder
+  const toggleArchive = (targets: EmailThread[]) =>
+    fileThreads(targets, { archived_at: view === 'archive' ? null : new Date().toISOString() });
+
+  const toggleTrash = (targets: EmailThread[]) =>
+    fileThreads(targets, { trashed_at: view === 'trash' ? null : new Date().toISOString() });
+
+  const toggleLabel = (targets: EmailThread[], labelId: string) => {
+    const applied = targets.every(t => threadStates[t.id]?.labelIds.includes(labelId));
+    return fileThreads(targets, m => {
+      const current = states[m.id]?.label_ids || [];
+      return { label_ids: applied ? current.filter(id => id !== labelId) : Array.from(new Set([...current, labelId])) };
+    });
+  };
+
+  const handleCreateLabel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const supabase = getSupabaseClient();
+    if (!supabase || !currentUserId || !labelForm) return;
+    try {
+      await createEmailLabel(supabase, currentUserId, labelForm.name, labelForm.color);
+      setLabels(await fetchEmailLabels(supabase, currentUserId));
+      setLabelForm(null);
+    } catch (err: any) {
+      alert("Label creation failed: " + err.message);
+    }
+  };
+
+  const handleDeleteLabel = async (label: EmailLabel) => {
+    if (!confirm(`Delete label "${label.name}"? Messages keep their other labels and folders.`)) return;
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      await deleteEmailLabel(supabase, label.id);
+      setLabels(prev => prev.filter(l => l.id !== label.id));
+      if (view === `label:${label.id}`) setView('inbox');
+    } catch (err: any) {
+      alert("Label purge failed: " + err.message);
+    }
+  };
+
+  const changeView = (next: MailboxView) => {
+    setView(next);
+    setSelected({});
+  };
+
+  const toggleExpanded = (emailId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(emailId)) next.delete(emailId);
+      else next.add(emailId);
+      return next;
+    });
+  };
+
+  const openCompose = () => {
+    setReplyTarget(null);
+    setForwardedAttachments([]);
+    setRecipients(EMPTY_RECIPIENTS);
+    setShowCopies(false);
+    setSubject('');
+    setLinks([]);
+    setBody('');
+    setAttachments([]);
+    setShowCompose(true);
+  };
+
+  useEffect(() => {
+    if (!draft) return;
+    openCompose();
+    setRecipients({ ...EMPTY_RECIPIENTS, to: draft.to });
+    setSubject(draft.subject);
+    setLinks(draft.links);
+    onDraftOpened?.();
+  }, [draft]);
+
+  const openReply = (email: Email, all: boolean) => {
+    openCompose();
+    const lists = replyRecipients(email, currentUserId, currentUserEmail, all);
+    setReplyTarget(email);
+    setRecipients(lists);
+    setShowCopies(lists.cc.length > 0);
+    setSubject(replySubject(email.subject));
+    // Replies stay about whatever the conversation was about
+    setLinks(collectLinks(emails.filter(e => threadKeyOf(e) === threadKeyOf(email))));
+    setBody(quoteForReply(email));
+  };
+
+  const openForward = (email: Email) => {
+    openCompose();
+    setForwardedAttachments(email.attachments || []);
+    setSubject(forwardSubject(email.subject));
+    setLinks(collectLinks([email]));
+    setBody(forwardBody(email));
+  };
+
+  const closeCompose = () => {
+    setShowCompose(false);
+    setReplyTarget(null);
+    setForwardedAttachments([]);
+  };
+
   const handleFileAttach = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
       const files = Array.from(e.target.files) as File[];
@@ -119,18 +433,14 @@ const Emails: React.FC = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Authentication failure.");
 
-      const { data: recipientProfile, error: verifyError } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('email', to.trim().toLowerCase())
-        .maybeSingle();
-
-      if (verifyError) throw verifyError;
+      const rows = buildRecipientRows(recipients, members);
+      if (rows.length === 0) throw new Error("Add at least one recipient.");
 
-      const status = recipientProfile ? 'sent' : 'failed';
+      // Every address goes out through the outbox; organization members also get the message in their Comms Node inbox
+      const status = 'pending';
       const uploadedAttachments: EmailAttachment[] = [];
       
-      if (recipientProfile && attachments.length > 0) {
+      if (attachments.length > 0) {
         for (const file of attachments) {
           const fileExt = file.name.split('.').pop();
           const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
@@ -155,28 +465,59 @@ const Emails: React.FC = () => {
         }
       }
 
-      const { error } = await supabase.from('emails').insert([{
+      const message = {
         user_id: user.id,
-        recipient_email: to.trim().toLowerCase(),
+        // The legacy single-recipient column is readable by everyone on the message, so a Bcc address never goes in it
+        recipient_email: rows.find(r => r.kind === 'to')?.address || 'undisclosed-recipients',
         subject,
         body,
-        attachments: uploadedAttachments,
-        status: status
-      }]);
+        // Forwarded attachments point at the original's stored files rather than uploading copies
+        attachments: [...forwardedAttachments, ...uploadedAttachments],
+        status: status,
+        thread_id: replyTarget ? threadKeyOf(replyTarget) : null,
+        in_reply_to: replyTarget?.id || null
+      };
+      const { data: created, error } = await supabase.from('emails').insert([message]).select('id').single();
 
       if (error) throw error;
 
-      if (status === 'failed') {
-        alert(`TRANSMISSION ABORTED: Recipient "${to}" is not registered in the system.`);
+      const { error: recipientError } = await supabase
+        .from('email_recipients')
+        .insert(rows.map(r => ({ ...r, email_id: created.id })));
+      if (recipientError) {
+        // A message without recipient rows would never be delivered, so take it back out before reporting
+        await supabase.from('emails').delete().eq('id', created.id);
+        throw recipientError;
       }
-      
-      setShowCompose(false);
-      setTo('');
+
+      // The message is already queued, so a failed link is reported without treating the send as failed
+      try {
+        await linkEmails(supabase, [created.id], links);
+      } catch (linkErr: any) {
+        alert("Message sent, but linking it to its records failed: " + linkErr.message);
+      }
+
+      const memberIds = rows.map(r => r.profile_id).filter((id): id is string => !!id && id !== user.id);
+      if (memberIds.length > 0) {
+        await notifyUsers(supabase, memberIds, {
+          kind: 'new_message',
+          title: subject || '(No subject)',
+          body: `From ${user.email}`,
+          link_view: 'emails'
+        });
+      }
+
+      closeCompose();
+      setRecipients(EMPTY_RECIPIENTS);
       setSubject('');
       setBody('');
       setAttachments([]);
-      fetchEmails();
-      setViewTab('outbox');
+      await fetchEmails();
+      if (replyTarget) {
+        setExpandedIds(prev => new Set(prev).add(created.id));
+      } else {
+        changeView('sent');
+      }
     } catch (e: any) {
       alert("Comms Deployment Failed: " + (e.message || "Unknown error"));
     } finally {
@@ -184,21 +525,69 @@ const Emails: React.FC = () => {
     }
   };
 
+  const handleRetry = async (email: Email) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      await requeueEmail(supabase, email.id);
+      setEmails(prev => prev.map(e => e.id === email.id ? {
+        ...e,
+        status: 'pending',
+        recipients: e.recipients?.map(r => r.status === 'failed' ? { ...r, status: 'pending', attempt_count: 0, last_error: null } : r)
+      } : e));
+      fetchEmails(true);
+    } catch (err: any) {
+      alert("Retry failed: " + err.message);
+    }
+  };
+
+  // "Queued · 2/3 sent" while a multi-recipient message is still going out
+  const deliverySummary = (email: Email) => {
+    const rows = email.recipients || [];
+    const label = email.status === 'pending' && rows.some(r => r.status === 'pending' && r.attempt_count) ? 'Retrying' : EMAIL_STATUSES[email.status].label;
+    return rows.length > 1 && email.status !== 'sent' ? `${label} · ${rows.filter(r => r.status === 'sent').length}/${rows.length} sent` : label;
+  };
+
+  const statusIcon = (status: Email['status'], size: number) =>
+    status === 'failed' ? <AlertTriangle size={size} /> : status === 'pending' ? <Clock size={size} /> : <CheckCircle2 size={size} />;
+
   const getFileIcon = (type: string) => {
     if (type.includes('image')) return <ImageIcon size={18} className="text-blue-500" />;
     if (type.includes('pdf')) return <FileText size={18} className="text-rose-500" />;
     return <FileIcon size={18} className="text-slate-400" />;
   };
 
-  const filteredEmails = emails.filter(e => {
-    const matchesSearch = e.recipient_email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         e.subject.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         e.sender?.full_name?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const isOutbox = e.recipient_email !== currentUserEmail;
-    return matchesSearch && (viewTab === 'outbox' ? isOutbox : !isOutbox);
+  const threads = groupThreads(emails);
+  const threadStates = Object.fromEntries(threads.map(t => [t.id, getThreadState(t, states, currentUserId, currentUserEmail)]));
+  const selectedThread = threads.find(t => t.id === selectedThreadId) || null;
+  const countThreads = (v: MailboxView) => threads.filter(t => isInView(threadStates[t.id], v)).length;
+  const unreadCount = countUnreadThreads(Object.values(threadStates));
+
+  useEffect(() => {
+    if (!loading) onUnreadCountChange?.(unreadCount);
+  }, [unreadCount, loading]);
+
+  const filteredThreads = threads.filter(t => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = t.messages.some(e =>
+      (e.recipients || []).some(r => r.address.includes(term)) ||
+      e.subject.toLowerCase().includes(term) ||
+      (e.links || []).some(l => l.entity_label?.toLowerCase().includes(term)) ||
+      e.sender?.full_name?.toLowerCase().includes(term)
+    );
+    return matchesSearch && isInView(threadStates[t.id], view);
   });
 
+  const selectedThreads = filteredThreads.filter(t => selected[t.id]);
+  const allSelected = filteredThreads.length > 0 && selectedThreads.length === filteredThreads.length;
+  const labelsOf = (threadId: string) => labels.filter(l => threadStates[threadId]?.labelIds.includes(l.id));
+
+  // Bulk actions clear the selection, since the threads they touched usually leave the current folder
+  const bulk = async (action: (targets: EmailThread[]) => Promise<void>) => {
+    await action(selectedThreads);
+    setSelected({});
+  };
+
   return (
     <div className="h-full flex flex-col space-y-6 animate-in fade-in duration-500">
       <div className="flex items-center justify-between">
@@ -209,17 +598,24 @@ const Emails: React.FC = () => {
              <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.2em]">Live Node: {currentUserEmail || 'Identifying...'}</p>
           </div>
         </div>
-        {!selectedEmail && (
+        {!selectedThread && (
           <div className="flex items-center space-x-3">
              <button 
-              onClick={fetchEmails}
+              onClick={() => fetchEmails()}
               disabled={loading}
               className="p-3 bg-white border border-slate-200 text-slate-400 hover:text-blue-600 rounded-2xl transition-all hover:border-blue-200 shadow-sm"
             >
               <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
             </button>
             <button 
-              onClick={() => setShowCompose(true)}
+              onClick={() => setShowGroups(true)}
+              title="Distribution groups"
+              className="p-3 bg-white border border-slate-200 text-slate-400 hover:text-blue-600 rounded-2xl transition-all hover:border-blue-200 shadow-sm"
+            >
+              <Users size={18} />
+            </button>
+            <button 
+              onClick={openCompose}
               className="flex items-center space-x-2 px-6 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all shadow-xl shadow-slate-200"
             >
               <Send size={16} />
@@ -231,123 +627,309 @@ const Emails: React.FC = () => {
 
       <div className="flex-1 flex flex-col lg:flex-row gap-6 overflow-hidden">
         {/* Navigation Sidebar */}
-        {!selectedEmail && (
-          <div className="lg:w-72 flex flex-col space-y-3">
-            <button 
-              onClick={() => setViewTab('inbox')}
-              className={`flex items-center justify-between p-6 rounded-[1.8rem] border transition-all ${
-                viewTab === 'inbox' ? 'bg-blue-600 text-white border-blue-700 shadow-xl shadow-blue-500/10' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
-              }`}
-            >
-               <div className="flex items-center space-x-4">
-                  <div className={`p-2 rounded-xl ${viewTab === 'inbox' ? 'bg-white/20' : 'bg-blue-50 text-blue-600'}`}>
-                    <Inbox size={20} />
-                  </div>
-                  <span className="text-[11px] font-black uppercase tracking-widest">Inbox Logs</span>
-               </div>
-               <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${viewTab === 'inbox' ? 'bg-white/20 text-white' : 'bg-slate-100 text-slate-500'}`}>
-                 {emails.filter(e => e.recipient_email === currentUserEmail).length}
-               </span>
-            </button>
-            <button 
-              onClick={() => setViewTab('outbox')}
-              className={`flex items-center justify-between p-6 rounded-[1.8rem] border transition-all ${
-                viewTab === 'outbox' ? 'bg-slate-900 text-white border-slate-900 shadow-xl shadow-slate-900/10' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
-              }`}
-            >
-               <div className="flex items-center space-x-4">
-                  <div className={`p-2 rounded-xl ${viewTab === 'outbox' ? 'bg-white/10' : 'bg-slate-100 text-slate-400'}`}>
-                    <SendHorizontal size={20} />
+        {!selectedThread && (
+          <div className="lg:w-72 flex flex-col space-y-3 overflow-y-auto scrollbar-hide">
+            {MAILBOX_FOLDERS.map(folder => {
+              const Icon = FOLDER_ICONS[folder.id];
+              const active = view === folder.id;
+              // The inbox counts what is still unread; the other folders count what they hold
+              const count = folder.id === 'inbox' ? unreadCount : countThreads(folder.id);
+              return (
+                <button 
+                  key={folder.id}
+                  onClick={() => changeView(folder.id)}
+                  className={`flex items-center justify-between px-6 py-4 rounded-[1.8rem] border transition-all ${
+                    active ? 'bg-blue-600 text-white border-blue-700 shadow-xl shadow-blue-500/10' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                   <div className="flex items-center space-x-4">
+                      <div className={`p-2 rounded-xl ${active ? 'bg-white/20' : 'bg-blue-50 text-blue-600'}`}>
+                        <Icon size={18} />
+                      </div>
+                      <span className="text-[11px] font-black uppercase tracking-widest">{folder.label}</span>
+                   </div>
+                   {count > 0 && (
+                     <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${active ? 'bg-white/20 text-white' : folder.id === 'inbox' ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500'}`}>
+                       {count}
+                     </span>
+                   )}
+                </button>
+              );
+            })}
+
+            <div className="bg-white rounded-[1.8rem] border border-slate-200 p-5 space-y-2">
+              <div className="flex items-center justify-between px-1 mb-1">
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">Labels</span>
+                <button onClick={() => setLabelForm(labelForm ? null : { name: '', color: 'blue' })} className="p-1.5 text-slate-300 hover:text-blue-600 transition-colors">
+                  {labelForm ? <X size={14} /> : <Plus size={14} />}
+                </button>
+              </div>
+              {labelForm && (
+                <form onSubmit={handleCreateLabel} className="space-y-3 pb-2">
+                  <input
+                    autoFocus
+                    required
+                    value={labelForm.name}
+                    onChange={e => setLabelForm({ ...labelForm, name: e.target.value })}
+                    className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-black outline-none placeholder:text-slate-300"
+                    placeholder="Label name"
+                  />
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-1.5">
+                      {Object.entries(LABEL_COLORS).map(([color, style]) => (
+                        <button
+                          key={color}
+                          type="button"
+                          onClick={() => setLabelForm({ ...labelForm, color })}
+                          className={`w-4 h-4 rounded-full ${style.dot} ${labelForm.color === color ? 'ring-2 ring-offset-2 ring-slate-400' : ''}`}
+                        />
+                      ))}
+                    </div>
+                    <button type="submit" className="px-3 py-1.5 bg-slate-900 text-white rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-slate-800 transition-all">Add</button>
                   </div>
-                  <span className="text-[11px] font-black uppercase tracking-widest">Outbox Logs</span>
-               </div>
-               <span className={`text-[10px] font-black px-2 py-0.5 rounded-full ${viewTab === 'outbox' ? 'bg-white/10 text-white' : 'bg-slate-100 text-slate-500'}`}>
-                 {emails.filter(e => e.recipient_email !== currentUserEmail).length}
-               </span>
-            </button>
+                </form>
+              )}
+              {labels.length === 0 && !labelForm ? (
+                <p className="px-1 py-2 text-[10px] font-black text-slate-300 uppercase tracking-widest">No labels yet</p>
+              ) : (
+                labels.map(label => {
+                  const active = view === `label:${label.id}`;
+                  return (
+                    <div key={label.id} className={`flex items-center justify-between rounded-xl group transition-all ${active ? 'bg-slate-100' : 'hover:bg-slate-50'}`}>
+                      <button onClick={() => changeView(`label:${label.id}`)} className="flex-1 flex items-center space-x-3 px-3 py-2 min-w-0 text-left">
+                        <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${getLabelColor(label.color).dot}`}></span>
+                        <span className="text-xs font-black text-slate-700 truncate">{label.name}</span>
+                        <span className="text-[9px] font-black text-slate-400">{countThreads(`label:${label.id}`) || ''}</span>
+                      </button>
+                      <button onClick={() => handleDeleteLabel(label)} className="opacity-0 group-hover:opacity-100 p-2 text-slate-300 hover:text-rose-600 transition-all">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
           </div>
         )}
 
         {/* Dynamic Content Area */}
         <div className="flex-1 bg-white rounded-[2.5rem] border border-slate-200 shadow-sm flex flex-col overflow-hidden">
-          {selectedEmail ? (
-            // DETAIL VIEW
+          {selectedThread ? (
+            // THREAD VIEW
             <div className="flex flex-col h-full animate-in slide-in-from-right duration-400">
               <div className="p-8 border-b border-slate-50 flex items-center justify-between bg-slate-50/30">
                 <button 
-                  onClick={() => setSelectedEmail(null)}
+                  onClick={() => closeThread()}
                   className="flex items-center space-x-2 text-slate-400 hover:text-slate-900 transition-colors group"
                 >
                   <ArrowLeft size={18} className="group-hover:-translate-x-1 transition-transform" />
                   <span className="text-[10px] font-black uppercase tracking-widest">Registry List</span>
                 </button>
-                <div className={`flex items-center space-x-2 text-[10px] font-black px-5 py-2 rounded-full uppercase tracking-widest border ${
-                   selectedEmail.status === 'failed' ? 'text-rose-600 bg-rose-50 border-rose-100' : 'text-emerald-600 bg-emerald-50 border-emerald-100'
-                }`}>
-                   {selectedEmail.status === 'failed' ? <AlertTriangle size={12} /> : <CheckCircle2 size={12} />}
-                   <span>{selectedEmail.status === 'failed' ? 'Registry Rejection' : `Verified Broadcast`}</span>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => toggleStar([selectedThread])}
+                    title={threadStates[selectedThread.id]?.starred ? 'Unstar' : 'Star'}
+                    className={`p-2.5 bg-white border border-slate-200 rounded-xl transition-all ${threadStates[selectedThread.id]?.starred ? 'text-amber-500' : 'text-slate-400 hover:text-amber-500'}`}
+                  >
+                    <Star size={16} className={threadStates[selectedThread.id]?.starred ? 'fill-amber-400' : ''} />
+                  </button>
+                  {threadStates[selectedThread.id]?.incoming && (
+                    <button
+                      onClick={() => { markThreads([selectedThread], false); closeThread(); }}
+                      title="Mark unread"
+                      className="p-2.5 bg-white border border-slate-200 text-slate-400 hover:text-blue-600 rounded-xl transition-all"
+                    >
+                      <Mail size={16} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => { toggleArchive([selectedThread]); closeThread(); }}
+                    title={view === 'archive' ? 'Move to inbox' : 'Archive'}
+                    className="p-2.5 bg-white border border-slate-200 text-slate-400 hover:text-blue-600 rounded-xl transition-all"
+                  >
+                    {view === 'archive' ? <Undo2 size={16} /> : <Archive size={16} />}
+                  </button>
+                  <button
+                    onClick={() => { toggleTrash([selectedThread]); closeThread(); }}
+                    title={view === 'trash' ? 'Restore' : 'Move to trash'}
+                    className="p-2.5 bg-white border border-slate-200 text-slate-400 hover:text-rose-600 rounded-xl transition-all"
+                  >
+                    {view === 'trash' ? <Undo2 size={16} /> : <Trash2 size={16} />}
+                  </button>
+                  <div className="flex items-center space-x-2 text-[10px] font-black px-5 py-2 rounded-full uppercase tracking-widest border text-slate-500 bg-white border-slate-200">
+                     <MessagesSquare size={12} />
+                     <span>{selectedThread.messages.length} Message{selectedThread.messages.length === 1 ? '' : 's'}</span>
+                  </div>
                 </div>
               </div>
               
-              <div className="flex-1 overflow-y-auto p-12 space-y-10">
-                <div className="flex items-start justify-between">
-                  <div className="space-y-4">
-                     <h2 className="text-4xl font-black text-slate-900 tracking-tight leading-tight">{selectedEmail.subject || '(Operational Briefing)'}</h2>
-                     <div className="flex flex-wrap gap-4">
-                        <div className="flex items-center space-x-3 bg-slate-50 px-5 py-2.5 rounded-2xl border border-slate-100">
-                           <div className="w-8 h-8 rounded-lg bg-white overflow-hidden border border-slate-200 flex items-center justify-center">
-                              {selectedEmail.sender?.avatar_url ? <img src={selectedEmail.sender.avatar_url} className="w-full h-full object-cover" /> : <UserIcon size={14} className="text-slate-300" />}
-                           </div>
-                           <div className="flex flex-col">
-                              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">From Node</span>
-                              <span className="text-[11px] font-black text-slate-900 uppercase">{selectedEmail.sender?.full_name || 'Registry Sender'}</span>
-                           </div>
-                        </div>
-                        <div className="flex items-center space-x-3 bg-slate-50 px-5 py-2.5 rounded-2xl border border-slate-100">
-                           <div className="w-8 h-8 rounded-lg bg-white border border-slate-200 flex items-center justify-center text-slate-400">
-                              <Mail size={14} />
-                           </div>
-                           <div className="flex flex-col">
-                              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Target Node</span>
-                              <span className="text-[11px] font-black text-slate-900 uppercase">{selectedEmail.recipient_email}</span>
-                           </div>
-                        </div>
-                     </div>
-                  </div>
-                  <div className="text-right">
-                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Transmission Date</p>
-                    <p className="text-sm font-black text-slate-900">{new Date(selectedEmail.created_at).toLocaleString()}</p>
-                  </div>
+              <div className="flex-1 overflow-y-auto p-12 space-y-8">
+                <div className="space-y-4">
+                  <h2 className="text-4xl font-black text-slate-900 tracking-tight leading-tight">{selectedThread.subject || '(Operational Briefing)'}</h2>
+                  <RecordLinkInput value={collectLinks(selectedThread.messages)} onChange={next => updateThreadLinks(selectedThread, next)} />
+                  {labels.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Tag size={14} className="text-slate-300" />
+                      {labels.map(label => {
+                        const applied = threadStates[selectedThread.id]?.labelIds.includes(label.id);
+                        return (
+                          <button
+                            key={label.id}
+                            onClick={() => toggleLabel([selectedThread], label.id)}
+                            className={`px-3 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${applied ? getLabelColor(label.color).chip : 'bg-white text-slate-300 border-dashed border-slate-200 hover:text-slate-500'}`}
+                          >
+                            {label.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
                 </div>
 
-                <div className="bg-slate-50 p-12 rounded-[3rem] border border-slate-100 text-slate-700 leading-relaxed text-base whitespace-pre-wrap font-medium shadow-inner min-h-[400px]">
-                  {selectedEmail.body}
-                </div>
+                {selectedThread.messages.map(message => {
+                  const outgoing = isOutgoing(message);
+                  const expanded = expandedIds.has(message.id);
+                  const ownBcc = ownRecipientRows(message, currentUserId, currentUserEmail).some(r => r.kind === 'bcc');
+                  return (
+                    <div key={message.id} className={`border rounded-[2.5rem] overflow-hidden transition-all ${expanded ? 'border-slate-200 shadow-sm' : 'border-slate-100'}`}>
+                      <div 
+                        onClick={() => toggleExpanded(message.id)}
+                        className="p-6 flex items-center justify-between cursor-pointer hover:bg-slate-50/60 transition-all"
+                      >
+                        <div className="flex items-center space-x-4 min-w-0">
+                          <div className="w-10 h-10 rounded-xl bg-slate-50 overflow-hidden border border-slate-200 flex items-center justify-center flex-shrink-0">
+                             {message.sender?.avatar_url ? <img src={message.sender.avatar_url} className="w-full h-full object-cover" /> : <UserIcon size={16} className="text-slate-300" />}
+                          </div>
+                          <div className="min-w-0">
+                            <p className="text-[11px] font-black text-slate-900 uppercase">{message.sender?.full_name || 'Registry Sender'}</p>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate max-w-xl">
+                              {expanded
+                                ? RECIPIENT_KINDS
+                                    .map(k => ({ label: k.label, addresses: k.id === 'bcc' && !outgoing ? (ownBcc ? ['you'] : []) : recipientAddresses(message, k.id) }))
+                                    .filter(k => k.addresses.length > 0)
+                                    .map(k => `${k.label} ${k.addresses.join(', ')}`)
+                                    .join(' · ')
+                                : message.body}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-4 flex-shrink-0">
+                          {outgoing && (
+                            <div className={`flex items-center space-x-1.5 text-[8px] font-black uppercase tracking-[0.3em] px-3 py-1 rounded-full border ${EMAIL_STATUSES[message.status].color}`}>
+                               {statusIcon(message.status, 10)}
+                               <span>{EMAIL_STATUSES[message.status].label}</span>
+                            </div>
+                          )}
+                          <span className="text-[9px] text-slate-400 font-black uppercase tracking-[0.2em]">{new Date(message.created_at).toLocaleString()}</span>
+                        </div>
+                      </div>
 
-                {selectedEmail.attachments && selectedEmail.attachments.length > 0 && (
-                  <div className="space-y-6">
-                    <div className="flex items-center space-x-3">
-                       <Paperclip size={18} className="text-slate-400" />
-                       <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Operational Assets ({selectedEmail.attachments.length})</h4>
-                    </div>
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                      {selectedEmail.attachments.map((at, idx) => (
-                        <div key={idx} className="flex items-center justify-between p-5 bg-white border border-slate-200 rounded-3xl group hover:border-blue-500 transition-all shadow-sm hover:shadow-xl hover:shadow-blue-500/5">
-                          <div className="flex items-center space-x-4">
-                            <div className="p-3 bg-slate-50 rounded-2xl group-hover:bg-blue-50 transition-colors">
-                              {getFileIcon(at.type)}
+                      {expanded && (
+                        <div className="px-8 pb-8 space-y-6">
+                          {outgoing && message.recipients && message.recipients.length > 0 && (
+                            <div className="border border-slate-100 rounded-3xl overflow-hidden">
+                              <div className="flex items-center justify-between px-6 py-3 bg-slate-50/60 border-b border-slate-100">
+                                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Delivery · {message.recipients.length} recipient{message.recipients.length === 1 ? '' : 's'}</span>
+                                {message.status === 'failed' && (
+                                  <button
+                                    onClick={() => handleRetry(message)}
+                                    className="flex items-center space-x-2 px-4 py-1.5 bg-white border border-rose-200 text-rose-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-50 transition-all"
+                                  >
+                                    <RefreshCw size={12} />
+                                    <span>Retry Failed</span>
+                                  </button>
+                                )}
+                              </div>
+                              <div className="divide-y divide-slate-50">
+                                {message.recipients.map(r => (
+                                  <div key={r.id} className="flex items-center justify-between px-6 py-3">
+                                    <div className="min-w-0">
+                                      <p className="text-xs font-black text-slate-900 truncate">
+                                        <span className="text-[9px] text-slate-400 uppercase tracking-widest mr-2">{RECIPIENT_KINDS.find(k => k.id === r.kind)?.label}</span>
+                                        {r.address}
+                                      </p>
+                                      {r.status === 'pending' && !!r.attempt_count && (
+                                        <p className="text-[10px] font-medium text-amber-600">
+                                          Retrying · attempt {r.attempt_count + 1} of {MAX_DELIVERY_ATTEMPTS}{r.next_attempt_at ? ` at ${new Date(r.next_attempt_at).toLocaleTimeString()}` : ''}
+                                        </p>
+                                      )}
+                                      {r.last_error && <p className="text-[10px] font-medium text-rose-500 truncate max-w-xl">{r.last_error}</p>}
+                                    </div>
+                                    <div className="flex items-center space-x-3 flex-shrink-0">
+                                      {r.read_at && (
+                                        <span title={`Read ${new Date(r.read_at).toLocaleString()}`} className="flex items-center space-x-1 text-[9px] font-black text-blue-600 uppercase tracking-widest">
+                                          <Eye size={12} />
+                                          <span>Read</span>
+                                        </span>
+                                      )}
+                                      <div className={`flex items-center space-x-1.5 text-[8px] font-black uppercase tracking-[0.3em] px-3 py-1 rounded-full border ${EMAIL_STATUSES[r.status].color}`}>
+                                        {statusIcon(r.status, 10)}
+                                        <span>{EMAIL_STATUSES[r.status].label}</span>
+                                      </div>
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
                             </div>
-                            <div>
-                               <p className="text-xs font-black text-slate-900 truncate max-w-[150px] uppercase tracking-tight">{at.name}</p>
-                               <p className="text-[9px] text-slate-400 font-black uppercase">{formatFileSize(at.size)}</p>
+                          )}
+
+                          <div className="bg-slate-50 p-10 rounded-[2rem] border border-slate-100 text-slate-700 leading-relaxed text-base whitespace-pre-wrap font-medium shadow-inner">
+                            {message.body}
+                          </div>
+
+                          {message.attachments && message.attachments.length > 0 && (
+                            <div className="space-y-4">
+                              <div className="flex items-center space-x-3">
+                                 <Paperclip size={18} className="text-slate-400" />
+                                 <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Operational Assets ({message.attachments.length})</h4>
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                                {message.attachments.map((at, idx) => (
+                                  <div key={idx} className="flex items-center justify-between p-5 bg-white border border-slate-200 rounded-3xl group hover:border-blue-500 transition-all shadow-sm hover:shadow-xl hover:shadow-blue-500/5">
+                                    <div className="flex items-center space-x-4">
+                                      <div className="p-3 bg-slate-50 rounded-2xl group-hover:bg-blue-50 transition-colors">
+                                        {getFileIcon(at.type)}
+                                      </div>
+                                      <div>
+                                         <p className="text-xs font-black text-slate-900 truncate max-w-[150px] uppercase tracking-tight">{at.name}</p>
+                                         <p className="text-[9px] text-slate-400 font-black uppercase">{formatFileSize(at.size)}</p>
+                                      </div>
+                                    </div>
+                                    <a href={at.url} target="_blank" rel="noreferrer" className="p-3 text-slate-300 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"><ExternalLink size={18} /></a>
+                                  </div>
+                                ))}
+                              </div>
                             </div>
+                          )}
+
+                          <div className="flex items-center space-x-3">
+                            <button
+                              onClick={() => openReply(message, false)}
+                              className="flex items-center space-x-2 px-6 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all"
+                            >
+                              <Reply size={14} />
+                              <span>Reply</span>
+                            </button>
+                            <button
+                              onClick={() => openReply(message, true)}
+                              className="flex items-center space-x-2 px-6 py-3 bg-white border border-slate-200 text-slate-600 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-slate-50 transition-all"
+                            >
+                              <ReplyAll size={14} />
+                              <span>Reply All</span>
+                            </button>
+                            <button
+                              onClick={() => openForward(message)}
+                              className="flex items-center space-x-2 px-6 py-3 bg-white border border-slate-200 text-slate-600 rounded-2xl font-black uppercase text-[10px] tracking-widest hover:bg-slate-50 transition-all"
+                            >
+                              <Forward size={14} />
+                              <span>Forward</span>
+                            </button>
                           </div>
-                          <a href={at.url} target="_blank" rel="noreferrer" className="p-3 text-slate-300 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"><ExternalLink size={18} /></a>
                         </div>
-                      ))}
+                      )}
                     </div>
-                  </div>
-                )}
+                  );
+                })}
               </div>
             </div>
           ) : (
@@ -358,12 +940,58 @@ const Emails: React.FC = () => {
                   <Search className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-300" size={20} />
                   <input 
                     type="text" 
-                    placeholder={`Search logs for ${viewTab === 'inbox' ? 'sender' : 'recipient'}...`}
+                    placeholder="Search logs for sender, recipient or subject..."
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="w-full pl-14 pr-6 py-4 bg-white border border-slate-200 rounded-3xl text-sm font-black focus:ring-4 focus:ring-blue-500/10 outline-none transition-all shadow-sm"
                   />
                 </div>
+                {!loading && filteredThreads.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mt-4 px-4">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={e => setSelected(e.target.checked ? Object.fromEntries(filteredThreads.map(t => [t.id, true])) : {})}
+                      className="w-4 h-4 accent-blue-600 cursor-pointer mr-2"
+                    />
+                    {selectedThreads.length === 0 ? (
+                      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{filteredThreads.length} thread{filteredThreads.length === 1 ? '' : 's'}</span>
+                    ) : (
+                      <>
+                        <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest mr-2">{selectedThreads.length} selected</span>
+                        <button onClick={() => bulk(ts => markThreads(ts, true))} className="flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all">
+                          <MailOpen size={12} /><span>Read</span>
+                        </button>
+                        <button onClick={() => bulk(ts => markThreads(ts, false))} className="flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all">
+                          <Mail size={12} /><span>Unread</span>
+                        </button>
+                        <button onClick={() => bulk(toggleStar)} className="flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all">
+                          <Star size={12} /><span>{selectedThreads.every(t => threadStates[t.id].starred) ? 'Unstar' : 'Star'}</span>
+                        </button>
+                        <button onClick={() => bulk(toggleArchive)} className="flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-50 transition-all">
+                          {view === 'archive' ? <Undo2 size={12} /> : <Archive size={12} />}<span>{view === 'archive' ? 'Move to Inbox' : 'Archive'}</span>
+                        </button>
+                        <button onClick={() => bulk(toggleTrash)} className="flex items-center space-x-2 px-3 py-1.5 bg-white border border-rose-200 text-rose-600 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-rose-50 transition-all">
+                          {view === 'trash' ? <Undo2 size={12} /> : <Trash2 size={12} />}<span>{view === 'trash' ? 'Restore' : 'Trash'}</span>
+                        </button>
+                        {labels.length > 0 && (
+                          <select
+                            value=""
+                            onChange={e => e.target.value && bulk(ts => toggleLabel(ts, e.target.value))}
+                            className="px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-xl text-[9px] font-black uppercase tracking-widest outline-none cursor-pointer"
+                          >
+                            <option value="">Label...</option>
+                            {labels.map(label => (
+                              <option key={label.id} value={label.id}>
+                                {selectedThreads.every(t => threadStates[t.id].labelIds.includes(label.id)) ? `Remove ${label.name}` : label.name}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="flex-1 overflow-y-auto scrollbar-hide">
@@ -372,7 +1000,7 @@ const Emails: React.FC = () => {
                       <Loader2 className="animate-spin text-blue-600" size={48} />
                       <p className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em]">Querying Registry Nodes...</p>
                    </div>
-                ) : filteredEmails.length === 0 ? (
+                ) : filteredThreads.length === 0 ? (
                   <div className="p-40 text-center">
                     <Mail size={80} className="text-slate-100 mx-auto mb-8" />
                     <h3 className="text-2xl font-black text-slate-900 tracking-tight">Node Log Empty</h3>
@@ -380,20 +1008,38 @@ const Emails: React.FC = () => {
                   </div>
                 ) : (
                   <div className="divide-y divide-slate-100">
-                    {filteredEmails.map(email => {
-                      const isInbox = email.recipient_email === currentUserEmail;
+                    {filteredThreads.map(thread => {
+                      // The row speaks for the latest message you received in the inbox, the latest you sent under Sent,
+                      // and the latest either way in every other folder
+                      const state = threadStates[thread.id];
+                      const isInbox = view !== 'sent' && (view === 'inbox' || !isOutgoing(thread.latest));
+                      const email = view === 'inbox' ? [...thread.messages].reverse().find(isIncoming) || thread.latest
+                        : view === 'sent' ? [...thread.messages].reverse().find(isOutgoing) || thread.latest
+                        : thread.latest;
+                      const unread = state.unreadRowIds.length > 0;
                       return (
                         <div 
-                          key={email.id} 
-                          onClick={() => setSelectedEmail(email)}
-                          className="p-10 hover:bg-blue-50/30 transition-all group cursor-pointer flex items-center space-x-10"
+                          key={thread.id} 
+                          onClick={() => openThread(thread.id, thread.messages)}
+                          className={`p-10 hover:bg-blue-50/30 transition-all group cursor-pointer flex items-center space-x-10 ${selected[thread.id] ? 'bg-blue-50/40' : ''}`}
                         >
+                          <div className="flex flex-col items-center space-y-4" onClick={e => e.stopPropagation()}>
+                            <input
+                              type="checkbox"
+                              checked={!!selected[thread.id]}
+                              onChange={e => setSelected({ ...selected, [thread.id]: e.target.checked })}
+                              className="w-4 h-4 accent-blue-600 cursor-pointer"
+                            />
+                            <button onClick={() => toggleStar([thread])} title={state.starred ? 'Unstar' : 'Star'} className={`transition-colors ${state.starred ? 'text-amber-500' : 'text-slate-200 hover:text-amber-500'}`}>
+                              <Star size={18} className={state.starred ? 'fill-amber-400' : ''} />
+                            </button>
+                          </div>
                           <div className={`w-16 h-16 rounded-[1.8rem] border flex items-center justify-center transition-all shadow-sm ${
-                            email.status === 'failed' ? 'bg-rose-50 text-rose-500 border-rose-200' : 
+                            email.status === 'failed' && !isInbox ? 'bg-rose-50 text-rose-500 border-rose-200' : 
                             isInbox ? 'bg-blue-600 text-white border-blue-700' :
                             'bg-slate-900 text-white border-slate-900'
                           }`}>
-                             {email.status === 'failed' ? <AlertTriangle size={28} /> : 
+                             {email.status === 'failed' && !isInbox ? <AlertTriangle size={28} /> : 
                               isInbox ? <ArrowDownLeft size={28} /> : <ArrowUpRight size={28} />}
                           </div>
                           <div className="flex-1 min-w-0">
@@ -407,13 +1053,22 @@ const Emails: React.FC = () => {
                                       )}
                                    </div>
                                    <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
-                                     {isInbox ? 'From:' : 'Target:'} <span className="text-slate-900 ml-1">{isInbox ? (email.sender?.full_name || 'Registry Node') : email.recipient_email}</span>
+                                     {isInbox ? 'From:' : 'Target:'} <span className="text-slate-900 ml-1">{isInbox ? (email.sender?.full_name || 'Registry Node') : summarizeRecipients(email)}</span>
                                    </h4>
+                                   {unread && <div className="w-2 h-2 bg-blue-600 rounded-full" title="Unread"></div>}
+                                </div>
+                                <div className="flex items-center space-x-3">
+                                   {thread.messages.length > 1 && (
+                                     <span className="flex items-center space-x-1 text-[9px] font-black text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full">
+                                        <MessagesSquare size={10} />
+                                        <span>{thread.messages.length}</span>
+                                     </span>
+                                   )}
+                                   <span className="text-[9px] text-slate-400 font-black uppercase tracking-[0.2em]">{new Date(thread.latest.created_at).toLocaleDateString()}</span>
                                 </div>
-                                <span className="text-[9px] text-slate-400 font-black uppercase tracking-[0.2em]">{new Date(email.created_at).toLocaleDateString()}</span>
                              </div>
-                             <p className={`text-lg font-black truncate mb-1 tracking-tight ${email.status === 'failed' ? 'text-rose-600' : 'text-slate-800'}`}>
-                               {email.status === 'failed' && '[SECURITY REJECTION] '}{email.subject || '(Operational Protocol)'}
+                             <p className={`text-lg truncate mb-1 tracking-tight ${unread ? 'font-black' : 'font-bold'} ${email.status === 'failed' && !isInbox ? 'text-rose-600' : unread ? 'text-slate-900' : 'text-slate-600'}`}>
+                               {email.status === 'failed' && !isInbox && '[UNDELIVERED] '}{email.subject || '(Operational Protocol)'}
                              </p>
                              <p className="text-sm text-slate-500 font-medium truncate max-w-3xl leading-relaxed">{email.body}</p>
                              
@@ -431,14 +1086,21 @@ const Emails: React.FC = () => {
                                         <span className="text-[9px] font-black text-blue-600 uppercase tracking-widest">{email.sender?.email || 'verified_origin'}</span>
                                      </div>
                                    )}
+                                   {collectLinks(thread.messages).slice(0, 2).map(link => (
+                                     <span key={`${link.entity_type}-${link.entity_id}`} className="flex items-center space-x-1.5 px-3 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[9px] font-black text-slate-500 uppercase tracking-widest">
+                                       <Link2 size={10} />
+                                       <span className="truncate max-w-[160px]">{link.entity_label || getLinkEntityMeta(link.entity_type).label}</span>
+                                     </span>
+                                   ))}
+                                   {labelsOf(thread.id).map(label => (
+                                     <span key={label.id} className={`px-3 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${getLabelColor(label.color).chip}`}>{label.name}</span>
+                                   ))}
                                 </div>
-                                <div className={`text-[8px] font-black uppercase tracking-[0.3em] px-4 py-1.5 rounded-full border shadow-sm ${
-                                   email.status === 'failed' ? 'bg-rose-50 text-rose-600 border-rose-100' : 
-                                   email.status === 'sent' ? 'bg-emerald-50 text-emerald-600 border-emerald-100' :
-                                   'bg-amber-50 text-amber-600 border-amber-100'
-                                }`}>
-                                   {email.status === 'failed' ? 'Registry Rejection' : email.status}
-                                </div>
+                                {!isInbox && (
+                                  <div className={`text-[8px] font-black uppercase tracking-[0.3em] px-4 py-1.5 rounded-full border shadow-sm ${EMAIL_STATUSES[email.status].color}`}>
+                                     {deliverySummary(email)}
+                                  </div>
+                                )}
                              </div>
                           </div>
                           <div className="p-4 bg-slate-50 rounded-2xl text-slate-200 group-hover:text-blue-600 group-hover:bg-blue-50 transition-all">
@@ -455,6 +1117,16 @@ const Emails: React.FC = () => {
         </div>
       </div>
 
+      {showGroups && (
+        <EmailGroupManager
+          groups={groups}
+          members={members}
+          onClose={() => setShowGroups(false)}
+          onChanged={loadGroups}
+          readOnly={!can(profile, 'comms.groups')}
+        />
+      )}
+
       {/* Broadcast Composer */}
       {showCompose && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-md animate-in fade-in duration-300">
@@ -464,23 +1136,33 @@ const Emails: React.FC = () => {
                  <Send size={150} />
               </div>
               <div className="relative z-10">
-                <h3 className="font-black text-3xl tracking-tighter uppercase">Deploy Transmission</h3>
+                <h3 className="font-black text-3xl tracking-tighter uppercase">{replyTarget ? 'Reply Transmission' : 'Deploy Transmission'}</h3>
                 <p className="text-slate-500 text-[10px] font-black mt-2 uppercase tracking-[0.3em]">Secure Sector Channel Deployment</p>
               </div>
-              <button onClick={() => setShowCompose(false)} className="p-4 bg-white/5 rounded-3xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10">
+              <button onClick={closeCompose} className="p-4 bg-white/5 rounded-3xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10">
                 <X size={32} />
               </button>
             </div>
 
             <form onSubmit={handleSendEmail} className="p-12 space-y-8 bg-white">
               <div className="space-y-6">
-                <div className="flex flex-col space-y-2">
-                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] ml-4">Recipient Key (Email)</label>
-                   <div className="relative">
-                      <Mail className="absolute left-6 top-1/2 -translate-y-1/2 text-slate-300" size={20} />
-                      <input required type="email" value={to} onChange={e => setTo(e.target.value)} placeholder="Target node identifier..." className="w-full pl-16 pr-8 py-5 bg-slate-50 border border-slate-200 rounded-3xl text-sm font-black outline-none focus:ring-4 focus:ring-blue-500/10 transition-all" />
-                   </div>
-                </div>
+                {RECIPIENT_KINDS.filter(k => k.id === 'to' || showCopies).map(k => (
+                  <RecipientInput
+                    key={k.id}
+                    label={k.id === 'to' ? 'Recipient Keys (To)' : k.id === 'cc' ? 'Copy (Cc)' : 'Blind Copy (Bcc)'}
+                    value={recipients[k.id]}
+                    onChange={addresses => setRecipients(prev => ({ ...prev, [k.id as EmailRecipientKind]: addresses }))}
+                    members={members}
+                    groups={groups}
+                    placeholder={k.id === 'to' ? 'Operator, group or email address...' : 'Add addresses...'}
+                  />
+                ))}
+                {!showCopies && (
+                  <button type="button" onClick={() => setShowCopies(true)} className="ml-4 text-[10px] font-black text-blue-600 uppercase tracking-widest hover:text-blue-800 transition-colors">
+                    + Cc / Bcc
+                  </button>
+                )}
+                <RecordLinkInput value={links} onChange={setLinks} />
                 <div className="flex flex-col space-y-2">
                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] ml-4">Subject Protocol</label>
                    <input required value={subject} onChange={e => setSubject(e.target.value)} placeholder="Operation Designation..." className="w-full px-8 py-5 bg-slate-50 border border-slate-200 rounded-3xl text-sm font-black outline-none focus:ring-4 focus:ring-blue-500/10 transition-all" />
@@ -498,15 +1180,22 @@ const Emails: React.FC = () => {
                    <div className="flex items-center space-x-4 p-5 bg-amber-50 border border-amber-100 rounded-3xl text-amber-700">
                       <AlertTriangle size={24} className="flex-shrink-0" />
                       <div>
-                        <p className="text-[10px] font-black uppercase tracking-widest mb-1">Discovery Check Active</p>
-                        <p className="text-[11px] font-medium opacity-80 leading-relaxed">System will verify target email in the global registry. Unverified nodes will trigger an automated deployment abort.</p>
+                        <p className="text-[10px] font-black uppercase tracking-widest mb-1">Queued Delivery</p>
+                        <p className="text-[11px] font-medium opacity-80 leading-relaxed">Transmissions are queued and sent by the outbox worker, with automatic retries. Organization members also receive a copy in their inbox.</p>
                       </div>
                    </div>
                 </div>
               </div>
 
-              {attachments.length > 0 && (
+              {(attachments.length > 0 || forwardedAttachments.length > 0) && (
                  <div className="flex flex-wrap gap-3 p-4 bg-slate-50 rounded-3xl border-2 border-dashed border-slate-200">
+                    {forwardedAttachments.map((at, idx) => (
+                       <div key={`fwd-${idx}`} className="flex items-center space-x-3 bg-white px-4 py-2.5 rounded-2xl border border-blue-100 shadow-sm">
+                          {getFileIcon(at.type)}
+                          <span className="text-[10px] font-black text-slate-600 truncate max-w-[150px] uppercase tracking-tight">{at.name}</span>
+                          <button type="button" onClick={() => setForwardedAttachments(prev => prev.filter((_, i) => i !== idx))} className="text-slate-300 hover:text-rose-500 transition-colors"><X size={16} /></button>
+                       </div>
+                    ))}
                     {attachments.map((file, idx) => (
                        <div key={idx} className="flex items-center space-x-3 bg-white px-4 py-2.5 rounded-2xl border border-slate-200 shadow-sm">
                           {getFileIcon(file.type)}
@@ -529,7 +1218,7 @@ const Emails: React.FC = () => {
                 <input type="file" multiple ref={fileInputRef} onChange={handleFileAttach} className="hidden" />
 
                 <div className="flex space-x-6">
-                  <button type="button" onClick={() => setShowCompose(false)} className="px-10 py-5 text-slate-400 rounded-[2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-50 transition-all border border-transparent hover:border-slate-100">Abort</button>
+                  <button type="button" onClick={closeCompose} className="px-10 py-5 text-slate-400 rounded-[2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-50 transition-all border border-transparent hover:border-slate-100">Abort</button>
                   <button 
                     type="submit" 
                     disabled={isSending}
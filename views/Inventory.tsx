@@ -16,31 +16,116 @@ import {
   Save,
   User as UserIcon,
   ShieldCheck,
-  Mail
+  Mail,
+  History,
+  Network,
+  MapPin,
+  FileSpreadsheet,
+  ArrowUp,
+  ArrowDown,
+  ChevronLeft,
+  ChevronRight,
+  FolderTree,
+  Shirt,
+  ScanLine,
+  Printer
 } from 'lucide-react';
 import { getSupabaseClient } from '../lib/supabase';
-import { InventoryItem } from '../types';
+import { Email, InventoryItem, ProductCategory, Profile, StockLocation, Supplier } from '../types';
 import { getInventoryInsights } from '../services/geminiService';
+import { postStockCount, postStockMovement, fetchStockLevels, REASON_CODES } from '../lib/stockLedger';
+import { fetchLocations, getLocationScope, sortLocationTree, sumInScope } from '../lib/locations';
+import { isLowStock, DEFAULT_REORDER_POINT } from '../lib/replenishment';
+import { fetchSuppliers } from '../lib/purchasing';
+import StockMovementPanel from '../components/StockMovementPanel';
+import LocationManager from '../components/LocationManager';
+import InventoryImportWizard from '../components/InventoryImportWizard';
+import BomPanel from '../components/BomPanel';
+import CategoryManager from '../components/CategoryManager';
+import StylePanel from '../components/StylePanel';
+import InventoryScanPanel from '../components/InventoryScanPanel';
+import { can } from '../lib/permissions';
+import { ledgerToCsv } from '../lib/inventoryImport';
+import {
+  fetchCategories,
+  formatAttributeValue,
+  getCategoryAttributes,
+  getCategoryPath,
+  getCategoryScope,
+  normalizeAttributes,
+  sortCategoryTree
+} from '../lib/categories';
+import { downloadCsv } from '../lib/csv';
+import { downloadLabelSheet } from '../lib/labels';
+import { itemLabel } from '../lib/scan';
+import {
+  InventoryQuery,
+  LedgerScope,
+  ATTRIBUTE_PARAM_PREFIX,
+  PAGE_SIZES,
+  STOCK_STATUSES,
+  SortColumn,
+  DEFAULT_INVENTORY_QUERY,
+  LEDGER_PARAM_KEYS,
+  fetchAllMatchingItems,
+  fetchInventoryPage,
+  queryFromParams,
+  queryToParams,
+  toggleSort
+} from '../lib/inventoryQuery';
+import { getUrlParams, setUrlParams } from '../lib/urlState';
+import { fetchOrgMembers } from '../lib/organizations';
+import { EmailDraft } from '../lib/emailLinks';
+
+// Reference data the ledger filters are resolved against
+interface ReferenceData {
+  locations: StockLocation[];
+  categories: ProductCategory[];
+}
 
 interface InventoryProps {
   isConnected?: boolean;
+  profile?: Profile | null;
+  onOpenMessage?: (email: Email) => void;
+  onComposeMessage?: (draft: EmailDraft) => void;
 }
 
-const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
+const Inventory: React.FC<InventoryProps> = ({ isConnected, profile, onOpenMessage, onComposeMessage }) => {
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [query, setQuery] = useState<InventoryQuery>(() => queryFromParams(getUrlParams()));
+  const [searchInput, setSearchInput] = useState(query.search);
+  const [attributeInput, setAttributeInput] = useState(query.attributes);
+  const [total, setTotal] = useState(0);
+  const [owners, setOwners] = useState<Profile[]>([]);
   const [showModal, setShowModal] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [insights, setInsights] = useState<{insight: string, action: string, priority: string}[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
   const [currentUser, setCurrentUser] = useState<string | null>(null);
+  const [historyItem, setHistoryItem] = useState<InventoryItem | null>(null);
+  const [bomItem, setBomItem] = useState<InventoryItem | null>(null);
+  const [adjustmentReason, setAdjustmentReason] = useState('cycle_count');
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [stockLevels, setStockLevels] = useState<Record<string, Record<string, number>>>({});
+  const [showLocations, setShowLocations] = useState(false);
+  const [categories, setCategories] = useState<ProductCategory[]>([]);
+  const [showCategories, setShowCategories] = useState(false);
+  // undefined keeps the panel closed; null opens it on the style list
+  const [styleTarget, setStyleTarget] = useState<string | null | undefined>(undefined);
+  const [showImport, setShowImport] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [showScan, setShowScan] = useState(false);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   
   const [formData, setFormData] = useState<Partial<InventoryItem>>({
     name: '',
     sku: '',
-    category: 'Electronics',
+    category: '',
+    category_id: '',
+    attributes: {},
     quantity: 0,
     price: 0
   });
@@ -49,8 +134,14 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
   const [isSaving, setIsSaving] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Locations, categories and suppliers load once and again only when one of their managers changes them
+  const referenceData = useRef<Promise<ReferenceData | null> | null>(null);
+  // Filters change faster than pages load; only the latest fetch may write to the ledger
+  const latestFetch = useRef(0);
 
   const fetchItems = async () => {
+    const request = ++latestFetch.current;
+    const isLatest = () => request === latestFetch.current;
     setLoading(true);
     const supabase = getSupabaseClient();
     if (!supabase) {
@@ -62,28 +153,99 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
       const { data: userData } = await supabase.auth.getUser();
       setCurrentUser(userData.user?.id || null);
 
-      // Join profile as 'owner' - explicitly fetch 'email' column from the registry (profiles table)
-      const { data, error } = await supabase
-        .from('inventory')
-        .select(`
-          *,
-          owner:profiles!user_id(full_name, avatar_url, email)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setItems(data || []);
+      // Location and category scopes are resolved against the reference data, then only the page and its levels are fetched
+      const reference = await (referenceData.current || fetchReferenceData());
+      const page = await fetchInventoryPage(supabase, query, reference ? ledgerScope(reference) : {});
+      if (!isLatest()) return;
+      if (page.items.length === 0 && page.total > 0 && query.page > 1) {
+        setQuery(q => ({ ...q, page: Math.ceil(page.total / q.pageSize) }));
+        return;
+      }
+      const levels = await fetchStockLevels(supabase, page.items.map(i => i.id));
+      if (!isLatest()) return;
+      setItems(page.items);
+      setTotal(page.total);
+      setStockLevels(levels);
     } catch (err: any) {
-      console.error('Fetch items error:', err.message);
+      if (isLatest()) console.error('Fetch items error:', err.message);
     } finally {
-      setLoading(false);
+      if (isLatest()) setLoading(false);
     }
   };
 
+  const fetchReferenceData = () => {
+    const loading = (async (): Promise<ReferenceData | null> => {
+      const supabase = getSupabaseClient();
+      if (!supabase) return null;
+      try {
+        const [locs, supplierList, categoryList] = await Promise.all([
+          fetchLocations(supabase),
+          fetchSuppliers(supabase),
+          fetchCategories(supabase)
+        ]);
+        setLocations(locs);
+        setSuppliers(supplierList);
+        setCategories(categoryList);
+        return { locations: locs, categories: categoryList };
+      } catch (err: any) {
+        console.error('Location sync error:', err.message);
+        // Tried again on the next fetch rather than leaving the filters unresolved for the session
+        referenceData.current = null;
+        return null;
+      }
+    })();
+    referenceData.current = loading;
+    return loading;
+  };
+
+  // The filtered location's subtree and the filtered category's subtree, with the category's attribute schema
+  const ledgerScope = (reference: ReferenceData): LedgerScope => ({
+    locationIds: query.location ? Array.from(getLocationScope(reference.locations, query.location)) : null,
+    categoryIds: query.category ? Array.from(getCategoryScope(reference.categories, query.category)) : null,
+    attributes: query.category ? getCategoryAttributes(reference.categories, query.category) : []
+  });
+
+  // Attribute filters come and go with the category, so keys the query no longer holds are dropped from the URL too
+  const attributeParamKeys = () => Array.from(getUrlParams().keys()).filter(key => key.startsWith(ATTRIBUTE_PARAM_PREFIX));
+
   useEffect(() => {
     fetchItems();
+    setUrlParams({ ...Object.fromEntries(attributeParamKeys().map(key => [key, null])), ...queryToParams(query) });
+  }, [query]);
+
+  useEffect(() => {
+    const supabase = getSupabaseClient();
+    if (supabase && profile?.active_org_id) {
+      fetchOrgMembers(supabase, profile.active_org_id).then(setOwners).catch(() => setOwners([]));
+    }
+    // Leaving the ledger drops its filters from the URL
+    return () => setUrlParams(Object.fromEntries([...LEDGER_PARAM_KEYS, ...attributeParamKeys()].map(key => [key, null])));
   }, []);
 
+  // Typing settles for a moment before it costs a query
+  useEffect(() => {
+    if (searchInput === query.search && JSON.stringify(attributeInput) === JSON.stringify(query.attributes)) return;
+    const timer = setTimeout(() => updateQuery({ search: searchInput, attributes: attributeInput }), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput, attributeInput]);
+
+  // Any filter change starts again from the first page
+  const updateQuery = (patch: Partial<InventoryQuery>) => setQuery(q => ({ ...q, page: 1, ...patch }));
+
+  const hasFilters = !!(query.search || query.category || query.priceMin !== null || query.priceMax !== null || query.stock || query.owner || query.location);
+  const filterAttributes = query.category ? getCategoryAttributes(categories, query.category) : [];
+
+  const handleCategoryFilter = (categoryId: string) => {
+    setAttributeInput({});
+    updateQuery({ category: categoryId, attributes: {} });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setAttributeInput({});
+    updateQuery({ ...DEFAULT_INVENTORY_QUERY, sort: query.sort, pageSize: query.pageSize });
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
@@ -101,9 +263,10 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
       setEditingItem(item);
       setFormData({ ...item });
       setImagePreview(item.image_url || null);
+      setAdjustmentReason('cycle_count');
     } else {
       setEditingItem(null);
-      setFormData({ name: '', sku: '', category: 'Electronics', quantity: 0, price: 0 });
+      setFormData({ name: '', sku: '', category: '', category_id: '', attributes: {}, quantity: 0, price: 0 });
       setImagePreview(null);
       setItemImage(null);
     }
@@ -120,6 +283,11 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Authentication session expired.");
 
+      const category = categories.find(c => c.id === formData.category_id);
+      if (!category) throw new Error("Choose a category.");
+      const { attributes, missing } = normalizeAttributes(getCategoryAttributes(categories, category.id), formData.attributes);
+      if (missing.length) throw new Error(`Fill in ${missing.join(', ')}.`);
+
       let finalImageUrl = formData.image_url || '';
 
       if (itemImage) {
@@ -140,22 +308,47 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
         finalImageUrl = publicUrl;
       }
 
+      // Quantity is owned by the stock ledger; the row only carries the derived figure
       const payload = {
         name: formData.name,
         sku: formData.sku,
-        category: formData.category,
-        quantity: Number(formData.quantity),
+        category: category.name,
+        category_id: category.id,
+        attributes,
         price: Number(formData.price),
         image_url: finalImageUrl,
+        reorder_point: formData.reorder_point ?? null,
+        reorder_quantity: formData.reorder_quantity ?? null,
+        lead_time_days: formData.lead_time_days ?? null,
+        preferred_supplier_id: formData.preferred_supplier_id || null,
         user_id: user.id
       };
+      const targetQuantity = Number(formData.quantity);
 
       if (editingItem) {
         const { error: updateError } = await supabase.from('inventory').update(payload).eq('id', editingItem.id);
         if (updateError) throw updateError;
+
+        // Only a changed field is a count; the database works out the adjustment against on-hand as it stands now
+        if (targetQuantity !== editingItem.quantity) {
+          await postStockCount(supabase, { item_id: editingItem.id, counted: targetQuantity, reason_code: adjustmentReason });
+        }
       } else {
-        const { error: insertError } = await supabase.from('inventory').insert([payload]);
+        const { data: created, error: insertError } = await supabase
+          .from('inventory')
+          .insert([{ ...payload, quantity: 0 }])
+          .select('id')
+          .single();
         if (insertError) throw insertError;
+
+        if (targetQuantity !== 0) {
+          await postStockMovement(supabase, {
+            item_id: created.id,
+            movement_type: 'receipt',
+            quantity: targetQuantity,
+            reason_code: 'opening_balance'
+          });
+        }
       }
 
       setShowModal(false);
@@ -168,8 +361,8 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
   };
 
   const handleDelete = async (item: InventoryItem) => {
-    if (item.user_id !== currentUser) {
-      alert("Unauthorized: Only the asset owner can delete this record.");
+    if (!can(profile, 'inventory.delete')) {
+      alert("Unauthorized: Your role cannot delete assets.");
       return;
     }
     if (!confirm("Permanently delete this asset?")) return;
@@ -181,6 +374,7 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
       const { error } = await supabase.from('inventory').delete().eq('id', item.id);
       if (error) throw error;
       setItems(items.filter(i => i.id !== item.id));
+      setTotal(t => Math.max(0, t - 1));
     } catch (err: any) {
       alert("Purge failed: " + err.message);
     } finally {
@@ -196,10 +390,77 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
     setIsAnalyzing(false);
   };
 
-  const filteredItems = items.filter(item => 
-    item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    item.sku.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const locationScope = query.location ? getLocationScope(locations, query.location) : null;
+  const quantityInScope = (item: InventoryItem) =>
+    locationScope ? sumInScope(stockLevels[item.id], locationScope) : item.quantity;
+
+  const handleExport = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    setIsExporting(true);
+    try {
+      const matches = await fetchAllMatchingItems(supabase, query, ledgerScope({ locations, categories }));
+      const levels = locationScope ? await fetchStockLevels(supabase, matches.map(m => m.id)) : {};
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadCsv(`asset-ledger-${stamp}.csv`, ledgerToCsv(
+        matches,
+        categories,
+        locationScope ? item => sumInScope(levels[item.id], locationScope) : undefined
+      ));
+    } catch (err: any) {
+      alert("Export failed: " + err.message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handlePrintLabels = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    setIsPrinting(true);
+    try {
+      const matches = await fetchAllMatchingItems(supabase, query, ledgerScope({ locations, categories }));
+      const stamp = new Date().toISOString().slice(0, 10);
+      downloadLabelSheet(`item-labels-${stamp}.pdf`, matches.map(item => itemLabel({
+        ...item,
+        category: getCategoryPath(categories, item.category_id) || item.category
+      })));
+    } catch (err: any) {
+      alert("Label print failed: " + err.message);
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  const attributeSummary = (item: InventoryItem) => getCategoryAttributes(categories, item.category_id)
+    .filter(def => item.attributes?.[def.key] !== undefined)
+    .map(def => formatAttributeValue(def, item.attributes![def.key]))
+    .join(' · ');
+
+  const formAttributes = getCategoryAttributes(categories, formData.category_id);
+
+  const pageCount = Math.max(1, Math.ceil(total / query.pageSize));
+  const firstRow = total === 0 ? 0 : (query.page - 1) * query.pageSize + 1;
+
+  const renderSortHeader = (label: string, column: SortColumn, className = '') => {
+    const rank = query.sort.findIndex(s => s.column === column);
+    const key = query.sort[rank];
+    return (
+      <th className={`px-10 py-6 ${className}`}>
+        <button
+          onClick={(e) => updateQuery({ sort: toggleSort(query.sort, column, e.shiftKey) })}
+          title="Click to sort, Shift+click to add a sort level"
+          className={`inline-flex items-center space-x-1 uppercase tracking-[0.3em] hover:text-blue-600 transition-colors ${key ? 'text-slate-900' : ''}`}
+        >
+          <span>{label}</span>
+          {key && (key.ascending ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+          {key && query.sort.length > 1 && <span className="text-[8px] text-blue-500">{rank + 1}</span>}
+        </button>
+      </th>
+    );
+  };
+
+  const filterSelectClass = "px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none text-[10px] font-black uppercase tracking-widest cursor-pointer shadow-sm";
 
   return (
     <div className="space-y-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
@@ -223,13 +484,29 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
             {isAnalyzing ? <Loader2 size={16} className="animate-spin" /> : <BrainCircuit size={16} />}
             <span>Gemini Insights</span>
           </button>
-          <button 
-            onClick={() => handleOpenModal()}
-            className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all shadow-2xl shadow-slate-300"
+          <button
+            onClick={() => setStyleTarget(null)}
+            className="flex items-center space-x-3 px-6 py-3 border border-slate-200 text-slate-600 bg-white hover:bg-slate-50 rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest transition-all shadow-sm"
           >
-            <Plus size={20} />
-            <span>Register Asset</span>
+            <Shirt size={16} />
+            <span>Styles</span>
           </button>
+          <button
+            onClick={() => setShowScan(true)}
+            className="flex items-center space-x-3 px-6 py-3 border border-slate-200 text-slate-600 bg-white hover:bg-slate-50 rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest transition-all shadow-sm"
+          >
+            <ScanLine size={16} />
+            <span>Scan Mode</span>
+          </button>
+          {can(profile, 'inventory.write') && (
+            <button 
+              onClick={() => handleOpenModal()}
+              className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all shadow-2xl shadow-slate-300"
+            >
+              <Plus size={20} />
+              <span>Register Asset</span>
+            </button>
+          )}
         </div>
       </div>
 
@@ -260,23 +537,120 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
             <input
               type="text"
               placeholder="Search registry by name or SKU..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="w-full pl-14 pr-6 py-4 bg-white border border-slate-200 rounded-3xl outline-none text-sm font-black transition-all focus:ring-4 focus:ring-blue-500/10 focus:border-blue-500 shadow-sm"
             />
           </div>
-          <button className="p-4 text-slate-400 hover:bg-white hover:text-blue-600 rounded-2xl border border-slate-100 transition-all hover:shadow-lg shadow-sm">
-            <Download size={20} />
+          <div className="flex items-center space-x-3">
+            <div className="relative">
+              <MapPin className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-300" size={16} />
+              <select
+                value={query.location}
+                onChange={(e) => updateQuery({ location: e.target.value })}
+                className="pl-11 pr-6 py-4 bg-white border border-slate-200 rounded-3xl outline-none text-[11px] font-black uppercase tracking-widest cursor-pointer shadow-sm"
+              >
+                <option value="">All Locations</option>
+                {sortLocationTree(locations).map(({ location, depth }) => (
+                  <option key={location.id} value={location.id}>{'\u00a0\u00a0'.repeat(depth)}{location.code} · {location.name}</option>
+                ))}
+              </select>
+            </div>
+            <button onClick={() => setShowLocations(true)} className="p-4 text-slate-400 hover:bg-white hover:text-blue-600 rounded-2xl border border-slate-100 transition-all hover:shadow-lg shadow-sm">
+              <MapPin size={20} />
+            </button>
+            {can(profile, 'inventory.write') && (
+              <button onClick={() => setShowImport(true)} title="Import CSV / XLSX" className="p-4 text-slate-400 hover:bg-white hover:text-blue-600 rounded-2xl border border-slate-100 transition-all hover:shadow-lg shadow-sm">
+                <FileSpreadsheet size={20} />
+              </button>
+            )}
+            <button onClick={handleExport} disabled={total === 0 || isExporting} title="Export filtered ledger" className="p-4 text-slate-400 hover:bg-white hover:text-blue-600 rounded-2xl border border-slate-100 transition-all hover:shadow-lg shadow-sm disabled:opacity-30">
+              {isExporting ? <Loader2 size={20} className="animate-spin" /> : <Download size={20} />}
+            </button>
+            <button onClick={handlePrintLabels} disabled={total === 0 || isPrinting} title="Print labels for the filtered ledger" className="p-4 text-slate-400 hover:bg-white hover:text-blue-600 rounded-2xl border border-slate-100 transition-all hover:shadow-lg shadow-sm disabled:opacity-30">
+              {isPrinting ? <Loader2 size={20} className="animate-spin" /> : <Printer size={20} />}
+            </button>
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-b border-slate-50 flex flex-wrap items-center gap-3">
+          <Filter size={16} className="text-slate-300" />
+          <select value={query.category} onChange={e => handleCategoryFilter(e.target.value)} className={filterSelectClass}>
+            <option value="">All Categories</option>
+            {sortCategoryTree(categories).map(({ category, depth }) => (
+              <option key={category.id} value={category.id}>{'\u00a0\u00a0'.repeat(depth)}{category.name}</option>
+            ))}
+          </select>
+          <button onClick={() => setShowCategories(true)} title="Manage categories" className="p-3 text-slate-400 hover:bg-white hover:text-blue-600 rounded-2xl border border-slate-100 transition-all hover:shadow-lg shadow-sm">
+            <FolderTree size={16} />
           </button>
+          <select value={query.stock} onChange={e => updateQuery({ stock: e.target.value as InventoryQuery['stock'] })} className={filterSelectClass}>
+            <option value="">Any Stock Level</option>
+            {STOCK_STATUSES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+          <select value={query.owner} onChange={e => updateQuery({ owner: e.target.value })} className={filterSelectClass}>
+            <option value="">Any Owner</option>
+            {owners.map(o => <option key={o.id} value={o.id}>{o.full_name || o.email}</option>)}
+          </select>
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min={0}
+              placeholder="Min $"
+              value={query.priceMin ?? ''}
+              onChange={e => updateQuery({ priceMin: e.target.value === '' ? null : Number(e.target.value) })}
+              className="w-24 px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none text-[11px] font-black shadow-sm"
+            />
+            <span className="text-slate-300">–</span>
+            <input
+              type="number"
+              min={0}
+              placeholder="Max $"
+              value={query.priceMax ?? ''}
+              onChange={e => updateQuery({ priceMax: e.target.value === '' ? null : Number(e.target.value) })}
+              className="w-24 px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none text-[11px] font-black shadow-sm"
+            />
+          </div>
+          {hasFilters && (
+            <button onClick={clearFilters} className="flex items-center space-x-1 px-4 py-3 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-500">
+              <X size={14} /><span>Clear</span>
+            </button>
+          )}
         </div>
 
+        {filterAttributes.length > 0 && (
+          <div className="px-8 py-4 border-b border-slate-50 bg-slate-50/30 flex flex-wrap items-center gap-3">
+            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Attributes</span>
+            {filterAttributes.map(def => def.type === 'select' ? (
+              <select
+                key={def.key}
+                value={attributeInput[def.key] || ''}
+                onChange={e => setAttributeInput({ ...attributeInput, [def.key]: e.target.value })}
+                className={filterSelectClass}
+              >
+                <option value="">Any {def.label}</option>
+                {(def.options || []).map(o => <option key={o} value={o}>{o}</option>)}
+              </select>
+            ) : (
+              <input
+                key={def.key}
+                type={def.type === 'number' ? 'number' : 'text'}
+                placeholder={def.unit ? `${def.label} (${def.unit})` : def.label}
+                value={attributeInput[def.key] || ''}
+                onChange={e => setAttributeInput({ ...attributeInput, [def.key]: e.target.value })}
+                className="w-40 px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none text-[11px] font-black shadow-sm"
+              />
+            ))}
+          </div>
+        )}
+
         <div className="overflow-x-auto scrollbar-hide">
           {loading ? (
             <div className="p-40 flex flex-col items-center justify-center space-y-6">
               <Loader2 className="animate-spin text-blue-500" size={56} />
               <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.3em]">Querying Global Ledger...</p>
             </div>
-          ) : filteredItems.length === 0 ? (
+          ) : items.length === 0 ? (
             <div className="p-40 flex flex-col items-center justify-center text-center">
               <PackageCheck size={80} className="text-slate-100 mb-6" />
               <h3 className="text-2xl font-black text-slate-900 tracking-tight">Registry Node Empty</h3>
@@ -286,16 +660,16 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
             <table className="w-full text-left">
               <thead>
                 <tr className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-[0.3em] border-b border-slate-200">
-                  <th className="px-10 py-6">Physical Asset</th>
-                  <th className="px-10 py-6">Sector</th>
-                  <th className="px-10 py-6">Inventory</th>
-                  <th className="px-10 py-6">Valuation</th>
+                  {renderSortHeader('Physical Asset', 'name')}
+                  {renderSortHeader('Sector', 'category')}
+                  {renderSortHeader('Inventory', 'quantity')}
+                  {renderSortHeader('Valuation', 'price')}
                   <th className="px-10 py-6">Registry Owner</th>
                   <th className="px-10 py-6 text-right">Operations</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-100">
-                {filteredItems.map((item) => (
+                {items.map((item) => (
                   <tr key={item.id} className="hover:bg-blue-50/30 transition-all group">
                     <td className="px-10 py-6">
                       <div className="flex items-center space-x-6">
@@ -309,18 +683,32 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
                         <div>
                           <p className="text-base font-black text-slate-900 tracking-tight">{item.name}</p>
                           <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em] mt-0.5">#{item.sku}</p>
+                          {item.style_id && (
+                            <button
+                              onClick={() => setStyleTarget(item.style_id)}
+                              className="mt-1 flex items-center space-x-1 px-2 py-0.5 bg-violet-50 border border-violet-100 text-violet-600 rounded-lg text-[9px] font-black uppercase tracking-widest hover:bg-violet-100 transition-all"
+                            >
+                              <Shirt size={10} /><span>{item.color} / {item.size}</span>
+                            </button>
+                          )}
                         </div>
                       </div>
                     </td>
                     <td className="px-10 py-6">
-                      <span className="text-[10px] px-3 py-1 bg-white border border-slate-200 text-slate-500 rounded-full font-black uppercase tracking-widest shadow-sm">
+                      <span title={getCategoryPath(categories, item.category_id) || item.category} className="text-[10px] px-3 py-1 bg-white border border-slate-200 text-slate-500 rounded-full font-black uppercase tracking-widest shadow-sm">
                         {item.category}
                       </span>
+                      {attributeSummary(item) && (
+                        <p className="text-[9px] font-bold text-slate-400 mt-2 max-w-[200px] truncate">{attributeSummary(item)}</p>
+                      )}
                     </td>
                     <td className="px-10 py-6">
                        <div className="flex items-center space-x-2">
-                          <span className={`w-2 h-2 rounded-full ${item.quantity < 10 ? 'bg-rose-500 animate-pulse' : 'bg-emerald-500'}`}></span>
-                          <span className="text-sm font-black text-slate-900">{item.quantity} Units</span>
+                          <span className={`w-2 h-2 rounded-full ${isLowStock(item) ? 'bg-rose-500 animate-pulse' : 'bg-emerald-500'}`}></span>
+                          <span className="text-sm font-black text-slate-900">{quantityInScope(item)} Units</span>
+                          {locationScope && (
+                            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">/ {item.quantity}</span>
+                          )}
                        </div>
                     </td>
                     <td className="px-10 py-6 text-sm text-slate-600 font-black tracking-tight">${item.price.toLocaleString()}</td>
@@ -347,18 +735,34 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
                     <td className="px-10 py-6 text-right">
                       <div className="flex items-center justify-end space-x-3">
                         <button 
-                          onClick={() => handleOpenModal(item)} 
-                          className="p-3 text-slate-300 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
+                          onClick={() => setHistoryItem(item)} 
+                          className="p-3 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
                         >
-                          <Edit size={18} />
+                          <History size={18} />
                         </button>
                         <button 
-                          onClick={() => handleDelete(item)} 
-                          disabled={isDeleting === item.id} 
-                          className="p-3 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all disabled:opacity-30"
+                          onClick={() => setBomItem(item)} 
+                          className="p-3 text-slate-300 hover:text-violet-600 hover:bg-violet-50 rounded-xl transition-all"
                         >
-                          {isDeleting === item.id ? <Loader2 size={18} className="animate-spin" /> : <Trash2 size={18} />}
+                          <Network size={18} />
                         </button>
+                        {can(profile, 'inventory.write') && (
+                          <button 
+                            onClick={() => handleOpenModal(item)} 
+                            className="p-3 text-slate-300 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all"
+                          >
+                            <Edit size={18} />
+                          </button>
+                        )}
+                        {can(profile, 'inventory.delete') && (
+                          <button 
+                            onClick={() => handleDelete(item)} 
+                            disabled={isDeleting === item.id} 
+                            className="p-3 text-slate-300 hover:text-rose-600 hover:bg-rose-50 rounded-xl transition-all disabled:opacity-30"
+                          >
+                            {isDeleting === item.id ? <Loader2 size={18} className="animate-spin" /> : <Trash2 size={18} />}
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -367,6 +771,36 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
             </table>
           )}
         </div>
+
+        <div className="px-10 py-5 border-t border-slate-100 flex items-center justify-between">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+            {firstRow}–{Math.min(query.page * query.pageSize, total)} of {total} assets
+          </p>
+          <div className="flex items-center space-x-3">
+            <select
+              value={query.pageSize}
+              onChange={e => updateQuery({ pageSize: Number(e.target.value) })}
+              className={filterSelectClass}
+            >
+              {PAGE_SIZES.map(size => <option key={size} value={size}>{size} / page</option>)}
+            </select>
+            <button
+              onClick={() => setQuery(q => ({ ...q, page: q.page - 1 }))}
+              disabled={query.page <= 1 || loading}
+              className="p-3 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all disabled:opacity-30"
+            >
+              <ChevronLeft size={18} />
+            </button>
+            <span className="text-[10px] font-black text-slate-900 uppercase tracking-widest">{query.page} / {pageCount}</span>
+            <button
+              onClick={() => setQuery(q => ({ ...q, page: q.page + 1 }))}
+              disabled={query.page >= pageCount || loading}
+              className="p-3 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-xl transition-all disabled:opacity-30"
+            >
+              <ChevronRight size={18} />
+            </button>
+          </div>
+        </div>
       </div>
 
       {showModal && (
@@ -413,13 +847,16 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
                     <input required value={formData.sku} onChange={e => setFormData({...formData, sku: e.target.value})} className="w-full px-6 py-4 bg-slate-50 border border-slate-200 rounded-[1.5rem] text-sm font-black uppercase placeholder:text-slate-200 focus:ring-4 focus:ring-blue-500/10 outline-none" placeholder="SKU-XXXX" />
                   </div>
                   <div className="space-y-2">
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Industry Sector</label>
-                    <select value={formData.category} onChange={e => setFormData({...formData, category: e.target.value})} className="w-full px-6 py-4 bg-slate-50 border border-slate-200 rounded-[1.5rem] text-sm font-black outline-none focus:ring-4 focus:ring-blue-500/10 cursor-pointer">
-                      <option>Electronics</option><option>Infrastructure</option><option>Supplies</option><option>Raw Assets</option>
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Category</label>
+                    <select required value={formData.category_id || ''} onChange={e => setFormData({...formData, category_id: e.target.value})} className="w-full px-6 py-4 bg-slate-50 border border-slate-200 rounded-[1.5rem] text-sm font-black outline-none focus:ring-4 focus:ring-blue-500/10 cursor-pointer">
+                      <option value="">Choose...</option>
+                      {sortCategoryTree(categories).map(({ category, depth }) => (
+                        <option key={category.id} value={category.id}>{'\u00a0\u00a0'.repeat(depth)}{category.name}</option>
+                      ))}
                     </select>
                   </div>
                   <div className="space-y-2">
-                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">Current Unit Stock</label>
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-4">{editingItem ? 'Counted Unit Stock' : 'Opening Unit Stock'}</label>
                     <input type="number" required value={formData.quantity} onChange={e => setFormData({...formData, quantity: parseInt(e.target.value) || 0})} className="w-full px-6 py-4 bg-slate-50 border border-slate-200 rounded-[1.5rem] text-sm font-black focus:ring-4 focus:ring-blue-500/10 outline-none" placeholder="Quantity" />
                   </div>
                   <div className="space-y-2">
@@ -427,6 +864,60 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
                     <input type="number" step="0.01" required value={formData.price} onChange={e => setFormData({...formData, price: parseFloat(e.target.value) || 0})} className="w-full px-6 py-4 bg-slate-50 border border-slate-200 rounded-[1.5rem] text-sm font-black focus:ring-4 focus:ring-blue-500/10 outline-none" placeholder="Value" />
                   </div>
                 </div>
+
+                {formAttributes.length > 0 && (
+                  <div className="p-6 bg-slate-50/60 border border-slate-100 rounded-[2rem] space-y-4">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">{getCategoryPath(categories, formData.category_id)} Attributes</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      {formAttributes.map(def => {
+                        const value = formData.attributes?.[def.key] ?? '';
+                        const setValue = (next: string) => setFormData({ ...formData, attributes: { ...formData.attributes, [def.key]: next } });
+                        const label = `${def.label}${def.unit ? ` (${def.unit})` : ''}${def.required ? ' *' : ''}`;
+                        return def.type === 'select' ? (
+                          <select key={def.key} required={def.required} value={value} onChange={e => setValue(e.target.value)} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer">
+                            <option value="">{label}...</option>
+                            {(def.options || []).map(o => <option key={o} value={o}>{o}</option>)}
+                          </select>
+                        ) : (
+                          <input
+                            key={def.key}
+                            type={def.type === 'number' ? 'number' : 'text'}
+                            step="any"
+                            required={def.required}
+                            value={value}
+                            onChange={e => setValue(e.target.value)}
+                            className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300"
+                            placeholder={label}
+                          />
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                <div className="p-6 bg-slate-50/60 border border-slate-100 rounded-[2rem] space-y-4">
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest ml-2">Replenishment Policy</p>
+                  <div className="grid grid-cols-2 gap-4">
+                    <input type="number" min={0} value={formData.reorder_point ?? ''} onChange={e => setFormData({...formData, reorder_point: e.target.value === '' ? null : parseInt(e.target.value) || 0})} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder={`Reorder point (${DEFAULT_REORDER_POINT})`} />
+                    <input type="number" min={0} value={formData.reorder_quantity ?? ''} onChange={e => setFormData({...formData, reorder_quantity: e.target.value === '' ? null : parseInt(e.target.value) || 0})} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Reorder quantity" />
+                    <input type="number" min={0} value={formData.lead_time_days ?? ''} onChange={e => setFormData({...formData, lead_time_days: e.target.value === '' ? null : parseInt(e.target.value) || 0})} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Lead time (days)" />
+                    <select value={formData.preferred_supplier_id || ''} onChange={e => setFormData({...formData, preferred_supplier_id: e.target.value || null})} className="w-full px-5 py-3 bg-white border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer">
+                      <option value="">No preferred supplier</option>
+                      {suppliers.map(sup => <option key={sup.id} value={sup.id}>{sup.code} · {sup.name}</option>)}
+                    </select>
+                  </div>
+                </div>
+
+                {editingItem && Number(formData.quantity) !== editingItem.quantity && (
+                  <div className="space-y-2 p-6 bg-amber-50 border border-amber-100 rounded-[2rem]">
+                    <label className="text-[10px] font-black text-amber-700 uppercase tracking-widest ml-2">
+                      Adjustment Reason ({Number(formData.quantity) - editingItem.quantity > 0 ? '+' : ''}{Number(formData.quantity) - editingItem.quantity} Units)
+                    </label>
+                    <select value={adjustmentReason} onChange={e => setAdjustmentReason(e.target.value)} className="w-full px-6 py-4 bg-white border border-amber-200 rounded-[1.5rem] text-sm font-black outline-none cursor-pointer">
+                      {REASON_CODES.adjustment.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                    </select>
+                  </div>
+                )}
               </div>
 
               <div className="flex space-x-6 pt-6">
@@ -440,6 +931,75 @@ const Inventory: React.FC<InventoryProps> = ({ isConnected }) => {
           </div>
         </div>
       )}
+
+      {historyItem && (
+        <StockMovementPanel
+          item={historyItem}
+          locations={locations}
+          readOnly={!can(profile, 'stock.post')}
+          onClose={() => setHistoryItem(null)}
+          onOpenMessage={onOpenMessage}
+          onComposeMessage={onComposeMessage}
+          onPosted={(quantity) => {
+            setItems(prev => prev.map(i => i.id === historyItem.id ? { ...i, quantity } : i));
+            setHistoryItem(prev => prev ? { ...prev, quantity } : null);
+            fetchItems();
+          }}
+        />
+      )}
+
+      {bomItem && (
+        <BomPanel
+          item={bomItem}
+          readOnly={!can(profile, 'bom.write')}
+          onClose={() => setBomItem(null)}
+        />
+      )}
+
+      {showLocations && (
+        <LocationManager
+          locations={locations}
+          readOnly={!can(profile, 'inventory.write')}
+          onClose={() => setShowLocations(false)}
+          onChanged={fetchReferenceData}
+        />
+      )}
+
+      {styleTarget !== undefined && (
+        <StylePanel
+          categories={categories}
+          initialStyleId={styleTarget}
+          readOnly={!can(profile, 'inventory.write')}
+          canDelete={can(profile, 'inventory.delete')}
+          onClose={() => setStyleTarget(undefined)}
+          onChanged={fetchItems}
+        />
+      )}
+
+      {showScan && (
+        <InventoryScanPanel
+          locations={locations}
+          canPost={can(profile, 'stock.post')}
+          onClose={() => setShowScan(false)}
+          onPosted={fetchItems}
+        />
+      )}
+
+      {showCategories && (
+        <CategoryManager
+          categories={categories}
+          readOnly={!can(profile, 'catalog.manage')}
+          onClose={() => setShowCategories(false)}
+          onChanged={() => { fetchReferenceData(); fetchItems(); }}
+        />
+      )}
+
+      {showImport && (
+        <InventoryImportWizard
+          onClose={() => setShowImport(false)}
+          onImported={fetchItems}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,496 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Plus,
+  Loader2,
+  X,
+  Truck,
+  ShoppingCart,
+  FileText,
+  CheckCircle2,
+  Send,
+  PackageCheck,
+  Lock,
+  Trash2,
+  Save,
+  Mail,
+  Phone,
+  ChevronDown,
+  ChevronRight
+} from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { InventoryItem, Profile, PurchaseOrder, StockLocation, Supplier } from '../types';
+import {
+  canReceive,
+  canTransition,
+  createPurchaseOrder,
+  fetchPurchaseOrders,
+  fetchSuppliers,
+  getStatusMeta,
+  orderTotal,
+  outstandingQuantity,
+  transitionPurchaseOrder,
+  PO_STATUSES
+} from '../lib/purchasing';
+import { fetchLocations } from '../lib/locations';
+import GoodsReceiptModal from '../components/GoodsReceiptModal';
+import { can } from '../lib/permissions';
+
+type DraftLine = { item_id: string; quantity: number; unit_price: number };
+
+const EMPTY_SUPPLIER: Partial<Supplier> = { name: '', code: '', contact_name: '', email: '', phone: '', address: '', lead_time_days: null };
+
+interface PurchasingProps {
+  profile?: Profile | null;
+}
+
+const Purchasing: React.FC<PurchasingProps> = ({ profile }) => {
+  const [tab, setTab] = useState<'orders' | 'suppliers'>('orders');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+
+  const [showOrderModal, setShowOrderModal] = useState(false);
+  const [orderForm, setOrderForm] = useState<{ supplier_id: string; expected_date: string; notes: string; lines: DraftLine[] }>({
+    supplier_id: '', expected_date: '', notes: '', lines: []
+  });
+  const [showSupplierModal, setShowSupplierModal] = useState(false);
+  const [supplierForm, setSupplierForm] = useState<Partial<Supplier>>(EMPTY_SUPPLIER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchData = async () => {
+    setLoading(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [orderList, supplierList, locs, invRes] = await Promise.all([
+        fetchPurchaseOrders(supabase),
+        fetchSuppliers(supabase),
+        fetchLocations(supabase),
+        supabase.from('inventory').select('id, sku, name, price, preferred_supplier_id').order('sku', { ascending: true })
+      ]);
+      setOrders(orderList);
+      setSuppliers(supplierList);
+      setLocations(locs);
+      setInventory((invRes.data || []) as InventoryItem[]);
+    } catch (err: any) {
+      console.error('Purchasing sync error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchData(); }, []);
+
+  const handleTransition = async (po: PurchaseOrder, to: PurchaseOrder['status']) => {
+    if (to === 'closed' && po.status !== 'sent' && !confirm(`Close ${po.po_number} with quantities still outstanding?`)) return;
+    setBusyId(po.id);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await transitionPurchaseOrder(supabase, po, to);
+      fetchData();
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteDraft = async (po: PurchaseOrder) => {
+    if (po.status !== 'draft' || !confirm(`Discard draft ${po.po_number}?`)) return;
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    const { error } = await supabase.from('purchase_orders').delete().eq('id', po.id);
+    if (error) {
+      alert("Draft purge failed: " + error.message);
+      return;
+    }
+    setOrders(prev => prev.filter(o => o.id !== po.id));
+  };
+
+  const handleCreateOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await createPurchaseOrder(supabase, {
+        supplier_id: orderForm.supplier_id || null,
+        expected_date: orderForm.expected_date || null,
+        notes: orderForm.notes,
+        lines: orderForm.lines
+          .filter(l => l.item_id)
+          .map(l => ({ ...l, sku: inventory.find(i => i.id === l.item_id)?.sku || '' }))
+      });
+      setShowOrderModal(false);
+      setOrderForm({ supplier_id: '', expected_date: '', notes: '', lines: [] });
+      fetchData();
+    } catch (err: any) {
+      alert("Purchase order failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) => {
+    setOrderForm(prev => ({ ...prev, lines: prev.lines.map((l, i) => i === index ? { ...l, ...patch } : l) }));
+  };
+
+  const handleSaveSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Authentication session expired.");
+
+      const payload = {
+        name: supplierForm.name,
+        code: supplierForm.code?.trim().toUpperCase(),
+        contact_name: supplierForm.contact_name || null,
+        email: supplierForm.email?.trim().toLowerCase() || null,
+        phone: supplierForm.phone || null,
+        address: supplierForm.address || null,
+        lead_time_days: supplierForm.lead_time_days ?? null
+      };
+
+      if (supplierForm.id) {
+        const { error } = await supabase.from('suppliers').update(payload).eq('id', supplierForm.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('suppliers').insert([{ ...payload, user_id: user.id }]);
+        if (error) throw error;
+      }
+      setShowSupplierModal(false);
+      fetchData();
+    } catch (err: any) {
+      alert("Supplier registration failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const filteredOrders = orders.filter(o => !statusFilter || o.status === statusFilter);
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h1 className="text-4xl font-black text-slate-900 tracking-tighter">Procurement</h1>
+          <p className="text-slate-500 text-sm font-bold mt-2 uppercase tracking-widest text-[10px]">Supplier Registry · Purchase Orders · Goods Receipt</p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <div className="flex bg-white border border-slate-200 rounded-[1.2rem] p-1 shadow-sm">
+            {(['orders', 'suppliers'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-400 hover:text-slate-900'}`}
+              >
+                {t === 'orders' ? 'Purchase Orders' : 'Suppliers'}
+              </button>
+            ))}
+          </div>
+          {can(profile, 'purchasing.write') && (
+            <button
+              onClick={() => {
+                if (tab === 'orders') {
+                  setOrderForm({ supplier_id: '', expected_date: '', notes: '', lines: [{ item_id: '', quantity: 1, unit_price: 0 }] });
+                  setShowOrderModal(true);
+                } else {
+                  setSupplierForm(EMPTY_SUPPLIER);
+                  setShowSupplierModal(true);
+                }
+              }}
+              className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all shadow-2xl shadow-slate-300"
+            >
+              <Plus size={20} />
+              <span>{tab === 'orders' ? 'New Purchase Order' : 'Register Supplier'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-40 flex flex-col items-center justify-center space-y-6">
+          <Loader2 className="animate-spin text-blue-500" size={56} />
+          <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.3em]">Querying Procurement Registry...</p>
+        </div>
+      ) : tab === 'orders' ? (
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setStatusFilter('')}
+              className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest border ${!statusFilter ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200'}`}
+            >
+              All · {orders.length}
+            </button>
+            {PO_STATUSES.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setStatusFilter(s.id)}
+                className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest border ${statusFilter === s.id ? 'bg-slate-900 text-white border-slate-900' : s.color}`}
+              >
+                {s.label} · {orders.filter(o => o.status === s.id).length}
+              </button>
+            ))}
+          </div>
+
+          {filteredOrders.length === 0 ? (
+            <div className="bg-white rounded-[3.5rem] border border-slate-200 p-40 flex flex-col items-center justify-center text-center">
+              <ShoppingCart size={80} className="text-slate-100 mb-6" />
+              <h3 className="text-2xl font-black text-slate-900 tracking-tight">No Purchase Orders</h3>
+              <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-2">Draft one here or from the Replenishment view.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-[3rem] border border-slate-200 shadow-xl divide-y divide-slate-100 overflow-hidden">
+              {filteredOrders.map(po => {
+                const meta = getStatusMeta(po.status);
+                const expanded = expandedId === po.id;
+                return (
+                  <div key={po.id}>
+                    <div onClick={() => setExpandedId(expanded ? null : po.id)} className="p-8 flex items-center justify-between cursor-pointer hover:bg-blue-50/30 transition-all">
+                      <div className="flex items-center space-x-6">
+                        <div className="p-4 bg-slate-50 rounded-2xl text-slate-400">{expanded ? <ChevronDown size={20} /> : <ChevronRight size={20} />}</div>
+                        <div>
+                          <p className="text-base font-black text-slate-900 font-mono tracking-tight">{po.po_number}</p>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center mt-1">
+                            <Truck size={12} className="mr-2" />{po.supplier?.name || 'Unassigned Supplier'}
+                            {po.expected_date && <span className="ml-3">· Due {new Date(po.expected_date).toLocaleDateString()}</span>}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-6">
+                        <span className="text-sm font-black text-slate-900">${orderTotal(po).toLocaleString()}</span>
+                        <span className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest border ${meta.color}`}>{meta.label}</span>
+                      </div>
+                    </div>
+
+                    {expanded && (
+                      <div className="px-8 pb-8 space-y-6 animate-in fade-in duration-300">
+                        <table className="w-full text-left bg-slate-50 rounded-3xl overflow-hidden">
+                          <thead>
+                            <tr className="text-slate-400 text-[9px] font-black uppercase tracking-[0.2em] border-b border-slate-200">
+                              <th className="px-6 py-4">SKU</th>
+                              <th className="px-6 py-4">Ordered</th>
+                              <th className="px-6 py-4">Received</th>
+                              <th className="px-6 py-4">Outstanding</th>
+                              <th className="px-6 py-4 text-right">Line Value</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-slate-100">
+                            {(po.lines || []).map(line => (
+                              <tr key={line.id}>
+                                <td className="px-6 py-4">
+                                  <p className="text-xs font-black text-slate-900">{line.item?.name || line.sku}</p>
+                                  <p className="text-[9px] font-mono font-black text-blue-500">#{line.sku}</p>
+                                </td>
+                                <td className="px-6 py-4 text-sm font-black text-slate-700">{line.quantity}</td>
+                                <td className="px-6 py-4 text-sm font-black text-emerald-600">{line.received_quantity || 0}</td>
+                                <td className="px-6 py-4 text-sm font-black text-amber-600">{outstandingQuantity(line)}</td>
+                                <td className="px-6 py-4 text-sm font-black text-slate-700 text-right">${(line.quantity * line.unit_price).toLocaleString()}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {po.notes && <p className="text-xs text-slate-500 font-medium italic px-2">{po.notes}</p>}
+                        <div className="flex items-center justify-end space-x-3">
+                          {busyId === po.id && <Loader2 className="animate-spin text-slate-300" size={18} />}
+                          {po.status === 'draft' && can(profile, 'purchasing.write') && (
+                            <button onClick={() => handleDeleteDraft(po)} className="px-5 py-3 border border-slate-200 text-slate-400 hover:text-rose-600 hover:border-rose-200 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2">
+                              <Trash2 size={14} /><span>Discard</span>
+                            </button>
+                          )}
+                          {canTransition(po.status, 'approved') && can(profile, 'purchasing.approve') && (
+                            <button onClick={() => handleTransition(po, 'approved')} className="px-5 py-3 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 shadow-lg shadow-indigo-500/20">
+                              <CheckCircle2 size={14} /><span>Approve</span>
+                            </button>
+                          )}
+                          {canTransition(po.status, 'sent') && can(profile, 'purchasing.write') && (
+                            <button onClick={() => handleTransition(po, 'sent')} className="px-5 py-3 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 shadow-lg shadow-blue-500/20">
+                              <Send size={14} /><span>Mark Sent</span>
+                            </button>
+                          )}
+                          {canReceive(po) && can(profile, 'purchasing.receive') && (
+                            <button onClick={() => setReceivingOrder(po)} className="px-5 py-3 bg-emerald-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 shadow-lg shadow-emerald-500/20">
+                              <PackageCheck size={14} /><span>Receive Goods</span>
+                            </button>
+                          )}
+                          {canTransition(po.status, 'closed') && can(profile, 'purchasing.write') && (
+                            <button onClick={() => handleTransition(po, 'closed')} className="px-5 py-3 border border-slate-200 text-slate-500 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2">
+                              <Lock size={14} /><span>Close</span>
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-[3.5rem] border border-slate-200 shadow-2xl overflow-hidden">
+          {suppliers.length === 0 ? (
+            <div className="p-40 flex flex-col items-center justify-center text-center">
+              <Truck size={80} className="text-slate-100 mb-6" />
+              <h3 className="text-2xl font-black text-slate-900 tracking-tight">Supplier Registry Empty</h3>
+            </div>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-[0.3em] border-b border-slate-200">
+                  <th className="px-10 py-6">Supplier</th>
+                  <th className="px-10 py-6">Contact</th>
+                  <th className="px-10 py-6">Lead Time</th>
+                  <th className="px-10 py-6">Open POs</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {suppliers.map(sup => (
+                  <tr key={sup.id} onClick={() => { if (!can(profile, 'purchasing.write')) return; setSupplierForm(sup); setShowSupplierModal(true); }} className={`hover:bg-blue-50/30 transition-all ${can(profile, 'purchasing.write') ? 'cursor-pointer' : ''}`}>
+                    <td className="px-10 py-6">
+                      <p className="text-base font-black text-slate-900 tracking-tight">{sup.name}</p>
+                      <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">{sup.code}</p>
+                    </td>
+                    <td className="px-10 py-6">
+                      <p className="text-xs font-black text-slate-700">{sup.contact_name || '—'}</p>
+                      <p className="text-[10px] font-bold text-slate-400 flex items-center space-x-3 mt-1">
+                        {sup.email && <span className="flex items-center"><Mail size={10} className="mr-1" />{sup.email}</span>}
+                        {sup.phone && <span className="flex items-center"><Phone size={10} className="mr-1" />{sup.phone}</span>}
+                      </p>
+                    </td>
+                    <td className="px-10 py-6 text-sm font-black text-slate-700">{sup.lead_time_days != null ? `${sup.lead_time_days} days` : '—'}</td>
+                    <td className="px-10 py-6 text-sm font-black text-slate-700">
+                      {orders.filter(o => o.supplier_id === sup.id && o.status !== 'closed').length}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {showOrderModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+          <div className="bg-white w-full max-w-3xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+            <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+              <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><FileText size={120} /></div>
+              <div className="relative z-10">
+                <h3 className="font-black text-3xl tracking-tighter">Draft Purchase Order</h3>
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Procurement Deployment</p>
+              </div>
+              <button onClick={() => setShowOrderModal(false)} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+            </div>
+            <form onSubmit={handleCreateOrder} className="p-10 space-y-6 max-h-[70vh] overflow-y-auto scrollbar-hide">
+              <div className="grid grid-cols-2 gap-4">
+                <select value={orderForm.supplier_id} onChange={e => setOrderForm({ ...orderForm, supplier_id: e.target.value })} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer">
+                  <option value="">Select supplier...</option>
+                  {suppliers.map(sup => <option key={sup.id} value={sup.id}>{sup.code} · {sup.name}</option>)}
+                </select>
+                <input type="date" value={orderForm.expected_date} onChange={e => setOrderForm({ ...orderForm, expected_date: e.target.value })} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none" />
+              </div>
+
+              <div className="space-y-3">
+                {orderForm.lines.map((line, idx) => (
+                  <div key={idx} className="grid grid-cols-12 gap-3 items-center">
+                    <select
+                      required
+                      value={line.item_id}
+                      onChange={e => updateLine(idx, { item_id: e.target.value, unit_price: inventory.find(i => i.id === e.target.value)?.price || 0 })}
+                      className="col-span-6 px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-black outline-none cursor-pointer"
+                    >
+                      <option value="">SKU...</option>
+                      {inventory.map(inv => <option key={inv.id} value={inv.id}>{inv.sku} - {inv.name}</option>)}
+                    </select>
+                    <input type="number" min={1} required value={line.quantity} onChange={e => updateLine(idx, { quantity: parseInt(e.target.value) || 0 })} className="col-span-2 px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-black outline-none" />
+                    <input type="number" step="0.01" min={0} value={line.unit_price} onChange={e => updateLine(idx, { unit_price: parseFloat(e.target.value) || 0 })} className="col-span-3 px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-xs font-black outline-none" />
+                    <button type="button" onClick={() => setOrderForm({ ...orderForm, lines: orderForm.lines.filter((_, i) => i !== idx) })} className="col-span-1 p-2 text-slate-300 hover:text-rose-500"><X size={16} /></button>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setOrderForm({ ...orderForm, lines: [...orderForm.lines, { item_id: '', quantity: 1, unit_price: 0 }] })}
+                  className="w-full py-3 border-2 border-dashed border-slate-200 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-600 hover:border-blue-200 flex items-center justify-center space-x-2"
+                >
+                  <Plus size={14} /><span>Add Line</span>
+                </button>
+              </div>
+
+              <textarea rows={2} value={orderForm.notes} onChange={e => setOrderForm({ ...orderForm, notes: e.target.value })} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-medium outline-none" placeholder="Terms, delivery instructions..." />
+
+              <div className="flex space-x-6 pt-2">
+                <button type="button" onClick={() => setShowOrderModal(false)} className="flex-1 py-5 border border-slate-200 rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-slate-50 transition-all text-slate-500">Cancel</button>
+                <button type="submit" disabled={isSaving} className="flex-1 py-5 bg-slate-900 text-white rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-blue-600 shadow-2xl flex items-center justify-center space-x-3 disabled:opacity-50 transition-all">
+                  {isSaving ? <Loader2 className="animate-spin" size={20} /> : <Save size={20} />}
+                  <span>Save Draft</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showSupplierModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+          <div className="bg-white w-full max-w-xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+            <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+              <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><Truck size={120} /></div>
+              <div className="relative z-10">
+                <h3 className="font-black text-3xl tracking-tighter">{supplierForm.id ? 'Supplier Revision' : 'Register Supplier'}</h3>
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Vendor Master Record</p>
+              </div>
+              <button onClick={() => setShowSupplierModal(false)} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+            </div>
+            <form onSubmit={handleSaveSupplier} className="p-10 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <input required value={supplierForm.name || ''} onChange={e => setSupplierForm({ ...supplierForm, name: e.target.value })} className="col-span-2 px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Legal name" />
+                <input required value={supplierForm.code || ''} onChange={e => setSupplierForm({ ...supplierForm, code: e.target.value })} className="px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black uppercase outline-none placeholder:text-slate-300" placeholder="Code" />
+                <input type="number" min={0} value={supplierForm.lead_time_days ?? ''} onChange={e => setSupplierForm({ ...supplierForm, lead_time_days: e.target.value === '' ? null : parseInt(e.target.value) || 0 })} className="px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Lead time (days)" />
+                <input value={supplierForm.contact_name || ''} onChange={e => setSupplierForm({ ...supplierForm, contact_name: e.target.value })} className="px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Contact person" />
+                <input type="email" value={supplierForm.email || ''} onChange={e => setSupplierForm({ ...supplierForm, email: e.target.value })} className="px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Email" />
+                <input value={supplierForm.phone || ''} onChange={e => setSupplierForm({ ...supplierForm, phone: e.target.value })} className="col-span-2 px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Phone" />
+                <textarea rows={2} value={supplierForm.address || ''} onChange={e => setSupplierForm({ ...supplierForm, address: e.target.value })} className="col-span-2 px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-medium outline-none placeholder:text-slate-300" placeholder="Address" />
+              </div>
+              <div className="flex space-x-6 pt-4">
+                <button type="button" onClick={() => setShowSupplierModal(false)} className="flex-1 py-5 border border-slate-200 rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-slate-50 transition-all text-slate-500">Cancel</button>
+                <button type="submit" disabled={isSaving} className="flex-1 py-5 bg-slate-900 text-white rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-blue-600 shadow-2xl flex items-center justify-center space-x-3 disabled:opacity-50 transition-all">
+                  {isSaving ? <Loader2 className="animate-spin" size={20} /> : <Save size={20} />}
+                  <span>Commit Supplier</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {receivingOrder && (
+        <GoodsReceiptModal
+          purchaseOrder={receivingOrder}
+          locations={locations}
+          onClose={() => setReceivingOrder(null)}
+          onReceived={() => { setReceivingOrder(null); fetchData(); }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Purchasing;
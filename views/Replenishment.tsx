@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Loader2,
+  RefreshCw,
+  ShoppingCart,
+  TrendingDown,
+  Package,
+  Truck,
+  Clock,
+  CheckCircle2
+} from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { InventoryItem, Profile, Supplier } from '../types';
+import { fetchOnOrder, fetchSuppliers } from '../lib/purchasing';
+import { fetchOpenDemand } from '../lib/salesOrders';
+import { computeSuggestions, createDraftPurchaseOrders, fetchConsumption, ReplenishmentSuggestion, CONSUMPTION_WINDOW_DAYS } from '../lib/replenishment';
+import { can } from '../lib/permissions';
+
+interface ReplenishmentProps {
+  profile?: Profile | null;
+}
+
+const Replenishment: React.FC<ReplenishmentProps> = ({ profile }) => {
+  const [suggestions, setSuggestions] = useState<ReplenishmentSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+
+  const fetchSuggestions = async () => {
+    setLoading(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [invRes, consumption, supplierList, onOrder, openDemand] = await Promise.all([
+        supabase.from('inventory').select('*'),
+        fetchConsumption(supabase),
+        fetchSuppliers(supabase),
+        fetchOnOrder(supabase),
+        fetchOpenDemand(supabase)
+      ]);
+      if (invRes.error) throw invRes.error;
+      setSuppliers(supplierList);
+
+      const results = computeSuggestions((invRes.data || []) as InventoryItem[], consumption, openDemand, onOrder);
+      setSuggestions(results);
+      setQuantities(Object.fromEntries(results.map(s => [s.item.id, s.suggestedQuantity])));
+      setSelected(Object.fromEntries(results.map(s => [s.item.id, true])));
+    } catch (err: any) {
+      console.error('Replenishment sync error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchSuggestions(); }, []);
+
+  const selectedLines = suggestions
+    .filter(s => selected[s.item.id])
+    .map(s => ({ item: s.item, quantity: quantities[s.item.id] || 0 }));
+
+  const handleGenerate = async () => {
+    if (selectedLines.length === 0) return;
+    setIsGenerating(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      const count = await createDraftPurchaseOrders(supabase, selectedLines);
+      alert(`${count} draft purchase order${count === 1 ? '' : 's'} created.`);
+      fetchSuggestions();
+    } catch (err: any) {
+      alert("Draft generation failed: " + err.message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const orderValue = selectedLines.reduce((acc, l) => acc + l.quantity * l.item.price, 0);
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h1 className="text-4xl font-black text-slate-900 tracking-tighter">Replenishment</h1>
+          <p className="text-slate-500 text-sm font-bold mt-2 uppercase tracking-widest text-[10px]">
+            Lead-Time Projection · {CONSUMPTION_WINDOW_DAYS}-Day Consumption Window
+          </p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={fetchSuggestions}
+            disabled={loading}
+            className="p-4 bg-white border border-slate-200 text-slate-400 hover:text-blue-600 rounded-2xl transition-all hover:border-blue-200 shadow-sm"
+          >
+            <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+          </button>
+          {can(profile, 'purchasing.write') && (
+            <button
+              onClick={handleGenerate}
+              disabled={selectedLines.length === 0 || isGenerating}
+              className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all shadow-2xl shadow-slate-300 disabled:opacity-50"
+            >
+              {isGenerating ? <Loader2 size={20} className="animate-spin" /> : <ShoppingCart size={20} />}
+              <span>Draft POs · ${orderValue.toLocaleString()}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-[3.5rem] border border-slate-200 shadow-2xl overflow-hidden">
+        <div className="overflow-x-auto scrollbar-hide">
+          {loading ? (
+            <div className="p-40 flex flex-col items-center justify-center space-y-6">
+              <Loader2 className="animate-spin text-blue-500" size={56} />
+              <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.3em]">Projecting Stock Positions...</p>
+            </div>
+          ) : suggestions.length === 0 ? (
+            <div className="p-40 flex flex-col items-center justify-center text-center">
+              <CheckCircle2 size={80} className="text-emerald-100 mb-6" />
+              <h3 className="text-2xl font-black text-slate-900 tracking-tight">Stock Positions Healthy</h3>
+              <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-2">No item is projected to breach its reorder point.</p>
+            </div>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-[0.3em] border-b border-slate-200">
+                  <th className="px-8 py-6"></th>
+                  <th className="px-8 py-6">Asset</th>
+                  <th className="px-8 py-6">On Hand</th>
+                  <th className="px-8 py-6">Demand</th>
+                  <th className="px-8 py-6">Projected</th>
+                  <th className="px-8 py-6">Supplier</th>
+                  <th className="px-8 py-6 text-right">Order Qty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {suggestions.map(s => (
+                  <tr key={s.item.id} className="hover:bg-blue-50/30 transition-all">
+                    <td className="px-8 py-6">
+                      <input
+                        type="checkbox"
+                        checked={!!selected[s.item.id]}
+                        onChange={e => setSelected({ ...selected, [s.item.id]: e.target.checked })}
+                        className="w-4 h-4 accent-blue-600 cursor-pointer"
+                      />
+                    </td>
+                    <td className="px-8 py-6">
+                      <div className="flex items-center space-x-4">
+                        <div className="w-12 h-12 rounded-2xl bg-slate-100 overflow-hidden flex items-center justify-center">
+                          {s.item.image_url ? <img src={s.item.image_url} className="w-full h-full object-cover" /> : <Package size={20} className="text-slate-300" />}
+                        </div>
+                        <div>
+                          <p className="text-sm font-black text-slate-900 tracking-tight">{s.item.name}</p>
+                          <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">#{s.item.sku}</p>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-8 py-6">
+                      <p className="text-sm font-black text-slate-900">{s.onHand}</p>
+                      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">ROP {s.reorderPoint}{s.onOrder > 0 && ` · +${s.onOrder} on order`}</p>
+                    </td>
+                    <td className="px-8 py-6">
+                      <p className="text-xs font-black text-slate-700 flex items-center"><TrendingDown size={12} className="mr-1 text-slate-400" />{s.dailyUsage.toFixed(1)}/day</p>
+                      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest flex items-center mt-1">
+                        <Clock size={10} className="mr-1" />{s.item.lead_time_days || 0}d · {s.leadTimeDemand + s.openDemand} due
+                      </p>
+                    </td>
+                    <td className="px-8 py-6">
+                      <span className={`text-sm font-black ${s.projected < 0 ? 'text-rose-600' : 'text-amber-600'}`}>{s.projected}</span>
+                    </td>
+                    <td className="px-8 py-6">
+                      <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest flex items-center">
+                        <Truck size={12} className="mr-2 text-slate-300" />
+                        {suppliers.find(sup => sup.id === s.item.preferred_supplier_id)?.name || 'Unassigned'}
+                      </span>
+                    </td>
+                    <td className="px-8 py-6 text-right">
+                      <input
+                        type="number"
+                        min={0}
+                        value={quantities[s.item.id] ?? 0}
+                        onChange={e => setQuantities({ ...quantities, [s.item.id]: parseInt(e.target.value) || 0 })}
+                        className="w-24 px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-black text-right outline-none focus:ring-4 focus:ring-blue-500/10"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Replenishment;
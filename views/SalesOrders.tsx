@@ -0,0 +1,472 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Plus,
+  Loader2,
+  X,
+  Users,
+  ClipboardList,
+  CheckCircle2,
+  Ship,
+  Ban,
+  Save,
+  Mail,
+  Phone,
+  Calendar,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle
+} from 'lucide-react';
+import { getSupabaseClient } from '../lib/supabase';
+import { Customer, InventoryItem, Profile, SalesOrder } from '../types';
+import {
+  confirmSalesOrder,
+  createSalesOrder,
+  fetchCustomers,
+  fetchSalesOrders,
+  formatSizeBreakdown,
+  getOrderStatusMeta,
+  sumSizeBreakdown,
+  updateSalesOrderStatus,
+  PRODUCTION_CHAIN,
+  SIZE_RUN,
+  SO_STATUSES
+} from '../lib/salesOrders';
+import { can } from '../lib/permissions';
+
+type DraftLine = { item_id: string; size_breakdown: Record<string, number> };
+
+const EMPTY_CUSTOMER: Partial<Customer> = { name: '', code: '', contact_name: '', email: '', phone: '', address: '' };
+
+interface SalesOrdersProps {
+  profile?: Profile | null;
+}
+
+const SalesOrders: React.FC<SalesOrdersProps> = ({ profile }) => {
+  const [tab, setTab] = useState<'orders' | 'customers'>('orders');
+  const [orders, setOrders] = useState<SalesOrder[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [showOrderModal, setShowOrderModal] = useState(false);
+  const [orderForm, setOrderForm] = useState<{ customer_id: string; ship_date: string; notes: string; lines: DraftLine[] }>({
+    customer_id: '', ship_date: '', notes: '', lines: []
+  });
+  const [showCustomerModal, setShowCustomerModal] = useState(false);
+  const [customerForm, setCustomerForm] = useState<Partial<Customer>>(EMPTY_CUSTOMER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchData = async () => {
+    setLoading(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [orderList, customerList, invRes] = await Promise.all([
+        fetchSalesOrders(supabase),
+        fetchCustomers(supabase),
+        supabase.from('inventory').select('id, sku, name').order('sku', { ascending: true })
+      ]);
+      setOrders(orderList);
+      setCustomers(customerList);
+      setInventory((invRes.data || []) as InventoryItem[]);
+    } catch (err: any) {
+      console.error('Sales sync error:', err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchData(); }, []);
+
+  const runAction = async (order: SalesOrder, action: () => Promise<void>) => {
+    setBusyId(order.id);
+    try {
+      await action();
+      fetchData();
+    } catch (err: any) {
+      alert(err.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirm = (order: SalesOrder) => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    const taskCount = (order.lines || []).length * PRODUCTION_CHAIN.length;
+    if (!confirm(`Confirm ${order.order_number}? This releases ${taskCount} production tasks to the pipeline.`)) return;
+    runAction(order, () => confirmSalesOrder(supabase, order));
+  };
+
+  const handleStatus = (order: SalesOrder, status: 'shipped' | 'cancelled') => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    if (status === 'cancelled' && !confirm(`Cancel ${order.order_number}?`)) return;
+    runAction(order, () => updateSalesOrderStatus(supabase, order, status));
+  };
+
+  const handleCreateOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await createSalesOrder(supabase, {
+        customer_id: orderForm.customer_id,
+        ship_date: orderForm.ship_date,
+        notes: orderForm.notes,
+        lines: orderForm.lines.map(l => ({
+          item_id: l.item_id,
+          sku: inventory.find(i => i.id === l.item_id)?.sku || '',
+          size_breakdown: l.size_breakdown
+        }))
+      });
+      setShowOrderModal(false);
+      fetchData();
+    } catch (err: any) {
+      alert("Sales order failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) => {
+    setOrderForm(prev => ({ ...prev, lines: prev.lines.map((l, i) => i === index ? { ...l, ...patch } : l) }));
+  };
+
+  const handleSaveCustomer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Authentication session expired.");
+
+      const payload = {
+        name: customerForm.name,
+        code: customerForm.code?.trim().toUpperCase(),
+        contact_name: customerForm.contact_name || null,
+        email: customerForm.email?.trim().toLowerCase() || null,
+        phone: customerForm.phone || null,
+        address: customerForm.address || null
+      };
+
+      if (customerForm.id) {
+        const { error } = await supabase.from('customers').update(payload).eq('id', customerForm.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('customers').insert([{ ...payload, user_id: user.id }]);
+        if (error) throw error;
+      }
+      setShowCustomerModal(false);
+      fetchData();
+    } catch (err: any) {
+      alert("Customer registration failed: " + err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+  const filteredOrders = orders.filter(o => !statusFilter || o.status === statusFilter);
+
+  return (
+    <div className="space-y-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div>
+          <h1 className="text-4xl font-black text-slate-900 tracking-tighter">Order Book</h1>
+          <p className="text-slate-500 text-sm font-bold mt-2 uppercase tracking-widest text-[10px]">Customer Registry · Sales Orders · Production Release</p>
+        </div>
+        <div className="flex items-center space-x-4">
+          <div className="flex bg-white border border-slate-200 rounded-[1.2rem] p-1 shadow-sm">
+            {(['orders', 'customers'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-400 hover:text-slate-900'}`}
+              >
+                {t === 'orders' ? 'Sales Orders' : 'Customers'}
+              </button>
+            ))}
+          </div>
+          {can(profile, 'sales.write') && (
+            <button
+              onClick={() => {
+                if (tab === 'orders') {
+                  setOrderForm({ customer_id: '', ship_date: '', notes: '', lines: [{ item_id: '', size_breakdown: {} }] });
+                  setShowOrderModal(true);
+                } else {
+                  setCustomerForm(EMPTY_CUSTOMER);
+                  setShowCustomerModal(true);
+                }
+              }}
+              className="flex items-center space-x-3 px-8 py-4 bg-slate-900 text-white rounded-[1.2rem] font-black uppercase text-[10px] tracking-widest hover:bg-slate-800 transition-all shadow-2xl shadow-slate-300"
+            >
+              <Plus size={20} />
+              <span>{tab === 'orders' ? 'New Sales Order' : 'Register Customer'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-40 flex flex-col items-center justify-center space-y-6">
+          <Loader2 className="animate-spin text-blue-500" size={56} />
+          <p className="text-slate-400 text-[10px] font-black uppercase tracking-[0.3em]">Querying Order Book...</p>
+        </div>
+      ) : tab === 'orders' ? (
+        <div className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setStatusFilter('')}
+              className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest border ${!statusFilter ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200'}`}
+            >
+              All · {orders.length}
+            </button>
+            {SO_STATUSES.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setStatusFilter(s.id)}
+                className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest border ${statusFilter === s.id ? 'bg-slate-900 text-white border-slate-900' : s.color}`}
+              >
+                {s.label} · {orders.filter(o => o.status === s.id).length}
+              </button>
+            ))}
+          </div>
+
+          {filteredOrders.length === 0 ? (
+            <div className="bg-white rounded-[3.5rem] border border-slate-200 p-40 flex flex-col items-center justify-center text-center">
+              <ClipboardList size={80} className="text-slate-100 mb-6" />
+              <h3 className="text-2xl font-black text-slate-900 tracking-tight">Order Book Empty</h3>
+            </div>
+          ) : (
+            <div className="bg-white rounded-[3rem] border border-slate-200 shadow-xl divide-y divide-slate-100 overflow-hidden">
+              {filteredOrders.map(order => {
+                const meta = getOrderStatusMeta(order.status);
+                const expanded = expandedId === order.id;
+                const units = (order.lines || []).reduce((acc, l) => acc + l.quantity, 0);
+                const isLate = order.status === 'confirmed' && order.ship_date.split('T')[0] < today;
+                return (
+                  <div key={order.id}>
+                    <div onClick={() => setExpandedId(expanded ? null : order.id)} className="p-8 flex items-center justify-between cursor-pointer hover:bg-blue-50/30 transition-all">
+                      <div className="flex items-center space-x-6">
+                        <div className="p-4 bg-slate-50 rounded-2xl text-slate-400">{expanded ? <ChevronDown size={20} /> : <ChevronRight size={20} />}</div>
+                        <div>
+                          <p className="text-base font-black text-slate-900 font-mono tracking-tight">{order.order_number}</p>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center mt-1">
+                            <Users size={12} className="mr-2" />{order.customer?.name || 'Unknown Customer'}
+                            <Calendar size={12} className="ml-4 mr-2" />Ships {new Date(order.ship_date).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-6">
+                        {isLate && (
+                          <span className="flex items-center space-x-1 text-[9px] font-black text-rose-600 uppercase tracking-widest">
+                            <AlertTriangle size={12} /><span>Late</span>
+                          </span>
+                        )}
+                        <span className="text-sm font-black text-slate-900">{units} Units</span>
+                        <span className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest border ${meta.color}`}>{meta.label}</span>
+                      </div>
+                    </div>
+
+                    {expanded && (
+                      <div className="px-8 pb-8 space-y-6 animate-in fade-in duration-300">
+                        <div className="space-y-2">
+                          {(order.lines || []).map(line => (
+                            <div key={line.id} className="flex items-center justify-between px-6 py-4 bg-slate-50 rounded-2xl">
+                              <span className="text-xs font-mono font-black text-blue-500">#{line.sku}</span>
+                              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{formatSizeBreakdown(line.size_breakdown)}</span>
+                              <span className="text-sm font-black text-slate-900">{line.quantity}</span>
+                            </div>
+                          ))}
+                        </div>
+                        {order.notes && <p className="text-xs text-slate-500 font-medium italic px-2">{order.notes}</p>}
+                        <div className="flex items-center justify-end space-x-3">
+                          {busyId === order.id && <Loader2 className="animate-spin text-slate-300" size={18} />}
+                          {(order.status === 'draft' || order.status === 'confirmed') && can(profile, 'sales.write') && (
+                            <button onClick={() => handleStatus(order, 'cancelled')} className="px-5 py-3 border border-slate-200 text-slate-400 hover:text-rose-600 hover:border-rose-200 rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2">
+                              <Ban size={14} /><span>Cancel</span>
+                            </button>
+                          )}
+                          {order.status === 'draft' && can(profile, 'sales.write') && (
+                            <button onClick={() => handleConfirm(order)} className="px-5 py-3 bg-blue-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 shadow-lg shadow-blue-500/20">
+                              <CheckCircle2 size={14} /><span>Confirm & Release</span>
+                            </button>
+                          )}
+                          {order.status === 'confirmed' && can(profile, 'sales.write') && (
+                            <button onClick={() => handleStatus(order, 'shipped')} className="px-5 py-3 bg-emerald-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 shadow-lg shadow-emerald-500/20">
+                              <Ship size={14} /><span>Mark Shipped</span>
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="bg-white rounded-[3.5rem] border border-slate-200 shadow-2xl overflow-hidden">
+          {customers.length === 0 ? (
+            <div className="p-40 flex flex-col items-center justify-center text-center">
+              <Users size={80} className="text-slate-100 mb-6" />
+              <h3 className="text-2xl font-black text-slate-900 tracking-tight">Customer Registry Empty</h3>
+            </div>
+          ) : (
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-slate-50 text-slate-400 text-[10px] font-black uppercase tracking-[0.3em] border-b border-slate-200">
+                  <th className="px-10 py-6">Customer</th>
+                  <th className="px-10 py-6">Contact</th>
+                  <th className="px-10 py-6">Open Orders</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {customers.map(c => (
+                  <tr key={c.id} onClick={() => { if (!can(profile, 'sales.write')) return; setCustomerForm(c); setShowCustomerModal(true); }} className={`hover:bg-blue-50/30 transition-all ${can(profile, 'sales.write') ? 'cursor-pointer' : ''}`}>
+                    <td className="px-10 py-6">
+                      <p className="text-base font-black text-slate-900 tracking-tight">{c.name}</p>
+                      <p className="text-[10px] font-black text-blue-500 uppercase tracking-[0.2em]">{c.code}</p>
+                    </td>
+                    <td className="px-10 py-6">
+                      <p className="text-xs font-black text-slate-700">{c.contact_name || '—'}</p>
+                      <p className="text-[10px] font-bold text-slate-400 flex items-center space-x-3 mt-1">
+                        {c.email && <span className="flex items-center"><Mail size={10} className="mr-1" />{c.email}</span>}
+                        {c.phone && <span className="flex items-center"><Phone size={10} className="mr-1" />{c.phone}</span>}
+                      </p>
+                    </td>
+                    <td className="px-10 py-6 text-sm font-black text-slate-700">
+                      {orders.filter(o => o.customer_id === c.id && o.status === 'confirmed').length}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {showOrderModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+          <div className="bg-white w-full max-w-4xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+            <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+              <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><ClipboardList size={120} /></div>
+              <div className="relative z-10">
+                <h3 className="font-black text-3xl tracking-tighter">New Sales Order</h3>
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Style · Size Run · Ship Date</p>
+              </div>
+              <button onClick={() => setShowOrderModal(false)} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+            </div>
+            <form onSubmit={handleCreateOrder} className="p-10 space-y-6 max-h-[70vh] overflow-y-auto scrollbar-hide">
+              <div className="grid grid-cols-2 gap-4">
+                <select required value={orderForm.customer_id} onChange={e => setOrderForm({ ...orderForm, customer_id: e.target.value })} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none cursor-pointer">
+                  <option value="">Select customer...</option>
+                  {customers.map(c => <option key={c.id} value={c.id}>{c.code} · {c.name}</option>)}
+                </select>
+                <input type="date" required value={orderForm.ship_date} onChange={e => setOrderForm({ ...orderForm, ship_date: e.target.value })} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none" />
+              </div>
+
+              <div className="space-y-4">
+                {orderForm.lines.map((line, idx) => (
+                  <div key={idx} className="p-5 bg-slate-50 border border-slate-100 rounded-3xl space-y-3">
+                    <div className="flex items-center space-x-3">
+                      <select
+                        required
+                        value={line.item_id}
+                        onChange={e => updateLine(idx, { item_id: e.target.value })}
+                        className="flex-1 px-4 py-3 bg-white border border-slate-200 rounded-2xl text-xs font-black outline-none cursor-pointer"
+                      >
+                        <option value="">Style / SKU...</option>
+                        {inventory.map(inv => <option key={inv.id} value={inv.id}>{inv.sku} - {inv.name}</option>)}
+                      </select>
+                      <span className="text-xs font-black text-slate-900 w-20 text-right">{sumSizeBreakdown(line.size_breakdown)} pcs</span>
+                      <button type="button" onClick={() => setOrderForm({ ...orderForm, lines: orderForm.lines.filter((_, i) => i !== idx) })} className="p-2 text-slate-300 hover:text-rose-500"><X size={16} /></button>
+                    </div>
+                    <div className="grid grid-cols-6 gap-2">
+                      {SIZE_RUN.map(size => (
+                        <div key={size} className="space-y-1">
+                          <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest ml-2">{size}</label>
+                          <input
+                            type="number"
+                            min={0}
+                            value={line.size_breakdown[size] || ''}
+                            onChange={e => updateLine(idx, { size_breakdown: { ...line.size_breakdown, [size]: parseInt(e.target.value) || 0 } })}
+                            className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-black outline-none text-center"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setOrderForm({ ...orderForm, lines: [...orderForm.lines, { item_id: '', size_breakdown: {} }] })}
+                  className="w-full py-3 border-2 border-dashed border-slate-200 rounded-2xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-600 hover:border-blue-200 flex items-center justify-center space-x-2"
+                >
+                  <Plus size={14} /><span>Add Style</span>
+                </button>
+              </div>
+
+              <textarea rows={2} value={orderForm.notes} onChange={e => setOrderForm({ ...orderForm, notes: e.target.value })} className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-medium outline-none" placeholder="Packing, labelling, buyer instructions..." />
+
+              <div className="flex space-x-6 pt-2">
+                <button type="button" onClick={() => setShowOrderModal(false)} className="flex-1 py-5 border border-slate-200 rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-slate-50 transition-all text-slate-500">Cancel</button>
+                <button type="submit" disabled={isSaving} className="flex-1 py-5 bg-slate-900 text-white rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-blue-600 shadow-2xl flex items-center justify-center space-x-3 disabled:opacity-50 transition-all">
+                  {isSaving ? <Loader2 className="animate-spin" size={20} /> : <Save size={20} />}
+                  <span>Save Draft</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showCustomerModal && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-6 bg-slate-900/60 backdrop-blur-xl animate-in fade-in duration-300">
+          <div className="bg-white w-full max-w-xl rounded-[3.5rem] shadow-2xl overflow-hidden animate-in zoom-in-95 duration-500 border border-white/20">
+            <div className="bg-slate-900 p-10 flex items-center justify-between text-white relative overflow-hidden">
+              <div className="absolute -top-10 -right-10 opacity-10 rotate-12"><Users size={120} /></div>
+              <div className="relative z-10">
+                <h3 className="font-black text-3xl tracking-tighter">{customerForm.id ? 'Customer Revision' : 'Register Customer'}</h3>
+                <p className="text-[10px] font-black text-slate-500 uppercase tracking-[0.3em] mt-2">Buyer Master Record</p>
+              </div>
+              <button onClick={() => setShowCustomerModal(false)} className="p-3 bg-white/5 rounded-2xl hover:bg-rose-500 transition-all text-slate-400 hover:text-white relative z-10"><X size={28} /></button>
+            </div>
+            <form onSubmit={handleSaveCustomer} className="p-10 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <input required value={customerForm.name || ''} onChange={e => setCustomerForm({ ...customerForm, name: e.target.value })} className="col-span-2 px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Buyer name" />
+                <input required value={customerForm.code || ''} onChange={e => setCustomerForm({ ...customerForm, code: e.target.value })} className="px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black uppercase outline-none placeholder:text-slate-300" placeholder="Code" />
+                <input value={customerForm.contact_name || ''} onChange={e => setCustomerForm({ ...customerForm, contact_name: e.target.value })} className="px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Contact person" />
+                <input type="email" value={customerForm.email || ''} onChange={e => setCustomerForm({ ...customerForm, email: e.target.value })} className="px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Email" />
+                <input value={customerForm.phone || ''} onChange={e => setCustomerForm({ ...customerForm, phone: e.target.value })} className="px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black outline-none placeholder:text-slate-300" placeholder="Phone" />
+                <textarea rows={2} value={customerForm.address || ''} onChange={e => setCustomerForm({ ...customerForm, address: e.target.value })} className="col-span-2 px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-medium outline-none placeholder:text-slate-300" placeholder="Delivery address" />
+              </div>
+              <div className="flex space-x-6 pt-4">
+                <button type="button" onClick={() => setShowCustomerModal(false)} className="flex-1 py-5 border border-slate-200 rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-slate-50 transition-all text-slate-500">Cancel</button>
+                <button type="submit" disabled={isSaving} className="flex-1 py-5 bg-slate-900 text-white rounded-[2rem] font-black uppercase text-[10px] tracking-[0.2em] hover:bg-blue-600 shadow-2xl flex items-center justify-center space-x-3 disabled:opacity-50 transition-all">
+                  {isSaving ? <Loader2 className="animate-spin" size={20} /> : <Save size={20} />}
+                  <span>Commit Customer</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SalesOrders;
@@ -12,10 +12,47 @@ import {
   Zap,
   Droplets,
   Star,
-  Users
+  Users,
+  Receipt,
+  AlertTriangle,
+  Factory,
+  Gauge,
+  CalendarClock,
+  Lock,
+  KanbanSquare,
+  GanttChart,
+  MessageSquare,
+  ScanLine
 } from 'lucide-react';
 import { getSupabaseClient } from '../lib/supabase';
-import { Task, InventoryItem, Profile } from '../types';
+import { Email, Task, InventoryItem, Profile, BomLine, WorkOrder, StockLocation, ProductionStage, TaskDependency, ProductStyle } from '../types';
+import { explodeBom, fetchAllBomLines, hasShortage, maxBuildable } from '../lib/bom';
+import { createWorkOrder, fetchWorkOrders, getWorkOrderStatusMeta, isOpenWorkOrder, isProductionStage, stageTotals } from '../lib/workOrders';
+import { fetchLocations } from '../lib/locations';
+import {
+  computeWipLoad,
+  fetchWipLimits,
+  getLane,
+  orderBetween,
+  persistTaskPosition,
+  respaceLane,
+  saveWipLimits,
+  DEFAULT_WIP_LIMITS,
+  TASK_STATUSES,
+  WipLimits
+} from '../lib/pipeline';
+import { fetchDependencies, openPredecessors } from '../lib/schedule';
+import WorkOrderPanel from '../components/WorkOrderPanel';
+import TaskTimeline from '../components/TaskTimeline';
+import TaskScheduleModal from '../components/TaskScheduleModal';
+import TaskDetailPanel from '../components/TaskDetailPanel';
+import TaskScanPanel from '../components/TaskScanPanel';
+import { fetchCommentCounts } from '../lib/taskComments';
+import { logTaskChanges, notifyTaskAssigned } from '../lib/taskActivity';
+import { can, canMoveTask } from '../lib/permissions';
+import { fetchOrgMembers } from '../lib/organizations';
+import { fetchStyles, resolveTaskItems } from '../lib/variants';
+import { EmailDraft } from '../lib/emailLinks';
 
 const DEPARTMENTS = [
   { id: 'planning', label: 'Planning', color: 'bg-slate-100 text-slate-700', icon: <Layers size={14} /> },
@@ -25,14 +62,34 @@ const DEPARTMENTS = [
   { id: 'finishing', label: 'Finishing', color: 'bg-emerald-50 text-emerald-700', icon: <Star size={14} /> }
 ] as const;
 
-const Tasks: React.FC = () => {
+interface TasksProps {
+  profile?: Profile | null;
+  onOpenMessage?: (email: Email) => void;
+  onComposeMessage?: (draft: EmailDraft) => void;
+}
+
+const Tasks: React.FC<TasksProps> = ({ profile, onOpenMessage, onComposeMessage }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [styles, setStyles] = useState<ProductStyle[]>([]);
+  const [bomLines, setBomLines] = useState<BomLine[]>([]);
+  const [workOrders, setWorkOrders] = useState<WorkOrder[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [wipLimits, setWipLimits] = useState<WipLimits>(DEFAULT_WIP_LIMITS);
+  const [limitDraft, setLimitDraft] = useState<WipLimits | null>(null);
+  const [activeWorkOrder, setActiveWorkOrder] = useState<{ id: string; stage?: ProductionStage } | null>(null);
   const [teamMembers, setTeamMembers] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [draggingTaskId, setDraggingTaskId] = useState<string | null>(null);
+  const [conflictNotice, setConflictNotice] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'board' | 'timeline'>('board');
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [scheduleTaskId, setScheduleTaskId] = useState<string | null>(null);
+  const [detailTaskId, setDetailTaskId] = useState<string | null>(null);
+  const [showScan, setShowScan] = useState(false);
+  const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
   const [currentUser, setCurrentUser] = useState<string | null>(null);
 
   const [newTask, setNewTask] = useState<Partial<Task>>({
@@ -41,6 +98,7 @@ const Tasks: React.FC = () => {
     department: 'planning',
     priority: 'medium',
     sku_ref: '',
+    variant_skus: [],
     assigned_to: ''
   });
 
@@ -57,8 +115,11 @@ const Tasks: React.FC = () => {
         .select(`
           *,
           creator:profiles!user_id(full_name, avatar_url),
-          assignee:profiles!assigned_to(full_name, avatar_url)
+          assignee:profiles!assigned_to(full_name, avatar_url),
+          sales_order:sales_orders!sales_order_id(order_number, ship_date),
+          sales_order_line:sales_order_lines!sales_order_line_id(quantity)
         `)
+        .order('order_index', { ascending: true })
         .order('created_at', { ascending: true });
       
       if (error) throw error;
@@ -68,6 +129,23 @@ const Tasks: React.FC = () => {
     }
   };
 
+  const fetchProduction = async () => {
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+    try {
+      const [orders, { data: stock }, styleList] = await Promise.all([
+        fetchWorkOrders(supabase),
+        supabase.from('inventory').select('id, sku, name, quantity, style_id, size, color'),
+        fetchStyles(supabase).catch(() => [] as ProductStyle[])
+      ]);
+      setWorkOrders(orders);
+      setInventory((stock || []) as InventoryItem[]);
+      setStyles(styleList);
+    } catch (e) {
+      console.error("Fetch work orders failed:", e);
+    }
+  };
+
   const fetchData = async () => {
     setLoading(true);
     const supabase = getSupabaseClient();
@@ -76,14 +154,14 @@ const Tasks: React.FC = () => {
     try {
       await Promise.all([
         fetchTasks(),
-        (async () => {
-          const { data } = await supabase.from('inventory').select('sku, name');
-          setInventory(data || []);
-        })(),
-        (async () => {
-          const { data } = await supabase.from('profiles').select('*');
-          setTeamMembers(data || []);
-        })()
+        fetchProduction(),
+        fetchAllBomLines(supabase).then(setBomLines).catch(() => setBomLines([])),
+        fetchLocations(supabase).then(setLocations).catch(() => setLocations([])),
+        fetchWipLimits(supabase).then(setWipLimits).catch(() => setWipLimits(DEFAULT_WIP_LIMITS)),
+        fetchDependencies(supabase).then(setDependencies).catch(() => setDependencies([])),
+        fetchCommentCounts(supabase).then(setCommentCounts).catch(() => setCommentCounts({})),
+        (profile?.active_org_id ? fetchOrgMembers(supabase, profile.active_org_id) : Promise.resolve([]))
+          .then(setTeamMembers).catch(() => setTeamMembers([]))
       ]);
     } catch (e) {
       console.error("Critical data fetch error:", e);
@@ -102,11 +180,29 @@ const Tasks: React.FC = () => {
       .on('postgres_changes', { event: '*', table: 'tasks', schema: 'public' }, () => {
         fetchTasks();
       })
+      .on('postgres_changes', { event: '*', table: 'task_dependencies', schema: 'public' }, () => {
+        fetchDependencies(supabase).then(setDependencies).catch(() => {});
+      })
+      .on('postgres_changes', { event: '*', table: 'work_order_outputs', schema: 'public' }, () => {
+        fetchProduction();
+      })
+      .on('postgres_changes', { event: '*', table: 'task_comments', schema: 'public' }, () => {
+        fetchCommentCounts(supabase).then(setCommentCounts).catch(() => {});
+      })
       .subscribe();
 
     return () => { supabase.removeChannel(channel); };
   }, []);
 
+  // A style target can be narrowed to some of its variants; variants are not offered on their own
+  const newTaskStyle = styles.find(s => s.code === newTask.sku_ref);
+  const newTaskVariants = newTaskStyle ? inventory.filter(i => i.style_id === newTaskStyle.id) : [];
+
+  const toggleNewTaskVariant = (sku: string) => {
+    const selected = newTask.variant_skus || [];
+    setNewTask({ ...newTask, variant_skus: selected.includes(sku) ? selected.filter(s => s !== sku) : [...selected, sku] });
+  };
+
   const handleAddTask = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSaving(true);
@@ -123,15 +219,18 @@ const Tasks: React.FC = () => {
         department: newTask.department,
         priority: newTask.priority,
         sku_ref: newTask.sku_ref || null,
+        variant_skus: newTaskStyle && newTask.variant_skus?.length ? newTask.variant_skus : null,
         assigned_to: newTask.assigned_to || null,
         user_id: user.id,
-        status: 'todo'
+        status: 'todo',
+        order_index: orderBetween(getLane(tasks, newTask.department || 'planning', 'todo').at(-1)?.order_index)
       };
 
-      const { error } = await supabase.from('tasks').insert([payload]);
+      const { data: created, error } = await supabase.from('tasks').insert([payload]).select('id').single();
       if (error) throw error;
+      await notifyTaskAssigned(supabase, { ...payload, id: created.id, title: payload.title || '', department: payload.department || 'planning' });
       setShowAddModal(false);
-      setNewTask({ title: '', description: '', department: 'planning', priority: 'medium', sku_ref: '', assigned_to: '' });
+      setNewTask({ title: '', description: '', department: 'planning', priority: 'medium', sku_ref: '', variant_skus: [], assigned_to: '' });
       fetchTasks();
     } catch (e: any) {
       alert(e.message);
@@ -142,36 +241,354 @@ const Tasks: React.FC = () => {
 
   const handleDragStart = (taskId: string) => { setDraggingTaskId(taskId); };
 
-  const handleDrop = async (e: React.DragEvent, targetDept: typeof DEPARTMENTS[number]['id']) => {
-    e.preventDefault();
-    if (!draggingTaskId) return;
+  type Department = typeof DEPARTMENTS[number]['id'];
+
+  // Shared by drag-and-drop, keyboard and scanner moves: places the card before `beforeId`, or at the end of the lane.
+  // Resolves false when the move was refused or rolled back.
+  const moveTask = async (taskToMove: Task, targetDept: Department, targetStatus: Task['status'], beforeId: string | null): Promise<boolean> => {
+    if (beforeId === taskToMove.id) return false;
+    if (!canMoveTask(profile, taskToMove.department, targetDept)) {
+      alert(profile?.department
+        ? `Your role only moves cards in or out of ${profile.department}.`
+        : "Your role cannot move operations.");
+      return false;
+    }
+
+    const enteringWip = targetStatus === 'in_progress' && (taskToMove.status !== 'in_progress' || taskToMove.department !== targetDept);
+    const load = wipLoad[targetDept];
+    if (enteringWip && load.atLimit) {
+      const label = DEPARTMENTS.find(d => d.id === targetDept)?.label;
+      if (!confirm(`${label} is at its WIP limit (${load.wip}/${load.limit}). Start this operation anyway?`)) return false;
+    }
 
+    const supabase = getSupabaseClient();
+    if (!supabase) return false;
+
+    const reloadAfterConflict = () => {
+      setConflictNotice("Another supervisor moved these cards at the same time. The board has been reloaded; please retry your move.");
+      fetchTasks();
+      return false;
+    };
+
+    try {
+      let lane = getLane(tasks, targetDept, targetStatus, taskToMove.id);
+      const position = () => {
+        const idx = beforeId ? lane.findIndex(t => t.id === beforeId) : -1;
+        const at = idx === -1 ? lane.length : idx;
+        return orderBetween(lane[at - 1]?.order_index, lane[at]?.order_index);
+      };
+
+      let orderIndex = position();
+      if (orderIndex === null) {
+        const respaced = await respaceLane(supabase, lane);
+        if (!respaced) return reloadAfterConflict();
+        lane = respaced;
+        orderIndex = position()!;
+      }
+
+      const patch = { department: targetDept, status: targetStatus, order_index: orderIndex };
+      setTasks(prev => prev.map(t => t.id === taskToMove.id ? { ...t, ...patch } : t));
+
+      const version = await persistTaskPosition(supabase, taskToMove, patch);
+      if (version === null) return reloadAfterConflict();
+      setTasks(prev => prev.map(t => t.id === taskToMove.id ? { ...t, version } : t));
+      await logTaskChanges(supabase, taskToMove, patch);
+    } catch (e: any) {
+      alert("Move failed: " + e.message);
+      fetchTasks();
+      return false;
+    }
+
+    // Moving a work-order card downstream hands pieces on, so prompt for the output of the stage it left
+    const fromDept = taskToMove.department;
+    const workOrder = workOrders.find(w => w.id === taskToMove.work_order_id);
+    const movedForward = DEPARTMENTS.findIndex(d => d.id === targetDept) > DEPARTMENTS.findIndex(d => d.id === fromDept);
+    if (workOrder && isOpenWorkOrder(workOrder) && isProductionStage(fromDept) && movedForward) {
+      setActiveWorkOrder({ id: workOrder.id, stage: fromDept });
+    }
+    return true;
+  };
+
+  const handleDrop = (e: React.DragEvent, targetDept: Department, targetStatus: Task['status'], beforeId: string | null = null) => {
+    e.preventDefault();
+    e.stopPropagation();
     const taskToMove = tasks.find(t => t.id === draggingTaskId);
-    if (taskToMove?.department === targetDept) return;
+    setDraggingTaskId(null);
+    if (taskToMove) moveTask(taskToMove, targetDept, targetStatus, beforeId);
+  };
+
+  // Alt+Up/Down reorders within the lane, Alt+Left/Right changes department, Alt+Shift+Left/Right changes status
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (!e.altKey || !e.key.startsWith('Arrow')) return;
+    e.preventDefault();
+
+    const lane = getLane(tasks, task.department, task.status);
+    const idx = lane.findIndex(t => t.id === task.id);
+    const deptIdx = DEPARTMENTS.findIndex(d => d.id === task.department);
+    const statusIdx = TASK_STATUSES.findIndex(st => st.id === task.status);
+
+    if (e.key === 'ArrowUp' && idx > 0) {
+      moveTask(task, task.department, task.status, lane[idx - 1].id);
+    } else if (e.key === 'ArrowDown' && idx < lane.length - 1) {
+      moveTask(task, task.department, task.status, lane[idx + 2]?.id || null);
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      const step = e.key === 'ArrowLeft' ? -1 : 1;
+      if (e.shiftKey) {
+        const next = TASK_STATUSES[statusIdx + step];
+        if (next) moveTask(task, task.department, next.id, null);
+      } else {
+        const next = DEPARTMENTS[deptIdx + step];
+        if (next) moveTask(task, next.id, task.status, null);
+      }
+    } else {
+      return;
+    }
+    // Keep focus on the moved card once the board re-renders
+    requestAnimationFrame(() => document.getElementById(`task-card-${task.id}`)?.focus());
+  };
 
-    setTasks(prev => prev.map(t => t.id === draggingTaskId ? { ...t, department: targetDept } : t));
+  const openWorkOrder = async (task: Task) => {
+    if (task.work_order_id) {
+      setActiveWorkOrder({ id: task.work_order_id, stage: isProductionStage(task.department) ? task.department : undefined });
+      return;
+    }
+
+    const targets = resolveTaskItems(task, inventory, styles);
+    if (targets.length > 1) {
+      alert("A work order builds one SKU. Narrow this task to a single variant first.");
+      return;
+    }
+    const item = targets[0];
+    if (!item) {
+      alert("Link this task to a registered SKU before opening a work order.");
+      return;
+    }
+    const planned = task.sales_order_line?.quantity || parseInt(prompt(`Planned quantity for ${item.sku}?`) || '', 10);
+    if (!planned) return;
 
     const supabase = getSupabaseClient();
-    if (supabase) {
-      await supabase.from('tasks').update({ department: targetDept }).eq('id', draggingTaskId);
+    if (!supabase) return;
+    try {
+      const id = await createWorkOrder(supabase, {
+        item_id: item.id,
+        sku: item.sku,
+        planned_quantity: planned,
+        sales_order_line_id: task.sales_order_line_id,
+        task_id: task.id
+      });
+      await Promise.all([fetchTasks(), fetchProduction()]);
+      setActiveWorkOrder({ id, stage: isProductionStage(task.department) ? task.department : undefined });
+    } catch (e: any) {
+      alert("Work order failed: " + e.message);
     }
-    setDraggingTaskId(null);
   };
 
   const handleDragOver = (e: React.DragEvent) => { e.preventDefault(); };
 
   const deleteTask = async (task: Task) => {
-    if (task.user_id !== currentUser) {
-      alert("Only the operation initiator can purge this task.");
+    if (!can(profile, 'tasks.delete')) {
+      alert("Your role cannot purge operations.");
       return;
     }
     if (!confirm("Permanently delete this operation?")) return;
     const supabase = getSupabaseClient();
     if (!supabase) return;
-    await supabase.from('tasks').delete().eq('id', task.id);
+    // Row-level security drops rows it hides without an error, so an empty result means nothing was deleted
+    const { data, error } = await supabase.from('tasks').delete().eq('id', task.id).select('id');
+    if (error || !data?.length) {
+      alert("Purge failed: " + (error?.message || "the operation is already gone or outside your access."));
+      fetchTasks();
+      return;
+    }
     setTasks(prev => prev.filter(t => t.id !== task.id));
   };
 
+  // Cutting is where materials are first drawn, so only those cards check the BOM against stock
+  const getMaterialStatus = (task: Task) => {
+    if (task.department !== 'cutting' || !task.sku_ref || task.status === 'completed') return null;
+    // A task spanning several variants has no single run to check
+    const targets = resolveTaskItems(task, inventory, styles);
+    const item = targets.length === 1 ? targets[0] : undefined;
+    if (!item || !bomLines.some(l => l.parent_item_id === item.id)) return null;
+
+    const runQuantity = task.sales_order_line?.quantity;
+    if (!runQuantity) {
+      const buildable = maxBuildable(item.id, bomLines, inventory) || 0;
+      return { ok: buildable > 0, label: `Materials for ${buildable}` };
+    }
+    const requirements = explodeBom(item.id, runQuantity, bomLines, inventory);
+    const short = requirements.filter(r => r.shortage > 0);
+    return hasShortage(requirements)
+      ? { ok: false, label: `${short.length} short: ${short.map(r => r.sku).join(', ')}` }
+      : { ok: true, label: `Materials ready · ${runQuantity}` };
+  };
+
+  const handleSaveLimits = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!limitDraft) return;
+    setIsSaving(true);
+    const supabase = getSupabaseClient();
+    if (!supabase) return;
+
+    try {
+      await saveWipLimits(supabase, limitDraft);
+      setWipLimits(limitDraft);
+      setLimitDraft(null);
+    } catch (e: any) {
+      alert("WIP limits rejected: " + e.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const wipLoad = computeWipLoad(tasks, wipLimits);
+
+  const renderCard = (task: Task) => (
+    <div 
+      key={task.id}
+      id={`task-card-${task.id}`}
+      tabIndex={0}
+      draggable={can(profile, 'tasks.move')}
+      onDragStart={() => handleDragStart(task.id)}
+      onDragOver={handleDragOver}
+      onDrop={(e) => handleDrop(e, task.department, task.status, task.id)}
+      onKeyDown={(e) => handleCardKeyDown(e, task)}
+      aria-label={`${task.title}. Alt+Arrow keys to move.`}
+      className={`bg-white p-5 rounded-2xl border border-slate-200 shadow-sm group hover:border-blue-400 transition-all cursor-grab active:cursor-grabbing hover:shadow-xl hover:shadow-blue-500/5 outline-none focus:ring-4 focus:ring-blue-500/20 focus:border-blue-400 ${
+        draggingTaskId === task.id ? 'opacity-40' : ''
+      }`}
+    >
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex items-center space-x-2">
+           <div className={`w-1.5 h-1.5 rounded-full ${
+             task.priority === 'high' ? 'bg-rose-500' : 
+             task.priority === 'medium' ? 'bg-amber-500' : 'bg-emerald-500'
+           }`}></div>
+           <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+             {task.priority}
+           </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {can(profile, 'tasks.write') && (
+            <button onClick={() => setScheduleTaskId(task.id)} className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-blue-500 transition-all" title="Schedule & dependencies">
+              <CalendarClock size={14} />
+            </button>
+          )}
+          {can(profile, 'tasks.delete') && (
+            <button onClick={() => deleteTask(task)} className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-rose-500 transition-all">
+              <X size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+      
+      <h4 onClick={() => setDetailTaskId(task.id)} className="text-sm font-black text-slate-900 mb-1 leading-tight tracking-tight cursor-pointer hover:text-blue-600 transition-colors">{task.title}</h4>
+      {(() => {
+        const blockers = task.status === 'completed' ? [] : openPredecessors(task, tasks, dependencies);
+        if (blockers.length === 0) return null;
+        return (
+          <div className="flex items-center space-x-2 mb-2 text-amber-600" title={blockers.map(b => b.title).join('\n')}>
+            <Lock size={10} />
+            <span className="text-[9px] font-black uppercase tracking-widest">Waiting on {blockers.length === 1 ? blockers[0].department : `${blockers.length} operations`}</span>
+          </div>
+        );
+      })()}
+      {task.description && <p className="text-[11px] text-slate-500 font-medium mb-4 line-clamp-2 leading-relaxed">{task.description}</p>}
+      {(() => {
+        const materials = getMaterialStatus(task);
+        if (!materials) return null;
+        return (
+          <div className={`flex items-center space-x-2 mb-4 px-2 py-1 rounded-lg border w-fit ${
+            materials.ok ? 'bg-emerald-50 border-emerald-100 text-emerald-600' : 'bg-rose-50 border-rose-100 text-rose-600'
+          }`}>
+            {materials.ok ? <CheckCircle2 size={10} /> : <AlertTriangle size={10} />}
+            <span className="text-[9px] font-black uppercase tracking-widest truncate max-w-[180px]">{materials.label}</span>
+          </div>
+        );
+      })()}
+      {(() => {
+        const workOrder = workOrders.find(w => w.id === task.work_order_id);
+        if (!workOrder && (!task.sku_ref || !can(profile, 'production.write'))) return null;
+        if (!workOrder) {
+          return (
+            <button onClick={() => openWorkOrder(task)} className="flex items-center space-x-2 mb-4 px-2 py-1 rounded-lg border border-dashed border-slate-200 text-slate-400 hover:text-blue-600 hover:border-blue-200 transition-all">
+              <Factory size={10} />
+              <span className="text-[9px] font-black uppercase tracking-widest">Open Work Order</span>
+            </button>
+          );
+        }
+        const meta = getWorkOrderStatusMeta(workOrder.status);
+        const stageOutput = isProductionStage(task.department) ? stageTotals(workOrder.outputs)[task.department].good : null;
+        return (
+          <button onClick={() => openWorkOrder(task)} className={`flex items-center space-x-2 mb-4 px-2 py-1 rounded-lg border w-fit ${meta.color}`}>
+            <Factory size={10} />
+            <span className="text-[9px] font-mono font-black">{workOrder.wo_number}</span>
+            <span className="text-[8px] font-black uppercase tracking-widest">
+              {stageOutput !== null ? `${stageOutput}/${workOrder.planned_quantity}` : meta.label}
+            </span>
+          </button>
+        );
+      })()}
+      {task.sales_order && (
+        <div className="flex items-center space-x-2 mb-4 px-2 py-1 bg-blue-50 border border-blue-100 rounded-lg w-fit">
+          <Receipt size={10} className="text-blue-500" />
+          <span className="text-[9px] font-mono font-black text-blue-600">{task.sales_order.order_number}</span>
+          {task.sales_order.ship_date && (
+            <span className="text-[8px] font-black text-blue-400 uppercase tracking-widest">Ships {new Date(task.sales_order.ship_date).toLocaleDateString()}</span>
+          )}
+        </div>
+      )}
+      
+      <div className="flex items-center justify-between pt-4 border-t border-slate-50">
+        <div className="flex items-center space-x-2">
+          <div className="flex -space-x-1">
+            <div className="w-6 h-6 rounded-lg bg-slate-100 overflow-hidden border border-white flex items-center justify-center ring-1 ring-slate-200">
+              {task.creator?.avatar_url ? (
+                <img src={task.creator.avatar_url} className="w-full h-full object-cover" />
+              ) : (
+                <User size={10} className="text-slate-400" />
+              )}
+            </div>
+            {task.assignee && (
+              <div className="w-6 h-6 rounded-lg bg-blue-100 overflow-hidden border border-white flex items-center justify-center ring-1 ring-blue-200">
+                {task.assignee.avatar_url ? (
+                  <img src={task.assignee.avatar_url} className="w-full h-full object-cover" />
+                ) : (
+                  <User size={10} className="text-blue-400" />
+                )}
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col">
+            <span className="text-[9px] font-black text-slate-900 uppercase tracking-tight truncate max-w-[60px]">
+              {task.assignee?.full_name || task.creator?.full_name || 'System'}
+            </span>
+            <span className="text-[7px] text-slate-400 font-bold uppercase tracking-widest">
+              {task.assignee ? 'Operator' : 'Owner'}
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button onClick={() => setDetailTaskId(task.id)} className="flex items-center space-x-1 px-2 py-1 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-blue-50 transition-all" title="Discussion & activity">
+            <MessageSquare size={10} />
+            {commentCounts[task.id] > 0 && <span className="text-[9px] font-black">{commentCounts[task.id]}</span>}
+          </button>
+          {task.sku_ref && (
+            <div className="flex items-center space-x-1 px-2 py-1 bg-slate-50 rounded-lg border border-slate-200">
+               <Package size={10} className="text-slate-400" />
+               <span className="text-[9px] font-mono font-black text-slate-500">{task.sku_ref}</span>
+               {task.variant_skus?.length ? (
+                 <span title={task.variant_skus.join(', ')} className="text-[8px] font-black text-slate-400 uppercase tracking-widest">
+                   · {task.variant_skus.length} var.
+                 </span>
+               ) : null}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="h-full flex flex-col space-y-6 animate-in fade-in duration-500">
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
@@ -185,113 +602,123 @@ const Tasks: React.FC = () => {
           </div>
           <p className="text-slate-500 text-xs font-black mt-1 uppercase tracking-[0.2em]">Operational Coordination Hub</p>
         </div>
-        <button 
-          onClick={() => setShowAddModal(true)}
-          className="flex items-center space-x-2 px-6 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs tracking-widest hover:bg-slate-800 transition-all shadow-xl shadow-slate-200"
-        >
-          <Plus size={16} />
-          <span>New Operation</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setViewMode(viewMode === 'board' ? 'timeline' : 'board')}
+            className="flex items-center space-x-2 px-5 py-3 bg-white border border-slate-200 text-slate-600 rounded-2xl font-black uppercase text-xs tracking-widest hover:bg-slate-50 transition-all"
+          >
+            {viewMode === 'board' ? <GanttChart size={16} /> : <KanbanSquare size={16} />}
+            <span>{viewMode === 'board' ? 'Timeline' : 'Board'}</span>
+          </button>
+          <button
+            onClick={() => setShowScan(true)}
+            className="flex items-center space-x-2 px-5 py-3 bg-white border border-slate-200 text-slate-600 rounded-2xl font-black uppercase text-xs tracking-widest hover:bg-slate-50 transition-all"
+          >
+            <ScanLine size={16} />
+            <span>Scan</span>
+          </button>
+          {can(profile, 'pipeline.configure') && (
+            <button
+              onClick={() => setLimitDraft({ ...wipLimits })}
+              className="flex items-center space-x-2 px-5 py-3 bg-white border border-slate-200 text-slate-600 rounded-2xl font-black uppercase text-xs tracking-widest hover:bg-slate-50 transition-all"
+            >
+              <Gauge size={16} />
+              <span>WIP Limits</span>
+            </button>
+          )}
+          {can(profile, 'tasks.write') && (
+            <button 
+              onClick={() => setShowAddModal(true)}
+              className="flex items-center space-x-2 px-6 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs tracking-widest hover:bg-slate-800 transition-all shadow-xl shadow-slate-200"
+            >
+              <Plus size={16} />
+              <span>New Operation</span>
+            </button>
+          )}
+        </div>
       </div>
 
-      <div className="flex-1 overflow-x-auto pb-6 scrollbar-hide">
-        <div className="flex space-x-6 h-full min-w-max px-1">
-          {DEPARTMENTS.map((dept) => (
-            <div 
-              key={dept.id}
-              onDragOver={handleDragOver}
-              onDrop={(e) => handleDrop(e, dept.id)}
-              className="w-80 flex flex-col space-y-4"
-            >
-              <div className={`px-5 py-4 rounded-[1.5rem] ${dept.color} flex items-center justify-between border border-transparent shadow-sm`}>
-                <div className="flex items-center space-x-3">
-                  {dept.icon}
-                  <span className="text-xs font-black uppercase tracking-[0.15em]">{dept.label}</span>
-                </div>
-                <span className="text-[10px] font-black opacity-40 bg-black/5 px-2 py-0.5 rounded-full">
-                  {tasks.filter(t => t.department === dept.id).length}
-                </span>
-              </div>
+      {conflictNotice && (
+        <div className="flex items-center justify-between px-5 py-3 bg-amber-50 border border-amber-100 rounded-2xl text-amber-700 animate-in fade-in duration-300">
+          <div className="flex items-center space-x-3">
+            <AlertTriangle size={14} />
+            <span className="text-[10px] font-black uppercase tracking-widest">{conflictNotice}</span>
+          </div>
+          <button onClick={() => setConflictNotice(null)} className="p-1 hover:text-amber-900"><X size={14} /></button>
+        </div>
+      )}
 
-              <div className="flex-1 bg-slate-200/30 rounded-[2rem] p-3 border-2 border-dashed border-slate-200/50 space-y-3 min-h-[500px] transition-colors hover:border-blue-200/50">
-                {loading ? (
-                  <div className="flex items-center justify-center h-20"><Loader2 className="animate-spin text-slate-300" /></div>
-                ) : tasks.filter(t => t.department === dept.id).length === 0 ? (
-                  <div className="h-full flex items-center justify-center p-10 text-center">
-                    <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Zone Idle</p>
+      {viewMode === 'timeline' ? (
+        <TaskTimeline tasks={tasks} dependencies={dependencies} onSelect={(task) => can(profile, 'tasks.write') ? setScheduleTaskId(task.id) : setDetailTaskId(task.id)} />
+      ) : (
+        <div className="flex-1 overflow-x-auto pb-6 scrollbar-hide">
+          <div className="flex space-x-6 h-full min-w-max px-1">
+            {DEPARTMENTS.map((dept) => {
+              const deptTasks = tasks.filter(t => t.department === dept.id);
+              const load = wipLoad[dept.id];
+              return (
+                <div key={dept.id} className="w-80 flex flex-col space-y-4">
+                  <div className={`px-5 py-4 rounded-[1.5rem] ${dept.color} flex items-center justify-between border ${load.overLimit ? 'border-rose-300 ring-4 ring-rose-500/10' : 'border-transparent'} shadow-sm`}>
+                    <div className="flex items-center space-x-3">
+                      {dept.icon}
+                      <span className="text-xs font-black uppercase tracking-[0.15em]">{dept.label}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span
+                        title="In progress / WIP limit"
+                        className={`flex items-center space-x-1 text-[10px] font-black px-2 py-0.5 rounded-full ${
+                          load.overLimit ? 'bg-rose-500 text-white' : load.atLimit ? 'bg-amber-400 text-white' : 'bg-black/5 opacity-60'
+                        }`}
+                      >
+                        {load.overLimit && <AlertTriangle size={10} />}
+                        <span>{load.wip}/{load.limit}</span>
+                      </span>
+                      <span className="text-[10px] font-black opacity-40 bg-black/5 px-2 py-0.5 rounded-full">{deptTasks.length}</span>
+                    </div>
                   </div>
-                ) : (
-                  tasks.filter(t => t.department === dept.id).map((task) => (
-                    <div 
-                      key={task.id}
-                      draggable
-                      onDragStart={() => handleDragStart(task.id)}
-                      className="bg-white p-5 rounded-2xl border border-slate-200 shadow-sm group hover:border-blue-400 transition-all cursor-grab active:cursor-grabbing hover:shadow-xl hover:shadow-blue-500/5"
-                    >
-                      <div className="flex items-start justify-between mb-3">
-                        <div className="flex items-center space-x-2">
-                           <div className={`w-1.5 h-1.5 rounded-full ${
-                             task.priority === 'high' ? 'bg-rose-500' : 
-                             task.priority === 'medium' ? 'bg-amber-500' : 'bg-emerald-500'
-                           }`}></div>
-                           <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">
-                             {task.priority}
-                           </span>
-                        </div>
-                        {task.user_id === currentUser && (
-                          <button onClick={() => deleteTask(task)} className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-rose-500 transition-all">
-                            <X size={14} />
-                          </button>
-                        )}
-                      </div>
-                      
-                      <h4 className="text-sm font-black text-slate-900 mb-1 leading-tight tracking-tight">{task.title}</h4>
-                      {task.description && <p className="text-[11px] text-slate-500 font-medium mb-4 line-clamp-2 leading-relaxed">{task.description}</p>}
-                      
-                      <div className="flex items-center justify-between pt-4 border-t border-slate-50">
-                        <div className="flex items-center space-x-2">
-                          <div className="flex -space-x-1">
-                            <div className="w-6 h-6 rounded-lg bg-slate-100 overflow-hidden border border-white flex items-center justify-center ring-1 ring-slate-200">
-                              {task.creator?.avatar_url ? (
-                                <img src={task.creator.avatar_url} className="w-full h-full object-cover" />
-                              ) : (
-                                <User size={10} className="text-slate-400" />
-                              )}
-                            </div>
-                            {task.assignee && (
-                              <div className="w-6 h-6 rounded-lg bg-blue-100 overflow-hidden border border-white flex items-center justify-center ring-1 ring-blue-200">
-                                {task.assignee.avatar_url ? (
-                                  <img src={task.assignee.avatar_url} className="w-full h-full object-cover" />
-                                ) : (
-                                  <User size={10} className="text-blue-400" />
-                                )}
-                              </div>
-                            )}
-                          </div>
-                          <div className="flex flex-col">
-                            <span className="text-[9px] font-black text-slate-900 uppercase tracking-tight truncate max-w-[60px]">
-                              {task.assignee?.full_name || task.creator?.full_name || 'System'}
-                            </span>
-                            <span className="text-[7px] text-slate-400 font-bold uppercase tracking-widest">
-                              {task.assignee ? 'Operator' : 'Owner'}
-                            </span>
+
+                  <div className="flex-1 bg-slate-200/30 rounded-[2rem] p-3 border-2 border-dashed border-slate-200/50 space-y-4 min-h-[500px]">
+                    {loading ? (
+                      <div className="flex items-center justify-center h-20"><Loader2 className="animate-spin text-slate-300" /></div>
+                    ) : TASK_STATUSES.map(status => {
+                      const laneTasks = getLane(deptTasks, dept.id, status.id);
+                      return (
+                        <div
+                          key={status.id}
+                          onDragOver={handleDragOver}
+                          onDrop={(e) => handleDrop(e, dept.id, status.id)}
+                          className={`rounded-[1.5rem] p-2 space-y-3 min-h-[120px] border-2 border-transparent transition-colors hover:border-blue-200/50 ${
+                            status.id === 'in_progress' && load.overLimit ? 'bg-rose-50/60' : ''
+                          }`}
+                        >
+                          <div className="flex items-center justify-between px-2">
+                            <span className={`text-[9px] font-black uppercase tracking-[0.2em] ${status.color}`}>{status.label}</span>
+                            <span className="text-[9px] font-black text-slate-300">{laneTasks.length}</span>
                           </div>
+                          {laneTasks.length === 0 ? (
+                            <div className="flex items-center justify-center py-6 text-center">
+                              <p className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{status.id === 'todo' ? 'Zone Idle' : 'Empty'}</p>
+                            </div>
+                          ) : laneTasks.map(renderCard)}
                         </div>
-                        {task.sku_ref && (
-                          <div className="flex items-center space-x-1 px-2 py-1 bg-slate-50 rounded-lg border border-slate-200">
-                             <Package size={10} className="text-slate-400" />
-                             <span className="text-[9px] font-mono font-black text-slate-500">{task.sku_ref}</span>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  ))
-                )}
-              </div>
-            </div>
-          ))}
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
         </div>
-      </div>
+      )}
+
+      {showScan && (
+        <TaskScanPanel
+          tasks={tasks}
+          departments={DEPARTMENTS}
+          onMove={(task, dept, status) => moveTask(task, dept, status, null)}
+          onClose={() => setShowScan(false)}
+        />
+      )}
 
       {showAddModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-300">
@@ -361,15 +788,47 @@ const Tasks: React.FC = () => {
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] ml-2">Asset Sync (SKU)</label>
                   <select
                     value={newTask.sku_ref}
-                    onChange={(e) => setNewTask({...newTask, sku_ref: e.target.value})}
+                    onChange={(e) => setNewTask({...newTask, sku_ref: e.target.value, variant_skus: []})}
                     className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-sm font-black cursor-pointer"
                   >
                     <option value="">None</option>
-                    {inventory.map(inv => <option key={inv.sku} value={inv.sku}>{inv.sku} - {inv.name}</option>)}
+                    {styles.length > 0 && (
+                      <optgroup label="Styles">
+                        {styles.map(style => <option key={style.id} value={style.code}>{style.code} - {style.name}</option>)}
+                      </optgroup>
+                    )}
+                    <optgroup label="Items">
+                      {inventory.filter(inv => !inv.style_id).map(inv => <option key={inv.sku} value={inv.sku}>{inv.sku} - {inv.name}</option>)}
+                    </optgroup>
                   </select>
                 </div>
               </div>
 
+              {newTaskStyle && newTaskVariants.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] ml-2">
+                    Variants ({newTask.variant_skus?.length ? `${newTask.variant_skus.length} selected` : 'whole style'})
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {newTaskVariants.map(v => {
+                      const active = newTask.variant_skus?.includes(v.sku);
+                      return (
+                        <button
+                          type="button"
+                          key={v.id}
+                          onClick={() => toggleNewTaskVariant(v.sku)}
+                          className={`px-3 py-2 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all ${
+                            active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'
+                          }`}
+                        >
+                          {v.color} / {v.size}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] ml-2">Briefing Notes</label>
                 <textarea
@@ -402,6 +861,86 @@ const Tasks: React.FC = () => {
           </div>
         </div>
       )}
+
+      {scheduleTaskId && tasks.some(t => t.id === scheduleTaskId) && (
+        <TaskScheduleModal
+          task={tasks.find(t => t.id === scheduleTaskId)!}
+          tasks={tasks}
+          dependencies={dependencies}
+          onClose={() => setScheduleTaskId(null)}
+          onChanged={() => {
+            const supabase = getSupabaseClient();
+            fetchTasks();
+            if (supabase) fetchDependencies(supabase).then(setDependencies).catch(() => {});
+          }}
+        />
+      )}
+
+      {detailTaskId && tasks.some(t => t.id === detailTaskId) && (
+        <TaskDetailPanel
+          key={detailTaskId}
+          task={tasks.find(t => t.id === detailTaskId)!}
+          teamMembers={teamMembers}
+          currentUser={currentUser}
+          canEdit={can(profile, 'tasks.write')}
+          onClose={() => setDetailTaskId(null)}
+          onChanged={fetchTasks}
+          onOpenMessage={onOpenMessage}
+          onComposeMessage={onComposeMessage}
+        />
+      )}
+
+      {limitDraft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-md animate-in fade-in duration-300">
+          <div className="bg-white w-full max-w-md rounded-[2.5rem] shadow-2xl overflow-hidden border border-white/20">
+            <div className="bg-slate-900 p-8 flex items-center justify-between text-white">
+              <div>
+                <h3 className="font-black text-xl tracking-tight">WIP Limits</h3>
+                <p className="text-slate-400 text-[10px] font-black mt-1 uppercase tracking-[0.2em]">Max In-Progress per Department</p>
+              </div>
+              <button onClick={() => setLimitDraft(null)} className="text-slate-400 hover:text-white transition-colors p-2 bg-white/5 rounded-xl">
+                <X size={24} />
+              </button>
+            </div>
+            <form onSubmit={handleSaveLimits} className="p-8 space-y-4">
+              {DEPARTMENTS.map(dept => (
+                <div key={dept.id} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3 text-slate-700">
+                    {dept.icon}
+                    <span className="text-xs font-black uppercase tracking-widest">{dept.label}</span>
+                    <span className="text-[9px] font-black text-slate-300">{wipLoad[dept.id].wip} active</span>
+                  </div>
+                  <input
+                    type="number"
+                    min={1}
+                    required
+                    value={limitDraft[dept.id]}
+                    onChange={e => setLimitDraft({ ...limitDraft, [dept.id]: parseInt(e.target.value) || 0 })}
+                    className="w-24 px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl text-sm font-black text-right outline-none focus:ring-4 focus:ring-blue-500/10"
+                  />
+                </div>
+              ))}
+              <button type="submit" disabled={isSaving} className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs tracking-widest hover:bg-slate-800 transition-all flex items-center justify-center space-x-2 disabled:opacity-50">
+                {isSaving ? <Loader2 className="animate-spin" size={16} /> : <CheckCircle2 size={16} />}
+                <span>Save Limits</span>
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {activeWorkOrder && workOrders.some(w => w.id === activeWorkOrder.id) && (
+        <WorkOrderPanel
+          key={`${activeWorkOrder.id}-${activeWorkOrder.stage || ''}`}
+          workOrder={workOrders.find(w => w.id === activeWorkOrder.id)!}
+          locations={locations}
+          initialStage={activeWorkOrder.stage}
+          canRecord={can(profile, 'production.record')}
+          canManage={can(profile, 'production.write')}
+          onClose={() => setActiveWorkOrder(null)}
+          onChanged={() => { fetchProduction(); fetchTasks(); }}
+        />
+      )}
     </div>
   );
 };
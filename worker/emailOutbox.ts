@@ -0,0 +1,136 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { MailTransport, OutboundMail, isPermanentFailure, permanentFailure } from '../lib/mailTransport';
+import { DeliveryJob, claimDueDeliveries, recordDeliveryAttempt } from '../lib/emailOutbox';
+import { isValidAddress, recipientAddresses } from '../lib/emailRecipients';
+import { notifyUsers } from '../lib/notifications';
+import { addressOf, formatAddress } from './mime';
+import { createSmtpTransport } from './smtpTransport';
+
+/**
+ * Outbox worker: sends the emails the Comms Node queues. Runs under the service role, outside any operator session.
+ *
+ *   npm run outbox            poll until stopped
+ *   npm run outbox -- --once  one pass, for cron
+ */
+
+const BATCH_SIZE = 20;
+const POLL_INTERVAL_MS = 15 * 1000;
+
+const env = (name: string, fallback?: string) => {
+  const value = process.env[name] || fallback;
+  if (value === undefined) throw new Error(`${name} is not set.`);
+  return value;
+};
+
+// Prints instead of sending, for running the worker without a relay
+const createLogTransport = (): MailTransport => ({
+  name: 'log',
+  send: async (mail) => {
+    console.log(`[outbox] would send "${mail.subject}" to ${mail.to.join(', ')} (${mail.attachments.length} attachments)`);
+    return { response: 'logged' };
+  }
+});
+
+const createTransport = (): MailTransport => {
+  const kind = env('MAIL_TRANSPORT', 'smtp');
+  if (kind === 'log') return createLogTransport();
+  if (kind !== 'smtp') throw new Error(`Unknown MAIL_TRANSPORT "${kind}"; use smtp or log.`);
+  return createSmtpTransport({
+    host: env('SMTP_HOST'),
+    port: Number(env('SMTP_PORT', '587')),
+    secure: env('SMTP_SECURE', 'false') === 'true',
+    requireTls: env('SMTP_REQUIRE_TLS', 'false') === 'true',
+    allowPlaintextAuth: env('SMTP_ALLOW_PLAINTEXT_AUTH', 'false') === 'true',
+    allowInvalidCertificates: env('SMTP_ALLOW_INVALID_CERTS', 'false') === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS
+  });
+};
+
+/**
+ * Each recipient gets its own envelope, so a refused address fails alone and Bcc copies stay out of everyone's headers.
+ * Stored attachments are public URLs; a fetch failure is transient, so the attempt is retried like any other.
+ */
+const buildOutboundMail = async ({ email, address }: DeliveryJob, from: string): Promise<OutboundMail> => {
+  // Addresses go into the envelope and headers verbatim, so one that slipped past the compose form never reaches the relay
+  if (!isValidAddress(address)) throw permanentFailure(`"${address}" is not a valid address.`);
+  const attachments = await Promise.all((email.attachments || []).map(async a => {
+    const response = await fetch(a.url);
+    if (!response.ok) throw new Error(`Attachment ${a.name} could not be fetched (${response.status}).`);
+    return { filename: a.name, contentType: a.type, content: new Uint8Array(await response.arrayBuffer()) };
+  }));
+  // Message ids are derived from row ids, so the ids of earlier messages in the thread are known without storing them
+  const messageIdOf = (id: string) => `${id}@${addressOf(from).split('@')[1] || 'localhost'}`;
+  const references = email.in_reply_to
+    ? Array.from(new Set([email.thread_id || email.in_reply_to, email.in_reply_to])).map(messageIdOf)
+    : undefined;
+  return {
+    messageId: messageIdOf(email.id),
+    inReplyTo: email.in_reply_to ? messageIdOf(email.in_reply_to) : undefined,
+    references,
+    from,
+    replyTo: email.sender?.email ? formatAddress(email.sender.full_name, email.sender.email) : undefined,
+    to: recipientAddresses(email, 'to').filter(isValidAddress),
+    cc: recipientAddresses(email, 'cc').filter(isValidAddress),
+    envelope: [address],
+    subject: email.subject,
+    text: email.body,
+    attachments
+  };
+};
+
+const deliver = async (supabase: SupabaseClient, transport: MailTransport, job: DeliveryJob, from: string) => {
+  const { email } = job;
+  try {
+    const mail = await buildOutboundMail(job, from);
+    const { response } = await transport.send(mail);
+    await recordDeliveryAttempt(supabase, job, { messageId: mail.messageId });
+    console.log(`[outbox] ${email.id} sent to ${job.address}: ${response}`);
+  } catch (err: any) {
+    const status = await recordDeliveryAttempt(supabase, job, { error: err.message, permanent: isPermanentFailure(err) });
+    console.warn(`[outbox] ${email.id} to ${job.address} attempt ${(job.attempt_count || 0) + 1} failed (${status}): ${err.message}`);
+    if (status === 'failed') {
+      await notifyUsers(supabase, [email.user_id], {
+        kind: 'delivery_failed',
+        title: email.subject || '(No subject)',
+        body: `Could not reach ${job.address}: ${err.message}`,
+        link_view: 'emails',
+        entity_id: email.id,
+        org_id: email.org_id
+      });
+    }
+  }
+};
+
+const main = async () => {
+  const supabase = createClient(env('SUPABASE_URL'), env('SUPABASE_SERVICE_ROLE_KEY'), { auth: { persistSession: false } });
+  const transport = createTransport();
+  const from = env('MAIL_FROM');
+  const once = process.argv.includes('--once');
+  let stopping = false;
+  // Finish the message in hand rather than leave it leased until the claim expires
+  ['SIGINT', 'SIGTERM'].forEach(signal => process.on(signal, () => { stopping = true; }));
+
+  console.log(`[outbox] delivering through ${transport.name}`);
+  while (!stopping) {
+    let claimed = 0;
+    try {
+      const due = await claimDueDeliveries(supabase, BATCH_SIZE);
+      claimed = due.length;
+      for (const job of due) {
+        if (stopping) break;
+        await deliver(supabase, transport, job, from);
+      }
+    } catch (err: any) {
+      console.error('[outbox] queue error:', err.message);
+    }
+    if (once) break;
+    // A full batch suggests a backlog, so go straight back for more
+    if (claimed < BATCH_SIZE) await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+};
+
+main().catch(err => {
+  console.error('[outbox]', err.message);
+  process.exit(1);
+});
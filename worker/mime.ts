@@ -0,0 +1,82 @@
+import { randomUUID } from 'node:crypto';
+import { OutboundMail } from '../lib/mailTransport';
+
+const isAscii = (text: string) => /^[\x20-\x7e]*$/.test(text);
+
+// Base64 bodies keep the message 7-bit clean whatever the text holds, so no server needs 8BITMIME
+const base64Lines = (content: Uint8Array | string) =>
+  (Buffer.from(content).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+
+/**
+ * RFC 2047 encoded words for non-ASCII header text. Each word carries at most 45 bytes so it stays under 75 characters,
+ * and is split on character boundaries so no UTF-8 sequence straddles two words.
+ */
+export const encodeHeaderText = (text: string) => {
+  if (isAscii(text)) return text;
+  const words: string[] = [];
+  let chunk = '';
+  Array.from(text).forEach(ch => {
+    if (Buffer.byteLength(chunk + ch) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += ch;
+  });
+  if (chunk) words.push(chunk);
+  return words.map(w => `=?UTF-8?B?${Buffer.from(w).toString('base64')}?=`).join('\r\n ');
+};
+
+// "Jane Doe" + jane@x -> "Jane Doe" <jane@x>
+export const formatAddress = (name: string | undefined, address: string) =>
+  name ? `${isAscii(name) ? `"${name.replace(/["\\]/g, '\\$&')}"` : encodeHeaderText(name)} <${address}>` : address;
+
+// The bare address of a "Name <address>" header value, as the SMTP envelope wants it
+export const addressOf = (value: string) => (value.match(/<([^>]+)>/)?.[1] || value).trim();
+
+const filenameParams = (filename: string) => isAscii(filename)
+  ? `filename="${filename.replace(/["\\]/g, '_')}"`
+  : `filename*=UTF-8''${encodeURIComponent(filename)}`;
+
+export const buildMimeMessage = (mail: OutboundMail): string => {
+  const headers = [
+    `From: ${mail.from}`,
+    // A message sent only to Bcc recipients still needs a To header (RFC 5322 3.6.3)
+    `To: ${mail.to.length ? mail.to.join(', ') : 'undisclosed-recipients:;'}`,
+    ...(mail.cc?.length ? [`Cc: ${mail.cc.join(', ')}`] : []),
+    ...(mail.replyTo ? [`Reply-To: ${mail.replyTo}`] : []),
+    `Subject: ${encodeHeaderText(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${mail.messageId}>`,
+    ...(mail.inReplyTo ? [`In-Reply-To: <${mail.inReplyTo}>`] : []),
+    ...(mail.references?.length ? [`References: ${mail.references.map(id => `<${id}>`).join(' ')}`] : []),
+    'MIME-Version: 1.0'
+  ];
+  const textPart = [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    // Text parts are canonically CRLF-delimited
+    base64Lines(mail.text.replace(/\r?\n/g, '\r\n'))
+  ];
+
+  if (mail.attachments.length === 0) return [...headers, ...textPart].join('\r\n');
+
+  const boundary = `----=_Part_${randomUUID()}`;
+  const parts = [
+    textPart.join('\r\n'),
+    ...mail.attachments.map(a => [
+      `Content-Type: ${a.contentType || 'application/octet-stream'}`,
+      `Content-Disposition: attachment; ${filenameParams(a.filename)}`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      base64Lines(a.content)
+    ].join('\r\n'))
+  ];
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    ...parts.map(part => `--${boundary}\r\n${part}`),
+    `--${boundary}--`
+  ].join('\r\n');
+};
@@ -0,0 +1,175 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { MailTransport, OutboundMail, permanentFailure } from '../lib/mailTransport';
+import { addressOf, buildMimeMessage } from './mime';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS from the first byte (usually port 465); otherwise STARTTLS is used whenever the server offers it
+  secure?: boolean;
+  // Refuse to send over a connection that could not be upgraded to TLS
+  requireTls?: boolean;
+  // Credentials are only ever sent over TLS unless this is set, for relays on a trusted network that cannot do TLS
+  allowPlaintextAuth?: boolean;
+  // For local catchers and test relays with self-signed certificates
+  allowInvalidCertificates?: boolean;
+  user?: string;
+  pass?: string;
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Collects server replies from whichever socket is current; STARTTLS swaps the plain socket for the TLS one mid-session.
+ * A reply ends at the line whose code is followed by a space instead of a hyphen.
+ */
+const createReplyReader = () => {
+  let socket: net.Socket | null = null;
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let waiter: ((reply: SmtpReply | Error) => void) | null = null;
+
+  const settle = () => {
+    const next = replies.shift() || failure;
+    if (!waiter || !next) return;
+    const resolve = waiter;
+    waiter = null;
+    resolve(next);
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, end).replace(/\r$/, '');
+      buffer = buffer.slice(end + 1);
+      lines.push(line.slice(4));
+      if (/^\d{3}(?: |$)/.test(line)) {
+        replies.push({ code: Number(line.slice(0, 3)), lines });
+        lines = [];
+      }
+    }
+    settle();
+  };
+  const onError = (err: Error) => {
+    failure = err;
+    settle();
+  };
+  const onClose = () => onError(failure || new Error("SMTP server closed the connection."));
+
+  return {
+    use: (next: net.Socket) => {
+      socket?.off('data', onData).off('error', onError).off('close', onClose);
+      socket = next.on('data', onData).on('error', onError).on('close', onClose);
+    },
+    read: () => new Promise<SmtpReply>((resolve, reject) => {
+      waiter = reply => reply instanceof Error ? reject(reply) : resolve(reply);
+      settle();
+    })
+  };
+};
+
+const connect = (config: SmtpConfig): Promise<net.Socket> => new Promise((resolve, reject) => {
+  const socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host, rejectUnauthorized: !config.allowInvalidCertificates })
+    : net.connect({ host: config.host, port: config.port });
+  socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+    socket.off('error', reject);
+    resolve(socket);
+  });
+  socket.once('error', reject);
+});
+
+const upgradeToTls = (socket: net.Socket, config: SmtpConfig): Promise<net.Socket> => new Promise((resolve, reject) => {
+  const secured = tls.connect({ socket, servername: config.host, rejectUnauthorized: !config.allowInvalidCertificates });
+  secured.once('secureConnect', () => {
+    secured.off('error', reject);
+    resolve(secured);
+  });
+  secured.once('error', reject);
+});
+
+// A line starting with a dot would end DATA early, so every such line gets a second dot (RFC 5321 4.5.2)
+const dotStuff = (message: string) => message.replace(/^\./, '..').replace(/\r\n\./g, '\r\n..');
+
+export const createSmtpTransport = (config: SmtpConfig): MailTransport => ({
+  name: `smtp://${config.host}:${config.port}`,
+  send: async (mail: OutboundMail) => {
+    const timeout = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    const clientName = config.clientName || os.hostname();
+    const reader = createReplyReader();
+    let socket = await connect(config);
+    const armTimeout = (s: net.Socket) => s.setTimeout(timeout, () => s.destroy(new Error(`SMTP server did not answer within ${timeout / 1000}s.`)));
+    armTimeout(socket);
+    reader.use(socket);
+
+    // Rejections of the envelope or content are the message's fault and final; anything earlier is the relay's and worth a retry
+    const command = async (label: string, line: string | null, expect: number[], finalOn5xx = false) => {
+      if (line !== null) socket.write(line + '\r\n');
+      const reply = await reader.read();
+      if (!expect.includes(reply.code)) {
+        const detail = `SMTP ${label} rejected: ${reply.code} ${reply.lines.join(' ')}`.trim();
+        throw finalOn5xx && reply.code >= 500 ? permanentFailure(detail) : new Error(detail);
+      }
+      return reply;
+    };
+    const extensionsOf = (reply: SmtpReply) => reply.lines.slice(1).map(l => l.toUpperCase());
+
+    try {
+      await command('greeting', null, [220]);
+      let extensions = extensionsOf(await command('EHLO', `EHLO ${clientName}`, [250]));
+      let encrypted = !!config.secure;
+
+      if (!encrypted && extensions.some(e => e.startsWith('STARTTLS'))) {
+        await command('STARTTLS', 'STARTTLS', [220]);
+        socket = await upgradeToTls(socket, config);
+        armTimeout(socket);
+        reader.use(socket);
+        encrypted = true;
+        extensions = extensionsOf(await command('EHLO', `EHLO ${clientName}`, [250]));
+      } else if (!encrypted && config.requireTls) {
+        throw new Error(`${config.host} does not offer STARTTLS.`);
+      }
+
+      if (config.user) {
+        if (!encrypted && !config.allowPlaintextAuth) {
+          throw new Error(`${config.host} does not offer STARTTLS; refusing to send credentials in cleartext.`);
+        }
+        const auth = extensions.find(e => e.startsWith('AUTH'));
+        if (auth && /\bPLAIN\b/.test(auth)) {
+          const token = Buffer.from(`\u0000${config.user}\u0000${config.pass || ''}`).toString('base64');
+          await command('AUTH', `AUTH PLAIN ${token}`, [235]);
+        } else if (auth && /\bLOGIN\b/.test(auth)) {
+          await command('AUTH', 'AUTH LOGIN', [334]);
+          await command('AUTH', Buffer.from(config.user).toString('base64'), [334]);
+          await command('AUTH', Buffer.from(config.pass || '').toString('base64'), [235]);
+        } else {
+          throw new Error(`${config.host} offers no supported AUTH mechanism.`);
+        }
+      }
+
+      await command('MAIL FROM', `MAIL FROM:<${addressOf(mail.from)}>`, [250], true);
+      for (const recipient of mail.envelope || [...mail.to, ...(mail.cc || [])]) {
+        await command('RCPT TO', `RCPT TO:<${addressOf(recipient)}>`, [250, 251], true);
+      }
+      await command('DATA', 'DATA', [354], true);
+      const accepted = await command('DATA', `${dotStuff(buildMimeMessage(mail))}\r\n.`, [250], true);
+
+      // The message is accepted at this point; a relay that drops the connection instead of answering QUIT changes nothing
+      await command('QUIT', 'QUIT', [221]).catch(() => undefined);
+      return { response: `${accepted.code} ${accepted.lines.join(' ')}` };
+    } finally {
+      socket.destroy();
+    }
+  }
+});